@@ -0,0 +1,203 @@
+/**
+ * Registration Status Server Actions
+ *
+ * Admin changes to registration statuses from the registrations table:
+ * confirming, cancelling (with a reason) and reinstating, one registration
+ * or many at once. Re-checks on the server that the caller is an admin;
+ * set_registration_status() in the database enforces the same rule. Also
+ * saves, updates and deletes the admin's saved views of the table
+ * (lib/admin-views).
+ *
+ * @module app/admin/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getAdminSession } from "@/lib/admin"
+import { STATUS_ACTIONS, type RegistrationStatus, type StatusAction } from "@/lib/registrations"
+import { adminViewSchema, toViewParams, type AdminView, type AdminViewFormData } from "@/lib/admin-views"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Longest reason accepted, in characters
+ */
+const MAX_REASON_LENGTH = 500
+
+/**
+ * Result returned by updateRegistrationStatus
+ */
+export interface StatusUpdateResult extends ActionResult {
+  /** The registrations that changed and their new status; others were skipped */
+  updated?: { id: string; status: RegistrationStatus }[]
+}
+
+/**
+ * Result returned by saveAdminView
+ */
+export interface SaveViewResult extends ActionResult {
+  /** The saved view */
+  view?: AdminView
+}
+
+/**
+ * Confirms, cancels or reinstates registrations
+ *
+ * Registrations the action does not apply to (e.g. confirming a cancelled
+ * registration) are skipped. Each participant whose registration changed
+ * is notified, with the reason if one was given.
+ *
+ * @param {string[]} registrationIds - The registrations to change
+ * @param {StatusAction} action - The change to make
+ * @param {string} [reason] - Why; required to cancel, shown to the participant
+ * @returns {Promise<StatusUpdateResult>} The changed registrations, or an error message
+ */
+export async function updateRegistrationStatus(
+  registrationIds: string[],
+  action: StatusAction,
+  reason?: string
+): Promise<StatusUpdateResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can change registration statuses" }
+  }
+
+  if (!Object.hasOwn(STATUS_ACTIONS, action)) {
+    return { error: "Unknown status change" }
+  }
+
+  if (registrationIds.length === 0) {
+    return { error: "Select at least one registration" }
+  }
+
+  const trimmedReason = reason?.trim() ?? ""
+  if (action === "cancel" && !trimmedReason) {
+    return { error: "Please give a reason for cancelling" }
+  }
+  if (trimmedReason.length > MAX_REASON_LENGTH) {
+    return { error: `Please keep the reason under ${MAX_REASON_LENGTH} characters` }
+  }
+
+  const { data, error } = await admin.supabase.rpc("set_registration_status", {
+    p_ids: registrationIds,
+    p_action: action,
+    p_reason: trimmedReason || null,
+  })
+
+  if (error) {
+    console.error("Error updating registration status:", error)
+    return { error: error.message || "We couldn't update the registrations" }
+  }
+
+  revalidatePath("/admin")
+  revalidatePath("/dashboard")
+  return { updated: (data as { id: string; status: RegistrationStatus }[] | null) ?? [] }
+}
+
+/**
+ * Saves the admin table's current layout as a new named view
+ *
+ * @param {AdminViewFormData} data - The view's name and whether every admin can open it
+ * @param {string} params - The table's URL search parameters (only those a view keeps are saved)
+ * @returns {Promise<SaveViewResult>} The saved view, or an error message
+ */
+export async function saveAdminView(data: AdminViewFormData, params: string): Promise<SaveViewResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can save views" }
+  }
+
+  const parsed = adminViewSchema.safeParse(data)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? "Please check the view details" }
+  }
+
+  const { data: view, error } = await admin.supabase
+    .from("admin_views")
+    .insert({
+      owner_id: admin.user.id,
+      name: parsed.data.name,
+      shared: parsed.data.shared,
+      params: toViewParams(params),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error saving view:", error)
+    return {
+      error: error.code === "23505" ? "You already have a view with this name" : "We couldn't save the view",
+    }
+  }
+
+  revalidatePath("/admin")
+  return { view: view as AdminView }
+}
+
+/**
+ * Replaces a saved view's columns, filters and sort with the table's
+ * current ones
+ *
+ * RLS only lets admins change their own views.
+ *
+ * @param {string} viewId - The view to update
+ * @param {string} params - The table's URL search parameters
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function updateAdminView(viewId: string, params: string): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can update views" }
+  }
+
+  const { data, error } = await admin.supabase
+    .from("admin_views")
+    .update({ params: toViewParams(params) })
+    .eq("id", viewId)
+    .eq("owner_id", admin.user.id)
+    .select("id")
+
+  if (error) {
+    console.error("Error updating view:", error)
+    return { error: "We couldn't update the view" }
+  }
+  if (!data || data.length === 0) {
+    return { error: "Only the admin who saved this view can change it" }
+  }
+
+  revalidatePath("/admin")
+  return {}
+}
+
+/**
+ * Deletes a saved view
+ *
+ * RLS only lets admins delete their own views.
+ *
+ * @param {string} viewId - The view to delete
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function deleteAdminView(viewId: string): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can delete views" }
+  }
+
+  const { data, error } = await admin.supabase
+    .from("admin_views")
+    .delete()
+    .eq("id", viewId)
+    .eq("owner_id", admin.user.id)
+    .select("id")
+
+  if (error) {
+    console.error("Error deleting view:", error)
+    return { error: "We couldn't delete the view" }
+  }
+  if (!data || data.length === 0) {
+    return { error: "Only the admin who saved this view can delete it" }
+  }
+
+  revalidatePath("/admin")
+  return {}
+}
@@ -0,0 +1,309 @@
+/**
+ * Audit Log Admin Page Component
+ *
+ * Administrative page for browsing the audit log of admin changes.
+ * Features:
+ * - Protected route (requires authentication AND admin role)
+ * - Every change an admin made to registrations, roles, content and
+ *   settings, newest first, with who made it and when
+ * - Changed fields for updates; the full row for creations and deletions
+ * - Filters by area, change, actor email, row id and date range, kept in
+ *   the URL so a view can be bookmarked or shared
+ *
+ * Entries are written by database triggers and cannot be edited or deleted.
+ *
+ * Route: /admin/audit
+ *
+ * @module app/admin/audit/page
+ */
+
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { History } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import AdminNav from "@/components/admin-nav"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  AUDIT_ACTIONS,
+  AUDIT_PAGE_SIZE,
+  AUDIT_TABLES,
+  formatAuditValue,
+  getAuditLog,
+  getChangedFields,
+  type AuditLogEntry,
+  type AuditLogFilters,
+} from "@/lib/audit-log"
+
+/**
+ * Badge colour classes for each kind of change
+ */
+const actionStyles: Record<string, string> = {
+  insert: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+}
+
+/**
+ * Classes shared by the filter select boxes
+ */
+const selectClassName =
+  "w-full h-10 rounded-md border border-input bg-white px-3 py-2 text-sm text-navy focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+/**
+ * Returns a short description of the changed row, e.g. "Jane Doe" for a
+ * registration or "HAPPY20" for a promo code
+ *
+ * @param {AuditLogEntry} entry - An audit log entry
+ * @returns {string | null} The description, or null if the row has no obvious name
+ */
+function describeTarget(entry: AuditLogEntry): string | null {
+  const row = entry.new_data ?? entry.old_data ?? {}
+  const name = row.full_name ?? row.code ?? row.email ?? row.name
+  return typeof name === "string" ? name : null
+}
+
+/**
+ * Builds the URL of another page of the log with the same filters
+ *
+ * @param {AuditLogFilters} filters - The current filters
+ * @param {number} page - The page to link to
+ * @returns {string} The page URL
+ */
+function pageHref(filters: AuditLogFilters, page: number): string {
+  const params = new URLSearchParams()
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) {
+      params.set(key, value)
+    }
+  })
+  params.set("page", String(page))
+  return `/admin/audit?${params.toString()}`
+}
+
+/**
+ * Audit log admin page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (the filters and `page`)
+ * @returns {Promise<JSX.Element>} The rendered audit log page
+ */
+export default async function AdminAuditPage({
+  searchParams,
+}: {
+  searchParams: AuditLogFilters & { page?: string }
+}) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (getUserRole(user) !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const filters: AuditLogFilters = {
+    table: searchParams.table,
+    action: searchParams.action,
+    actor: searchParams.actor,
+    target: searchParams.target,
+    from: searchParams.from,
+    to: searchParams.to,
+  }
+  const page = Math.max(parseInt(searchParams.page ?? "1", 10) || 1, 1)
+  const { entries, total } = await getAuditLog(supabase, filters, page)
+  const pageCount = Math.max(Math.ceil(total / AUDIT_PAGE_SIZE), 1)
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex items-center space-x-3">
+        <div className="bg-orange/10 p-3 rounded-lg">
+          <History className="w-8 h-8 text-orange" />
+        </div>
+        <div>
+          <h1 className="text-4xl md:text-5xl font-bold text-navy">Audit Log</h1>
+          <p className="text-gray-600 text-lg mt-1">Every change made by admins, newest first</p>
+        </div>
+      </div>
+
+      <AdminNav />
+
+      <form
+        method="get"
+        className="bg-white rounded-lg shadow-lg border border-gray-200 p-4 mb-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-7 items-end"
+      >
+        <label className="text-sm font-semibold text-navy space-y-1">
+          <span>Area</span>
+          <select name="table" defaultValue={filters.table ?? ""} className={selectClassName}>
+            <option value="">All areas</option>
+            {Object.entries(AUDIT_TABLES).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-semibold text-navy space-y-1">
+          <span>Change</span>
+          <select name="action" defaultValue={filters.action ?? ""} className={selectClassName}>
+            <option value="">All changes</option>
+            {Object.entries(AUDIT_ACTIONS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm font-semibold text-navy space-y-1">
+          <span>Admin email</span>
+          <Input name="actor" defaultValue={filters.actor} placeholder="jane@" />
+        </label>
+        <label className="text-sm font-semibold text-navy space-y-1">
+          <span>Row ID</span>
+          <Input name="target" defaultValue={filters.target} placeholder="Registration or user ID" />
+        </label>
+        <label className="text-sm font-semibold text-navy space-y-1">
+          <span>From</span>
+          <Input type="date" name="from" defaultValue={filters.from} />
+        </label>
+        <label className="text-sm font-semibold text-navy space-y-1">
+          <span>To</span>
+          <Input type="date" name="to" defaultValue={filters.to} />
+        </label>
+        <div className="flex gap-2">
+          <Button type="submit" className="bg-orange hover:bg-orange/90 text-white font-semibold flex-1">
+            Filter
+          </Button>
+          <Link
+            href="/admin/audit"
+            className="inline-flex items-center px-3 text-sm font-semibold text-navy hover:text-orange"
+          >
+            Clear
+          </Link>
+        </div>
+      </form>
+
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold text-navy">When</TableHead>
+              <TableHead className="font-semibold text-navy">Admin</TableHead>
+              <TableHead className="font-semibold text-navy">Change</TableHead>
+              <TableHead className="font-semibold text-navy">Row</TableHead>
+              <TableHead className="font-semibold text-navy">Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                  No changes match these filters
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => {
+                const changes = getChangedFields(entry)
+                const target = describeTarget(entry)
+
+                return (
+                  <TableRow key={entry.id} className="hover:bg-gray-50 align-top">
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {new Date(entry.created_at).toLocaleString("en-IN", {
+                        dateStyle: "medium",
+                        timeStyle: "short",
+                      })}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.actor_email ?? (
+                        <span className="text-gray-500">{entry.actor_id ? entry.actor_id : "Database / Admin API"}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          actionStyles[entry.action] ?? "bg-gray-100 text-gray-700"
+                        }`}
+                      >
+                        {AUDIT_ACTIONS[entry.action] ?? entry.action}
+                      </span>
+                      <div className="text-sm text-gray-600 mt-1">
+                        {AUDIT_TABLES[entry.target_table] ?? entry.target_table}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {target && <div className="font-semibold text-navy">{target}</div>}
+                      {entry.target_id && (
+                        <Link
+                          href={pageHref({ target: entry.target_id }, 1)}
+                          className="font-mono text-xs text-gray-500 hover:text-orange"
+                        >
+                          {entry.target_id}
+                        </Link>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {changes.length > 0 ? (
+                        <ul className="space-y-1">
+                          {changes.map((change) => (
+                            <li key={change.field}>
+                              <span className="font-mono text-xs text-navy">{change.field}</span>:{" "}
+                              <span className="text-red-700 line-through">{formatAuditValue(change.before)}</span>{" "}
+                              → <span className="text-green-700">{formatAuditValue(change.after)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <details>
+                          <summary className="cursor-pointer text-navy hover:text-orange">
+                            {entry.action === "delete" ? "Deleted row" : "New row"}
+                          </summary>
+                          <pre className="mt-2 max-w-xl overflow-x-auto rounded bg-gray-50 p-2 text-xs">
+                            {JSON.stringify(entry.new_data ?? entry.old_data, null, 2)}
+                          </pre>
+                        </details>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+          <span>
+            Page {page} of {pageCount} ({total} changes)
+          </span>
+          <div className="flex gap-4 font-semibold">
+            {page > 1 && (
+              <Link href={pageHref(filters, page - 1)} className="text-navy hover:text-orange">
+                Newer
+              </Link>
+            )}
+            {page < pageCount && (
+              <Link href={pageHref(filters, page + 1)} className="text-navy hover:text-orange">
+                Older
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+/**
+ * Bib Number Server Actions
+ *
+ * Admin mutations for bib ranges and individual bib numbers. Each action
+ * re-checks on the server that the caller is an admin; RLS and the
+ * database functions enforce the same rule.
+ *
+ * @module app/admin/bibs/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getAdminSession } from "@/lib/admin"
+import { bibRangeSchema, bibRangesOverlap, type BibRangeFormData } from "@/lib/bibs"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Result returned by assignMissingBibNumbers
+ */
+export interface AssignBibsResult extends ActionResult {
+  /** Number of registrations that received a bib */
+  assigned?: number
+}
+
+/**
+ * Adds a bib range to an event
+ *
+ * Ranges of the same event may not overlap, so every number belongs to
+ * exactly one range.
+ *
+ * @param {string} eventId - The event the range belongs to
+ * @param {BibRangeFormData} data - The range form data
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function createBibRange(eventId: string, data: BibRangeFormData): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can manage bib ranges" }
+  }
+
+  const parsed = bibRangeSchema.safeParse(data)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? "Please check the bib range" }
+  }
+
+  const range = { range_start: parsed.data.rangeStart, range_end: parsed.data.rangeEnd }
+
+  const { data: existing } = await admin.supabase
+    .from("bib_ranges")
+    .select("range_start, range_end")
+    .eq("event_id", eventId)
+
+  const clash = (existing ?? []).find((other) => bibRangesOverlap(range, other))
+  if (clash) {
+    return { error: `This range overlaps the existing range ${clash.range_start}-${clash.range_end}` }
+  }
+
+  const { error } = await admin.supabase.from("bib_ranges").insert({
+    event_id: eventId,
+    category_id: parsed.data.categoryId || null,
+    ...range,
+  })
+
+  if (error) {
+    console.error("Error creating bib range:", error)
+    return { error: "We couldn't add the bib range" }
+  }
+
+  revalidatePath("/admin/bibs")
+  return {}
+}
+
+/**
+ * Deletes a bib range
+ *
+ * Bibs already assigned from the range are kept.
+ *
+ * @param {string} rangeId - The range to delete
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function deleteBibRange(rangeId: string): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can manage bib ranges" }
+  }
+
+  const { error } = await admin.supabase.from("bib_ranges").delete().eq("id", rangeId)
+
+  if (error) {
+    console.error("Error deleting bib range:", error)
+    return { error: "We couldn't delete the bib range" }
+  }
+
+  revalidatePath("/admin/bibs")
+  return {}
+}
+
+/**
+ * Assigns bibs to an event's confirmed registrations that have none yet
+ *
+ * @param {string} eventId - The event
+ * @returns {Promise<AssignBibsResult>} The number of bibs assigned, or an error message
+ */
+export async function assignMissingBibNumbers(eventId: string): Promise<AssignBibsResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can assign bib numbers" }
+  }
+
+  const { data, error } = await admin.supabase.rpc("assign_missing_bib_numbers", { p_event_id: eventId })
+
+  if (error) {
+    console.error("Error assigning bib numbers:", error)
+    return { error: "We couldn't assign bib numbers" }
+  }
+
+  revalidatePath("/admin/bibs")
+  revalidatePath("/admin")
+  return { assigned: data ?? 0 }
+}
+
+/**
+ * Overrides a registration's bib number
+ *
+ * Passing null clears the bib; a confirmed registration is then given the
+ * next free bib from its ranges straight away.
+ *
+ * @param {string} registrationId - The registration to update
+ * @param {number | null} bibNumber - The new bib, or null to reassign automatically
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function updateBibNumber(registrationId: string, bibNumber: number | null): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can change bib numbers" }
+  }
+
+  if (bibNumber !== null && (!Number.isInteger(bibNumber) || bibNumber <= 0)) {
+    return { error: "Bib numbers must be positive whole numbers" }
+  }
+
+  const { error } = await admin.supabase
+    .from("registrations")
+    .update({ bib_number: bibNumber })
+    .eq("id", registrationId)
+
+  if (error) {
+    console.error("Error updating bib number:", error)
+    return {
+      error: error.code === "23505" ? `Bib ${bibNumber} is already taken` : "We couldn't update the bib number",
+    }
+  }
+
+  revalidatePath("/admin")
+  return {}
+}
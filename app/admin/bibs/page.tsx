@@ -0,0 +1,176 @@
+/**
+ * Bib Numbers Admin Page Component
+ *
+ * Administrative page for configuring bib number ranges.
+ * Features:
+ * - Protected route (requires authentication AND admin role)
+ * - Scoped to a selected event (`?event=<slug>`, defaults to the next event)
+ * - Bib ranges per race category or for the whole event, with usage
+ * - Add and delete ranges
+ * - Assign bibs to confirmed registrations that have none yet
+ *
+ * Bibs are assigned automatically when a registration is confirmed and can
+ * be overridden per registration in the registrations table.
+ *
+ * Route: /admin/bibs
+ *
+ * @module app/admin/bibs/page
+ */
+
+import { redirect } from "next/navigation"
+import { Hash } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import AdminNav from "@/components/admin-nav"
+import EventSelector from "@/components/event-selector"
+import BibRangeForm from "@/components/bib-range-form"
+import DeleteBibRangeButton from "@/components/delete-bib-range-button"
+import AssignBibsButton from "@/components/assign-bibs-button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { eventTitle, getEventCategories, getEvents, selectEvent } from "@/lib/events"
+import type { BibRange } from "@/lib/bibs"
+
+/**
+ * Bib numbers admin page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`event` selects the event)
+ * @returns {Promise<JSX.Element>} The rendered bib numbers page
+ */
+export default async function BibsPage({
+  searchParams,
+}: {
+  searchParams: { event?: string }
+}) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (getUserRole(user) !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+
+  const [categories, { data: ranges }, { data: bibs }] = selectedEvent
+    ? await Promise.all([
+        getEventCategories(supabase, selectedEvent.id),
+        supabase
+          .from("bib_ranges")
+          .select("id, event_id, category_id, range_start, range_end")
+          .eq("event_id", selectedEvent.id)
+          .order("range_start", { ascending: true }),
+        supabase
+          .from("registrations")
+          .select("bib_number")
+          .eq("event_id", selectedEvent.id)
+          .eq("status", "confirmed"),
+      ])
+    : [[], { data: [] }, { data: [] }]
+
+  const categoryNames = Object.fromEntries(categories.map((category) => [category.id, category.name]))
+  const assignedBibs: number[] = (bibs ?? [])
+    .map((row: { bib_number: number | null }) => row.bib_number)
+    .filter((bib: number | null): bib is number => bib !== null)
+  const missingCount = (bibs ?? []).length - assignedBibs.length
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Hash className="w-8 h-8 text-orange" />
+          </div>
+          <div>
+            <h1 className="text-4xl md:text-5xl font-bold text-navy">Bib Numbers</h1>
+            <p className="text-gray-600 text-lg mt-1">
+              {selectedEvent
+                ? `Bib ranges for ${eventTitle(selectedEvent)}`
+                : "No events have been created yet"}
+            </p>
+          </div>
+        </div>
+        {selectedEvent && (
+          <div className="md:w-80">
+            <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+          </div>
+        )}
+      </div>
+
+      <AdminNav />
+
+      {selectedEvent && (
+        <>
+          <BibRangeForm eventId={selectedEvent.id} categories={categories} />
+
+          <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <p className="text-sm text-gray-600">
+                {assignedBibs.length} confirmed participants have a bib; {missingCount} still need one.
+              </p>
+              <AssignBibsButton eventId={selectedEvent.id} missingCount={missingCount} />
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="font-semibold text-navy">Range</TableHead>
+                    <TableHead className="font-semibold text-navy">Category</TableHead>
+                    <TableHead className="font-semibold text-navy">Assigned</TableHead>
+                    <TableHead className="font-semibold text-navy" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!ranges || ranges.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-8 text-gray-500">
+                        No bib ranges yet. Bibs are assigned once a range is added.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    (ranges as BibRange[]).map((range) => {
+                      const size = range.range_end - range.range_start + 1
+                      const used = assignedBibs.filter(
+                        (bib) => bib >= range.range_start && bib <= range.range_end
+                      ).length
+
+                      return (
+                        <TableRow key={range.id} className="hover:bg-gray-50">
+                          <TableCell className="font-mono font-semibold text-navy">
+                            {range.range_start}-{range.range_end}
+                          </TableCell>
+                          <TableCell>
+                            {range.category_id ? categoryNames[range.category_id] ?? "—" : "Whole event"}
+                          </TableCell>
+                          <TableCell>
+                            {used} / {size}
+                          </TableCell>
+                          <TableCell>
+                            <DeleteBibRangeButton rangeId={range.id} />
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
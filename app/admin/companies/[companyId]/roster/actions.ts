@@ -0,0 +1,118 @@
+/**
+ * Employee Roster Server Actions
+ *
+ * Uploading a company's employee roster and reviewing registrations that
+ * did not match it. Allowed for admins and the company's coordinators;
+ * each action re-checks this on the server, and the database functions
+ * enforce the same rule.
+ *
+ * @module app/admin/companies/[companyId]/roster/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getCompanySession } from "@/lib/admin"
+import { parseRosterCsv, type RejectedRosterRow } from "@/lib/rosters"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Result returned by uploadRoster
+ */
+export interface UploadRosterResult extends ActionResult {
+  /** Number of roster entries stored */
+  imported?: number
+  /** Held registrations that now match the roster and were released */
+  released?: number
+  /** Rows that were not imported, with the reason */
+  rejected?: RejectedRosterRow[]
+}
+
+/**
+ * Revalidates the pages that show roster statuses
+ *
+ * @param {string} companyId - The company whose roster changed
+ */
+function revalidateRoster(companyId: string) {
+  revalidatePath(`/admin/companies/${companyId}/roster`)
+  revalidatePath("/admin/companies")
+  revalidatePath("/admin")
+  revalidatePath("/company")
+}
+
+/**
+ * Replaces a company's employee roster with the contents of a CSV file
+ *
+ * Registrations held for review that match the new roster are released
+ * (and confirmed if nothing is left to pay).
+ *
+ * @param {string} companyId - The company the roster belongs to
+ * @param {string} csvText - Contents of the CSV file
+ * @returns {Promise<UploadRosterResult>} Counts and rejected rows, or an error message
+ */
+export async function uploadRoster(companyId: string, csvText: string): Promise<UploadRosterResult> {
+  const session = await getCompanySession(companyId)
+  if (!session) {
+    return { error: "Only the company's coordinators and admins can upload its roster" }
+  }
+
+  const { entries, rejected, error: parseError } = parseRosterCsv(csvText)
+  if (parseError) {
+    return { error: parseError }
+  }
+
+  if (entries.length === 0) {
+    return { error: "No rows could be read from the file", rejected }
+  }
+
+  const { data, error } = await session.supabase
+    .rpc("replace_employee_roster", { p_company_id: companyId, p_rows: entries })
+    .single()
+
+  if (error) {
+    console.error("Error uploading roster:", error)
+    return { error: "We couldn't save the roster", rejected }
+  }
+
+  const { imported, released } = data as { imported: number; released: number }
+
+  revalidateRoster(companyId)
+  return { imported, released, rejected }
+}
+
+/**
+ * Approves or rejects a registration held because it did not match the
+ * company's roster
+ *
+ * Approving confirms the registration if nothing is left to pay; rejecting
+ * cancels it. The participant is notified either way.
+ *
+ * @param {string} companyId - The registration's company
+ * @param {string} registrationId - The held registration
+ * @param {boolean} approve - True to approve, false to reject
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function reviewRosterMismatch(
+  companyId: string,
+  registrationId: string,
+  approve: boolean
+): Promise<ActionResult> {
+  const session = await getCompanySession(companyId)
+  if (!session) {
+    return { error: "Only the company's coordinators and admins can review its registrations" }
+  }
+
+  const { error } = await session.supabase.rpc("review_roster_mismatch", {
+    p_registration_id: registrationId,
+    p_approve: approve,
+  })
+
+  if (error) {
+    console.error("Error reviewing registration:", error)
+    return { error: error.message || "We couldn't update the registration" }
+  }
+
+  revalidateRoster(companyId)
+  revalidatePath("/dashboard")
+  return {}
+}
@@ -0,0 +1,203 @@
+/**
+ * Employee Roster Admin Page Component
+ *
+ * Administrative page for a company's employee roster and coordinators.
+ * Features:
+ * - Protected route (requires authentication AND admin role)
+ * - Add or remove the company's coordinators, who use the company portal
+ * - Upload the company's roster CSV (employee ID and email), replacing
+ *   the previous one, with a report of skipped rows
+ * - Registrations held because they did not match the roster, with
+ *   Approve and Reject buttons
+ *
+ * Route: /admin/companies/[companyId]/roster
+ *
+ * @module app/admin/companies/[companyId]/roster/page
+ */
+
+import Link from "next/link"
+import { notFound, redirect } from "next/navigation"
+import { ArrowLeft, Briefcase, ClipboardList } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import AdminNav from "@/components/admin-nav"
+import CompanyCoordinators, { type CoordinatorAccount } from "@/components/company-coordinators"
+import CompanyLogo from "@/components/company-logo"
+import RosterReviewButtons from "@/components/roster-review-buttons"
+import RosterUploadForm from "@/components/roster-upload-form"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { eventTitle } from "@/lib/events"
+import type { RosterReviewItem } from "@/lib/rosters"
+
+/**
+ * Employee roster admin page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.params - Route parameters (`companyId` selects the company)
+ * @returns {Promise<JSX.Element>} The rendered roster page
+ */
+export default async function CompanyRosterPage({ params }: { params: { companyId: string } }) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (getUserRole(user) !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const { data: company } = await supabase
+    .from("companies")
+    .select("id, name, logo_url")
+    .eq("id", params.companyId)
+    .maybeSingle()
+
+  if (!company) {
+    notFound()
+  }
+
+  const [{ count: rosterSize }, { data: latestEntry }, { data: held, error }, { data: coordinators }] = await Promise.all([
+    supabase.from("employee_rosters").select("id", { count: "exact", head: true }).eq("company_id", company.id),
+    supabase
+      .from("employee_rosters")
+      .select("created_at")
+      .eq("company_id", company.id)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("registrations")
+      .select("id, full_name, corporate_email, employee_id, status, registration_date, event:events(name, edition)")
+      .eq("company_id", company.id)
+      .eq("roster_status", "pending_review")
+      .order("registration_date"),
+    supabase.rpc("company_coordinator_accounts", { p_company_id: company.id }),
+  ])
+
+  if (error) {
+    console.error("Error fetching held registrations:", error)
+  }
+
+  const heldRegistrations = (held as RosterReviewItem[] | null) ?? []
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex items-center space-x-3">
+        <div className="bg-orange/10 p-3 rounded-lg">
+          <ClipboardList className="w-8 h-8 text-orange" />
+        </div>
+        <div>
+          <h1 className="text-4xl md:text-5xl font-bold text-navy inline-flex items-center gap-3">
+            <CompanyLogo name={company.name} logoUrl={company.logo_url} />
+            {company.name}
+          </h1>
+          <p className="text-gray-600 text-lg mt-1">
+            {rosterSize
+              ? `${rosterSize} employees on the roster${
+                  latestEntry
+                    ? `, uploaded ${new Date(latestEntry.created_at).toLocaleDateString("en-US", {
+                        year: "numeric",
+                        month: "long",
+                        day: "numeric",
+                      })}`
+                    : ""
+                }`
+              : "No roster uploaded; registrations are not checked"}
+          </p>
+        </div>
+      </div>
+
+      <AdminNav />
+
+      <div className="flex items-center gap-6 mb-6">
+        <Link
+          href="/admin/companies"
+          className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          All companies
+        </Link>
+        <Link
+          href={`/company?company=${company.id}`}
+          className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange"
+        >
+          <Briefcase className="w-4 h-4 mr-1" />
+          Company portal
+        </Link>
+      </div>
+
+      <CompanyCoordinators
+        companyId={company.id}
+        coordinators={(coordinators as CoordinatorAccount[] | null) ?? []}
+      />
+
+      <RosterUploadForm companyId={company.id} />
+
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 overflow-x-auto">
+        <div className="p-6 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-navy">Waiting for Review</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            These registrations did not match the roster and stay pending until approved. Rejecting cancels the
+            registration.
+          </p>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold text-navy">Name</TableHead>
+              <TableHead className="font-semibold text-navy">Employee ID</TableHead>
+              <TableHead className="font-semibold text-navy">Corporate Email</TableHead>
+              <TableHead className="font-semibold text-navy">Event</TableHead>
+              <TableHead className="font-semibold text-navy">Registered</TableHead>
+              <TableHead className="font-semibold text-navy" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {heldRegistrations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                  No registrations waiting for review
+                </TableCell>
+              </TableRow>
+            ) : (
+              heldRegistrations.map((registration) => (
+                <TableRow key={registration.id} className="hover:bg-gray-50">
+                  <TableCell className="font-semibold text-navy">{registration.full_name}</TableCell>
+                  <TableCell className="font-mono">{registration.employee_id}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{registration.corporate_email}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {registration.event ? eventTitle(registration.event) : "—"}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {new Date(registration.registration_date).toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </TableCell>
+                  <TableCell>
+                    <RosterReviewButtons
+                      companyId={company.id}
+                      registrationId={registration.id}
+                      name={registration.full_name}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+/**
+ * Company Directory Server Actions
+ *
+ * Admin mutations for the company directory: creating and editing
+ * companies, merging duplicates, and choosing each company's coordinators.
+ * Each action re-checks on the server that the caller is an admin; RLS and
+ * the database functions enforce the same rule.
+ *
+ * @module app/admin/companies/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getAdminSession } from "@/lib/admin"
+import { companySchema, parseList, type CompanyFormData } from "@/lib/companies"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Result returned by mergeCompanies
+ */
+export interface MergeCompaniesResult extends ActionResult {
+  /** Number of registrations moved to the target company */
+  moved?: number
+}
+
+/**
+ * Revalidates the pages that show company names
+ */
+function revalidateCompanies() {
+  revalidatePath("/admin/companies")
+  revalidatePath("/admin/leaderboard")
+  revalidatePath("/admin")
+  revalidatePath("/leaderboard")
+}
+
+/**
+ * Creates a company, or updates one when companyId is given
+ *
+ * Renaming a company also renames it on its registrations. The name and
+ * aliases may not match another company; merge the two instead.
+ *
+ * @param {string | null} companyId - The company to update, or null to create one
+ * @param {CompanyFormData} data - The company form data
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function saveCompany(companyId: string | null, data: CompanyFormData): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can manage companies" }
+  }
+
+  const parsed = companySchema.safeParse(data)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? "Please check the company details" }
+  }
+
+  const aliases = parseList(parsed.data.aliases)
+  const emailDomains = parseList(parsed.data.emailDomains).map((domain) => domain.toLowerCase())
+
+  if (parsed.data.requireEmailDomain && emailDomains.length === 0) {
+    return { error: "Add an email domain before requiring it" }
+  }
+
+  // Names already matched to another company would make matching ambiguous
+  for (const name of [parsed.data.name, ...aliases]) {
+    const { data: existingId } = await admin.supabase.rpc("find_company", { p_name: name })
+    if (existingId && existingId !== companyId) {
+      const { data: existing } = await admin.supabase.from("companies").select("name").eq("id", existingId).single()
+      return { error: `"${name}" already belongs to ${existing?.name ?? "another company"}. Merge the companies instead.` }
+    }
+  }
+
+  const company = {
+    name: parsed.data.name,
+    aliases,
+    email_domains: emailDomains,
+    require_email_domain: !!parsed.data.requireEmailDomain,
+    logo_url: parsed.data.logoUrl || null,
+    headcount: parsed.data.headcount ?? null,
+  }
+
+  const { error } = companyId
+    ? await admin.supabase.from("companies").update(company).eq("id", companyId)
+    : await admin.supabase.from("companies").insert(company)
+
+  if (error) {
+    console.error("Error saving company:", error)
+    return { error: error.code === "23505" ? "A company with this name already exists" : "We couldn't save the company" }
+  }
+
+  if (companyId) {
+    // Keep the canonical name on the company's registrations
+    const { error: renameError } = await admin.supabase
+      .from("registrations")
+      .update({ company_name: company.name })
+      .eq("company_id", companyId)
+      .neq("company_name", company.name)
+
+    if (renameError) {
+      console.error("Error renaming company on registrations:", renameError)
+    }
+  }
+
+  revalidateCompanies()
+  return {}
+}
+
+/**
+ * Merges a duplicate company into another
+ *
+ * The duplicate's name, aliases and email domains are added to the target,
+ * its registrations, coordinators, employee roster and leaderboard
+ * snapshots are moved to the target, and it is deleted.
+ *
+ * @param {string} sourceId - The duplicate company
+ * @param {string} targetId - The company to keep
+ * @returns {Promise<MergeCompaniesResult>} The number of registrations moved, or an error message
+ */
+export async function mergeCompanies(sourceId: string, targetId: string): Promise<MergeCompaniesResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can merge companies" }
+  }
+
+  if (!sourceId || !targetId || sourceId === targetId) {
+    return { error: "Choose two different companies" }
+  }
+
+  const { data, error } = await admin.supabase.rpc("merge_companies", {
+    p_source_id: sourceId,
+    p_target_id: targetId,
+  })
+
+  if (error) {
+    console.error("Error merging companies:", error)
+    return { error: "We couldn't merge the companies" }
+  }
+
+  revalidateCompanies()
+  return { moved: data ?? 0 }
+}
+
+/**
+ * Makes the user with an email a coordinator of a company
+ *
+ * The user gets the company_coordinator role (admins keep theirs) and can
+ * open the company portal at /company. They must already have an account.
+ *
+ * @param {string} companyId - The company
+ * @param {string} email - The user's login email
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function addCompanyCoordinator(companyId: string, email: string): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can manage company coordinators" }
+  }
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+    return { error: "Please enter a valid email address" }
+  }
+
+  const { error } = await admin.supabase.rpc("add_company_coordinator", {
+    p_company_id: companyId,
+    p_email: email.trim(),
+  })
+
+  if (error) {
+    console.error("Error adding company coordinator:", error)
+    return { error: error.message || "We couldn't add the coordinator" }
+  }
+
+  revalidatePath(`/admin/companies/${companyId}/roster`)
+  return {}
+}
+
+/**
+ * Removes a coordinator from a company
+ *
+ * Users left coordinating no company lose the company_coordinator role.
+ *
+ * @param {string} companyId - The company
+ * @param {string} userId - The coordinator
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function removeCompanyCoordinator(companyId: string, userId: string): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can manage company coordinators" }
+  }
+
+  const { error } = await admin.supabase.rpc("remove_company_coordinator", {
+    p_company_id: companyId,
+    p_user_id: userId,
+  })
+
+  if (error) {
+    console.error("Error removing company coordinator:", error)
+    return { error: "We couldn't remove the coordinator" }
+  }
+
+  revalidatePath(`/admin/companies/${companyId}/roster`)
+  return {}
+}
@@ -0,0 +1,180 @@
+/**
+ * Companies Admin Page Component
+ *
+ * Administrative page for the company directory.
+ * Features:
+ * - Protected route (requires authentication AND admin role)
+ * - Add a company, or edit one (`?edit=<id>`): name, aliases, email
+ *   domains (optionally required for registrations), logo and headcount
+ * - Merge a duplicate company into another, moving its registrations
+ * - Table of all companies with their registration and roster counts,
+ *   linking to each company's employee roster
+ *
+ * Companies are also created automatically when a participant registers
+ * with a name that matches no company or alias; merge those here.
+ *
+ * Route: /admin/companies
+ *
+ * @module app/admin/companies/page
+ */
+
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { Building, ClipboardList, Pencil } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import AdminNav from "@/components/admin-nav"
+import CompanyForm from "@/components/company-form"
+import CompanyLogo from "@/components/company-logo"
+import CompanyMergeForm from "@/components/company-merge-form"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { COMPANY_COLUMNS, type Company } from "@/lib/companies"
+
+/**
+ * A company with its number of registrations across all events and the
+ * size of its employee roster
+ */
+type CompanyWithCount = Company & {
+  registrations: { count: number }[]
+  employee_rosters: { count: number }[]
+}
+
+/**
+ * Companies admin page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`edit` selects a company to edit)
+ * @returns {Promise<JSX.Element>} The rendered companies page
+ */
+export default async function CompaniesPage({
+  searchParams,
+}: {
+  searchParams: { edit?: string }
+}) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (getUserRole(user) !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const { data, error } = await supabase
+    .from("companies")
+    .select(`${COMPANY_COLUMNS}, registrations(count), employee_rosters(count)`)
+    .order("name")
+
+  if (error) {
+    console.error("Error fetching companies:", error)
+  }
+
+  const companies = (data as CompanyWithCount[]) ?? []
+  const editing = companies.find((company) => company.id === searchParams.edit)
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex items-center space-x-3">
+        <div className="bg-orange/10 p-3 rounded-lg">
+          <Building className="w-8 h-8 text-orange" />
+        </div>
+        <div>
+          <h1 className="text-4xl md:text-5xl font-bold text-navy">Companies</h1>
+          <p className="text-gray-600 text-lg mt-1">Canonical company names, aliases and email domains</p>
+        </div>
+      </div>
+
+      <AdminNav />
+
+      <div className="grid lg:grid-cols-2 gap-6 mb-8">
+        <CompanyForm key={editing?.id ?? "new"} company={editing} />
+
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 self-start">
+          <h2 className="text-2xl font-bold text-navy">Merge Companies</h2>
+          <p className="text-sm text-gray-600 mt-1 mb-6">
+            Registrations of the duplicate move to the company you keep, and the duplicate&apos;s name
+            becomes one of its aliases.
+          </p>
+          <CompanyMergeForm companies={companies} />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold text-navy">Company</TableHead>
+              <TableHead className="font-semibold text-navy">Aliases</TableHead>
+              <TableHead className="font-semibold text-navy">Email Domains</TableHead>
+              <TableHead className="font-semibold text-navy">Headcount</TableHead>
+              <TableHead className="font-semibold text-navy">Registrations</TableHead>
+              <TableHead className="font-semibold text-navy">Roster</TableHead>
+              <TableHead className="font-semibold text-navy" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {companies.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                  No companies yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              companies.map((company) => (
+                <TableRow key={company.id} className="hover:bg-gray-50">
+                  <TableCell>
+                    <span className="inline-flex items-center gap-2 font-semibold text-navy">
+                      <CompanyLogo name={company.name} logoUrl={company.logo_url} />
+                      {company.name}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">{company.aliases.join(", ") || "—"}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {company.email_domains.join(", ") || "—"}
+                    {company.require_email_domain && (
+                      <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange/10 text-orange">
+                        required
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>{company.headcount ?? "—"}</TableCell>
+                  <TableCell>{company.registrations[0]?.count ?? 0}</TableCell>
+                  <TableCell>{company.employee_rosters[0]?.count || "—"}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-4">
+                      <Link
+                        href={`/admin/companies?edit=${company.id}`}
+                        className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange"
+                      >
+                        <Pencil className="w-4 h-4 mr-1" />
+                        Edit
+                      </Link>
+                      <Link
+                        href={`/admin/companies/${company.id}/roster`}
+                        className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange"
+                      >
+                        <ClipboardList className="w-4 h-4 mr-1" />
+                        Roster
+                      </Link>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
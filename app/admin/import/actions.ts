@@ -0,0 +1,385 @@
+/**
+ * Registration Import Server Actions
+ *
+ * Admin import of walk-in and offline registrations from a spreadsheet.
+ * The form reads CSV files in the browser and sends XLSX files here to be
+ * read; the mapped rows are then previewed (checked without saving) and
+ * imported. Both steps run the same checks from lib/registration-import on
+ * the server, so the import never trusts an earlier preview.
+ *
+ * The import finds or creates each participant's account (as team
+ * registration does), then saves every valid row in one transaction with
+ * import_registrations(). If the transaction fails nothing is saved and
+ * the accounts created for it are removed. Participants are emailed once
+ * the import succeeds.
+ *
+ * @module app/admin/import/actions
+ */
+
+"use server"
+
+import ExcelJS from "exceljs"
+import { revalidatePath } from "next/cache"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { getAdminSession } from "@/lib/admin"
+import { sendEmail } from "@/lib/email"
+import { EVENT_COLUMNS, eventTitle, getEventCategories, type EventCategory, type RaceEvent } from "@/lib/events"
+import { getMemberAccount, type MemberAccount } from "@/lib/member-accounts"
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_FILE_BYTES,
+  MAX_IMPORT_ROWS,
+  checkImportRows,
+  type ExistingRegistration,
+  type ImportField,
+  type ImportRow,
+  type ImportRowCheck,
+  type ImportRowData,
+} from "@/lib/registration-import"
+import { getEmailSiteUrl } from "@/lib/site-url"
+import { createAdminClient } from "@/lib/supabase/admin"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Existing registrations fetched per request when checking for duplicates
+ */
+const EXISTING_BATCH_SIZE = 1000
+
+/**
+ * Result returned by readImportFile
+ */
+export interface ReadImportFileResult extends ActionResult {
+  /** The first sheet's non-blank rows as text, header row first */
+  rows?: string[][]
+}
+
+/**
+ * Result returned by previewRegistrationImport and importRegistrations
+ */
+export interface ImportCheckResult extends ActionResult {
+  /** The checks for every submitted row, in order */
+  checks?: ImportRowCheck[]
+}
+
+/**
+ * Result returned by importRegistrations
+ */
+export interface ImportRegistrationsResult extends ImportCheckResult {
+  /** The rows saved, with the status each registration was given */
+  imported?: { line: number; status: string }[]
+}
+
+/**
+ * What the checks need to know about the event
+ */
+interface ImportContext {
+  event: RaceEvent
+  categories: EventCategory[]
+  existing: ExistingRegistration[]
+}
+
+/**
+ * Reads the first sheet of an XLSX file into rows of text
+ *
+ * Cells are read as displayed in the spreadsheet; blank rows are skipped.
+ *
+ * @param {FormData} formData - Form data with the file in `file`
+ * @returns {Promise<ReadImportFileResult>} The rows, or an error message
+ */
+export async function readImportFile(formData: FormData): Promise<ReadImportFileResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can import registrations" }
+  }
+
+  const file = formData.get("file")
+  if (!(file instanceof File)) {
+    return { error: "Please choose a file" }
+  }
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    return { error: "The file is too large; save it as CSV or split it into smaller files" }
+  }
+
+  const workbook = new ExcelJS.Workbook()
+  try {
+    await workbook.xlsx.load(await file.arrayBuffer())
+  } catch (err) {
+    console.error("Error reading import file:", err)
+    return { error: "We couldn't read this file; please check it is an Excel (XLSX) workbook" }
+  }
+
+  const sheet = workbook.worksheets[0]
+  if (!sheet) {
+    return { error: "The file is empty" }
+  }
+
+  const rows: string[][] = []
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = []
+    for (let column = 1; column <= sheet.columnCount; column++) {
+      cells.push(row.getCell(column).text.trim())
+    }
+    if (cells.some((cell) => cell !== "")) {
+      rows.push(cells)
+    }
+  })
+
+  return { rows }
+}
+
+/**
+ * Cleans rows sent from the browser: every field is a trimmed string
+ *
+ * @param {ImportRow[]} rows - The submitted rows
+ * @returns {ImportRow[]} The rows with well-formed values
+ */
+function sanitizeRows(rows: ImportRow[]): ImportRow[] {
+  return rows.map((row) => ({
+    line: Number(row.line) || 0,
+    values: Object.fromEntries(
+      IMPORT_FIELDS.map(({ field }) => [field, String(row.values?.[field] ?? "").trim()])
+    ) as Record<ImportField, string>,
+  }))
+}
+
+/**
+ * Loads the event, its race categories and its registrations
+ *
+ * @param {SupabaseClient} supabase - Supabase client acting as the admin
+ * @param {string} eventId - The event to import into
+ * @returns {Promise<ImportContext | string>} The context, or an error message
+ */
+async function getImportContext(supabase: SupabaseClient, eventId: string): Promise<ImportContext | string> {
+  const [{ data: event }, categories] = await Promise.all([
+    supabase.from("events").select(EVENT_COLUMNS).eq("id", eventId).maybeSingle(),
+    getEventCategories(supabase, eventId),
+  ])
+
+  if (!event) {
+    return "Event not found"
+  }
+
+  const existing: ExistingRegistration[] = []
+  for (let from = 0; ; from += EXISTING_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("registrations")
+      .select("corporate_email, employee_id, full_name, company_name")
+      .eq("event_id", eventId)
+      .order("id")
+      .range(from, from + EXISTING_BATCH_SIZE - 1)
+
+    if (error) {
+      console.error("Error fetching registrations for import:", error)
+      return "We couldn't check the event's registrations for duplicates"
+    }
+
+    existing.push(...(data as ExistingRegistration[]))
+    if (data.length < EXISTING_BATCH_SIZE) {
+      break
+    }
+  }
+
+  return { event: event as RaceEvent, categories, existing }
+}
+
+/**
+ * Checks the submitted rows against the event, as the signed-in admin
+ *
+ * @param {string} eventId - The event to import into
+ * @param {ImportRow[]} submitted - The rows, read through the column mapping
+ * @returns {Promise<Object>} The admin session, the event, the checks and the valid rows, or an error message
+ */
+async function checkSubmittedRows(eventId: string, submitted: ImportRow[]) {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can import registrations" }
+  }
+
+  if (submitted.length === 0) {
+    return { error: "The file has no rows to import" }
+  }
+  if (submitted.length > MAX_IMPORT_ROWS) {
+    return { error: `Please import at most ${MAX_IMPORT_ROWS} rows at a time` }
+  }
+
+  const context = await getImportContext(admin.supabase, eventId)
+  if (typeof context === "string") {
+    return { error: context }
+  }
+
+  return { admin, ...context, ...checkImportRows(sanitizeRows(submitted), context.categories, context.existing) }
+}
+
+/**
+ * Checks rows without saving anything, for the preview
+ *
+ * @param {string} eventId - The event to import into
+ * @param {ImportRow[]} rows - The rows, read through the column mapping
+ * @returns {Promise<ImportCheckResult>} The checks for every row, or an error message
+ */
+export async function previewRegistrationImport(eventId: string, rows: ImportRow[]): Promise<ImportCheckResult> {
+  const result = await checkSubmittedRows(eventId, rows)
+  if ("error" in result) {
+    return { error: result.error }
+  }
+  return { checks: result.checks }
+}
+
+/**
+ * Emails an imported participant that they have been registered
+ *
+ * @param {ImportRowData} data - The participant's registration details
+ * @param {Object} details - What to tell them
+ * @param {string} details.eventName - The event they were registered for
+ * @param {string} details.categoryName - Their race category
+ * @param {string} details.status - The registration's status
+ * @param {string | null} details.claimUrl - The claim link, or null if they already have an account
+ */
+async function sendImportEmail(
+  data: ImportRowData,
+  details: { eventName: string; categoryName: string; status: string; claimUrl: string | null }
+) {
+  const lines = [
+    `Hi ${data.fullName},`,
+    "",
+    `The organisers have registered you for ${details.eventName} (${details.categoryName}).`,
+    "",
+    details.claimUrl
+      ? `Claim your registration and set a password here:\n${details.claimUrl}\n\nThe link can only be used once.`
+      : `Sign in at ${getEmailSiteUrl()}/login to see your registration.`,
+  ]
+
+  if (details.status === "pending") {
+    lines.push("", "Your seat is reserved; see your dashboard for what is still needed to confirm it.")
+  } else if (details.status === "waitlisted") {
+    lines.push("", "The race is full, so you are on the waitlist; we will let you know if a place opens up.")
+  }
+
+  await sendEmail({
+    to: data.corporateEmail,
+    subject: `You're registered for ${details.eventName}`,
+    text: lines.join("\n"),
+  })
+}
+
+/**
+ * Imports the rows without errors as registrations for an event
+ *
+ * Rows are checked again first; rows with errors are left out, and rows
+ * with only warnings are imported. All remaining rows are saved in one
+ * transaction. Free registrations are confirmed; paid ones stay pending
+ * until the participant pays, and rows held by the roster check stay
+ * pending until reviewed. Each participant is emailed, with a link to
+ * claim their registration if they have no account yet.
+ *
+ * @param {string} eventId - The event to import into
+ * @param {ImportRow[]} rows - The rows, read through the column mapping
+ * @returns {Promise<ImportRegistrationsResult>} The checks and the rows saved, or an error message (with the checks, if rows were checked)
+ */
+export async function importRegistrations(eventId: string, rows: ImportRow[]): Promise<ImportRegistrationsResult> {
+  const result = await checkSubmittedRows(eventId, rows)
+  if ("error" in result) {
+    return { error: result.error }
+  }
+
+  const { admin, event, categories, checks, valid } = result
+  if (valid.length === 0) {
+    return { error: "No rows can be imported; fix the errors and try again", checks }
+  }
+
+  const checkFor = (line: number) => checks.find((check) => check.line === line)
+  const serviceClient = createAdminClient()
+
+  // Accounts are created through the auth API, outside the transaction
+  const accounts = new Map<number, MemberAccount>()
+  for (const row of valid) {
+    try {
+      accounts.set(row.line, await getMemberAccount(row.data.corporateEmail, row.data.fullName, row.data.companyName))
+    } catch (err) {
+      console.error("Error creating imported participant account:", err)
+      checkFor(row.line)?.errors.push("We couldn't create an account for this email")
+    }
+  }
+
+  const toImport = valid.filter((row) => accounts.has(row.line))
+  const createdUserIds = toImport
+    .map((row) => accounts.get(row.line))
+    .filter((account): account is MemberAccount => !!account?.created)
+    .map((account) => account.userId)
+
+  const { data, error } = toImport.length
+    ? await admin.supabase.rpc("import_registrations", {
+        p_event_id: eventId,
+        p_rows: toImport.map(({ line, data: row }) => ({
+          line,
+          user_id: accounts.get(line)?.userId,
+          category_id: row.categoryId,
+          full_name: row.fullName,
+          corporate_email: row.corporateEmail,
+          employee_id: row.employeeId,
+          company_name: row.companyName,
+          tshirt_size: row.tshirtSize,
+          emergency_contact: row.emergencyContact,
+          emergency_phone: row.emergencyPhone,
+        })),
+      })
+    : { data: [], error: null }
+
+  if (error || toImport.length === 0) {
+    if (error) {
+      console.error("Error importing registrations:", error)
+    }
+
+    // Don't leave behind accounts that were only created for this import
+    await Promise.all(createdUserIds.map((userId) => serviceClient.auth.admin.deleteUser(userId)))
+
+    const failedRow = error?.message.match(/^Row (\d+): (.+)$/)
+    if (failedRow) {
+      checkFor(Number(failedRow[1]))?.errors.push(failedRow[2])
+    }
+    return {
+      error: failedRow
+        ? `Nothing was imported: row ${failedRow[1]} could not be saved (${failedRow[2]})`
+        : "Nothing was imported; we couldn't save the registrations",
+      checks,
+    }
+  }
+
+  const imported = (data as { line: number; id: string; status: string }[]).map(({ line, status }) => ({
+    line,
+    status,
+  }))
+  const eventName = eventTitle(event)
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]))
+
+  for (const { line, status } of imported) {
+    const row = toImport.find((item) => item.line === line)
+    const account = accounts.get(line)
+    if (!row || !account) continue
+
+    if (!account.claimUrl) {
+      await serviceClient.from("notifications").insert({
+        user_id: account.userId,
+        type: "admin_registration",
+        title: `Registered for ${eventName}`,
+        body: `The organisers registered you for ${categoryNames.get(row.data.categoryId) ?? "the race"}.`,
+        link: "/dashboard",
+      })
+    }
+
+    try {
+      await sendImportEmail(row.data, {
+        eventName,
+        categoryName: categoryNames.get(row.data.categoryId) ?? "",
+        status,
+        claimUrl: account.claimUrl,
+      })
+    } catch (err) {
+      console.error("Error emailing imported participant:", err)
+      checkFor(line)?.warnings.push("Imported, but the email to the participant could not be sent")
+    }
+  }
+
+  revalidatePath("/admin")
+  return { checks, imported }
+}
@@ -0,0 +1,91 @@
+/**
+ * Registration Import Admin Page Component
+ *
+ * Administrative page for importing walk-in and offline registrations.
+ * Features:
+ * - Protected route (requires authentication AND admin role)
+ * - Scoped to a selected event (`?event=<slug>`, defaults to the next event)
+ * - Upload a CSV or XLSX file, match its columns to registration fields,
+ *   preview each row's errors and duplicate warnings, then import the
+ *   valid rows in one transaction
+ * - Downloadable error report of the rows not imported
+ *
+ * Route: /admin/import
+ *
+ * @module app/admin/import/page
+ */
+
+import { redirect } from "next/navigation"
+import { FileSpreadsheet } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import AdminNav from "@/components/admin-nav"
+import EventSelector from "@/components/event-selector"
+import RegistrationImportForm from "@/components/registration-import-form"
+import { eventTitle, getEventCategories, getEvents, selectEvent } from "@/lib/events"
+
+/**
+ * Registration import admin page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`event` selects the event)
+ * @returns {Promise<JSX.Element>} The rendered import page
+ */
+export default async function AdminImportPage({
+  searchParams,
+}: {
+  searchParams: { event?: string }
+}) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (getUserRole(user) !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+
+  const categories = selectedEvent ? await getEventCategories(supabase, selectedEvent.id) : []
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <FileSpreadsheet className="w-8 h-8 text-orange" />
+          </div>
+          <div>
+            <h1 className="text-4xl md:text-5xl font-bold text-navy">Import Registrations</h1>
+            <p className="text-gray-600 text-lg mt-1">
+              {selectedEvent
+                ? `Walk-in and offline registrations for ${eventTitle(selectedEvent)}`
+                : "No events have been created yet"}
+            </p>
+          </div>
+        </div>
+        {selectedEvent && (
+          <div className="md:w-80">
+            <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+          </div>
+        )}
+      </div>
+
+      <AdminNav />
+
+      {selectedEvent && (
+        <RegistrationImportForm
+          key={selectedEvent.id}
+          eventId={selectedEvent.id}
+          categoryNames={categories.map((category) => category.name)}
+        />
+      )}
+    </div>
+  )
+}
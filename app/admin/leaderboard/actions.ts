@@ -0,0 +1,88 @@
+/**
+ * Company Leaderboard Server Actions
+ *
+ * Admin mutations for the company leaderboard: headcounts and snapshots.
+ * Company names and merges are managed in the company directory
+ * (app/admin/companies/actions). Each action re-checks on the server
+ * that the caller is an admin; RLS and the database functions enforce the
+ * same rule.
+ *
+ * @module app/admin/leaderboard/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getAdminSession } from "@/lib/admin"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Result returned by takeLeaderboardSnapshot
+ */
+export interface SnapshotResult extends ActionResult {
+  /** Number of company rows recorded across events */
+  recorded?: number
+}
+
+/**
+ * Revalidates the pages that show the leaderboard
+ */
+function revalidateLeaderboard() {
+  revalidatePath("/admin/leaderboard")
+  revalidatePath("/admin/companies")
+  revalidatePath("/leaderboard")
+}
+
+/**
+ * Sets or clears a company's employee headcount
+ *
+ * @param {string} companyId - The company
+ * @param {number | null} headcount - Number of employees, or null to clear it
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function setCompanyHeadcount(companyId: string, headcount: number | null): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can set headcounts" }
+  }
+
+  if (headcount !== null && (!Number.isInteger(headcount) || headcount <= 0)) {
+    return { error: "Headcount must be a whole number above zero" }
+  }
+
+  const { error } = await admin.supabase.from("companies").update({ headcount }).eq("id", companyId)
+
+  if (error) {
+    console.error("Error setting company headcount:", error)
+    return { error: "We couldn't save the headcount" }
+  }
+
+  revalidateLeaderboard()
+  return {}
+}
+
+/**
+ * Records today's leaderboard of every current event
+ *
+ * Snapshots are normally taken weekly by pg_cron; this lets an admin take
+ * one before an announcement. A second snapshot on the same day replaces
+ * the first.
+ *
+ * @returns {Promise<SnapshotResult>} The number of rows recorded, or an error message
+ */
+export async function takeLeaderboardSnapshot(): Promise<SnapshotResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can take leaderboard snapshots" }
+  }
+
+  const { data, error } = await admin.supabase.rpc("snapshot_company_leaderboards")
+
+  if (error) {
+    console.error("Error taking leaderboard snapshot:", error)
+    return { error: "We couldn't take the snapshot" }
+  }
+
+  revalidateLeaderboard()
+  return { recorded: data ?? 0 }
+}
@@ -0,0 +1,220 @@
+/**
+ * Leaderboard Admin Page Component
+ *
+ * Administrative page for the company leaderboard.
+ * Features:
+ * - Protected route (requires authentication AND admin role)
+ * - Scoped to a selected event (`?event=<slug>`, defaults to the next event)
+ * - Movers between the two latest weekly snapshots, for announcements
+ * - Take a snapshot now
+ * - Companies with registrants and editable headcounts
+ *
+ * Company names, aliases and merges are managed at /admin/companies.
+ *
+ * Route: /admin/leaderboard
+ *
+ * @module app/admin/leaderboard/page
+ */
+
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { ExternalLink, Trophy } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import AdminNav from "@/components/admin-nav"
+import EventSelector from "@/components/event-selector"
+import CompanyHeadcountEditor from "@/components/company-headcount-editor"
+import CompanyLogo from "@/components/company-logo"
+import LeaderboardSnapshotButton from "@/components/leaderboard-snapshot-button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { eventTitle, getEvents, selectEvent } from "@/lib/events"
+import { getCompanyLeaderboard, getLatestSnapshot } from "@/lib/leaderboard"
+
+/**
+ * Number of movers listed
+ */
+const MOVERS_SHOWN = 5
+
+/**
+ * Formats a snapshot date, e.g. "October 12"
+ *
+ * @param {string} date - ISO date
+ * @returns {string} The formatted date
+ */
+function formatSnapshotDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-US", { month: "long", day: "numeric", timeZone: "UTC" })
+}
+
+/**
+ * Leaderboard admin page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`event` selects the event)
+ * @returns {Promise<JSX.Element>} The rendered leaderboard admin page
+ */
+export default async function AdminLeaderboardPage({
+  searchParams,
+}: {
+  searchParams: { event?: string }
+}) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (getUserRole(user) !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+
+  const [standings, latest] = await Promise.all([
+    selectedEvent ? getCompanyLeaderboard(supabase, selectedEvent.id) : [],
+    selectedEvent ? getLatestSnapshot(supabase, selectedEvent.id) : [],
+  ])
+
+  const previous =
+    selectedEvent && latest.length > 0 ? await getLatestSnapshot(supabase, selectedEvent.id, latest[0].taken_on) : []
+
+  // Biggest climbers between the two latest snapshots
+  const previousRanks = new Map(previous.map((row) => [row.company_id, row.rank]))
+  const movers = latest
+    .map((row) => ({ ...row, moved: (previousRanks.get(row.company_id) ?? row.rank) - row.rank }))
+    .filter((row) => row.moved > 0)
+    .sort((a, b) => b.moved - a.moved || a.rank - b.rank)
+    .slice(0, MOVERS_SHOWN)
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Trophy className="w-8 h-8 text-orange" />
+          </div>
+          <div>
+            <h1 className="text-4xl md:text-5xl font-bold text-navy">Leaderboard</h1>
+            <p className="text-gray-600 text-lg mt-1">
+              {selectedEvent
+                ? `Company standings for ${eventTitle(selectedEvent)}`
+                : "No events have been created yet"}
+            </p>
+          </div>
+        </div>
+        {selectedEvent && (
+          <div className="md:w-80">
+            <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+          </div>
+        )}
+      </div>
+
+      <AdminNav />
+
+      {selectedEvent && (
+        <>
+          <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 mb-8">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-navy">Movers</h2>
+                <p className="text-sm text-gray-600">
+                  {latest.length === 0
+                    ? "No snapshots yet. Snapshots are taken weekly."
+                    : previous.length === 0
+                    ? `First snapshot taken ${formatSnapshotDate(latest[0].taken_on)}.`
+                    : `${formatSnapshotDate(previous[0].taken_on)} to ${formatSnapshotDate(latest[0].taken_on)}`}
+                </p>
+              </div>
+              <LeaderboardSnapshotButton />
+            </div>
+            {previous.length > 0 &&
+              (movers.length === 0 ? (
+                <p className="text-sm text-gray-600">No company climbed the rankings this week.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {movers.map((row) => (
+                    <li key={row.company_id} className="flex justify-between text-sm">
+                      <span className="font-semibold text-navy">{row.company_name}</span>
+                      <span className="text-green-600">
+                        up {row.moved} to #{row.rank} ({row.registrants} registrants)
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ))}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <p className="text-sm text-gray-600">
+                Set a headcount to show a company&apos;s participation rate. Merge duplicate companies in the{" "}
+                <Link href="/admin/companies" className="font-semibold text-navy hover:text-orange">
+                  company directory
+                </Link>
+                .
+              </p>
+              <Link
+                href={`/leaderboard?event=${selectedEvent.slug}`}
+                className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange transition-colors"
+              >
+                View public leaderboard
+                <ExternalLink className="w-4 h-4 ml-1" />
+              </Link>
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="font-semibold text-navy">Company</TableHead>
+                    <TableHead className="font-semibold text-navy">Registrants</TableHead>
+                    <TableHead className="font-semibold text-navy">Finishers</TableHead>
+                    <TableHead className="font-semibold text-navy">Headcount</TableHead>
+                    <TableHead className="font-semibold text-navy">Participation</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {standings.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                        No registrations yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    standings.map((standing) => (
+                      <TableRow key={standing.company_id} className="hover:bg-gray-50">
+                        <TableCell>
+                          <span className="inline-flex items-center gap-2 font-semibold text-navy">
+                            <CompanyLogo name={standing.company_name} logoUrl={standing.logo_url} />
+                            {standing.company_name}
+                          </span>
+                        </TableCell>
+                        <TableCell>{standing.registrants}</TableCell>
+                        <TableCell>{standing.finishers}</TableCell>
+                        <TableCell>
+                          <CompanyHeadcountEditor companyId={standing.company_id} headcount={standing.headcount} />
+                        </TableCell>
+                        <TableCell>
+                          {standing.participation_rate !== null ? `${standing.participation_rate}%` : "—"}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -4,7 +4,15 @@
  * Administrative page for managing all event registrations.
  * Features:
  * - Protected route (requires authentication AND admin role)
- * - Displays all event registrations in a sortable table
+ * - Scoped to a selected event (`?event=<slug>`, defaults to the next event)
+ * - Displays the event's registrations in a table sorted, filtered and
+ *   paginated in the database, with its state in the URL
+ * - Searches across name, email, employee ID, phone, company and bib, with
+ *   facet filters and counts
+ * - Columns that can be hidden and reordered, and saved views (columns,
+ *   filters and sort) chosen from a dropdown, private or shared with all
+ *   admins
+ * - Live race-day check-in counts
  * - Admin-only access (non-admin users redirected to dashboard)
  * - Real-time data from database
  * 
@@ -16,6 +24,15 @@
 import { createClient } from "@/lib/supabase/server"
 import { redirect } from "next/navigation"
 import AdminTable from "@/components/admin-table"
+import EventSelector from "@/components/event-selector"
+import SavedViewSelector from "@/components/saved-view-selector"
+import AdminNav from "@/components/admin-nav"
+import CheckinCounts from "@/components/checkin-counts"
+import { getCheckinCounts } from "@/lib/checkins"
+import { eventTitle, getEventCategories, getEvents, selectEvent } from "@/lib/events"
+import { getUserRole } from "@/lib/roles"
+import { getAdminFacetCounts, getAdminRegistrations, parseAdminRegistrationQuery } from "@/lib/admin-registrations"
+import { getAdminViews } from "@/lib/admin-views"
 import { Shield, Download } from "lucide-react"
 
 /**
@@ -24,13 +41,19 @@ import { Shield, Download } from "lucide-react"
  * Server Component that:
  * 1. Checks if user is authenticated (redirects to /login if not)
  * 2. Checks if user has admin role (redirects to /dashboard if not admin)
- * 3. Fetches all event registrations from the database
- * 4. Displays registrations in an admin table with sorting/filtering
+ * 3. Resolves the selected event from the `event` search parameter
+ * 4. Fetches one page of that event's registrations, filtered and sorted
+ *    as the URL says (see lib/admin-registrations)
+ * 5. Displays registrations in an admin table with sorting/filtering
+ * 6. Lists the admin's saved views and the views shared with them
  * 
  * Admin Role:
- * Admin role is stored in user.user_metadata.role and should be set to "admin"
- * in the Supabase dashboard. See ADMIN_SETUP.md for instructions.
+ * Admin role is stored in user.app_metadata.role (read with getUserRole) and
+ * is set with SQL. See ADMIN_SETUP.md for instructions.
  * 
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`event` selects the event, `view` the saved
+ *   view; the others set the table's search, filters, sort, page and columns, see lib/admin-registrations)
  * @returns {Promise<JSX.Element>} The rendered admin dashboard page
  * 
  * @remarks
@@ -40,7 +63,11 @@ import { Shield, Download } from "lucide-react"
  * Row Level Security (RLS) policies in the database also ensure that only
  * admin users can query all registrations, providing defense in depth.
  */
-export default async function AdminPage() {
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Record<string, string | undefined>
+}) {
   // Get Supabase client for server-side operations
   const supabase = await createClient()
   
@@ -55,9 +82,9 @@ export default async function AdminPage() {
   }
 
   // Check if user has admin role
-  // Admin role is stored in user.user_metadata.role
-  // Default to "user" if role is not set
-  const userRole = user.user_metadata?.role || "user"
+  // Admin role is stored in user.app_metadata.role, which users cannot edit
+  // Defaults to "user" if role is not set
+  const userRole = getUserRole(user)
   
   // Redirect non-admin users to their dashboard
   // Only users with role === "admin" can access this page
@@ -65,24 +92,41 @@ export default async function AdminPage() {
     redirect("/dashboard")
   }
 
-  // Fetch all registrations from the database
-  // Ordered by registration date (newest first)
+  // Resolve the event the registration list is scoped to
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+
+  // Fetch one page of the selected event's registrations from the database,
+  // filtered and sorted as the URL says (newest first by default)
   // RLS policies ensure only admins can see all registrations
-  const { data: registrations, error } = await supabase
-    .from("registrations")
-    .select("*")
-    .order("registration_date", { ascending: false })
-
-  // Log errors but don't crash the page
-  // In production, you might want to show an error message to the admin
-  if (error) {
-    console.error("Error fetching registrations:", error)
+  const query = parseAdminRegistrationQuery(searchParams)
+  const [{ registrations, total }, facets] = selectedEvent
+    ? await Promise.all([
+        getAdminRegistrations(supabase, selectedEvent.id, query),
+        getAdminFacetCounts(supabase, selectedEvent.id, query),
+      ])
+    : [{ registrations: [], total: 0 }, null]
+
+  // A page past the end (e.g. after the filters changed) goes back to the first
+  if (registrations.length === 0 && query.page > 1) {
+    const params = new URLSearchParams(searchParams as Record<string, string>)
+    params.delete("page")
+    redirect(`/admin?${params.toString()}`)
   }
 
+  // Fetch the event's race categories for filtering
+  const categories = selectedEvent ? await getEventCategories(supabase, selectedEvent.id) : []
+
+  // Race-day check-in progress, kept live by the CheckinCounts component
+  const checkinCounts = selectedEvent ? await getCheckinCounts(supabase, selectedEvent.id) : null
+
+  // Saved views of the table: the admin's own and those shared with them
+  const views = await getAdminViews(supabase)
+
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-      <div className="mb-8">
-        <div className="flex items-center space-x-3 mb-4">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
           <div className="bg-orange/10 p-3 rounded-lg">
             <Shield className="w-8 h-8 text-orange" />
           </div>
@@ -91,13 +135,36 @@ export default async function AdminPage() {
               Admin Dashboard
             </h1>
             <p className="text-gray-600 text-lg mt-1">
-              Manage all event registrations
+              {selectedEvent
+                ? `Manage registrations for ${eventTitle(selectedEvent)}`
+                : "No events have been created yet"}
             </p>
           </div>
         </div>
+        {selectedEvent && (
+          <div className="md:w-80 space-y-2">
+            <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+            <SavedViewSelector views={views} userId={user.id} eventSlug={selectedEvent.slug} />
+          </div>
+        )}
       </div>
 
-      <AdminTable registrations={registrations || []} />
+      <AdminNav />
+
+      {selectedEvent && checkinCounts && (
+        <CheckinCounts key={selectedEvent.id} eventId={selectedEvent.id} initialCounts={checkinCounts} />
+      )}
+
+      {selectedEvent && facets && (
+        <AdminTable
+          registrations={registrations}
+          total={total}
+          query={query}
+          facets={facets}
+          categories={categories}
+          eventSlug={selectedEvent.slug}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,88 @@
+/**
+ * Promo Code Server Actions
+ *
+ * Admin mutations for promo codes. Each action re-checks on the server that
+ * the caller is an admin; RLS on promo_codes enforces the same rule in the
+ * database.
+ *
+ * @module app/admin/promo-codes/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getAdminSession } from "@/lib/admin"
+import { promoCodeSchema, type PromoCodeFormData } from "@/lib/pricing"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Creates a promo code
+ *
+ * @param {PromoCodeFormData} data - The promo code form data
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function createPromoCode(data: PromoCodeFormData): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can create promo codes" }
+  }
+
+  const parsed = promoCodeSchema.safeParse(data)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? "Please check the promo code details" }
+  }
+
+  const promo = parsed.data
+  const { error } = await admin.supabase.from("promo_codes").insert({
+    code: promo.code.toUpperCase(),
+    description: promo.description || null,
+    event_id: promo.eventId || null,
+    discount_type: promo.discountType,
+    // Flat discounts are entered in rupees
+    discount_value: promo.discountType === "flat" ? Math.round(promo.discountValue * 100) : promo.discountValue,
+    max_redemptions: promo.maxRedemptions ?? null,
+    expires_at: promo.expiresAt ? new Date(promo.expiresAt).toISOString() : null,
+    company_name: promo.companyName || null,
+    created_by: admin.user.id,
+  })
+
+  if (error) {
+    console.error("Error creating promo code:", error)
+    return {
+      error: error.code === "23505" ? "A promo code with this name already exists" : "We couldn't create the promo code",
+    }
+  }
+
+  revalidatePath("/admin/promo-codes")
+  return {}
+}
+
+/**
+ * Activates or deactivates a promo code
+ *
+ * Deactivated codes are rejected for new registrations; existing
+ * redemptions keep their discount.
+ *
+ * @param {string} promoCodeId - The promo code to update
+ * @param {boolean} active - Whether the code can be used
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function setPromoCodeActive(promoCodeId: string, active: boolean): Promise<ActionResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can update promo codes" }
+  }
+
+  const { error } = await admin.supabase
+    .from("promo_codes")
+    .update({ active })
+    .eq("id", promoCodeId)
+
+  if (error) {
+    console.error("Error updating promo code:", error)
+    return { error: "We couldn't update the promo code" }
+  }
+
+  revalidatePath("/admin/promo-codes")
+  return {}
+}
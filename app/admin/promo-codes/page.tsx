@@ -0,0 +1,177 @@
+/**
+ * Promo Codes Admin Page Component
+ *
+ * Administrative page for managing promo codes.
+ * Features:
+ * - Protected route (requires authentication AND admin role)
+ * - Form to create percentage or flat discount codes with optional event,
+ *   usage limit, expiry and company restrictions
+ * - Table of all codes with redemption counts and total discount given
+ * - Activate/deactivate codes
+ *
+ * Route: /admin/promo-codes
+ *
+ * @module app/admin/promo-codes/page
+ */
+
+import { redirect } from "next/navigation"
+import { Tag } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import AdminNav from "@/components/admin-nav"
+import PromoCodeForm from "@/components/promo-code-form"
+import PromoCodeToggle from "@/components/promo-code-toggle"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { eventTitle, getEvents } from "@/lib/events"
+import { formatDiscount, type PromoCode } from "@/lib/pricing"
+import { formatPrice } from "@/lib/utils"
+
+/**
+ * Promo codes admin page component
+ *
+ * Server Component that checks the admin role, then loads all promo codes
+ * and counts their redemptions (registrations using the code that have
+ * not been cancelled).
+ *
+ * @returns {Promise<JSX.Element>} The rendered promo codes page
+ */
+export default async function PromoCodesPage() {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (getUserRole(user) !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const [events, { data: promoCodes, error }, { data: redemptions }] = await Promise.all([
+    getEvents(supabase),
+    supabase.from("promo_codes").select("*").order("created_at", { ascending: false }),
+    supabase
+      .from("registrations")
+      .select("promo_code_id, discount_paise")
+      .not("promo_code_id", "is", null)
+      .neq("status", "cancelled"),
+  ])
+
+  if (error) {
+    console.error("Error fetching promo codes:", error)
+  }
+
+  // Redemption count and total discount per code
+  const usage: Record<string, { count: number; discountPaise: number }> = {}
+  for (const row of redemptions ?? []) {
+    const entry = (usage[row.promo_code_id] ??= { count: 0, discountPaise: 0 })
+    entry.count += 1
+    entry.discountPaise += row.discount_paise
+  }
+
+  const eventNames = Object.fromEntries(events.map((event) => [event.id, eventTitle(event)]))
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex items-center space-x-3">
+        <div className="bg-orange/10 p-3 rounded-lg">
+          <Tag className="w-8 h-8 text-orange" />
+        </div>
+        <div>
+          <h1 className="text-4xl md:text-5xl font-bold text-navy">Promo Codes</h1>
+          <p className="text-gray-600 text-lg mt-1">Create discount codes and track their redemptions</p>
+        </div>
+      </div>
+
+      <AdminNav />
+
+      <PromoCodeForm events={events} />
+
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold text-navy">Code</TableHead>
+              <TableHead className="font-semibold text-navy">Discount</TableHead>
+              <TableHead className="font-semibold text-navy">Event</TableHead>
+              <TableHead className="font-semibold text-navy">Company</TableHead>
+              <TableHead className="font-semibold text-navy">Expires</TableHead>
+              <TableHead className="font-semibold text-navy">Redemptions</TableHead>
+              <TableHead className="font-semibold text-navy">Discount Given</TableHead>
+              <TableHead className="font-semibold text-navy">Status</TableHead>
+              <TableHead className="font-semibold text-navy" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {!promoCodes || promoCodes.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-8 text-gray-500">
+                  No promo codes yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              (promoCodes as PromoCode[]).map((promo) => {
+                const used = usage[promo.id] ?? { count: 0, discountPaise: 0 }
+                const expired = !!promo.expires_at && new Date(promo.expires_at) <= new Date()
+                const exhausted = promo.max_redemptions !== null && used.count >= promo.max_redemptions
+
+                return (
+                  <TableRow key={promo.id} className="hover:bg-gray-50">
+                    <TableCell>
+                      <div className="font-mono font-semibold text-navy">{promo.code}</div>
+                      {promo.description && (
+                        <div className="text-sm text-gray-500">{promo.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDiscount(promo)}</TableCell>
+                    <TableCell>{promo.event_id ? eventNames[promo.event_id] ?? "—" : "All events"}</TableCell>
+                    <TableCell>{promo.company_name ?? "Any"}</TableCell>
+                    <TableCell>
+                      {promo.expires_at
+                        ? new Date(promo.expires_at).toLocaleDateString("en-US", {
+                            year: "numeric",
+                            month: "short",
+                            day: "numeric",
+                          })
+                        : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      {used.count}
+                      {promo.max_redemptions !== null && ` / ${promo.max_redemptions}`}
+                    </TableCell>
+                    <TableCell>{used.discountPaise > 0 ? formatPrice(used.discountPaise) : "—"}</TableCell>
+                    <TableCell>
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          !promo.active
+                            ? "bg-gray-100 text-gray-700"
+                            : expired || exhausted
+                            ? "bg-yellow-100 text-yellow-800"
+                            : "bg-green-100 text-green-800"
+                        }`}
+                      >
+                        {!promo.active ? "inactive" : expired ? "expired" : exhausted ? "used up" : "active"}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <PromoCodeToggle promoCodeId={promo.id} active={promo.active} />
+                    </TableCell>
+                  </TableRow>
+                )
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
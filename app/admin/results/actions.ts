@@ -0,0 +1,94 @@
+/**
+ * Results Server Actions
+ *
+ * Admin import of the timing company's results CSV. The action re-checks
+ * on the server that the caller is an admin; the import database function
+ * enforces the same rule.
+ *
+ * @module app/admin/results/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getAdminSession } from "@/lib/admin"
+import { parseResultsCsv, type RejectedResultRow } from "@/lib/results"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Result returned by importResults
+ */
+export interface ImportResultsResult extends ActionResult {
+  /** Number of results stored */
+  imported?: number
+  /** Rows that were not imported, with the reason */
+  rejected?: RejectedResultRow[]
+}
+
+/**
+ * Imports an event's timing results from CSV text
+ *
+ * Rows are matched to registrations by bib number; rows that cannot be
+ * read or whose bib does not belong to a registration of the event are
+ * reported back. The import replaces the event's previous results, so a
+ * corrected file from the timing company can simply be imported again.
+ *
+ * @param {string} eventId - The event the results belong to
+ * @param {string} csvText - Contents of the CSV file
+ * @returns {Promise<ImportResultsResult>} Counts and rejected rows, or an error message
+ */
+export async function importResults(eventId: string, csvText: string): Promise<ImportResultsResult> {
+  const admin = await getAdminSession()
+  if (!admin) {
+    return { error: "Only admins can import results" }
+  }
+
+  const { results, rejected, error: parseError } = parseResultsCsv(csvText)
+  if (parseError) {
+    return { error: parseError }
+  }
+
+  const { data: event } = await admin.supabase.from("events").select("slug").eq("id", eventId).maybeSingle()
+  if (!event) {
+    return { error: "Event not found" }
+  }
+
+  if (results.length === 0) {
+    return { error: "No rows could be read from the file", rejected }
+  }
+
+  const { data, error } = await admin.supabase
+    .rpc("import_race_results", {
+      p_event_id: eventId,
+      p_results: results.map(({ line, ...result }) => result),
+    })
+    .single()
+
+  if (error) {
+    console.error("Error importing results:", error)
+    return { error: "We couldn't save the results", rejected }
+  }
+
+  const { imported, unmatched_bibs } = data as { imported: number; unmatched_bibs: number[] }
+  const unmatchedBibs = new Set(unmatched_bibs)
+  const allRejected = [
+    ...rejected,
+    ...results
+      .filter((result) => unmatchedBibs.has(result.bib_number))
+      .map((result) => ({
+        line: result.line,
+        bib: String(result.bib_number),
+        reason: "No registration for this event has this bib",
+      })),
+  ].sort((a, b) => a.line - b.line)
+
+  if (imported === 0) {
+    return { error: "No rows matched a registration, so the existing results were kept", rejected: allRejected }
+  }
+
+  revalidatePath("/admin/results")
+  revalidatePath(`/results/${event.slug}`, "layout")
+  revalidatePath(`/events/${event.slug}`)
+  revalidatePath("/dashboard")
+  return { imported, rejected: allRejected }
+}
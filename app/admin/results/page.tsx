@@ -0,0 +1,156 @@
+/**
+ * Results Admin Page Component
+ *
+ * Administrative page for race results.
+ * Features:
+ * - Protected route (requires authentication AND admin role)
+ * - Scoped to a selected event (`?event=<slug>`, defaults to the next event)
+ * - Import the timing company's CSV, with a report of skipped rows
+ * - Number of results per race category and a link to the public results
+ *
+ * Route: /admin/results
+ *
+ * @module app/admin/results/page
+ */
+
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { ExternalLink, Timer } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import AdminNav from "@/components/admin-nav"
+import EventSelector from "@/components/event-selector"
+import ResultsImportForm from "@/components/results-import-form"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { eventTitle, getEventCategories, getEvents, selectEvent } from "@/lib/events"
+
+/**
+ * Results admin page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`event` selects the event)
+ * @returns {Promise<JSX.Element>} The rendered results page
+ */
+export default async function AdminResultsPage({
+  searchParams,
+}: {
+  searchParams: { event?: string }
+}) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (getUserRole(user) !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+
+  const categories = selectedEvent ? await getEventCategories(supabase, selectedEvent.id) : []
+
+  // Finishers per category, plus results whose category was removed
+  const counts = selectedEvent
+    ? await Promise.all(
+        [...categories.map((category) => category.id), null].map(async (categoryId) => {
+          const query = supabase
+            .from("race_results")
+            .select("id", { count: "exact", head: true })
+            .eq("event_id", selectedEvent.id)
+          const { count } = await (categoryId ? query.eq("category_id", categoryId) : query.is("category_id", null))
+          return [categoryId ?? "none", count ?? 0] as const
+        })
+      )
+    : []
+
+  const resultCounts: Record<string, number> = Object.fromEntries(counts)
+  const totalResults = Object.values(resultCounts).reduce((sum, count) => sum + count, 0)
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Timer className="w-8 h-8 text-orange" />
+          </div>
+          <div>
+            <h1 className="text-4xl md:text-5xl font-bold text-navy">Results</h1>
+            <p className="text-gray-600 text-lg mt-1">
+              {selectedEvent
+                ? `Timing results for ${eventTitle(selectedEvent)}`
+                : "No events have been created yet"}
+            </p>
+          </div>
+        </div>
+        {selectedEvent && (
+          <div className="md:w-80">
+            <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+          </div>
+        )}
+      </div>
+
+      <AdminNav />
+
+      {selectedEvent && (
+        <>
+          <ResultsImportForm eventId={selectedEvent.id} />
+
+          <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <p className="text-sm text-gray-600">
+                {totalResults > 0
+                  ? `${totalResults} results published for this event.`
+                  : "No results have been imported for this event yet."}
+              </p>
+              {totalResults > 0 && (
+                <Link
+                  href={`/results/${selectedEvent.slug}`}
+                  className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange transition-colors"
+                >
+                  View public results
+                  <ExternalLink className="w-4 h-4 ml-1" />
+                </Link>
+              )}
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="font-semibold text-navy">Category</TableHead>
+                    <TableHead className="font-semibold text-navy">Finishers</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {categories.map((category) => (
+                    <TableRow key={category.id} className="hover:bg-gray-50">
+                      <TableCell className="font-semibold text-navy">{category.name}</TableCell>
+                      <TableCell>{resultCounts[category.id] ?? 0}</TableCell>
+                    </TableRow>
+                  ))}
+                  {(resultCounts.none ?? 0) > 0 && (
+                    <TableRow className="hover:bg-gray-50">
+                      <TableCell className="font-semibold text-navy">No category</TableCell>
+                      <TableCell>{resultCounts.none}</TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
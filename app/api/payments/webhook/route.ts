@@ -0,0 +1,33 @@
+/**
+ * Payment Webhook Route
+ *
+ * Receives payment notifications from the configured payment provider.
+ * The raw body is verified against the provider's signature header before
+ * anything is trusted; only then is the payment marked captured/failed and
+ * the registration confirmed.
+ *
+ * Route: POST /api/payments/webhook
+ *
+ * @module app/api/payments/webhook/route
+ */
+
+import { NextResponse } from "next/server"
+import { getPaymentProvider, processPaymentWebhook } from "@/lib/payments"
+
+/**
+ * Handles a payment provider webhook
+ *
+ * @param {Request} request - The incoming webhook request
+ * @returns {Promise<NextResponse>} JSON acknowledgement with the processing status
+ */
+export async function POST(request: Request) {
+  const provider = getPaymentProvider()
+
+  // Signatures are computed over the exact bytes sent, so read the raw body
+  const rawBody = await request.text()
+  const signature = request.headers.get(provider.signatureHeader)
+
+  const result = await processPaymentWebhook(provider, rawBody, signature)
+
+  return NextResponse.json({ message: result.message }, { status: result.status })
+}
@@ -0,0 +1,265 @@
+/**
+ * Registration Export Route
+ *
+ * Streams every registration matching the admin table's current view
+ * (search, filters and sort; all pages) as CSV, XLSX or JSON. Rows are
+ * fetched from the database a batch at a time and written as they arrive,
+ * so large editions export without being held in memory. Values are
+ * encoded by lib/registration-export: ISO dates, injection-safe CSV, and
+ * sensitive columns redacted for roles other than admin.
+ *
+ * Route: GET /api/registrations/export
+ * Query: the admin table's parameters (`event`, `q`, facets, `from`, `to`,
+ *   `sort`, `dir`; see lib/admin-registrations), plus `format` (csv, xlsx
+ *   or json; default csv) and `fields` (comma-separated column ids;
+ *   default all)
+ *
+ * @module app/api/registrations/export/route
+ */
+
+import { PassThrough, Readable } from "stream"
+import ExcelJS from "exceljs"
+import { NextResponse } from "next/server"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/server"
+import { hasRole } from "@/lib/roles"
+import { getEventCategories, getEvents, selectEvent } from "@/lib/events"
+import {
+  getAdminRegistrations,
+  parseAdminRegistrationQuery,
+  type AdminRegistration,
+  type AdminRegistrationQuery,
+} from "@/lib/admin-registrations"
+import {
+  EXPORT_FORMATS,
+  EXPORT_ROLES,
+  EXPORT_UNREDACTED_ROLES,
+  exportFilename,
+  exportValues,
+  parseExportColumns,
+  toCsvRecord,
+  toJsonRecord,
+  type ExportColumn,
+  type ExportContext,
+  type ExportFormat,
+  type ExportValue,
+} from "@/lib/registration-export"
+
+/**
+ * Registrations fetched per request (Supabase returns at most 1,000 rows
+ * per request by default)
+ */
+const EXPORT_BATCH_SIZE = 1000
+
+/**
+ * Byte order mark, so spreadsheets open the CSV as UTF-8
+ */
+const UTF8_BOM = "\uFEFF"
+
+/**
+ * Reads the view's registrations a batch at a time, in the view's order
+ *
+ * @param {SupabaseClient} supabase - Supabase client acting as the exporting user
+ * @param {string} eventId - The event
+ * @param {AdminRegistrationQuery} query - The view's filters and sort (its page is ignored)
+ * @returns {() => Promise<AdminRegistration[] | null>} Returns the next batch, or null once all are read; rejects if a batch cannot be read
+ */
+function batchReader(
+  supabase: SupabaseClient,
+  eventId: string,
+  query: AdminRegistrationQuery
+): () => Promise<AdminRegistration[] | null> {
+  let page = 1
+  let read = 0
+  let expected: number | null = null
+
+  return async () => {
+    if (expected !== null && read >= expected) {
+      return null
+    }
+
+    const batch = await getAdminRegistrations(supabase, eventId, { ...query, page, pageSize: EXPORT_BATCH_SIZE })
+
+    // A failed request must not pass for an empty or complete file
+    if (batch.failed) {
+      throw new Error("Failed to fetch registrations for the export")
+    }
+
+    expected = batch.total
+    read += batch.registrations.length
+    page++
+    if (batch.registrations.length < EXPORT_BATCH_SIZE) {
+      expected = read
+    }
+    return batch.registrations.length > 0 ? batch.registrations : null
+  }
+}
+
+/**
+ * Streams the export as CSV or JSON text
+ *
+ * @param {() => Promise<AdminRegistration[] | null>} nextBatch - Reads the next batch
+ * @param {ExportFormat} format - "csv" or "json"
+ * @param {(registration: AdminRegistration) => ExportValue[]} values - A registration's values
+ * @param {ExportColumn[]} columns - The exported columns
+ * @returns {ReadableStream<Uint8Array>} The file contents
+ */
+function textStream(
+  nextBatch: () => Promise<AdminRegistration[] | null>,
+  format: "csv" | "json",
+  values: (registration: AdminRegistration) => ExportValue[],
+  columns: ExportColumn[]
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let first = true
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(
+        encoder.encode(format === "csv" ? UTF8_BOM + toCsvRecord(columns.map((column) => column.label)) : "[")
+      )
+    },
+    async pull(controller) {
+      try {
+        const batch = await nextBatch()
+        if (!batch) {
+          if (format === "json") {
+            controller.enqueue(encoder.encode(first ? "]\n" : "\n]\n"))
+          }
+          controller.close()
+          return
+        }
+
+        const text =
+          format === "csv"
+            ? batch.map((registration) => toCsvRecord(values(registration))).join("")
+            : batch
+                .map((registration, index) => {
+                  const separator = first && index === 0 ? "\n" : ",\n"
+                  return separator + JSON.stringify(toJsonRecord(values(registration), columns))
+                })
+                .join("")
+        first = false
+        controller.enqueue(encoder.encode(text))
+      } catch (error) {
+        console.error("Error exporting registrations:", error)
+        controller.error(error)
+      }
+    },
+  })
+}
+
+/**
+ * Streams the export as an XLSX workbook with one sheet
+ *
+ * Date columns are written as dates (shown in UTC) so they sort and filter
+ * as dates in a spreadsheet.
+ *
+ * @param {() => Promise<AdminRegistration[] | null>} nextBatch - Reads the next batch
+ * @param {(registration: AdminRegistration) => ExportValue[]} values - A registration's values
+ * @param {ExportColumn[]} columns - The exported columns
+ * @returns {ReadableStream<Uint8Array>} The file contents
+ */
+function xlsxStream(
+  nextBatch: () => Promise<AdminRegistration[] | null>,
+  values: (registration: AdminRegistration) => ExportValue[],
+  columns: ExportColumn[]
+): ReadableStream<Uint8Array> {
+  const output = new PassThrough()
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true })
+  const sheet = workbook.addWorksheet("Registrations", { views: [{ state: "frozen", ySplit: 1 }] })
+  sheet.columns = columns.map((column) => ({
+    header: column.label,
+    key: column.id,
+    width: Math.max(column.label.length + 2, column.type === "date" ? 20 : 12),
+    style: column.type === "date" ? { numFmt: "yyyy-mm-dd hh:mm:ss" } : {},
+  }))
+  sheet.getRow(1).font = { bold: true }
+
+  const write = async () => {
+    for (let batch = await nextBatch(); batch; batch = await nextBatch()) {
+      batch.forEach((registration) => {
+        const row = values(registration).map((value, index) =>
+          columns[index].type === "date" && typeof value === "string" && value ? new Date(value) : value
+        )
+        sheet.addRow(row).commit()
+      })
+    }
+    sheet.commit()
+    await workbook.commit()
+  }
+
+  write().catch((error) => {
+    console.error("Error exporting registrations:", error)
+    output.destroy(error)
+  })
+
+  return Readable.toWeb(output) as unknown as ReadableStream<Uint8Array>
+}
+
+/**
+ * Exports the registrations of the admin table's current view
+ *
+ * @param {Request} request - The request, with the view and export options in its query string
+ * @returns {Promise<Response>} The file as an attachment, or a JSON error with status 401, 403, 404 or 500
+ */
+export async function GET(request: Request) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return NextResponse.json({ error: "Please sign in to export registrations" }, { status: 401 })
+  }
+  if (!hasRole(user, EXPORT_ROLES)) {
+    return NextResponse.json({ error: "You are not allowed to export registrations" }, { status: 403 })
+  }
+
+  const params = Object.fromEntries(new URL(request.url).searchParams)
+  const format: ExportFormat =
+    params.format && Object.hasOwn(EXPORT_FORMATS, params.format) ? (params.format as ExportFormat) : "csv"
+  const columns = parseExportColumns(params.fields)
+  const redact = !hasRole(user, EXPORT_UNREDACTED_ROLES)
+
+  const event = selectEvent(await getEvents(supabase), params.event)
+  if (!event) {
+    return NextResponse.json({ error: "Event not found" }, { status: 404 })
+  }
+
+  const query = parseAdminRegistrationQuery(params)
+  const categories = await getEventCategories(supabase, event.id)
+  const context: ExportContext = {
+    categoryNames: Object.fromEntries(categories.map((category) => [category.id, category.name])),
+  }
+  const values = (registration: AdminRegistration) => exportValues(registration, columns, context, redact)
+  const readBatch = batchReader(supabase, event.id, query)
+
+  // Read the first batch before responding, so a failure is reported as an
+  // error rather than as an empty file
+  let firstBatch: Promise<AdminRegistration[] | null> | null
+  try {
+    firstBatch = Promise.resolve(await readBatch())
+  } catch (error) {
+    console.error("Error exporting registrations:", error)
+    return NextResponse.json({ error: "We couldn't export the registrations" }, { status: 500 })
+  }
+  const nextBatch = () => {
+    const batch = firstBatch ?? readBatch()
+    firstBatch = null
+    return batch
+  }
+
+  const [onlyCategory] = query.facets.category.length === 1 ? query.facets.category : []
+  const filename = exportFilename(format, event.slug, onlyCategory ? context.categoryNames[onlyCategory] : null)
+
+  const body = format === "xlsx" ? xlsxStream(nextBatch, values, columns) : textStream(nextBatch, format, values, columns)
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": EXPORT_FORMATS[format].contentType,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  })
+}
@@ -0,0 +1,38 @@
+/**
+ * Ticket Verification Route
+ *
+ * Checks the signature of a scanned e-ticket QR code. Verification uses
+ * only the signing secret (no database lookup), so it stays fast and works
+ * even when the database is unreachable from the venue.
+ *
+ * Route: POST /api/tickets/verify
+ * Body: { "token": "<QR code contents>" }
+ *
+ * @module app/api/tickets/verify/route
+ */
+
+import { NextResponse } from "next/server"
+import { verifyTicket } from "@/lib/tickets"
+
+/**
+ * Verifies a ticket token
+ *
+ * @param {Request} request - Request with a JSON body containing `token`
+ * @returns {Promise<NextResponse>} `{ valid: true, registrationId, eventId }`, or `{ valid: false }` with status 400
+ */
+export async function POST(request: Request) {
+  let token: unknown
+  try {
+    token = (await request.json())?.token
+  } catch {
+    token = null
+  }
+
+  const ticket = typeof token === "string" ? verifyTicket(token) : null
+
+  if (!ticket) {
+    return NextResponse.json({ valid: false }, { status: 400 })
+  }
+
+  return NextResponse.json({ valid: true, ...ticket })
+}
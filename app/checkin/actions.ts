@@ -0,0 +1,280 @@
+/**
+ * Check-in Server Actions
+ *
+ * Lookups and mutations for the race-day check-in console. Each action
+ * re-checks on the server that the caller is a volunteer or admin; RLS and
+ * the `record_checkin` database function enforce the same rule and only
+ * allow confirmed registrations to be checked in.
+ *
+ * @module app/checkin/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import type { PostgrestError } from "@supabase/supabase-js"
+import { getCheckinSession } from "@/lib/admin"
+import { verifyTicket } from "@/lib/tickets"
+import {
+  getCheckinParticipant,
+  getCheckinRoster,
+  recordCheckin,
+  searchCheckinParticipants,
+  type Checkin,
+  type CheckinMethod,
+  type CheckinOutcome,
+  type CheckinParticipant,
+  type QueuedCheckin,
+} from "@/lib/checkins"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Result returned by searchParticipants
+ */
+export interface ParticipantSearchResult extends ActionResult {
+  participants?: CheckinParticipant[]
+}
+
+/**
+ * Result returned by lookupTicket and checkInParticipant
+ */
+export interface ParticipantResult extends ActionResult {
+  participant?: CheckinParticipant
+  /** True if the participant had already been checked in before this attempt */
+  alreadyCheckedIn?: boolean
+}
+
+/**
+ * Result returned by getRoster
+ */
+export interface RosterResult extends ActionResult {
+  participants?: CheckinParticipant[]
+}
+
+/**
+ * Outcome of one queued check-in, as returned by syncCheckins
+ */
+export interface SyncedCheckin {
+  /** The queue entry id */
+  id: string
+  registrationId: string
+  outcome?: CheckinOutcome
+  /** The participant's check-in after syncing (the earliest one wins) */
+  checkin?: Checkin
+  /** Why the check-in was rejected (e.g. the registration was cancelled) */
+  error?: string
+  /** True if recording failed for a temporary reason and should be retried */
+  retry?: boolean
+}
+
+/**
+ * Result returned by syncCheckins
+ */
+export interface SyncResult extends ActionResult {
+  results?: SyncedCheckin[]
+}
+
+/**
+ * Maximum number of queued check-ins recorded per sync request
+ */
+const SYNC_BATCH_SIZE = 50
+
+/**
+ * Returns whether a thrown value is a database error (with a Postgres code)
+ *
+ * @param {unknown} err - The thrown value
+ * @returns {boolean} True if it has the code and message of a PostgrestError
+ */
+function isPostgrestError(err: unknown): err is PostgrestError {
+  return (
+    typeof err === "object" &&
+    err !== null &&
+    typeof (err as PostgrestError).code === "string" &&
+    typeof (err as PostgrestError).message === "string"
+  )
+}
+
+/**
+ * Postgres error classes (first two characters of the SQLSTATE) that may
+ * succeed if tried again: connection exceptions, serialization failures
+ * and deadlocks, insufficient resources, operator intervention (e.g. a
+ * statement timeout), system and internal errors
+ */
+const RETRYABLE_SQLSTATE_CLASSES = ["08", "40", "53", "57", "58", "XX"]
+
+/**
+ * PostgREST errors for a database it could not reach (503/504)
+ */
+const RETRYABLE_POSTGREST_CODES = ["PGRST000", "PGRST001", "PGRST002", "PGRST003"]
+
+/**
+ * Returns whether a database error may go away on a later sync
+ *
+ * Network failures and timeouts (which carry no SQLSTATE or PostgREST
+ * code) and server-side (5xx-class) failures are retryable. Anything else,
+ * such as a check violation, a permission denial or an exception raised
+ * by record_checkin, would fail the same way every time.
+ *
+ * @param {PostgrestError} err - The error returned while recording a check-in
+ * @returns {boolean} True if the check-in should stay queued
+ */
+function isRetryable(err: PostgrestError): boolean {
+  if (RETRYABLE_POSTGREST_CODES.includes(err.code)) return true
+  if (/^[0-9A-Z]{5}$/.test(err.code)) return RETRYABLE_SQLSTATE_CLASSES.includes(err.code.slice(0, 2))
+  return !err.code.startsWith("PGRST")
+}
+
+/**
+ * Returns an event's confirmed participants for caching on the device
+ *
+ * @param {string} eventId - The event being checked in
+ * @returns {Promise<RosterResult>} The roster, or an error message
+ */
+export async function getRoster(eventId: string): Promise<RosterResult> {
+  const session = await getCheckinSession()
+  if (!session) {
+    return { error: "Only check-in staff can download the roster" }
+  }
+
+  try {
+    return { participants: await getCheckinRoster(session.supabase, eventId) }
+  } catch (err) {
+    console.error("Error fetching check-in roster:", err)
+    return { error: "We couldn't download the roster" }
+  }
+}
+
+/**
+ * Records check-ins that were queued on a device while it was offline
+ *
+ * Each check-in is recorded with the time it happened on the device. If
+ * another device checked the same participant in, the earliest check-in
+ * is kept (see `record_checkin`), so every device ends up with the same
+ * answer whatever order they sync in. Only the first SYNC_BATCH_SIZE
+ * entries are processed; the device sends the rest on its next sync.
+ *
+ * @param {QueuedCheckin[]} checkins - Queued check-ins, oldest first
+ * @returns {Promise<SyncResult>} The outcome of each processed entry, or an error message
+ */
+export async function syncCheckins(checkins: QueuedCheckin[]): Promise<SyncResult> {
+  const session = await getCheckinSession()
+  if (!session) {
+    return { error: "Only check-in staff can sync check-ins" }
+  }
+
+  const results: SyncedCheckin[] = []
+  for (const queued of checkins.slice(0, SYNC_BATCH_SIZE)) {
+    try {
+      const { checkin, outcome } = await recordCheckin(session.supabase, queued)
+      results.push({ id: queued.id, registrationId: queued.registrationId, outcome, checkin })
+    } catch (err: unknown) {
+      console.error("Error syncing check-in:", err)
+      // Database errors that would fail again are final; network and
+      // server failures leave the check-in queued for the next sync
+      results.push(
+        isPostgrestError(err) && !isRetryable(err)
+          ? { id: queued.id, registrationId: queued.registrationId, error: err.message }
+          : { id: queued.id, registrationId: queued.registrationId, retry: true }
+      )
+    }
+  }
+
+  revalidatePath("/admin")
+  return { results }
+}
+
+/**
+ * Finds participants of an event by bib number, email or employee ID
+ *
+ * @param {string} eventId - The event being checked in
+ * @param {string} query - Bib number, email or employee ID
+ * @returns {Promise<ParticipantSearchResult>} Matching participants, or an error message
+ */
+export async function searchParticipants(eventId: string, query: string): Promise<ParticipantSearchResult> {
+  const session = await getCheckinSession()
+  if (!session) {
+    return { error: "Only check-in staff can search participants" }
+  }
+
+  if (!query.trim()) {
+    return { error: "Enter a bib number, email or employee ID" }
+  }
+
+  return { participants: await searchCheckinParticipants(session.supabase, eventId, query) }
+}
+
+/**
+ * Looks up the participant for a scanned e-ticket
+ *
+ * The ticket's signature is verified first, so forged or altered QR codes
+ * are rejected before any database lookup.
+ *
+ * @param {string} eventId - The event being checked in
+ * @param {string} token - The contents of the scanned QR code
+ * @returns {Promise<ParticipantResult>} The ticket's participant, or an error message
+ */
+export async function lookupTicket(eventId: string, token: string): Promise<ParticipantResult> {
+  const session = await getCheckinSession()
+  if (!session) {
+    return { error: "Only check-in staff can scan tickets" }
+  }
+
+  const ticket = verifyTicket(token)
+  if (!ticket) {
+    return { error: "This is not a valid e-ticket" }
+  }
+  if (ticket.eventId !== eventId) {
+    return { error: "This ticket is for a different event" }
+  }
+
+  const participant = await getCheckinParticipant(session.supabase, ticket.registrationId)
+  if (!participant) {
+    return { error: "No registration was found for this ticket" }
+  }
+
+  return { participant }
+}
+
+/**
+ * Checks a participant in, recording the time, the current volunteer and
+ * their device
+ *
+ * Checking in a participant a second time does not change the original
+ * record; the result has `alreadyCheckedIn` set so the console can warn.
+ *
+ * @param {string} registrationId - The registration to check in
+ * @param {CheckinMethod} method - How the participant was found
+ * @param {string} deviceId - The volunteer's device
+ * @returns {Promise<ParticipantResult>} The updated participant, or an error message
+ */
+export async function checkInParticipant(
+  registrationId: string,
+  method: CheckinMethod,
+  deviceId: string
+): Promise<ParticipantResult> {
+  const session = await getCheckinSession()
+  if (!session) {
+    return { error: "Only check-in staff can check participants in" }
+  }
+
+  const participant = await getCheckinParticipant(session.supabase, registrationId)
+  if (!participant) {
+    return { error: "Registration not found" }
+  }
+  if (participant.checkin) {
+    return { participant, alreadyCheckedIn: true }
+  }
+  if (participant.status !== "confirmed") {
+    return { participant, error: `This registration is ${participant.status} and cannot be checked in` }
+  }
+
+  try {
+    // Another volunteer may have checked them in since the lookup
+    const { checkin, outcome } = await recordCheckin(session.supabase, { registrationId, method, deviceId })
+    revalidatePath("/admin")
+    return { participant: { ...participant, checkin }, alreadyCheckedIn: outcome === "duplicate" }
+  } catch (err) {
+    console.error("Error checking in participant:", err)
+    return { participant, error: "We couldn't check this participant in. Please try again." }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Check-in Page Component
+ *
+ * Race-day check-in console for volunteers at the venue.
+ * Features:
+ * - Protected route (requires authentication AND the volunteer or admin role)
+ * - Scoped to a selected event (`?event=<slug>`, defaults to the next event)
+ * - Scan a participant's e-ticket QR code with the device camera
+ * - Search by bib number, email or employee ID
+ * - Shows name, T-shirt size and emergency contact, and records the
+ *   check-in time and volunteer; repeated check-ins are flagged
+ * - Works offline from a cached roster, syncing queued check-ins later
+ *
+ * Route: /checkin
+ *
+ * @module app/checkin/page
+ */
+
+import { redirect } from "next/navigation"
+import { ScanLine } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { isCheckinStaff } from "@/lib/admin"
+import EventSelector from "@/components/event-selector"
+import CheckinConsole from "@/components/checkin-console"
+import { eventTitle, getEvents, selectEvent } from "@/lib/events"
+
+/**
+ * Check-in page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`event` selects the event)
+ * @returns {Promise<JSX.Element>} The rendered check-in page
+ */
+export default async function CheckinPage({
+  searchParams,
+}: {
+  searchParams: { event?: string }
+}) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  // Volunteers get the role "volunteer" the same way admins get "admin"
+  // (see ADMIN_SETUP.md)
+  if (!isCheckinStaff(user)) {
+    redirect("/dashboard")
+  }
+
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-6 flex flex-col gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <ScanLine className="w-8 h-8 text-orange" />
+          </div>
+          <div>
+            <h1 className="text-3xl md:text-4xl font-bold text-navy">Check-in</h1>
+            <p className="text-gray-600 mt-1">
+              {selectedEvent ? eventTitle(selectedEvent) : "No events have been created yet"}
+            </p>
+          </div>
+        </div>
+        {selectedEvent && events.length > 1 && (
+          <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+        )}
+      </div>
+
+      {selectedEvent && (
+        <CheckinConsole key={selectedEvent.id} eventId={selectedEvent.id} userId={user.id} />
+      )}
+    </div>
+  )
+}
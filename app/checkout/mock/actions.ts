@@ -0,0 +1,50 @@
+/**
+ * Mock Checkout Server Actions
+ *
+ * Simulates the payment gateway reporting the outcome of a mock checkout.
+ * The outcome is sent through the same signed-webhook processing as real
+ * providers, so the full confirmation path is exercised locally.
+ *
+ * @module app/checkout/mock/actions
+ */
+
+"use server"
+
+import { redirect } from "next/navigation"
+import { buildMockWebhook, mockPaymentProvider } from "@/lib/payments/mock"
+import { isMockCheckoutEnabled, processPaymentWebhook } from "@/lib/payments"
+import { createAdminClient } from "@/lib/supabase/admin"
+
+/**
+ * Completes a mock checkout with a simulated success or failure
+ *
+ * @param {FormData} formData - Form data with `order` (mock order id) and `outcome` ("success" | "failure")
+ */
+export async function completeMockCheckout(formData: FormData) {
+  // Never let the mock gateway confirm registrations outside development or
+  // when a real provider is configured
+  if (!isMockCheckoutEnabled()) {
+    throw new Error("The mock payment gateway is disabled")
+  }
+
+  const orderId = String(formData.get("order") ?? "")
+  const succeeded = formData.get("outcome") === "success"
+
+  const { body, signature } = buildMockWebhook(orderId, succeeded)
+  const result = await processPaymentWebhook(mockPaymentProvider, body, signature)
+
+  if (result.status >= 400) {
+    throw new Error(`Mock payment could not be processed: ${result.message}`)
+  }
+
+  // Send the participant back to the dashboard for the event they paid for
+  const { data: payment } = await createAdminClient()
+    .from("payments")
+    .select("registration:registrations(event:events(slug))")
+    .eq("provider", mockPaymentProvider.name)
+    .eq("provider_order_id", orderId)
+    .maybeSingle<{ registration: { event: { slug: string } | null } | null }>()
+
+  const slug = payment?.registration?.event?.slug
+  redirect(slug ? `/dashboard?event=${slug}` : "/dashboard")
+}
@@ -0,0 +1,122 @@
+/**
+ * Mock Checkout Page Component
+ *
+ * Stand-in for a payment provider's hosted checkout, used in development
+ * when PAYMENT_PROVIDER is "mock" (the default there). Lets you simulate a
+ * successful or failed payment for an order. Not found in any other
+ * environment.
+ *
+ * Route: /checkout/mock?order=<mock order id>
+ *
+ * @module app/checkout/mock/page
+ */
+
+import { notFound } from "next/navigation"
+import { CreditCard } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { isMockCheckoutEnabled } from "@/lib/payments"
+import { mockPaymentProvider } from "@/lib/payments/mock"
+import { formatPrice } from "@/lib/utils"
+import { completeMockCheckout } from "./actions"
+
+/**
+ * A payment with its registration and category joined (many-to-one joins
+ * come back as a single object)
+ */
+interface MockCheckoutPayment {
+  amount_paise: number
+  status: string
+  registration: { full_name: string; category: { name: string } | null } | null
+}
+
+/**
+ * Mock checkout page component
+ *
+ * Server Component that looks up the mock order and renders "Pay" and
+ * "Fail" buttons. Returns a 404 outside development, when the mock gateway
+ * is disabled or when the order does not exist.
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`order` is the mock order id)
+ * @returns {Promise<JSX.Element>} The rendered checkout page
+ */
+export default async function MockCheckout({
+  searchParams,
+}: {
+  searchParams: { order?: string }
+}) {
+  if (!isMockCheckoutEnabled() || !searchParams.order) {
+    notFound()
+  }
+
+  const { data: payment } = await createAdminClient()
+    .from("payments")
+    .select("amount_paise, status, registration:registrations(full_name, category:event_categories(name))")
+    .eq("provider", mockPaymentProvider.name)
+    .eq("provider_order_id", searchParams.order)
+    .maybeSingle<MockCheckoutPayment>()
+
+  if (!payment) {
+    notFound()
+  }
+
+  const registration = payment.registration
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16">
+      <div className="bg-white rounded-lg shadow-lg p-8 border border-gray-200">
+        <div className="flex items-center space-x-3 mb-6">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <CreditCard className="w-6 h-6 text-orange" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-navy">Mock Checkout</h1>
+            <p className="text-sm text-gray-600">Development payment gateway</p>
+          </div>
+        </div>
+
+        <div className="space-y-3 mb-8">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Participant</span>
+            <span className="font-semibold text-navy">{registration?.full_name}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Category</span>
+            <span className="font-semibold text-navy">{registration?.category?.name}</span>
+          </div>
+          <div className="flex justify-between border-t pt-3">
+            <span className="text-gray-600">Amount</span>
+            <span className="font-bold text-navy">{formatPrice(payment.amount_paise)}</span>
+          </div>
+        </div>
+
+        {payment.status === "created" ? (
+          <form action={completeMockCheckout} className="grid grid-cols-2 gap-4">
+            <input type="hidden" name="order" value={searchParams.order} />
+            <Button
+              type="submit"
+              name="outcome"
+              value="failure"
+              className="border border-gray-300 bg-white text-navy hover:bg-gray-50"
+            >
+              Simulate Failure
+            </Button>
+            <Button
+              type="submit"
+              name="outcome"
+              value="success"
+              className="bg-orange hover:bg-orange-dark text-white font-semibold"
+            >
+              Pay {formatPrice(payment.amount_paise)}
+            </Button>
+          </form>
+        ) : (
+          <p className="text-center text-gray-600">
+            This order has already been processed ({payment.status}).
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+/**
+ * Registration Claim Server Actions
+ *
+ * Used by employees registered by their company's captain (see
+ * app/company/team/actions). The emailed link proves they own the corporate
+ * email; claiming signs them in, sets their password and marks the email
+ * as verified.
+ *
+ * @module app/claim/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import { recordVerifiedEmail } from "@/lib/corporate-email"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Link types sent in team registration emails: "invite" for new accounts,
+ * "email" (a sign-in link) for accounts that were invited before
+ */
+export type ClaimLinkType = "invite" | "email"
+
+/**
+ * Claims a team registration: signs the employee in with the emailed link
+ * and sets their password
+ *
+ * @param {string} tokenHash - The token from the emailed link
+ * @param {ClaimLinkType} type - The link type from the emailed link
+ * @param {string} password - The password to set
+ * @returns {Promise<ActionResult>} Empty on success (the employee is signed in), or an error message
+ */
+export async function claimRegistration(
+  tokenHash: string,
+  type: ClaimLinkType,
+  password: string
+): Promise<ActionResult> {
+  if (password.length < 6) {
+    return { error: "Password must be at least 6 characters" }
+  }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase.auth.verifyOtp({
+    token_hash: tokenHash,
+    type: type === "invite" ? "invite" : "email",
+  })
+
+  if (error || !data.user) {
+    console.error("Error verifying claim link:", error)
+    return { error: "This link has expired or was already used. Ask your company coordinator to send it again." }
+  }
+
+  const { error: passwordError } = await supabase.auth.updateUser({ password })
+  if (passwordError) {
+    console.error("Error setting password:", passwordError)
+    return { error: passwordError.message || "We couldn't set your password" }
+  }
+
+  // The link was sent to the corporate email the captain registered
+  if (data.user.email) {
+    await recordVerifiedEmail(data.user.id, data.user.email)
+  }
+
+  revalidatePath("/dashboard")
+  return {}
+}
@@ -0,0 +1,52 @@
+/**
+ * Claim Registration Page Component
+ *
+ * Target of the link in team registration emails. An employee whose
+ * company registered them sets a password here, which signs them in and
+ * verifies their corporate email. The link is only used when the form is
+ * submitted, so email scanners that open it don't use it up.
+ *
+ * Route: /claim?token=<token>&type=<invite|email>
+ *
+ * @module app/claim/page
+ */
+
+import { AlertTriangle } from "lucide-react"
+import ClaimForm from "@/components/claim-form"
+
+/**
+ * Claim registration page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`token` and `type` come from the email)
+ * @returns {JSX.Element} The rendered claim form
+ */
+export default function ClaimPage({
+  searchParams,
+}: {
+  searchParams: { token?: string; type?: string }
+}) {
+  const type = searchParams.type === "email" ? "email" : "invite"
+
+  return (
+    <div className="min-h-[calc(100vh-16rem)] flex items-center justify-center px-4 py-12">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-navy mb-2">Claim Your Registration</h1>
+          <p className="text-gray-600">Your company has registered you. Set a password to see your registration.</p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-lg p-8 border border-gray-200">
+          {searchParams.token ? (
+            <ClaimForm tokenHash={searchParams.token} type={type} />
+          ) : (
+            <div className="text-center">
+              <AlertTriangle className="w-12 h-12 text-orange mx-auto mb-4" />
+              <p className="text-gray-600">This link is not valid. Please use the link from your invitation email.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
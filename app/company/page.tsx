@@ -0,0 +1,388 @@
+/**
+ * Company Portal Page Component
+ *
+ * Dashboard for company coordinators (e.g. HR) following their employees'
+ * entries.
+ * Features:
+ * - Protected route (requires authentication AND the company_coordinator
+ *   or admin role)
+ * - Scoped to one of the coordinator's companies (`?company=<id>`, admins
+ *   may open any company) and an event (`?event=<slug>`)
+ * - Participation stats: registrations by status, participation rate
+ *   against the company headcount, race category and T-shirt breakdowns
+ * - Employee roster upload and review of registrations held because they
+ *   did not match it
+ * - Link to register a team of employees while registration is open
+ * - Table of the company's registrations with CSV export
+ *
+ * Only the company's registrations are loaded; RLS enforces this for
+ * coordinators (see "Company coordinator portal" in supabase_schema.sql).
+ *
+ * Route: /company
+ *
+ * @module app/company/page
+ */
+
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { Briefcase, ClipboardCheck, Percent, Shirt, UserPlus, Users } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import CompanyExportButton from "@/components/company-export-button"
+import CompanyLogo from "@/components/company-logo"
+import EventSelector from "@/components/event-selector"
+import RosterReviewButtons from "@/components/roster-review-buttons"
+import RosterUploadForm from "@/components/roster-upload-form"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  COMPANY_REGISTRATION_COLUMNS,
+  TSHIRT_SIZES,
+  getCoordinatedCompanies,
+  isCompanyPortalUser,
+  summariseCompanyRegistrations,
+  type CompanyRegistration,
+  type PortalCompany,
+} from "@/lib/company-portal"
+import { eventTitle, getEventCategories, getEvents, isRegistrationOpen, selectEvent } from "@/lib/events"
+import { getStatusBadgeClass } from "@/lib/registrations"
+import { ROSTER_STATUS_LABELS, rosterStatusStyles } from "@/lib/rosters"
+import { cn } from "@/lib/utils"
+
+/**
+ * Company portal page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`company` and `event` select the scope)
+ * @returns {Promise<JSX.Element>} The rendered company portal
+ */
+export default async function CompanyPortalPage({
+  searchParams,
+}: {
+  searchParams: { company?: string; event?: string }
+}) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (!isCompanyPortalUser(user)) {
+    redirect("/dashboard")
+  }
+
+  // Coordinators see their own companies; admins can open any company by ID
+  const isAdmin = getUserRole(user) === "admin"
+  let companies = await getCoordinatedCompanies(supabase, user.id)
+  if (isAdmin && searchParams.company && !companies.some((c) => c.id === searchParams.company)) {
+    const { data } = await supabase
+      .from("companies")
+      .select("id, name, logo_url, headcount")
+      .eq("id", searchParams.company)
+      .maybeSingle()
+    if (data) companies = [data as PortalCompany, ...companies]
+  }
+
+  const company = companies.find((c) => c.id === searchParams.company) ?? companies[0]
+  if (!company) {
+    redirect(isAdmin ? "/admin/companies" : "/dashboard")
+  }
+
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+
+  const [{ data, error }, categories] = await Promise.all([
+    selectedEvent
+      ? supabase
+          .from("registrations")
+          .select(COMPANY_REGISTRATION_COLUMNS)
+          .eq("company_id", company.id)
+          .eq("event_id", selectedEvent.id)
+          .order("full_name")
+      : Promise.resolve({ data: [], error: null }),
+    selectedEvent ? getEventCategories(supabase, selectedEvent.id) : Promise.resolve([]),
+  ])
+
+  if (error) {
+    console.error("Error fetching company registrations:", error)
+  }
+
+  const registrations = (data as CompanyRegistration[] | null) ?? []
+  const stats = summariseCompanyRegistrations(registrations, company.headcount)
+  const categoryNames = Object.fromEntries(categories.map((category) => [category.id, category.name]))
+  const heldRegistrations = registrations.filter(
+    (registration) => registration.roster_status === "pending_review" && registration.status !== "cancelled"
+  )
+  const largestSize = Math.max(1, ...Object.values(stats.byTshirtSize))
+
+  /**
+   * Builds a portal link keeping the selected event
+   *
+   * @param {string} companyId - The company to open
+   * @returns {string} The URL
+   */
+  const companyHref = (companyId: string) =>
+    `/company?company=${companyId}${selectedEvent ? `&event=${selectedEvent.slug}` : ""}`
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Briefcase className="w-8 h-8 text-orange" />
+          </div>
+          <div>
+            <h1 className="text-4xl md:text-5xl font-bold text-navy inline-flex items-center gap-3">
+              <CompanyLogo name={company.name} logoUrl={company.logo_url} />
+              {company.name}
+            </h1>
+            <p className="text-gray-600 text-lg mt-1">
+              {selectedEvent
+                ? `Employee registrations for ${eventTitle(selectedEvent)}`
+                : "No events have been created yet"}
+            </p>
+          </div>
+        </div>
+        {selectedEvent && (
+          <div className="md:w-80">
+            <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+          </div>
+        )}
+      </div>
+
+      {/* Company Switcher */}
+      {companies.length > 1 && (
+        <nav className="flex flex-wrap gap-2 mb-8 border-b border-gray-200">
+          {companies.map((c) => (
+            <Link
+              key={c.id}
+              href={companyHref(c.id)}
+              className={cn(
+                "px-4 py-2 -mb-px border-b-2 text-sm font-semibold transition-colors",
+                c.id === company.id ? "border-orange text-orange" : "border-transparent text-gray-600 hover:text-navy"
+              )}
+            >
+              {c.name}
+            </Link>
+          ))}
+        </nav>
+      )}
+
+      {selectedEvent && isRegistrationOpen(selectedEvent) && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 bg-navy/5 border border-navy/10 rounded-lg p-6 mb-8">
+          <p className="text-sm text-gray-700">
+            Registering a group? Add your employees in one go and we&apos;ll email each of them an invitation to
+            claim their registration.
+          </p>
+          <Button asChild className="bg-orange hover:bg-orange-dark text-white font-semibold shrink-0">
+            <Link href={`/company/team?company=${company.id}&event=${selectedEvent.slug}`}>
+              <UserPlus className="w-4 h-4 mr-2" />
+              Register a Team
+            </Link>
+          </Button>
+        </div>
+      )}
+
+      {/* Participation Stats */}
+      <div className="grid sm:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 flex items-center space-x-4">
+          <div className="bg-navy/10 p-3 rounded-lg">
+            <Users className="w-6 h-6 text-navy" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Registered</p>
+            <p className="text-3xl font-bold text-navy">{stats.registered}</p>
+            <p className="text-xs text-gray-500">
+              {stats.byStatus.confirmed} confirmed · {stats.byStatus.pending} pending · {stats.byStatus.waitlisted}{" "}
+              waitlisted
+            </p>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 flex items-center space-x-4">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Percent className="w-6 h-6 text-orange" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Participation</p>
+            <p className="text-3xl font-bold text-navy">
+              {stats.participationRate !== null ? `${stats.participationRate}%` : "—"}
+            </p>
+            <p className="text-xs text-gray-500">
+              {company.headcount ? `of ${company.headcount} employees` : "Headcount not set; ask the organisers"}
+            </p>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 flex items-center space-x-4">
+          <div className="bg-navy/10 p-3 rounded-lg">
+            <ClipboardCheck className="w-6 h-6 text-navy" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Waiting for Review</p>
+            <p className="text-3xl font-bold text-navy">{stats.awaitingReview}</p>
+            <p className="text-xs text-gray-500">Not on your employee roster</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Breakdowns */}
+      <div className="grid lg:grid-cols-2 gap-6 mb-8">
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+          <h2 className="text-xl font-bold text-navy mb-4">Race Categories</h2>
+          {categories.length === 0 ? (
+            <p className="text-sm text-gray-500">This event has no race categories</p>
+          ) : (
+            <ul className="space-y-2">
+              {categories.map((category) => (
+                <li key={category.id} className="flex justify-between text-sm">
+                  <span className="text-gray-700">{category.name}</span>
+                  <span className="font-semibold text-navy">{stats.byCategory[category.id] ?? 0}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+          <h2 className="text-xl font-bold text-navy mb-4 flex items-center">
+            <Shirt className="w-5 h-5 mr-2 text-orange" />
+            T-shirt Sizes
+          </h2>
+          <ul className="space-y-2">
+            {TSHIRT_SIZES.map((size) => (
+              <li key={size} className="flex items-center gap-3 text-sm">
+                <span className="w-8 font-semibold text-navy">{size}</span>
+                <div className="flex-1 h-3 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-orange rounded-full"
+                    style={{ width: `${(stats.byTshirtSize[size] / largestSize) * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 text-right font-semibold text-navy">{stats.byTshirtSize[size]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {/* Employee Roster */}
+      <RosterUploadForm companyId={company.id} />
+
+      {heldRegistrations.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 overflow-x-auto mb-8">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-xl font-bold text-navy">Waiting for Review</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              These registrations did not match your roster and stay pending until approved. Rejecting cancels the
+              registration.
+            </p>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className="font-semibold text-navy">Name</TableHead>
+                <TableHead className="font-semibold text-navy">Employee ID</TableHead>
+                <TableHead className="font-semibold text-navy">Corporate Email</TableHead>
+                <TableHead className="font-semibold text-navy" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {heldRegistrations.map((registration) => (
+                <TableRow key={registration.id} className="hover:bg-gray-50">
+                  <TableCell className="font-semibold text-navy">{registration.full_name}</TableCell>
+                  <TableCell className="font-mono">{registration.employee_id}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{registration.corporate_email}</TableCell>
+                  <TableCell>
+                    <RosterReviewButtons
+                      companyId={company.id}
+                      registrationId={registration.id}
+                      name={registration.full_name}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Registrations */}
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 overflow-x-auto">
+        <div className="p-6 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <h2 className="text-xl font-bold text-navy">Registrations ({registrations.length})</h2>
+          <CompanyExportButton
+            registrations={registrations}
+            categoryNames={categoryNames}
+            fileName={`${company.name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}_${selectedEvent?.slug ?? "registrations"}`}
+          />
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-gray-50">
+              <TableHead className="font-semibold text-navy">Bib #</TableHead>
+              <TableHead className="font-semibold text-navy">Name</TableHead>
+              <TableHead className="font-semibold text-navy">Employee ID</TableHead>
+              <TableHead className="font-semibold text-navy">Race Category</TableHead>
+              <TableHead className="font-semibold text-navy">T-shirt</TableHead>
+              <TableHead className="font-semibold text-navy">Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {registrations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                  No employees have registered for this event yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              registrations.map((registration) => (
+                <TableRow key={registration.id} className="hover:bg-gray-50">
+                  <TableCell className="font-mono">{registration.bib_number ?? "—"}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{registration.full_name}</div>
+                    <div className="text-sm text-gray-500">{registration.corporate_email}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{registration.employee_id}</div>
+                    {registration.roster_status && (
+                      <span
+                        className={`inline-flex items-center px-2 py-0.5 mt-1 rounded-full text-xs font-medium ${rosterStatusStyles[registration.roster_status]}`}
+                      >
+                        {ROSTER_STATUS_LABELS[registration.roster_status]}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {registration.category_id ? categoryNames[registration.category_id] ?? "—" : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-navy/10 text-navy">
+                      {registration.tshirt_size}
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <span
+                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(
+                        registration.status
+                      )}`}
+                    >
+                      {registration.status}
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,351 @@
+/**
+ * Team Registration Server Actions
+ *
+ * Registers a company's employees in bulk for an event. Allowed for admins
+ * and the company's coordinators. Each row is handled on its own, so one bad
+ * row does not stop the rest; the result reports every row.
+ *
+ * Employees without an account get one (unconfirmed) and are emailed a link
+ * to claim their registration and set a password at /claim; submitting them
+ * again before they claim it resends the link. Employees who already have
+ * an account are not registered directly: they are invited, and register by
+ * accepting the invitation from their dashboard.
+ *
+ * @module app/company/team/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { getCompanySession } from "@/lib/admin"
+import { checkCompanyDomain } from "@/lib/corporate-email"
+import { sendEmail } from "@/lib/email"
+import { EVENT_COLUMNS, eventTitle, getEventCategories, isRegistrationOpen, type RaceEvent } from "@/lib/events"
+import { getMemberAccount, type MemberAccount } from "@/lib/member-accounts"
+import { getAmountDue } from "@/lib/pricing"
+import { getEmailSiteUrl } from "@/lib/site-url"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { MAX_TEAM_SIZE, teamMemberSchema, type TeamMember, type TeamRowResult } from "@/lib/team-registration"
+import type { ActionResult } from "@/app/dashboard/actions"
+
+/**
+ * Result returned by registerTeam
+ */
+export interface RegisterTeamResult extends ActionResult {
+  /** One result per submitted row, in order */
+  rows?: TeamRowResult[]
+}
+
+/**
+ * Emails a new team member that they have been registered
+ *
+ * @param {TeamMember} member - The team member
+ * @param {Object} details - What to tell them
+ * @param {string} details.companyName - Their company
+ * @param {string} details.eventName - The event they were registered for
+ * @param {string} details.categoryName - Their race category
+ * @param {string} details.claimUrl - The link to claim their registration
+ * @param {boolean} details.paymentDue - True if an entry fee is still to be paid
+ */
+async function sendTeamEmail(
+  member: TeamMember,
+  details: {
+    companyName: string
+    eventName: string
+    categoryName: string
+    claimUrl: string
+    paymentDue: boolean
+  }
+) {
+  const lines = [
+    `Hi ${member.fullName},`,
+    "",
+    `${details.companyName} has registered you for ${details.eventName} (${details.categoryName}).`,
+    "",
+    `Claim your registration and set a password here:\n${details.claimUrl}\n\nThe link can only be used once.`,
+  ]
+
+  if (details.paymentDue) {
+    lines.push("", "Your seat is reserved; pay the entry fee from your dashboard to confirm it.")
+  }
+
+  await sendEmail({
+    to: member.corporateEmail,
+    subject: `You're registered for ${details.eventName}`,
+    text: lines.join("\n"),
+  })
+}
+
+/**
+ * Emails a team member who already has an account that they have been
+ * invited to register
+ *
+ * @param {TeamMember} member - The team member
+ * @param {Object} details - What to tell them
+ * @param {string} details.companyName - Their company
+ * @param {string} details.eventName - The event they are invited to
+ * @param {string} details.categoryName - Their race category
+ * @param {string} details.dashboardUrl - Where they accept the invitation
+ */
+async function sendInvitationEmail(
+  member: TeamMember,
+  details: { companyName: string; eventName: string; categoryName: string; dashboardUrl: string }
+) {
+  await sendEmail({
+    to: member.corporateEmail,
+    subject: `${details.companyName} invited you to ${details.eventName}`,
+    text: [
+      `Hi ${member.fullName},`,
+      "",
+      `${details.companyName} has invited you to register for ${details.eventName} (${details.categoryName}).`,
+      "",
+      `Sign in and accept the invitation from your dashboard to register:\n${details.dashboardUrl}`,
+    ].join("\n"),
+  })
+}
+
+/**
+ * Registers a team of employees for an event
+ *
+ * Every row is validated with the registration rules and the company's
+ * email domain rule. Employees who already have an account are invited
+ * instead (see acceptTeamInvitation in app/dashboard/actions). Free
+ * registrations are confirmed; paid ones stay pending until the employee
+ * pays from their dashboard. Rows held by the roster check stay pending
+ * until reviewed, as for self-registrations.
+ *
+ * @param {string} companyId - The captain's company
+ * @param {string} eventId - The event to register for
+ * @param {TeamMember[]} members - The employees, one per grid row
+ * @returns {Promise<RegisterTeamResult>} A result per row, or an error message if nothing was attempted
+ */
+export async function registerTeam(
+  companyId: string,
+  eventId: string,
+  members: TeamMember[]
+): Promise<RegisterTeamResult> {
+  const session = await getCompanySession(companyId)
+  if (!session) {
+    return { error: "Only the company's coordinators and admins can register a team" }
+  }
+
+  if (members.length === 0) {
+    return { error: "Add at least one employee" }
+  }
+  if (members.length > MAX_TEAM_SIZE) {
+    return { error: `Please register at most ${MAX_TEAM_SIZE} employees at a time` }
+  }
+
+  const [{ data: company }, { data: event }, categories] = await Promise.all([
+    session.supabase.from("companies").select("id, name").eq("id", companyId).maybeSingle(),
+    session.supabase.from("events").select(EVENT_COLUMNS).eq("id", eventId).maybeSingle<RaceEvent>(),
+    getEventCategories(session.supabase, eventId),
+  ])
+
+  if (!company) {
+    return { error: "Company not found" }
+  }
+  if (!event || !isRegistrationOpen(event)) {
+    return { error: "Registration is not open for this event" }
+  }
+
+  const admin = createAdminClient(session.user.id)
+  const eventName = eventTitle(event)
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]))
+  const seen = new Set<string>()
+  const rows: TeamRowResult[] = []
+
+  for (let index = 0; index < members.length; index++) {
+    const member = members[index]
+    const fail = (error: string) =>
+      rows.push({ index, corporateEmail: member.corporateEmail, outcome: "failed", error })
+
+    const parsed = teamMemberSchema.safeParse(member)
+    if (!parsed.success) {
+      fail(parsed.error.issues[0]?.message ?? "Please check this row")
+      continue
+    }
+
+    const data = parsed.data
+    const email = data.corporateEmail.trim().toLowerCase()
+    if (seen.has(email)) {
+      fail("This email appears more than once in the team")
+      continue
+    }
+    seen.add(email)
+
+    const categoryName = categoryNames.get(data.categoryId)
+    if (!categoryName) {
+      fail("Please choose a race category for this event")
+      continue
+    }
+
+    const domainError = await checkCompanyDomain(session.supabase, company.name, email)
+    if (domainError) {
+      fail(domainError)
+      continue
+    }
+
+    let account: MemberAccount
+    try {
+      account = await getMemberAccount(email, data.fullName, company.name)
+    } catch (err) {
+      console.error("Error creating team member account:", err)
+      fail("We couldn't create an account for this email")
+      continue
+    }
+
+    // Employees with an account register themselves by accepting
+    if (!account.claimUrl) {
+      const { data: existing } = await admin
+        .from("registrations")
+        .select("id")
+        .eq("user_id", account.userId)
+        .eq("event_id", eventId)
+        .maybeSingle()
+      if (existing) {
+        fail("Already registered for this event")
+        continue
+      }
+
+      const { error: inviteError } = await admin.from("team_invitations").upsert(
+        {
+          event_id: eventId,
+          user_id: account.userId,
+          invited_by: session.user.id,
+          category_id: data.categoryId,
+          full_name: data.fullName,
+          corporate_email: email,
+          employee_id: data.employeeId,
+          company_name: company.name,
+          tshirt_size: data.tshirtSize,
+          emergency_contact: data.emergencyContact,
+          emergency_phone: data.emergencyPhone,
+        },
+        { onConflict: "event_id,user_id" }
+      )
+      if (inviteError) {
+        console.error("Error inviting team member:", inviteError)
+        fail("We couldn't save this invitation")
+        continue
+      }
+
+      const dashboardPath = `/dashboard?event=${encodeURIComponent(event.slug)}`
+      await admin.from("notifications").insert({
+        user_id: account.userId,
+        type: "team_invitation",
+        title: `Invitation to ${eventName}`,
+        body: `${company.name} invited you to register for ${categoryName}. Accept it to register.`,
+        link: dashboardPath,
+      })
+
+      const note = "Has an account; registers by accepting the invitation on their dashboard"
+      try {
+        await sendInvitationEmail(data, {
+          companyName: company.name,
+          eventName,
+          categoryName,
+          dashboardUrl: `${getEmailSiteUrl()}${dashboardPath}`,
+        })
+        rows.push({ index, corporateEmail: email, outcome: "invited", note })
+      } catch (err) {
+        console.error("Error emailing team member:", err)
+        rows.push({ index, corporateEmail: email, outcome: "invited", note: `${note}; the email could not be sent` })
+      }
+      continue
+    }
+
+    const { data: registration, error } = await admin
+      .from("registrations")
+      .insert({
+        user_id: account.userId,
+        event_id: eventId,
+        category_id: data.categoryId,
+        full_name: data.fullName,
+        corporate_email: email,
+        employee_id: data.employeeId,
+        company_name: company.name,
+        tshirt_size: data.tshirtSize,
+        emergency_contact: data.emergencyContact,
+        emergency_phone: data.emergencyPhone,
+        registered_by: session.user.id,
+        registration_date: new Date().toISOString(),
+      })
+      .select("*, category:event_categories(price_paise)")
+      .single()
+
+    // Submitting an employee who never claimed their invitation again sends
+    // them a fresh link
+    if (error?.code === "23505" && !account.created) {
+      try {
+        await sendTeamEmail(data, {
+          companyName: company.name,
+          eventName,
+          categoryName,
+          claimUrl: account.claimUrl,
+          paymentDue: false,
+        })
+        rows.push({
+          index,
+          corporateEmail: email,
+          outcome: "invited",
+          note: "Already registered; invitation sent again",
+        })
+      } catch (err) {
+        console.error("Error emailing team member:", err)
+        fail("Already registered, and the invitation could not be sent again")
+      }
+      continue
+    }
+
+    if (error) {
+      console.error("Error registering team member:", error)
+      // Don't leave behind an account that was only created for this row
+      if (account.created) {
+        await admin.auth.admin.deleteUser(account.userId)
+      }
+      fail(
+        error.code === "23505"
+          ? "Already registered for this event"
+          : error.message || "We couldn't save this registration"
+      )
+      continue
+    }
+
+    // Free registrations have nothing to pay for, unless held for roster review
+    const paymentDue = getAmountDue(registration) > 0
+    if (registration.status === "pending" && !paymentDue && registration.roster_status !== "pending_review") {
+      const { error: confirmError } = await admin
+        .from("registrations")
+        .update({ status: "confirmed" })
+        .eq("id", registration.id)
+
+      if (confirmError) {
+        console.error("Error confirming team registration:", confirmError)
+      }
+    }
+
+    try {
+      await sendTeamEmail(data, {
+        companyName: company.name,
+        eventName,
+        categoryName,
+        claimUrl: account.claimUrl,
+        paymentDue: paymentDue && registration.status === "pending",
+      })
+      rows.push({ index, corporateEmail: email, outcome: "invited" })
+    } catch (err) {
+      console.error("Error emailing team member:", err)
+      rows.push({
+        index,
+        corporateEmail: email,
+        outcome: "invited",
+        note: "Registered, but the invitation could not be sent; submit this employee again to resend it",
+      })
+    }
+  }
+
+  revalidatePath("/company")
+  revalidatePath("/admin")
+  return { rows }
+}
@@ -0,0 +1,117 @@
+/**
+ * Team Registration Page Component
+ *
+ * Lets a company's captain (a coordinator, e.g. HR) register many
+ * employees for an event at once.
+ * Features:
+ * - Protected route (requires authentication AND the company_coordinator
+ *   or admin role)
+ * - Scoped to one of the coordinator's companies (`?company=<id>`, admins
+ *   may open any company) and an event (`?event=<slug>`)
+ * - Grid of employees, filled in by hand or imported from a CSV, checked
+ *   with the registration form's rules
+ * - Per-row report of who was invited, registered or failed
+ *
+ * Route: /company/team
+ *
+ * @module app/company/team/page
+ */
+
+import Link from "next/link"
+import { redirect } from "next/navigation"
+import { ArrowLeft, UserPlus } from "lucide-react"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole } from "@/lib/roles"
+import CompanyLogo from "@/components/company-logo"
+import TeamRegistrationForm from "@/components/team-registration-form"
+import { getCoordinatedCompanies, isCompanyPortalUser, type PortalCompany } from "@/lib/company-portal"
+import { eventTitle, getEventCategories, getEvents, isRegistrationOpen, selectEvent } from "@/lib/events"
+
+/**
+ * Team registration page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`company` and `event` select the scope)
+ * @returns {Promise<JSX.Element>} The rendered team registration page
+ */
+export default async function TeamRegistrationPage({
+  searchParams,
+}: {
+  searchParams: { company?: string; event?: string }
+}) {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    redirect("/login")
+  }
+
+  if (!isCompanyPortalUser(user)) {
+    redirect("/dashboard")
+  }
+
+  // Coordinators register for their own companies; admins for any company
+  const companies = await getCoordinatedCompanies(supabase, user.id)
+  let company = searchParams.company ? companies.find((c) => c.id === searchParams.company) : companies[0]
+  if (!company && searchParams.company && getUserRole(user) === "admin") {
+    const { data } = await supabase
+      .from("companies")
+      .select("id, name, logo_url, headcount")
+      .eq("id", searchParams.company)
+      .maybeSingle()
+    company = (data as PortalCompany | null) ?? undefined
+  }
+
+  if (!company) {
+    redirect("/company")
+  }
+
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+  const registrationOpen = selectedEvent ? isRegistrationOpen(selectedEvent) : false
+  const categories = selectedEvent && registrationOpen ? await getEventCategories(supabase, selectedEvent.id) : []
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex items-center space-x-3">
+        <div className="bg-orange/10 p-3 rounded-lg">
+          <UserPlus className="w-8 h-8 text-orange" />
+        </div>
+        <div>
+          <h1 className="text-4xl md:text-5xl font-bold text-navy inline-flex items-center gap-3">
+            <CompanyLogo name={company.name} logoUrl={company.logo_url} />
+            Register a Team
+          </h1>
+          <p className="text-gray-600 text-lg mt-1">
+            {selectedEvent
+              ? `${company.name} employees for ${eventTitle(selectedEvent)}`
+              : "No events have been created yet"}
+          </p>
+        </div>
+      </div>
+
+      <Link
+        href={`/company?company=${company.id}${selectedEvent ? `&event=${selectedEvent.slug}` : ""}`}
+        className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange mb-6"
+      >
+        <ArrowLeft className="w-4 h-4 mr-1" />
+        Back to company portal
+      </Link>
+
+      {selectedEvent && registrationOpen ? (
+        <TeamRegistrationForm
+          companyId={company.id}
+          companyName={company.name}
+          eventId={selectedEvent.id}
+          categories={categories}
+        />
+      ) : (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-8 text-center text-gray-600">
+          Registration is not open for this event.
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,582 @@
+/**
+ * Dashboard Server Actions
+ *
+ * Server-side mutations triggered from the participant dashboard.
+ * Each action re-checks authentication on the server; RLS policies and
+ * database triggers enforce which changes a participant may make.
+ *
+ * @module app/dashboard/actions
+ */
+
+"use server"
+
+import { revalidatePath } from "next/cache"
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { startPayment } from "@/lib/payments"
+import {
+  checkCompanyDomain,
+  getEmailVerifiedAt,
+  recordVerifiedEmail,
+  sendVerificationCode,
+  verifyCode,
+} from "@/lib/corporate-email"
+import { EVENT_COLUMNS, eventTitle, isRegistrationOpen, type RaceEvent } from "@/lib/events"
+import { getEmailSiteUrl, getSiteUrl } from "@/lib/site-url"
+import { getAmountDue, quoteRegistrationPrice, type PriceQuote } from "@/lib/pricing"
+import { registrationSchema, type RegistrationFormData } from "@/lib/registration-schema"
+import { TEAM_INVITATION_COLUMNS, type TeamInvitation } from "@/lib/team-registration"
+
+/**
+ * Result returned by dashboard actions
+ */
+export interface ActionResult {
+  /** Error message to display, if the action failed */
+  error?: string
+}
+
+/**
+ * Result returned by actions that may send the participant to checkout
+ */
+export interface PaymentActionResult extends ActionResult {
+  /** Payment page to redirect to, when a payment is due */
+  checkoutUrl?: string
+}
+
+/**
+ * A registration with its category and event joined, as selected with
+ * CHECKOUT_COLUMNS
+ */
+interface CheckoutRegistration {
+  id: string
+  status: string
+  full_name: string
+  corporate_email: string
+  price_paise: number | null
+  discount_paise: number | null
+  category: { name: string; price_paise: number }
+  event: Pick<RaceEvent, "slug" | "name" | "edition">
+}
+
+/**
+ * Columns selected for a registration that may be sent to checkout
+ */
+const CHECKOUT_COLUMNS = "*, category:event_categories(name, price_paise), event:events(slug, name, edition)"
+
+/**
+ * Creates a payment for a pending registration and returns its checkout URL
+ *
+ * @param {CheckoutRegistration} registration - Registration row with its category and event joined
+ * @returns {Promise<string>} The provider's checkout URL
+ */
+async function createCheckout(registration: CheckoutRegistration): Promise<string> {
+  return startPayment({
+    registrationId: registration.id,
+    amountPaise: getAmountDue(registration),
+    description: `${eventTitle(registration.event)} - ${registration.category.name}`,
+    customer: { name: registration.full_name, email: registration.corporate_email },
+    returnUrl: `${getSiteUrl()}/dashboard?event=${registration.event.slug}`,
+  })
+}
+
+/**
+ * Result returned by getPriceQuote
+ */
+export interface PriceQuoteResult extends ActionResult {
+  quote?: PriceQuote
+}
+
+/**
+ * Prices a registration for the breakdown on the registration form
+ *
+ * The quote is informational; the same database function prices the
+ * registration again when it is inserted.
+ *
+ * @param {string} categoryId - The chosen race category
+ * @param {string} [promoCode] - Promo code entered by the participant
+ * @param {string} [companyName] - The participant's company
+ * @returns {Promise<PriceQuoteResult>} The price breakdown, or an error message
+ */
+export async function getPriceQuote(
+  categoryId: string,
+  promoCode?: string,
+  companyName?: string
+): Promise<PriceQuoteResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in" }
+  }
+
+  try {
+    return { quote: await quoteRegistrationPrice(supabase, categoryId, promoCode, companyName) }
+  } catch (err) {
+    console.error("Error quoting registration price:", err)
+    return { error: "We couldn't calculate the price. Please try again." }
+  }
+}
+
+/**
+ * Submits a registration for an event
+ *
+ * The data is validated again on the server with the same schema as the
+ * form, and the event must be open for registration (the insert trigger
+ * enforces the window too). The database trigger decides the initial
+ * status:
+ * - waitlisted: The event or category is full
+ * - pending: A seat is held; paid registrations stay pending until the
+ *   payment webhook confirms them, free ones are confirmed here
+ *
+ * The price (current tier minus any promo code discount) is recorded on
+ * the registration by a database trigger. The corporate email must have
+ * been verified (see sendCorporateEmailCode).
+ *
+ * @param {string} eventId - The event being registered for
+ * @param {RegistrationFormData} data - The registration form data
+ * @returns {Promise<PaymentActionResult>} A checkout URL when payment is due, or an error message
+ */
+export async function submitRegistration(
+  eventId: string,
+  data: RegistrationFormData
+): Promise<PaymentActionResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in to register" }
+  }
+
+  const parsed = registrationSchema.safeParse(data)
+  if (!parsed.success) {
+    return { error: parsed.error.issues[0]?.message ?? "Please check your registration details" }
+  }
+
+  const { data: event } = await supabase
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .eq("id", eventId)
+    .maybeSingle<RaceEvent>()
+  if (!event || !isRegistrationOpen(event)) {
+    return { error: "Registration is not open for this event" }
+  }
+
+  // The insert trigger enforces both checks; these give friendlier messages
+  if (!(await getEmailVerifiedAt(supabase, user.id, parsed.data.corporateEmail))) {
+    return { error: "Please verify your corporate email before registering" }
+  }
+  const domainError = await checkCompanyDomain(supabase, parsed.data.companyName, parsed.data.corporateEmail)
+  if (domainError) {
+    return { error: domainError }
+  }
+
+  // Resolve the promo code; the insert trigger re-checks it (and its usage
+  // limit) under a lock, so this only gives a friendlier error message
+  let promoCodeId: string | null = null
+  if (parsed.data.promoCode) {
+    try {
+      const quote = await quoteRegistrationPrice(
+        supabase,
+        parsed.data.categoryId,
+        parsed.data.promoCode,
+        parsed.data.companyName
+      )
+      if (quote.promoError) {
+        return { error: quote.promoError }
+      }
+      promoCodeId = quote.promoCodeId
+    } catch (err) {
+      console.error("Error checking promo code:", err)
+      return { error: "We couldn't check your promo code. Please try again." }
+    }
+  }
+
+  const { data: registration, error } = await supabase
+    .from("registrations")
+    .insert({
+      user_id: user.id,
+      event_id: eventId,
+      category_id: parsed.data.categoryId,
+      full_name: parsed.data.fullName,
+      corporate_email: parsed.data.corporateEmail,
+      employee_id: parsed.data.employeeId,
+      company_name: parsed.data.companyName,
+      tshirt_size: parsed.data.tshirtSize,
+      emergency_contact: parsed.data.emergencyContact,
+      emergency_phone: parsed.data.emergencyPhone,
+      promo_code_id: promoCodeId,
+      registration_date: new Date().toISOString(),
+    })
+    .select(CHECKOUT_COLUMNS)
+    .single<CheckoutRegistration>()
+
+  if (error) {
+    console.error("Error submitting registration:", error)
+    return {
+      error:
+        error.code === "23505"
+          ? "You have already registered for this event"
+          : error.message || "An error occurred while submitting your registration",
+    }
+  }
+
+  revalidatePath("/dashboard")
+
+  if (registration.status !== "pending") {
+    return {}
+  }
+
+  // Free categories (or fully discounted registrations) have nothing to pay for
+  if (getAmountDue(registration) === 0) {
+    const { error: confirmError } = await createAdminClient()
+      .from("registrations")
+      .update({ status: "confirmed" })
+      .eq("id", registration.id)
+
+    if (confirmError) {
+      console.error("Error confirming registration:", confirmError)
+      return { error: "Your registration was saved but could not be confirmed. Please contact us." }
+    }
+    return {}
+  }
+
+  try {
+    return { checkoutUrl: await createCheckout(registration) }
+  } catch (err) {
+    console.error("Error starting payment:", err)
+    return { error: "Your seat is reserved, but we couldn't start the payment. Please try again from your dashboard." }
+  }
+}
+
+/**
+ * Result returned by getCorporateEmailStatus
+ */
+export interface EmailStatusResult extends ActionResult {
+  verified?: boolean
+}
+
+/**
+ * Emails a one-time code and verification link to a corporate email
+ *
+ * @param {string} email - The corporate email to verify
+ * @returns {Promise<ActionResult>} Empty once the email is sent, or an error message
+ */
+export async function sendCorporateEmailCode(email: string): Promise<ActionResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in" }
+  }
+
+  if (!registrationSchema.shape.corporateEmail.safeParse(email).success) {
+    return { error: "Please enter a valid email address" }
+  }
+
+  if (await getEmailVerifiedAt(supabase, user.id, email)) {
+    return {}
+  }
+
+  const error = await sendVerificationCode(user.id, email, getEmailSiteUrl())
+  return error ? { error } : {}
+}
+
+/**
+ * Checks the code the participant received at their corporate email
+ *
+ * Verifying also marks the participant's existing registrations with this
+ * email as verified.
+ *
+ * @param {string} email - The corporate email being verified
+ * @param {string} code - The 6-digit code
+ * @returns {Promise<ActionResult>} Empty once verified, or an error message
+ */
+export async function verifyCorporateEmailCode(email: string, code: string): Promise<ActionResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in" }
+  }
+
+  if (!/^\d{6}$/.test(code.trim())) {
+    return { error: "Enter the 6-digit code from the email" }
+  }
+
+  const error = await verifyCode(user.id, email, code)
+  if (error) {
+    return { error }
+  }
+
+  revalidatePath("/dashboard")
+  return {}
+}
+
+/**
+ * Reports whether the current user has verified a corporate email, e.g.
+ * after following the link in the verification email in another tab
+ *
+ * @param {string} email - The corporate email
+ * @returns {Promise<EmailStatusResult>} Whether the email is verified, or an error message
+ */
+export async function getCorporateEmailStatus(email: string): Promise<EmailStatusResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in" }
+  }
+
+  return { verified: !!(await getEmailVerifiedAt(supabase, user.id, email)) }
+}
+
+/**
+ * Starts (or retries) payment for one of the current user's pending registrations
+ *
+ * @param {string} registrationId - The registration to pay for
+ * @returns {Promise<PaymentActionResult>} The checkout URL, or an error message
+ */
+export async function payForRegistration(registrationId: string): Promise<PaymentActionResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in to pay" }
+  }
+
+  const { data: registration } = await supabase
+    .from("registrations")
+    .select(`${CHECKOUT_COLUMNS}, payments(status)`)
+    .eq("id", registrationId)
+    .eq("user_id", user.id)
+    .maybeSingle<CheckoutRegistration & { payments: { status: string }[] }>()
+
+  // A paid registration held for roster review stays pending; it needs no second payment
+  if (
+    !registration ||
+    registration.status !== "pending" ||
+    getAmountDue(registration) === 0 ||
+    registration.payments.some((payment) => payment.status === "captured")
+  ) {
+    return { error: "This registration has no payment due" }
+  }
+
+  try {
+    return { checkoutUrl: await createCheckout(registration) }
+  } catch (err) {
+    console.error("Error starting payment:", err)
+    return { error: "We couldn't start the payment. Please try again." }
+  }
+}
+
+/**
+ * Cancels the current user's registration
+ *
+ * Cancelling frees the participant's seat; a database trigger then promotes
+ * the next person on the waitlist and notifies them.
+ *
+ * @param {string} registrationId - The registration to cancel
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function cancelRegistration(registrationId: string): Promise<ActionResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in to cancel a registration" }
+  }
+
+  const { error } = await supabase
+    .from("registrations")
+    .update({ status: "cancelled" })
+    .eq("id", registrationId)
+    .eq("user_id", user.id)
+
+  if (error) {
+    console.error("Error cancelling registration:", error)
+    return { error: "We couldn't cancel your registration. Please try again." }
+  }
+
+  revalidatePath("/dashboard")
+  return {}
+}
+
+/**
+ * Accepts an invitation from a company's captain to register for an event
+ *
+ * Registers the participant with the details the captain entered, recording
+ * the captain in registered_by. The invitation was sent to the corporate
+ * email the participant signs in with, so that email is recorded as
+ * verified. Free registrations are confirmed; paid ones go to checkout,
+ * unless the registration is held for roster review.
+ *
+ * @param {string} invitationId - The invitation to accept
+ * @returns {Promise<PaymentActionResult>} The checkout URL if a payment is due, or an error message
+ */
+export async function acceptTeamInvitation(invitationId: string): Promise<PaymentActionResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in to accept an invitation" }
+  }
+
+  const { data: invitation } = await supabase
+    .from("team_invitations")
+    .select(TEAM_INVITATION_COLUMNS)
+    .eq("id", invitationId)
+    .eq("user_id", user.id)
+    .maybeSingle<TeamInvitation>()
+  if (!invitation) {
+    return { error: "This invitation is no longer available" }
+  }
+
+  const { data: event } = await supabase
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .eq("id", invitation.event_id)
+    .maybeSingle<RaceEvent>()
+  if (!event || !isRegistrationOpen(event)) {
+    return { error: "Registration is not open for this event" }
+  }
+
+  // Inserted by the server, since participants cannot set registered_by
+  const admin = createAdminClient(user.id)
+  const { data: registration, error } = await admin
+    .from("registrations")
+    .insert({
+      user_id: user.id,
+      event_id: invitation.event_id,
+      category_id: invitation.category_id,
+      full_name: invitation.full_name,
+      corporate_email: invitation.corporate_email,
+      employee_id: invitation.employee_id,
+      company_name: invitation.company_name,
+      tshirt_size: invitation.tshirt_size,
+      emergency_contact: invitation.emergency_contact,
+      emergency_phone: invitation.emergency_phone,
+      registered_by: invitation.invited_by,
+      registration_date: new Date().toISOString(),
+    })
+    .select(CHECKOUT_COLUMNS)
+    .single<CheckoutRegistration & { roster_status: string | null }>()
+
+  if (error && error.code !== "23505") {
+    console.error("Error accepting team invitation:", error)
+    return { error: error.message || "We couldn't register you. Please try again." }
+  }
+
+  await admin.from("team_invitations").delete().eq("id", invitation.id)
+  revalidatePath("/dashboard")
+
+  if (error) {
+    return { error: "You have already registered for this event" }
+  }
+
+  if (user.email?.toLowerCase() === invitation.corporate_email.toLowerCase()) {
+    await recordVerifiedEmail(user.id, invitation.corporate_email)
+  }
+
+  if (registration.status !== "pending" || registration.roster_status === "pending_review") {
+    return {}
+  }
+
+  // Free categories have nothing to pay for
+  if (getAmountDue(registration) === 0) {
+    const { error: confirmError } = await admin
+      .from("registrations")
+      .update({ status: "confirmed" })
+      .eq("id", registration.id)
+
+    if (confirmError) {
+      console.error("Error confirming registration:", confirmError)
+      return { error: "Your registration was saved but could not be confirmed. Please contact us." }
+    }
+    return {}
+  }
+
+  try {
+    return { checkoutUrl: await createCheckout(registration) }
+  } catch (err) {
+    console.error("Error starting payment:", err)
+    return { error: "Your seat is reserved, but we couldn't start the payment. Please try again from your dashboard." }
+  }
+}
+
+/**
+ * Declines an invitation from a company's captain to register for an event
+ *
+ * @param {string} invitationId - The invitation to decline
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function declineTeamInvitation(invitationId: string): Promise<ActionResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in to decline an invitation" }
+  }
+
+  const { error } = await supabase
+    .from("team_invitations")
+    .delete()
+    .eq("id", invitationId)
+    .eq("user_id", user.id)
+
+  if (error) {
+    console.error("Error declining team invitation:", error)
+    return { error: "We couldn't decline the invitation. Please try again." }
+  }
+
+  revalidatePath("/dashboard")
+  return {}
+}
+
+/**
+ * Marks one of the current user's notifications as read
+ *
+ * @param {string} notificationId - The notification to dismiss
+ * @returns {Promise<ActionResult>} Empty on success, or an error message
+ */
+export async function markNotificationRead(notificationId: string): Promise<ActionResult> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return { error: "You must be signed in" }
+  }
+
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("id", notificationId)
+    .eq("user_id", user.id)
+
+  if (error) {
+    console.error("Error marking notification as read:", error)
+    return { error: "We couldn't dismiss this notification" }
+  }
+
+  revalidatePath("/dashboard")
+  return {}
+}
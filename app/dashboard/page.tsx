@@ -5,8 +5,21 @@
  * Features:
  * - Protected route (requires authentication)
  * - Displays user profile information
- * - Shows event registration form if user hasn't registered
+ * - Scoped to a selected event (`?event=<slug>`, defaults to the next event)
+ * - Shows event registration form if user hasn't registered for that event
+ * - Shows an invitation to accept when the user's company captain invited
+ *   them to register
  * - Shows registration status and details if user has registered
+ * - Shows the user's waitlist position when the event is full
+ * - Shows unread notifications (e.g. waitlist promotions)
+ * - Prompts for payment while a paid registration is pending
+ * - Explains when a registration is held because the employee ID did not
+ *   match the company's roster
+ * - Shows the organisers' reason when an admin changed the registration's
+ *   status (e.g. why it was cancelled)
+ * - Shows the participant's bib number once assigned
+ * - Shows a signed QR e-ticket (downloadable) once confirmed
+ * - Shows the participant's race time, linking to their result card, once results are published
  * - Provides event information and next steps
  * 
  * Route: /dashboard
@@ -14,10 +27,36 @@
  * @module app/dashboard/page
  */
 
+import Link from "next/link"
 import { createClient } from "@/lib/supabase/server"
 import { redirect } from "next/navigation"
-import { CheckCircle, Clock, User, Building, Mail, Calendar } from "lucide-react"
+import QRCode from "qrcode"
+import { CheckCircle, Clock, User, Building, Mail, Calendar, ListOrdered, Flag, CreditCard, Hash, Timer, ShieldAlert, Info } from "lucide-react"
 import RegistrationForm from "@/components/registration-form"
+import EventSelector from "@/components/event-selector"
+import CancelRegistrationButton from "@/components/cancel-registration-button"
+import CorporateEmailVerification from "@/components/corporate-email-verification"
+import PayNowButton from "@/components/pay-now-button"
+import NotificationBanner, { type Notification } from "@/components/notification-banner"
+import ETicket from "@/components/e-ticket"
+import TeamInvitationCard from "@/components/team-invitation-card"
+import {
+  eventTitle,
+  formatEventDate,
+  formatStartTime,
+  getCategoryRegistrationCounts,
+  getEventCategories,
+  getEventRegistrationCounts,
+  getEvents,
+  isRegistrationOpen,
+  selectEvent,
+} from "@/lib/events"
+import { getLatestPayment, getStatusBadgeClass } from "@/lib/registrations"
+import { formatPrice } from "@/lib/utils"
+import { getAmountDue, getCategoryCurrentPrices } from "@/lib/pricing"
+import { signTicket } from "@/lib/tickets"
+import { formatRaceTime } from "@/lib/results"
+import { TEAM_INVITATION_COLUMNS, type TeamInvitation } from "@/lib/team-registration"
 
 /**
  * Dashboard page component
@@ -25,10 +64,13 @@ import RegistrationForm from "@/components/registration-form"
  * Server Component that:
  * 1. Checks if user is authenticated (redirects to /login if not)
  * 2. Retrieves user metadata (name, company, email)
- * 3. Checks if user has registered for the event
- * 4. Displays registration form if not registered
- * 5. Displays registration status and details if registered
+ * 3. Resolves the selected event from the `event` search parameter
+ * 4. Checks if user has registered for that event
+ * 5. Displays registration form if not registered and registration is open
+ * 6. Displays registration status and details if registered
  * 
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`event` selects the event)
  * @returns {Promise<JSX.Element>} The rendered dashboard page
  * 
  * @remarks
@@ -36,7 +78,11 @@ import RegistrationForm from "@/components/registration-form"
  * and check authentication state on the server. This provides better
  * security and performance than client-side checks.
  */
-export default async function Dashboard() {
+export default async function Dashboard({
+  searchParams,
+}: {
+  searchParams: { event?: string }
+}) {
   // Get Supabase client for server-side operations
   const supabase = await createClient()
   
@@ -56,41 +102,168 @@ export default async function Dashboard() {
   const company = user.user_metadata?.company || "Not provided"
   const email = user.email || "Not provided"
 
-  // Check if user has registered for the event
+  // Resolve the event this dashboard is scoped to
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+
+  if (!selectedEvent) {
+    return (
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <h1 className="text-4xl md:text-5xl font-bold text-navy mb-2">
+          Welcome back, {fullName.split(" ")[0]}!
+        </h1>
+        <p className="text-gray-600 text-lg">
+          No events have been scheduled yet. Check back soon!
+        </p>
+      </div>
+    )
+  }
+
+  // Check if user has registered for the selected event
   // Query the registrations table for this user's registration
   const { data: registration, error } = await supabase
     .from("registrations")
-    .select("*")
+    .select(
+      "*, category:event_categories(name, distance_km, start_time, price_paise), payments(status, amount_paise, paid_at, created_at), result:race_results(bib_number, gun_time_ms, chip_time_ms)"
+    )
     .eq("user_id", user.id)
-    .single()
+    .eq("event_id", selectedEvent.id)
+    .maybeSingle()
 
   // Determine if user has completed event registration
   // Registration exists if data is returned and no error occurred
   const hasRegistered = !!registration && !error
+  const registrationOpen = isRegistrationOpen(selectedEvent)
+
+  // Look up the user's place in the queue if they are waitlisted
+  let waitlistPosition: number | null = null
+  if (hasRegistered && registration.status === "waitlisted") {
+    const { data: position } = await supabase.rpc("waitlist_position", {
+      p_registration_id: registration.id,
+    })
+    waitlistPosition = position ?? null
+  }
+
+  // Latest payment attempt, and whether a payment is still due
+  const latestPayment = hasRegistered ? getLatestPayment(registration.payments) : undefined
+  const amountDue = hasRegistered ? getAmountDue(registration) : 0
+  const paymentDue =
+    hasRegistered && registration.status === "pending" && amountDue > 0 && latestPayment?.status !== "captured"
+
+  // Published race result, if any (one per registration)
+  const raceResult = hasRegistered
+    ? (Array.isArray(registration.result) ? registration.result[0] : registration.result) ?? null
+    : null
+
+  // Confirmed participants get a signed QR e-ticket
+  let ticketQrDataUrl: string | null = null
+  if (hasRegistered && registration.status === "confirmed") {
+    try {
+      const token = signTicket({ registrationId: registration.id, eventId: selectedEvent.id })
+      ticketQrDataUrl = await QRCode.toDataURL(token, { width: 480, margin: 1, errorCorrectionLevel: "M" })
+    } catch (err) {
+      console.error("Error generating e-ticket:", err)
+    }
+  }
+
+  // Warn prospective participants when new registrations will be waitlisted
+  let eventIsFull = false
+  if (!hasRegistered && selectedEvent.capacity !== null) {
+    const counts = await getEventRegistrationCounts(supabase)
+    eventIsFull = (counts[selectedEvent.id] ?? 0) >= selectedEvent.capacity
+  }
+
+  // Fetch the race categories (seats taken and current prices) for the registration form
+  const [categories, categoryCounts, categoryPrices] = hasRegistered
+    ? [[], {}, {}]
+    : await Promise.all([
+        getEventCategories(supabase, selectedEvent.id),
+        getCategoryRegistrationCounts(supabase, selectedEvent.id),
+        getCategoryCurrentPrices(supabase, selectedEvent.id),
+      ])
+
+  // An invitation from the user's company captain, while they can still register
+  const { data: teamInvitation } =
+    !hasRegistered && registrationOpen
+      ? await supabase
+          .from("team_invitations")
+          .select(TEAM_INVITATION_COLUMNS)
+          .eq("user_id", user.id)
+          .eq("event_id", selectedEvent.id)
+          .maybeSingle<TeamInvitation>()
+      : { data: null }
+
+  // Fetch unread notifications (e.g. "You're in!" after a waitlist promotion)
+  const { data: notifications } = await supabase
+    .from("notifications")
+    .select("id, type, title, body, link, created_at")
+    .eq("user_id", user.id)
+    .is("read_at", null)
+    .order("created_at", { ascending: false })
 
   return (
     <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-      <div className="mb-8">
-        <h1 className="text-4xl md:text-5xl font-bold text-navy mb-2">
-          Welcome back, {fullName.split(" ")[0]}!
-        </h1>
-        <p className="text-gray-600 text-lg">
-          {hasRegistered
-            ? "Here's your registration status and event information"
-            : "Complete your registration for The Silicon Mile 5K"}
-        </p>
+      <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-4xl md:text-5xl font-bold text-navy mb-2">
+            Welcome back, {fullName.split(" ")[0]}!
+          </h1>
+          <p className="text-gray-600 text-lg">
+            {hasRegistered
+              ? "Here's your registration status and event information"
+              : `Complete your registration for ${selectedEvent.name}`}
+          </p>
+        </div>
+        {events.length > 1 && (
+          <div className="md:w-80">
+            <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+          </div>
+        )}
       </div>
 
-      {!hasRegistered ? (
+      {/* Unread Notifications */}
+      {notifications && notifications.length > 0 && (
+        <div className="space-y-3 mb-8">
+          {(notifications as Notification[]).map((notification) => (
+            <NotificationBanner key={notification.id} notification={notification} />
+          ))}
+        </div>
+      )}
+
+      {!hasRegistered && !registrationOpen ? (
+        /* Registration Closed Notice */
+        <div className="bg-white rounded-lg shadow-lg p-8 mb-8 border-l-4 border-gray-300">
+          <h2 className="text-2xl font-bold text-navy mb-2">Registration is closed</h2>
+          <p className="text-gray-600">
+            {new Date() < new Date(selectedEvent.registration_opens_at)
+              ? `Registration for ${eventTitle(selectedEvent)} opens on ${new Date(
+                  selectedEvent.registration_opens_at
+                ).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" })}.`
+              : `Registration for ${eventTitle(selectedEvent)} has closed.`}
+          </p>
+        </div>
+      ) : !hasRegistered ? (
         /* Registration Form */
         <div className="mb-8">
+          {teamInvitation && <TeamInvitationCard invitation={teamInvitation} eventName={eventTitle(selectedEvent)} />}
           <div className="text-center mb-8">
-            <h2 className="text-3xl font-bold text-navy mb-2">Register for The Silicon Mile 5K</h2>
+            <h2 className="text-3xl font-bold text-navy mb-2">Register for {selectedEvent.name}</h2>
             <p className="text-gray-600">
-              Fill out the form below to complete your registration for the Fall Edition
+              Fill out the form below to complete your registration for the {selectedEvent.edition}
             </p>
+            {eventIsFull && (
+              <p className="mt-4 inline-block bg-blue-50 border border-blue-200 text-blue-700 px-4 py-2 rounded-md text-sm">
+                This event is full. New registrations join the waitlist and move off it automatically when a spot opens
+                up; paid entries are then confirmed once the entry fee is paid.
+              </p>
+            )}
           </div>
-          <RegistrationForm userId={user.id} />
+          <RegistrationForm
+            eventId={selectedEvent.id}
+            categories={categories}
+            categoryCounts={categoryCounts}
+            categoryPrices={categoryPrices}
+          />
         </div>
       ) : (
         /* Registration Status Card */
@@ -98,14 +271,96 @@ export default async function Dashboard() {
           <div className="flex items-start justify-between mb-6">
             <div>
               <h2 className="text-2xl font-bold text-navy mb-2">Registration Status</h2>
-              <p className="text-gray-600">The Silicon Mile 5K - Fall Edition</p>
+              <p className="text-gray-600">{eventTitle(selectedEvent)}</p>
             </div>
-            <div className="flex items-center space-x-2 bg-green-50 text-green-700 px-4 py-2 rounded-full">
+            <div
+              className={`flex items-center space-x-2 px-4 py-2 rounded-full ${getStatusBadgeClass(
+                registration.status || "confirmed"
+              )}`}
+            >
               <CheckCircle className="w-5 h-5" />
               <span className="font-semibold">{registration.status?.toUpperCase() || "CONFIRMED"}</span>
             </div>
           </div>
 
+          {/* Organisers' Reason */}
+          {registration.status_reason && (
+            <div
+              className={`flex items-center space-x-4 rounded-lg p-4 mb-6 border ${
+                registration.status === "cancelled" ? "bg-red-50 border-red-200" : "bg-gray-50 border-gray-200"
+              }`}
+            >
+              <Info
+                className={`w-6 h-6 flex-shrink-0 ${registration.status === "cancelled" ? "text-red-700" : "text-navy"}`}
+              />
+              <div>
+                <p className={`font-semibold ${registration.status === "cancelled" ? "text-red-800" : "text-navy"}`}>
+                  {registration.status === "cancelled"
+                    ? "The organisers cancelled your registration"
+                    : "Note from the organisers"}
+                </p>
+                <p className="text-sm text-gray-700">
+                  {registration.status_reason}
+                  {registration.status_changed_at &&
+                    ` (${new Date(registration.status_changed_at).toLocaleDateString("en-US", {
+                      month: "short",
+                      day: "numeric",
+                    })})`}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Waitlist Position */}
+          {registration.status === "waitlisted" && (
+            <div className="flex items-center space-x-4 bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+              <ListOrdered className="w-6 h-6 text-blue-700 flex-shrink-0" />
+              <div>
+                <p className="font-semibold text-blue-800">
+                  {waitlistPosition
+                    ? `You are #${waitlistPosition} on the waitlist`
+                    : "You are on the waitlist"}
+                </p>
+                <p className="text-sm text-blue-700">
+                  This event is full. We&apos;ll move you off the waitlist automatically and notify you as soon as a
+                  spot opens up. If the event has an entry fee, pay it then to confirm your spot.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Roster Review */}
+          {registration.roster_status === "pending_review" && registration.status !== "cancelled" && (
+            <div className="flex items-center space-x-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+              <ShieldAlert className="w-6 h-6 text-yellow-800 flex-shrink-0" />
+              <div>
+                <p className="font-semibold text-yellow-800">Waiting for {registration.company_name} to confirm</p>
+                <p className="text-sm text-yellow-700">
+                  Your employee ID and corporate email don&apos;t match your company&apos;s employee list, so your
+                  registration will be confirmed once your company reviews it. We&apos;ll notify you.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Payment Due */}
+          {paymentDue && (
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+              <div className="flex items-center space-x-4">
+                <CreditCard className="w-6 h-6 text-yellow-800 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold text-yellow-800">Payment pending</p>
+                  <p className="text-sm text-yellow-700">
+                    {latestPayment?.status === "failed"
+                      ? "Your last payment attempt failed. Your seat is held until you complete payment."
+                      : "Your seat is held. Complete your payment to confirm your registration."}
+                  </p>
+                </div>
+              </div>
+              <PayNowButton registrationId={registration.id} amountPaise={amountDue} />
+            </div>
+          )}
+
           <div className="grid md:grid-cols-2 gap-6 mb-6">
             <div className="flex items-center space-x-4">
               <div className="bg-navy/10 p-3 rounded-lg">
@@ -133,6 +388,73 @@ export default async function Dashboard() {
                 <p className="font-semibold text-navy">{registration.tshirt_size || "N/A"}</p>
               </div>
             </div>
+            {registration.bib_number && (
+              <div className="flex items-center space-x-4">
+                <div className="bg-orange/10 p-3 rounded-lg">
+                  <Hash className="w-6 h-6 text-orange" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">Bib Number</p>
+                  <p className="font-semibold text-navy font-mono text-lg">{registration.bib_number}</p>
+                </div>
+              </div>
+            )}
+            {registration.category && (
+              <div className="flex items-center space-x-4">
+                <div className="bg-navy/10 p-3 rounded-lg">
+                  <Flag className="w-6 h-6 text-navy" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">Race Category</p>
+                  <p className="font-semibold text-navy">
+                    {registration.category.name}
+                    {formatStartTime(registration.category) &&
+                      ` · Starts ${formatStartTime(registration.category)}`}
+                  </p>
+                </div>
+              </div>
+            )}
+            {raceResult && (
+              <div className="flex items-center space-x-4">
+                <div className="bg-orange/10 p-3 rounded-lg">
+                  <Timer className="w-6 h-6 text-orange" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">Your Result</p>
+                  <p className="font-semibold text-navy">
+                    <span className="font-mono text-lg">
+                      {formatRaceTime(raceResult.chip_time_ms ?? raceResult.gun_time_ms)}
+                    </span>
+                    {" · "}
+                    <Link
+                      href={`/results/${selectedEvent.slug}/${raceResult.bib_number}`}
+                      className="text-orange hover:text-orange-dark transition-colors"
+                    >
+                      View result card
+                    </Link>
+                  </p>
+                </div>
+              </div>
+            )}
+            {latestPayment?.status === "captured" && (
+              <div className="flex items-center space-x-4">
+                <div className="bg-orange/10 p-3 rounded-lg">
+                  <CreditCard className="w-6 h-6 text-orange" />
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">Payment</p>
+                  <p className="font-semibold text-navy">
+                    {formatPrice(latestPayment.amount_paise)} paid
+                    {latestPayment.paid_at &&
+                      ` on ${new Date(latestPayment.paid_at).toLocaleDateString("en-US", {
+                        year: "numeric",
+                        month: "long",
+                        day: "numeric",
+                      })}`}
+                  </p>
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Registration Details */}
@@ -146,6 +468,12 @@ export default async function Dashboard() {
               <div>
                 <p className="text-sm text-gray-600">Corporate Email</p>
                 <p className="font-semibold text-navy">{registration.corporate_email}</p>
+                {registration.status !== "cancelled" && (
+                  <CorporateEmailVerification
+                    email={registration.corporate_email}
+                    verified={!!registration.corporate_email_verified_at}
+                  />
+                )}
               </div>
               <div>
                 <p className="text-sm text-gray-600">Employee ID</p>
@@ -165,9 +493,37 @@ export default async function Dashboard() {
               </div>
             </div>
           </div>
+
+          {/* Cancellation */}
+          {registration.status !== "cancelled" && (
+            <div className="border-t mt-6 pt-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <p className="text-sm text-gray-600">
+                Can&apos;t make it? Cancelling frees your spot for someone on the waitlist.
+              </p>
+              <CancelRegistrationButton registrationId={registration.id} />
+            </div>
+          )}
         </div>
       )}
 
+      {/* E-Ticket */}
+      {hasRegistered && ticketQrDataUrl && (
+        <ETicket
+          qrDataUrl={ticketQrDataUrl}
+          fileName={`ticket_${selectedEvent.slug}_${registration.bib_number ?? registration.id.slice(0, 8)}`}
+          details={{
+            eventTitle: eventTitle(selectedEvent),
+            eventDate: formatEventDate(selectedEvent),
+            venue: selectedEvent.venue,
+            fullName: registration.full_name,
+            bibNumber: registration.bib_number,
+            categoryName: registration.category?.name ?? null,
+            startTime:
+              (registration.category && formatStartTime(registration.category)) || formatStartTime(selectedEvent),
+          }}
+        />
+      )}
+
       {/* User Information */}
       <div className="grid md:grid-cols-2 gap-6 mb-8">
         <div className="bg-white rounded-lg shadow-md p-6">
@@ -203,15 +559,15 @@ export default async function Dashboard() {
           <div className="space-y-3">
             <div>
               <p className="text-sm text-gray-600">Event Name</p>
-              <p className="font-semibold text-navy">The Silicon Mile 5K - Fall Edition</p>
+              <p className="font-semibold text-navy">{eventTitle(selectedEvent)}</p>
             </div>
             <div>
               <p className="text-sm text-gray-600">Date</p>
-              <p className="font-semibold text-navy">September 28, 2024</p>
+              <p className="font-semibold text-navy">{formatEventDate(selectedEvent)}</p>
             </div>
             <div>
               <p className="text-sm text-gray-600">Location</p>
-              <p className="font-semibold text-navy">Hyderabad Tech Park</p>
+              <p className="font-semibold text-navy">{selectedEvent.venue}</p>
             </div>
           </div>
         </div>
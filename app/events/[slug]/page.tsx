@@ -0,0 +1,272 @@
+/**
+ * Event Detail Page Component
+ *
+ * Public, shareable page for a single edition of The Silicon Mile 5K.
+ * Features:
+ * - Date, start time, venue, description and course information
+ * - Race categories with distance, start time, current price (e.g. early bird) and availability
+ * - Status badge and remaining spots
+ * - "Register" call-to-action leading into the registration form for this event
+ * - "View Results" link once results have been published
+ * - Statically generated per event and revalidated periodically
+ *
+ * Route: /events/[slug]
+ *
+ * @module app/events/[slug]/page
+ */
+
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import type { Metadata } from "next"
+import { Calendar, Clock, MapPin, Route, Users, ChevronLeft, Flag } from "lucide-react"
+import { createPublicClient } from "@/lib/supabase/public"
+import { Button } from "@/components/ui/button"
+import EventStatusBadge from "@/components/event-status-badge"
+import { formatPrice } from "@/lib/utils"
+import { getCategoryCurrentPrices } from "@/lib/pricing"
+import { hasResults } from "@/lib/results"
+import {
+  eventTitle,
+  formatEventDate,
+  formatStartTime,
+  getCategoryRegistrationCounts,
+  getEventBySlug,
+  getEventCategories,
+  getEventRegistrationCounts,
+  getEventStatus,
+  getEvents,
+} from "@/lib/events"
+
+/**
+ * Revalidate each event page every 5 minutes
+ */
+export const revalidate = 300
+
+/**
+ * Pre-renders a page for every event at build time
+ *
+ * Events created later are rendered on first request and then cached.
+ *
+ * @returns {Promise<{ slug: string }[]>} Route parameters for all events
+ */
+export async function generateStaticParams() {
+  const events = await getEvents(createPublicClient())
+  return events.map((event) => ({ slug: event.slug }))
+}
+
+/**
+ * Builds page metadata (title, description, Open Graph) for sharing
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.params - Route parameters
+ * @returns {Promise<Metadata>} Metadata for the event page
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: { slug: string }
+}): Promise<Metadata> {
+  const event = await getEventBySlug(createPublicClient(), params.slug)
+  if (!event) return { title: "Event not found" }
+
+  const description =
+    event.description ||
+    `${eventTitle(event)} on ${formatEventDate(event)} at ${event.venue}.`
+
+  return {
+    title: eventTitle(event),
+    description,
+    openGraph: {
+      title: eventTitle(event),
+      description,
+      type: "website",
+    },
+  }
+}
+
+/**
+ * Event detail page component
+ *
+ * Server Component that renders the full details for a single event.
+ * Returns a 404 if no event matches the slug.
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.params - Route parameters
+ * @param {string} props.params.slug - The event slug
+ * @returns {Promise<JSX.Element>} The rendered event page
+ */
+export default async function EventDetail({ params }: { params: { slug: string } }) {
+  const supabase = createPublicClient()
+  const [event, counts] = await Promise.all([
+    getEventBySlug(supabase, params.slug),
+    getEventRegistrationCounts(supabase),
+  ])
+
+  if (!event) {
+    notFound()
+  }
+
+  const [categories, categoryCounts, categoryPrices, resultsPublished] = await Promise.all([
+    getEventCategories(supabase, event.id),
+    getCategoryRegistrationCounts(supabase, event.id),
+    getCategoryCurrentPrices(supabase, event.id),
+    hasResults(supabase, event.id),
+  ])
+
+  const registeredCount = counts[event.id] ?? 0
+  const status = getEventStatus(event, registeredCount)
+  const startTime = formatStartTime(event)
+  const spotsLeft = event.capacity !== null ? Math.max(event.capacity - registeredCount, 0) : null
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <Link
+        href="/events"
+        className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange transition-colors mb-6"
+      >
+        <ChevronLeft className="w-4 h-4 mr-1" />
+        All events
+      </Link>
+
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4 mb-8">
+        <div>
+          <h1 className="text-4xl md:text-5xl font-bold text-navy mb-2">{event.name}</h1>
+          <p className="text-xl text-gray-600">{event.edition}</p>
+        </div>
+        <EventStatusBadge status={status} className="self-start text-sm" />
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-6 mb-8">
+        <div className="bg-white rounded-lg shadow-md p-6 flex items-center space-x-4">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Calendar className="w-6 h-6 text-orange" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Date</p>
+            <p className="font-semibold text-navy">{formatEventDate(event)}</p>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 flex items-center space-x-4">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Clock className="w-6 h-6 text-orange" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Start Time</p>
+            <p className="font-semibold text-navy">{startTime ?? "To be announced"}</p>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6 flex items-center space-x-4">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <MapPin className="w-6 h-6 text-orange" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Venue</p>
+            <p className="font-semibold text-navy">{event.venue}</p>
+          </div>
+        </div>
+      </div>
+
+      {event.description && (
+        <section className="bg-white rounded-lg shadow-md p-8 mb-8">
+          <h2 className="text-2xl font-bold text-navy mb-4">About this event</h2>
+          <p className="text-gray-700 leading-relaxed whitespace-pre-line">{event.description}</p>
+        </section>
+      )}
+
+      {categories.length > 0 && (
+        <section className="bg-white rounded-lg shadow-md p-8 mb-8">
+          <div className="flex items-center space-x-3 mb-4">
+            <Flag className="w-6 h-6 text-orange" />
+            <h2 className="text-2xl font-bold text-navy">Race Categories</h2>
+          </div>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+            {categories.map((category) => {
+              const categoryStartTime = formatStartTime(category)
+              const currentPrice = categoryPrices[category.id]
+              const discounted = !!currentPrice && currentPrice.price_paise !== category.price_paise
+              const isFull =
+                category.capacity !== null &&
+                (categoryCounts[category.id] ?? 0) >= category.capacity
+
+              return (
+                <div key={category.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-2">
+                    <h3 className="font-bold text-navy">{category.name}</h3>
+                    <span className="font-bold text-orange">
+                      {formatPrice(currentPrice?.price_paise ?? category.price_paise)}
+                    </span>
+                  </div>
+                  {discounted && (
+                    <p className="text-xs text-gray-500 mb-1">
+                      {currentPrice.tier_name} price
+                      {" · "}
+                      <span className="line-through">{formatPrice(category.price_paise)}</span>
+                    </p>
+                  )}
+                  <p className="text-sm text-gray-600">{category.distance_km} km</p>
+                  {categoryStartTime && (
+                    <p className="text-sm text-gray-600">Starts at {categoryStartTime}</p>
+                  )}
+                  {isFull && (
+                    <p className="text-xs font-semibold text-red-700 mt-2">Full - waitlist only</p>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </section>
+      )}
+
+      {event.course_info && (
+        <section className="bg-white rounded-lg shadow-md p-8 mb-8">
+          <div className="flex items-center space-x-3 mb-4">
+            <Route className="w-6 h-6 text-orange" />
+            <h2 className="text-2xl font-bold text-navy">Course</h2>
+          </div>
+          <p className="text-gray-700 leading-relaxed whitespace-pre-line">{event.course_info}</p>
+        </section>
+      )}
+
+      {/* Registration Call-to-Action */}
+      <div className="bg-gradient-to-r from-navy to-navy-light rounded-lg shadow-lg p-8 text-white flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+        <div>
+          <h2 className="text-2xl font-bold mb-2">
+            {status === "open"
+              ? "Ready to run?"
+              : status === "completed"
+              ? resultsPublished
+                ? "Results are in"
+                : "This event has finished"
+              : status === "sold_out"
+              ? "This event is sold out"
+              : status === "upcoming"
+              ? "Registration opens soon"
+              : "Registration is closed"}
+          </h2>
+          <p className="text-white/80 flex items-center">
+            <Users className="w-4 h-4 mr-2" />
+            {spotsLeft !== null
+              ? `${spotsLeft} of ${event.capacity} spots remaining`
+              : `${registeredCount} registered so far`}
+          </p>
+        </div>
+        {status === "open" && (
+          <Button
+            asChild
+            className="bg-orange hover:bg-orange-dark text-white font-semibold px-8 py-6 text-lg"
+          >
+            <Link href={`/dashboard?event=${event.slug}`}>Register</Link>
+          </Button>
+        )}
+        {resultsPublished && (
+          <Button
+            asChild
+            className="bg-orange hover:bg-orange-dark text-white font-semibold px-8 py-6 text-lg"
+          >
+            <Link href={`/results/${event.slug}`}>View Results</Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,12 +1,150 @@
-export default function Events() {
+/**
+ * Events Page Component
+ *
+ * Public listing of all editions of The Silicon Mile 5K.
+ * Features:
+ * - Upcoming events (soonest first) and past events (most recent first)
+ * - Status badges (registration open, sold out, completed, ...)
+ * - Links to each event's detail page
+ * - Statically generated and revalidated periodically
+ *
+ * Route: /events
+ *
+ * @module app/events/page
+ */
+
+import Link from "next/link"
+import type { Metadata } from "next"
+import { Calendar, Clock, MapPin, ChevronRight } from "lucide-react"
+import { createPublicClient } from "@/lib/supabase/public"
+import EventStatusBadge from "@/components/event-status-badge"
+import {
+  formatEventDate,
+  formatStartTime,
+  getEventRegistrationCounts,
+  getEventStatus,
+  getEvents,
+  isEventPast,
+  type RaceEvent,
+} from "@/lib/events"
+
+/**
+ * Revalidate the listing every 5 minutes so status badges stay current
+ */
+export const revalidate = 300
+
+export const metadata: Metadata = {
+  title: "Events - The Silicon Mile 5K",
+  description: "Upcoming and past editions of The Silicon Mile 5K, Hyderabad's corporate wellness run.",
+}
+
+/**
+ * Event card component
+ *
+ * Renders a single event summary linking to its detail page.
+ *
+ * @param {Object} props - Component props
+ * @param {RaceEvent} props.event - The event to display
+ * @param {number} props.registeredCount - Active registrations for the event
+ * @returns {JSX.Element} The rendered event card
+ */
+function EventCard({ event, registeredCount }: { event: RaceEvent; registeredCount: number }) {
+  const startTime = formatStartTime(event)
+
   return (
-    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
-      <h1 className="text-4xl font-bold text-navy mb-8">Events</h1>
-      <p className="text-gray-700 text-lg">
-        Discover upcoming wellness events and programs designed to enhance your team's health and well-being.
-      </p>
-    </div>
+    <Link
+      href={`/events/${event.slug}`}
+      className="group block bg-white rounded-lg shadow-md border border-gray-200 p-6 hover:shadow-lg transition-all duration-300"
+    >
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-2xl font-bold text-navy group-hover:text-orange transition-colors">
+            {event.name}
+          </h3>
+          <p className="text-gray-600">{event.edition}</p>
+        </div>
+        <EventStatusBadge status={getEventStatus(event, registeredCount)} />
+      </div>
+      <div className="grid sm:grid-cols-3 gap-3 text-sm text-gray-700">
+        <div className="flex items-center">
+          <Calendar className="w-4 h-4 mr-2 text-orange" />
+          {formatEventDate(event)}
+        </div>
+        {startTime && (
+          <div className="flex items-center">
+            <Clock className="w-4 h-4 mr-2 text-orange" />
+            {startTime}
+          </div>
+        )}
+        <div className="flex items-center">
+          <MapPin className="w-4 h-4 mr-2 text-orange" />
+          {event.venue}
+        </div>
+      </div>
+      <div className="mt-4 flex items-center text-sm font-semibold text-orange">
+        View details
+        <ChevronRight className="w-4 h-4 ml-1" />
+      </div>
+    </Link>
   )
 }
 
+/**
+ * Events page component
+ *
+ * Server Component that fetches all events and their registration counts
+ * and renders them split into upcoming and past sections.
+ *
+ * @returns {Promise<JSX.Element>} The rendered events page
+ *
+ * @remarks
+ * Uses the cookie-less public Supabase client so the page can be statically
+ * generated and cached between revalidations.
+ */
+export default async function Events() {
+  const supabase = createPublicClient()
+  const [events, counts] = await Promise.all([
+    getEvents(supabase),
+    getEventRegistrationCounts(supabase),
+  ])
 
+  // Events arrive most recent first; show upcoming ones soonest first
+  const upcoming = events.filter((event) => !isEventPast(event)).reverse()
+  const past = events.filter((event) => isEventPast(event))
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="text-center mb-12">
+        <h1 className="text-4xl md:text-5xl font-bold text-navy mb-4">Events</h1>
+        <div className="w-24 h-1 bg-orange mx-auto mb-6" />
+        <p className="text-xl text-gray-600 max-w-3xl mx-auto">
+          Discover upcoming wellness events and programs designed to enhance your team&apos;s health and well-being.
+        </p>
+      </div>
+
+      <section className="mb-12">
+        <h2 className="text-3xl font-bold text-navy mb-6">Upcoming Events</h2>
+        {upcoming.length === 0 ? (
+          <p className="text-gray-600">No upcoming events are scheduled yet. Check back soon!</p>
+        ) : (
+          <div className="space-y-6">
+            {upcoming.map((event) => (
+              <EventCard key={event.id} event={event} registeredCount={counts[event.id] ?? 0} />
+            ))}
+          </div>
+        )}
+      </section>
+
+      {past.length > 0 && (
+        <section>
+          <h2 className="text-3xl font-bold text-navy mb-6">Past Events</h2>
+          <div className="space-y-6">
+            {past.map((event) => (
+              <EventCard key={event.id} event={event} registeredCount={counts[event.id] ?? 0} />
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  )
+}
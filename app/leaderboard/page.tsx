@@ -0,0 +1,254 @@
+/**
+ * Company Leaderboard Page Component
+ *
+ * Public inter-company leaderboard for an event.
+ * Features:
+ * - Scoped to a selected event (`?event=<slug>`, defaults to the next event)
+ * - Ranked by registrants, finishers, average finishing time or
+ *   participation rate (`?sort=`)
+ * - All races together or one race category (`?category=<id>`); across
+ *   categories, average time is compared as pace since distances differ
+ * - Movement since the last weekly snapshot
+ * - Rendered on each request, so it updates as registrations come in
+ *
+ * Registrations are grouped by their company in the company directory, so
+ * name variants and aliases ("Infosys Ltd.", "INFOSYS") count as one
+ * company; see lib/leaderboard.
+ *
+ * Route: /leaderboard
+ *
+ * @module app/leaderboard/page
+ */
+
+import Link from "next/link"
+import type { Metadata } from "next"
+import { ArrowDown, ArrowUp, Minus, Trophy } from "lucide-react"
+import { createPublicClient } from "@/lib/supabase/public"
+import CompanyLogo from "@/components/company-logo"
+import EventSelector from "@/components/event-selector"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { eventTitle, getEventCategories, getEvents, selectEvent } from "@/lib/events"
+import { formatPace, formatRaceTime } from "@/lib/results"
+import {
+  getCompanyLeaderboard,
+  getLatestSnapshot,
+  leaderboardSortLabels,
+  rankStandings,
+  type LeaderboardSort,
+} from "@/lib/leaderboard"
+
+export const metadata: Metadata = {
+  title: "Company Leaderboard",
+  description: "Which company brings the most runners to The Silicon Mile?",
+}
+
+/**
+ * Search parameters accepted by the leaderboard page
+ */
+interface LeaderboardSearchParams {
+  event?: string
+  category?: string
+  sort?: string
+}
+
+/**
+ * Company leaderboard page component
+ *
+ * @param {Object} props - Page props
+ * @param {LeaderboardSearchParams} props.searchParams - Event, category and ranking
+ * @returns {Promise<JSX.Element>} The rendered leaderboard
+ */
+export default async function LeaderboardPage({
+  searchParams,
+}: {
+  searchParams: LeaderboardSearchParams
+}) {
+  const supabase = createPublicClient()
+  const events = await getEvents(supabase)
+  const selectedEvent = selectEvent(events, searchParams.event)
+
+  const categories = selectedEvent ? await getEventCategories(supabase, selectedEvent.id) : []
+  const category = categories.find((c) => c.id === searchParams.category) ?? null
+  const sort: LeaderboardSort =
+    searchParams.sort && Object.hasOwn(leaderboardSortLabels, searchParams.sort)
+      ? (searchParams.sort as LeaderboardSort)
+      : "registrants"
+
+  const [standings, snapshot] = selectedEvent
+    ? await Promise.all([
+        getCompanyLeaderboard(supabase, selectedEvent.id, category?.id ?? null),
+        getLatestSnapshot(supabase, selectedEvent.id),
+      ])
+    : [[], []]
+
+  // Across categories, times are only comparable as pace
+  const byPace = !category
+  const ranked = rankStandings(standings, sort, byPace)
+  const showParticipation = standings.some((standing) => standing.participation_rate !== null)
+
+  // Snapshots rank the whole event by registrants, so movement is shown there only
+  const previousRanks = new Map(snapshot.map((row) => [row.company_id, row.rank]))
+  const showMovement = sort === "registrants" && !category && snapshot.length > 0
+
+  /**
+   * Builds a link to this page, keeping the current selection
+   *
+   * @param {LeaderboardSearchParams} changes - Parameters to change (undefined removes one)
+   * @returns {string} The URL
+   */
+  const hrefWith = (changes: LeaderboardSearchParams) => {
+    const query = new URLSearchParams()
+    const next = { event: selectedEvent?.slug, category: category?.id, sort, ...changes }
+    Object.entries(next).forEach(([key, value]) => {
+      if (value) query.set(key, value)
+    })
+    return `/leaderboard?${query.toString()}`
+  }
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 rounded-md text-sm font-semibold transition-colors ${
+      active ? "bg-navy text-white" : "text-navy hover:bg-navy/10"
+    }`
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <div className="mb-8 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Trophy className="w-8 h-8 text-orange" />
+          </div>
+          <div>
+            <h1 className="text-4xl md:text-5xl font-bold text-navy">Company Leaderboard</h1>
+            <p className="text-gray-600 text-lg mt-1">
+              {selectedEvent
+                ? `Which company is bringing the most runners to ${eventTitle(selectedEvent)}?`
+                : "No events have been scheduled yet"}
+            </p>
+          </div>
+        </div>
+        {selectedEvent && (
+          <div className="md:w-80">
+            <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+          </div>
+        )}
+      </div>
+
+      {selectedEvent && (
+        <>
+          {categories.length > 1 && (
+            <nav className="flex flex-wrap gap-2 mb-4">
+              <Link href={hrefWith({ category: undefined })} className={tabClass(!category)}>
+                All races
+              </Link>
+              {categories.map((c) => (
+                <Link key={c.id} href={hrefWith({ category: c.id })} className={tabClass(c.id === category?.id)}>
+                  {c.name}
+                </Link>
+              ))}
+            </nav>
+          )}
+
+          <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+            <div className="p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(leaderboardSortLabels) as LeaderboardSort[])
+                  .filter((value) => value !== "participation" || showParticipation)
+                  .map((value) => (
+                    <Link key={value} href={hrefWith({ sort: value })} className={tabClass(sort === value)}>
+                      {leaderboardSortLabels[value]}
+                    </Link>
+                  ))}
+              </div>
+              {showMovement && (
+                <p className="text-sm text-gray-600">
+                  Movement since{" "}
+                  {new Date(snapshot[0].taken_on).toLocaleDateString("en-US", {
+                    month: "long",
+                    day: "numeric",
+                    timeZone: "UTC",
+                  })}
+                </p>
+              )}
+            </div>
+
+            {ranked.length === 0 ? (
+              <p className="p-6 text-gray-600">No companies have registered yet. Be the first!</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50">
+                      <TableHead className="font-semibold text-navy">Rank</TableHead>
+                      <TableHead className="font-semibold text-navy">Company</TableHead>
+                      <TableHead className="font-semibold text-navy">Registrants</TableHead>
+                      <TableHead className="font-semibold text-navy">Finishers</TableHead>
+                      <TableHead className="font-semibold text-navy">{byPace ? "Average Pace" : "Average Time"}</TableHead>
+                      {showParticipation && <TableHead className="font-semibold text-navy">Participation</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {ranked.map(({ standing, place }) => {
+                      const previousRank = previousRanks.get(standing.company_id)
+                      const moved = place !== null && previousRank !== undefined ? previousRank - place : null
+                      const average = byPace
+                        ? standing.average_pace_ms_per_km !== null &&
+                          formatPace(standing.average_pace_ms_per_km, 1)
+                        : standing.average_time_ms !== null && formatRaceTime(standing.average_time_ms)
+
+                      return (
+                        <TableRow key={standing.company_id} className="hover:bg-gray-50">
+                          <TableCell>
+                            <span className="inline-flex items-center gap-2 font-bold text-navy">
+                              {place ?? "—"}
+                              {showMovement &&
+                                (moved === null ? (
+                                  <span className="text-xs font-semibold text-orange">NEW</span>
+                                ) : moved > 0 ? (
+                                  <span className="inline-flex items-center text-xs text-green-600">
+                                    <ArrowUp className="w-3 h-3" />
+                                    {moved}
+                                  </span>
+                                ) : moved < 0 ? (
+                                  <span className="inline-flex items-center text-xs text-red-600">
+                                    <ArrowDown className="w-3 h-3" />
+                                    {-moved}
+                                  </span>
+                                ) : (
+                                  <Minus className="w-3 h-3 text-gray-300" />
+                                ))}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <span className="inline-flex items-center gap-2 font-semibold text-navy">
+                              <CompanyLogo name={standing.company_name} logoUrl={standing.logo_url} />
+                              {standing.company_name}
+                            </span>
+                          </TableCell>
+                          <TableCell>{standing.registrants}</TableCell>
+                          <TableCell>{standing.finishers}</TableCell>
+                          <TableCell className="font-mono">{average || "—"}</TableCell>
+                          {showParticipation && (
+                            <TableCell>
+                              {standing.participation_rate !== null ? `${standing.participation_rate}%` : "—"}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      )
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -6,7 +6,7 @@
  * - Email and password authentication
  * - Form validation using Zod
  * - Error handling and display
- * - Redirects to dashboard on successful login
+ * - Redirects to dashboard (or the page in `?next=`) on successful login
  * - Link to registration page for new users
  * 
  * Route: /login
@@ -23,6 +23,7 @@ import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
 import { createClient } from "@/lib/supabase/client"
+import { safeRedirectPath } from "@/lib/redirect-path"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Mail, Lock } from "lucide-react"
@@ -45,6 +46,20 @@ const loginSchema = z.object({
  */
 type LoginFormData = z.infer<typeof loginSchema>
 
+/**
+ * Resolves where to send the user after a successful login
+ * 
+ * Honours the `next` search parameter set by the middleware when an
+ * unauthenticated user hits a protected route. Only paths on this site are
+ * accepted to avoid open redirects (see safeRedirectPath).
+ * 
+ * @returns {string} The path to redirect to (defaults to /dashboard)
+ */
+const getRedirectPath = (): string => {
+  const next = new URLSearchParams(window.location.search).get("next")
+  return safeRedirectPath(next, window.location.origin)
+}
+
 /**
  * Login page component
  * 
@@ -112,8 +127,8 @@ export default function Login() {
       // Throw error if authentication failed
       if (authError) throw authError
 
-      // Redirect to dashboard after successful login
-      router.push("/dashboard")
+      // Redirect to dashboard (or the originally requested page) after successful login
+      router.push(getRedirectPath())
       router.refresh() // Refresh to update auth state
     } catch (err: any) {
       // Display error message to user
@@ -26,7 +26,8 @@ import * as z from "zod"
 import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { Mail, Lock, User, Building } from "lucide-react"
+import CompanyAutocomplete from "@/components/company-autocomplete"
+import { Mail, Lock, User } from "lucide-react"
 
 /**
  * Zod schema for registration form validation
@@ -88,6 +89,8 @@ export default function Register() {
   const {
     register,          // Register input fields with validation
     handleSubmit,      // Handle form submission
+    setValue,          // Set a field's value (picked company suggestion)
+    watch,             // Subscribe to the email (company suggestions by domain)
     formState: { errors }, // Form validation errors
   } = useForm<SignupFormData>({
     resolver: zodResolver(signupSchema), // Use Zod for validation
@@ -181,16 +184,13 @@ export default function Register() {
               <label htmlFor="company" className="block text-sm font-semibold text-navy mb-2">
                 Company *
               </label>
-              <div className="relative">
-                <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                <Input
-                  id="company"
-                  type="text"
-                  placeholder="Your Company Name"
-                  {...register("company")}
-                  className={`pl-10 ${errors.company ? "border-red-500" : ""}`}
-                />
-              </div>
+              <CompanyAutocomplete
+                id="company"
+                registration={register("company")}
+                onSelectCompany={(name) => setValue("company", name, { shouldValidate: true })}
+                email={watch("email")}
+                invalid={!!errors.company}
+              />
               {errors.company && (
                 <p className="mt-1 text-sm text-red-500">{errors.company.message}</p>
               )}
@@ -0,0 +1,201 @@
+/**
+ * Result Card Page Component
+ *
+ * Public, shareable result card for one participant.
+ * Features:
+ * - Chip time, gun time and average pace
+ * - Place in the race category and within their gender
+ * - Split times with the time taken for each segment
+ *
+ * Route: /results/[event]/[bib]
+ *
+ * @module app/results/[event]/[bib]/page
+ */
+
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import type { Metadata } from "next"
+import { ChevronLeft, Flag, Medal, Timer } from "lucide-react"
+import { createPublicClient } from "@/lib/supabase/public"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { eventTitle, formatEventDate, getEventBySlug, getEventCategories } from "@/lib/events"
+import { formatPace, formatPlace, formatRaceTime, genderLabels, getResultByBib } from "@/lib/results"
+
+/**
+ * Route parameters for the result card
+ */
+interface ResultCardParams {
+  event: string
+  bib: string
+}
+
+/**
+ * Loads the event and the participant's result for the route
+ *
+ * @param {ResultCardParams} params - Route parameters
+ * @returns Event and result, or null if either does not exist
+ */
+async function loadResult(params: ResultCardParams) {
+  if (!/^\d+$/.test(params.bib)) return null
+
+  const supabase = createPublicClient()
+  const event = await getEventBySlug(supabase, params.event)
+  if (!event) return null
+
+  const result = await getResultByBib(supabase, event.id, Number(params.bib))
+  if (!result) return null
+
+  return { supabase, event, result }
+}
+
+/**
+ * Builds page metadata for sharing
+ *
+ * @param {Object} props - Page props
+ * @param {ResultCardParams} props.params - Route parameters
+ * @returns {Promise<Metadata>} Metadata for the result card
+ */
+export async function generateMetadata({ params }: { params: ResultCardParams }): Promise<Metadata> {
+  const loaded = await loadResult(params)
+  if (!loaded) return { title: "Result not found" }
+
+  const { event, result } = loaded
+  const time = formatRaceTime(result.chip_time_ms ?? result.gun_time_ms)
+  return {
+    title: `${result.full_name} - ${eventTitle(event)}`,
+    description: `${result.full_name} finished ${eventTitle(event)} in ${time} (${formatPlace(result.category_rank)} place).`,
+  }
+}
+
+/**
+ * Result card page component
+ *
+ * Server Component. Returns a 404 if the event or result does not exist.
+ *
+ * @param {Object} props - Page props
+ * @param {ResultCardParams} props.params - Route parameters
+ * @returns {Promise<JSX.Element>} The rendered result card
+ */
+export default async function ResultCardPage({ params }: { params: ResultCardParams }) {
+  const loaded = await loadResult(params)
+
+  if (!loaded) {
+    notFound()
+  }
+
+  const { supabase, event, result } = loaded
+  const categories = await getEventCategories(supabase, event.id)
+  const category = categories.find((c) => c.id === result.category_id) ?? null
+  const pace = formatPace(result.net_time_ms, category?.distance_km)
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <Link
+        href={`/results/${event.slug}${category ? `?category=${category.id}` : ""}`}
+        className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange transition-colors mb-6"
+      >
+        <ChevronLeft className="w-4 h-4 mr-1" />
+        All results
+      </Link>
+
+      <div className="bg-gradient-to-r from-navy to-navy-light rounded-lg shadow-lg p-8 text-white mb-6">
+        <p className="text-white/80 text-sm mb-1">
+          {eventTitle(event)} &middot; {formatEventDate(event)}
+        </p>
+        <h1 className="text-3xl md:text-4xl font-bold mb-1">{result.full_name}</h1>
+        <p className="text-white/80">
+          Bib <span className="font-mono">{result.bib_number}</span>
+          {result.company_name && ` · ${result.company_name}`}
+          {category && ` · ${category.name}`}
+        </p>
+        <p className="font-mono text-5xl md:text-6xl font-bold text-orange mt-6">
+          {formatRaceTime(result.net_time_ms)}
+        </p>
+        <p className="text-white/80 text-sm mt-1">{result.chip_time_ms !== null ? "Chip time" : "Gun time"}</p>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-6 mb-6">
+        <div className="bg-white rounded-lg shadow-md p-6 flex items-center space-x-4">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Medal className="w-6 h-6 text-orange" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">{category ? `Place in ${category.name}` : "Place"}</p>
+            <p className="font-semibold text-navy">
+              {formatPlace(result.category_rank)} of {result.category_finishers}
+            </p>
+          </div>
+        </div>
+        {result.gender && result.gender_rank && (
+          <div className="bg-white rounded-lg shadow-md p-6 flex items-center space-x-4">
+            <div className="bg-navy/10 p-3 rounded-lg">
+              <Medal className="w-6 h-6 text-navy" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Place among {genderLabels[result.gender].toLowerCase()}</p>
+              <p className="font-semibold text-navy">
+                {formatPlace(result.gender_rank)} of {result.gender_finishers}
+              </p>
+            </div>
+          </div>
+        )}
+        <div className="bg-white rounded-lg shadow-md p-6 flex items-center space-x-4">
+          <div className="bg-orange/10 p-3 rounded-lg">
+            <Timer className="w-6 h-6 text-orange" />
+          </div>
+          <div>
+            <p className="text-sm text-gray-600">Gun Time</p>
+            <p className="font-semibold text-navy font-mono">{formatRaceTime(result.gun_time_ms)}</p>
+          </div>
+        </div>
+        {pace && (
+          <div className="bg-white rounded-lg shadow-md p-6 flex items-center space-x-4">
+            <div className="bg-navy/10 p-3 rounded-lg">
+              <Flag className="w-6 h-6 text-navy" />
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Average Pace</p>
+              <p className="font-semibold text-navy font-mono">{pace}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {result.splits.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md">
+          <h2 className="text-xl font-bold text-navy p-6 border-b border-gray-200">Splits</h2>
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className="font-semibold text-navy">Split</TableHead>
+                <TableHead className="font-semibold text-navy">Time</TableHead>
+                <TableHead className="font-semibold text-navy">Segment</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.splits.map((split, index) => {
+                const previous = index > 0 ? result.splits[index - 1].time_ms : 0
+                return (
+                  <TableRow key={`${index}-${split.label}`}>
+                    <TableCell className="font-semibold text-navy">{split.label}</TableCell>
+                    <TableCell className="font-mono">{formatRaceTime(split.time_ms)}</TableCell>
+                    <TableCell className="font-mono text-gray-600">
+                      {split.time_ms > previous ? formatRaceTime(split.time_ms - previous) : "—"}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,271 @@
+/**
+ * Event Results Page Component
+ *
+ * Public results for a single event.
+ * Features:
+ * - One tab per race category (categories are different distances, so each
+ *   is ranked on its own); `?category=<id>` selects it, defaulting to the first
+ * - Gender filter (`?gender=M|F|X`) that keeps each runner's category place
+ *   and shows their gender place alongside it
+ * - Search by name or bib (`?q=`)
+ * - Paginated table linking to each participant's result card
+ *
+ * Route: /results/[event]
+ *
+ * @module app/results/[event]/page
+ */
+
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import type { Metadata } from "next"
+import { ChevronLeft, Search, Timer } from "lucide-react"
+import { createPublicClient } from "@/lib/supabase/public"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { eventTitle, formatEventDate, getEventBySlug, getEventCategories } from "@/lib/events"
+import {
+  formatPace,
+  formatPlace,
+  formatRaceTime,
+  genderLabels,
+  getRankedResults,
+  RESULTS_PAGE_SIZE,
+  type ResultGender,
+} from "@/lib/results"
+
+/**
+ * Search parameters accepted by the results page
+ */
+interface ResultsSearchParams {
+  category?: string
+  gender?: string
+  q?: string
+  page?: string
+}
+
+/**
+ * Builds page metadata for sharing
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.params - Route parameters
+ * @returns {Promise<Metadata>} Metadata for the results page
+ */
+export async function generateMetadata({
+  params,
+}: {
+  params: { event: string }
+}): Promise<Metadata> {
+  const event = await getEventBySlug(createPublicClient(), params.event)
+  if (!event) return { title: "Results not found" }
+
+  return {
+    title: `Results - ${eventTitle(event)}`,
+    description: `Official results for ${eventTitle(event)} on ${formatEventDate(event)}.`,
+  }
+}
+
+/**
+ * Event results page component
+ *
+ * Server Component. Returns a 404 if no event matches the slug.
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.params - Route parameters
+ * @param {string} props.params.event - The event slug
+ * @param {ResultsSearchParams} props.searchParams - Category, gender, search and page
+ * @returns {Promise<JSX.Element>} The rendered results page
+ */
+export default async function EventResultsPage({
+  params,
+  searchParams,
+}: {
+  params: { event: string }
+  searchParams: ResultsSearchParams
+}) {
+  const supabase = createPublicClient()
+  const event = await getEventBySlug(supabase, params.event)
+
+  if (!event) {
+    notFound()
+  }
+
+  const categories = await getEventCategories(supabase, event.id)
+  const category = categories.find((c) => c.id === searchParams.category) ?? categories[0] ?? null
+  const gender =
+    searchParams.gender && Object.hasOwn(genderLabels, searchParams.gender)
+      ? (searchParams.gender as ResultGender)
+      : undefined
+  const search = searchParams.q?.trim() || undefined
+  const page = Math.max(Number.parseInt(searchParams.page ?? "1", 10) || 1, 1)
+
+  const { results, total } = category
+    ? await getRankedResults(supabase, event.id, { categoryId: category.id, gender, search, page })
+    : { results: [], total: 0 }
+  const pageCount = Math.max(Math.ceil(total / RESULTS_PAGE_SIZE), 1)
+
+  /**
+   * Builds a link to this page, keeping the current filters
+   *
+   * @param {ResultsSearchParams} changes - Parameters to change (undefined removes one)
+   * @returns {string} The URL
+   */
+  const hrefWith = (changes: ResultsSearchParams) => {
+    const query = new URLSearchParams()
+    const next = { category: category?.id, gender, q: search, ...changes }
+    Object.entries(next).forEach(([key, value]) => {
+      if (value) query.set(key, value)
+    })
+    return `/results/${event.slug}?${query.toString()}`
+  }
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 rounded-md text-sm font-semibold transition-colors ${
+      active ? "bg-navy text-white" : "text-navy hover:bg-navy/10"
+    }`
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <Link
+        href={`/events/${event.slug}`}
+        className="inline-flex items-center text-sm font-semibold text-navy hover:text-orange transition-colors mb-6"
+      >
+        <ChevronLeft className="w-4 h-4 mr-1" />
+        Event details
+      </Link>
+
+      <div className="flex items-center space-x-3 mb-8">
+        <div className="bg-orange/10 p-3 rounded-lg">
+          <Timer className="w-8 h-8 text-orange" />
+        </div>
+        <div>
+          <h1 className="text-4xl md:text-5xl font-bold text-navy">Results</h1>
+          <p className="text-gray-600 text-lg mt-1">
+            {eventTitle(event)} &middot; {formatEventDate(event)}
+          </p>
+        </div>
+      </div>
+
+      {categories.length > 1 && (
+        <nav className="flex flex-wrap gap-2 mb-4">
+          {categories.map((c) => (
+            <Link
+              key={c.id}
+              href={hrefWith({ category: c.id, page: undefined })}
+              className={tabClass(c.id === category?.id)}
+            >
+              {c.name}
+            </Link>
+          ))}
+        </nav>
+      )}
+
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200">
+        <div className="p-6 border-b border-gray-200 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+          <div className="flex flex-wrap gap-2">
+            <Link href={hrefWith({ gender: undefined, page: undefined })} className={tabClass(!gender)}>
+              Overall
+            </Link>
+            {(Object.keys(genderLabels) as ResultGender[]).map((value) => (
+              <Link
+                key={value}
+                href={hrefWith({ gender: value, page: undefined })}
+                className={tabClass(gender === value)}
+              >
+                {genderLabels[value]}
+              </Link>
+            ))}
+          </div>
+
+          <form action={`/results/${event.slug}`} className="flex gap-2 lg:w-96">
+            {category && <input type="hidden" name="category" value={category.id} />}
+            {gender && <input type="hidden" name="gender" value={gender} />}
+            <Input name="q" defaultValue={search} placeholder="Search by name or bib" aria-label="Search results" />
+            <Button type="submit" className="bg-navy hover:bg-navy-light text-white">
+              <Search className="w-4 h-4" />
+            </Button>
+          </form>
+        </div>
+
+        {results.length === 0 ? (
+          <p className="p-6 text-gray-600">
+            {search ? `No results match "${search}".` : "Results for this race have not been published yet."}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  <TableHead className="font-semibold text-navy">Place</TableHead>
+                  <TableHead className="font-semibold text-navy">Bib</TableHead>
+                  <TableHead className="font-semibold text-navy">Name</TableHead>
+                  <TableHead className="font-semibold text-navy">Company</TableHead>
+                  <TableHead className="font-semibold text-navy">Gender Place</TableHead>
+                  <TableHead className="font-semibold text-navy">Chip Time</TableHead>
+                  <TableHead className="font-semibold text-navy">Gun Time</TableHead>
+                  <TableHead className="font-semibold text-navy">Pace</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.id} className="hover:bg-gray-50">
+                    <TableCell className="font-bold text-navy">{result.category_rank}</TableCell>
+                    <TableCell className="font-mono">{result.bib_number}</TableCell>
+                    <TableCell>
+                      <Link
+                        href={`/results/${event.slug}/${result.bib_number}`}
+                        className="font-semibold text-navy hover:text-orange transition-colors"
+                      >
+                        {result.full_name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-gray-600">{result.company_name ?? "—"}</TableCell>
+                    <TableCell className="text-gray-600">
+                      {result.gender && result.gender_rank
+                        ? `${formatPlace(result.gender_rank)} ${result.gender}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell className="font-mono font-semibold">
+                      {result.chip_time_ms !== null ? formatRaceTime(result.chip_time_ms) : "—"}
+                    </TableCell>
+                    <TableCell className="font-mono">{formatRaceTime(result.gun_time_ms)}</TableCell>
+                    <TableCell className="font-mono text-gray-600">
+                      {formatPace(result.net_time_ms, category?.distance_km) ?? "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <div className="p-4 border-t border-gray-200 flex items-center justify-between text-sm">
+            <span className="text-gray-600">
+              Page {page} of {pageCount} &middot; {total} finishers
+            </span>
+            <div className="flex gap-2">
+              {page > 1 && (
+                <Link href={hrefWith({ page: String(page - 1) })} className={tabClass(false)}>
+                  Previous
+                </Link>
+              )}
+              {page < pageCount && (
+                <Link href={hrefWith({ page: String(page + 1) })} className={tabClass(false)}>
+                  Next
+                </Link>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
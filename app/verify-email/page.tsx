@@ -0,0 +1,61 @@
+/**
+ * Verify Email Page Component
+ *
+ * Target of the link in corporate email verification emails. Verifies the
+ * email (the link works without signing in, e.g. on a work phone) and
+ * points the participant back to their dashboard.
+ *
+ * Route: /verify-email?token=<token>
+ *
+ * @module app/verify-email/page
+ */
+
+import Link from "next/link"
+import { AlertTriangle, CheckCircle } from "lucide-react"
+import { verifyToken } from "@/lib/corporate-email"
+
+/**
+ * Verify email page component
+ *
+ * @param {Object} props - Page props
+ * @param {Object} props.searchParams - URL search parameters (`token` comes from the email)
+ * @returns {Promise<JSX.Element>} The rendered verification result
+ */
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: { token?: string }
+}) {
+  const result = searchParams.token
+    ? await verifyToken(searchParams.token)
+    : { error: "This verification link is not valid." }
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-16">
+      <div className="bg-white rounded-lg shadow-lg p-8 border border-gray-200 text-center">
+        {result.email ? (
+          <>
+            <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-navy mb-2">Email Verified</h1>
+            <p className="text-gray-600 mb-6">
+              <span className="font-semibold text-navy">{result.email}</span> is verified. You can continue your
+              registration.
+            </p>
+          </>
+        ) : (
+          <>
+            <AlertTriangle className="w-12 h-12 text-orange mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-navy mb-2">Verification Failed</h1>
+            <p className="text-gray-600 mb-6">{result.error}</p>
+          </>
+        )}
+        <Link
+          href="/dashboard"
+          className="inline-flex items-center justify-center rounded-md bg-orange hover:bg-orange-dark text-white font-semibold px-6 py-2"
+        >
+          Go to Dashboard
+        </Link>
+      </div>
+    </div>
+  )
+}
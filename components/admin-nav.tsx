@@ -0,0 +1,60 @@
+/**
+ * Admin Navigation Component
+ *
+ * Tab-style links between the sections of the admin area. Shown at the top
+ * of every admin page; add new admin sections to `adminLinks`.
+ *
+ * @module components/admin-nav
+ */
+
+"use client"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { cn } from "@/lib/utils"
+
+/**
+ * Admin sections, in display order
+ */
+const adminLinks = [
+  { href: "/admin", label: "Registrations" },
+  { href: "/admin/import", label: "Import" },
+  { href: "/admin/bibs", label: "Bib Numbers" },
+  { href: "/admin/promo-codes", label: "Promo Codes" },
+  { href: "/admin/results", label: "Results" },
+  { href: "/admin/companies", label: "Companies" },
+  { href: "/admin/leaderboard", label: "Leaderboard" },
+  { href: "/admin/audit", label: "Audit Log" },
+]
+
+/**
+ * Admin navigation component
+ *
+ * @returns {JSX.Element} The rendered admin section tabs
+ *
+ * @example
+ * // Used in app/admin/page.tsx
+ * <AdminNav />
+ */
+export default function AdminNav() {
+  const pathname = usePathname()
+
+  return (
+    <nav className="flex flex-wrap gap-2 mb-8 border-b border-gray-200">
+      {adminLinks.map((link) => (
+        <Link
+          key={link.href}
+          href={link.href}
+          className={cn(
+            "px-4 py-2 -mb-px border-b-2 text-sm font-semibold transition-colors",
+            pathname === link.href
+              ? "border-orange text-orange"
+              : "border-transparent text-gray-600 hover:text-navy"
+          )}
+        >
+          {link.label}
+        </Link>
+      ))}
+    </nav>
+  )
+}
@@ -1,22 +1,53 @@
 /**
  * Admin Table Component
- * 
+ *
  * Data table component for displaying and managing event registrations
  * in the admin dashboard. Features:
  * - Sortable columns
- * - Search/filter functionality
+ * - One search box across name, email, employee ID, phone, company and bib
+ * - Facet filters (status, T-shirt size, company, category) with counts,
+ *   and a registration date range
+ * - Payment status of each registration
+ * - Whether each corporate email is verified
+ * - Whether each employee ID matched the company's roster, linking
+ *   registrations held for review to the roster page
+ * - Bib numbers, editable inline (manual override)
+ * - Race-day check-in (kit pickup) of each registration
+ * - Columns that can be hidden and reordered (kept in the URL, so saved
+ *   views include them)
+ * - Confirm, cancel (with a reason) or reinstate registrations, one at a
+ *   time or in bulk by selecting rows; the table updates straight away and
+ *   is corrected if the server disagrees
  * - Pagination
- * - Export to CSV functionality
+ * - Export of every matching registration to CSV, XLSX or JSON (ExportMenu)
  * - Responsive design
- * 
- * Uses TanStack Table for advanced table functionality.
- * 
+ *
+ * Uses TanStack Table for advanced table functionality. Sorting, filtering
+ * and pagination happen on the server (lib/admin-registrations): the table
+ * shows one page and keeps its state in the URL, so changing it re-renders
+ * the admin page with the new page of data and views can be shared. Rows are virtualized with
+ * TanStack Virtual so large pages stay fast.
+ *
  * @module components/admin-table
  */
 
 "use client"
 
-import { useState, useMemo } from "react"
+import { useCallback, useEffect, useMemo, useRef, useState, useTransition } from "react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import {
+  flexRender,
+  getCoreRowModel,
+  useReactTable,
+  type ColumnDef,
+  type PaginationState,
+  type VisibilityState,
+  type RowSelectionState,
+  type SortingState,
+  type Updater,
+} from "@tanstack/react-table"
+import { useVirtualizer } from "@tanstack/react-virtual"
 import {
   Table,
   TableBody,
@@ -27,131 +58,717 @@ import {
 } from "@/components/ui/table"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
-import { Search, Download } from "lucide-react"
+import {
+  Search,
+  CheckCircle,
+  XCircle,
+  RotateCcw,
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react"
+import {
+  REGISTRATION_STATUSES,
+  STATUS_ACTIONS,
+  canApplyStatusAction,
+  getLatestPayment,
+  getStatusBadgeClass,
+  paymentStatusStyles,
+  type StatusAction,
+} from "@/lib/registrations"
+import {
+  ADMIN_FACETS,
+  ADMIN_PAGE_SIZES,
+  ADMIN_SORT_COLUMNS,
+  DEFAULT_ADMIN_QUERY,
+  hasAdminFilters,
+  type AdminFacet,
+  type AdminFacetCounts,
+  type AdminRegistration,
+  type AdminRegistrationQuery,
+  type FacetCount,
+} from "@/lib/admin-registrations"
+import { TSHIRT_SIZES } from "@/lib/company-portal"
+import { formatPrice } from "@/lib/utils"
+import { ROSTER_STATUS_LABELS, rosterStatusStyles } from "@/lib/rosters"
+import BibNumberEditor from "@/components/bib-number-editor"
+import FacetFilter from "@/components/facet-filter"
+import ColumnPicker from "@/components/column-picker"
+import ExportMenu from "@/components/export-menu"
+import type { EventCategory } from "@/lib/events"
+import { updateRegistrationStatus } from "@/app/admin/actions"
+
+/**
+ * Icons for the status action buttons
+ */
+const statusActionIcons: Record<StatusAction, typeof CheckCircle> = {
+  confirm: CheckCircle,
+  cancel: XCircle,
+  reinstate: RotateCcw,
+}
+
+/**
+ * Facet filters, in display order
+ */
+const facetLabels: Record<AdminFacet, string> = {
+  status: "Status",
+  tshirt_size: "T-shirt Size",
+  company: "Company",
+  category: "Category",
+}
+
+/**
+ * Lists a facet's options: the known ones first (in their usual order, with
+ * a count of 0 if none match), then any others the counts found, then
+ * ticked values that match nothing
+ *
+ * @param {{ value: string; label: string }[]} known - Options that are always shown
+ * @param {FacetCount[]} counts - The options' counts from the server
+ * @param {string[]} selected - The ticked values
+ * @returns {FacetCount[]} The options to show
+ */
+function facetOptions(
+  known: { value: string; label: string }[],
+  counts: FacetCount[],
+  selected: string[]
+): FacetCount[] {
+  const byValue = new Map(counts.map((option) => [option.value, option]))
+  const options = known.map((option) => ({ ...option, count: byValue.get(option.value)?.count ?? 0 }))
+  const listed = new Set(options.map((option) => option.value))
+
+  counts.forEach((option) => {
+    if (!listed.has(option.value)) {
+      options.push(option)
+      listed.add(option.value)
+    }
+  })
+  selected.forEach((value) => {
+    if (!listed.has(value)) {
+      options.push({ value, label: value, count: 0 })
+    }
+  })
+  return options
+}
 
 /**
- * Registration data structure
- * 
- * Represents a single event registration record from the database.
- * Matches the structure of the registrations table in Supabase.
+ * Estimated height of a row in pixels, before it is measured
  */
-interface Registration {
-  id: string
-  user_id: string
-  full_name: string
-  corporate_email: string
-  employee_id: string
-  company_name: string
-  tshirt_size: string
-  emergency_contact: string
-  emergency_phone: string
-  registration_date: string
-  status: string
+const ESTIMATED_ROW_HEIGHT = 88
+
+/**
+ * How long to wait after the last keystroke before searching, in milliseconds
+ */
+const SEARCH_DEBOUNCE_MS = 300
+
+/**
+ * What the column cells need from the table component (passed as TanStack
+ * table meta so the column definitions can live outside the component)
+ */
+interface AdminTableMeta {
+  /** Category id to name */
+  categoryNames: Record<string, string>
+  /** The status to show for a registration (optimistic while saving) */
+  statusOf: (registration: AdminRegistration) => string
+  applyStatusAction: (ids: string[], action: StatusAction) => void
+  /** True while a status change is saved */
+  isPending: boolean
 }
 
+/**
+ * Column definitions, in display order
+ *
+ * Column ids match registrations columns so they can be sent to the server
+ * as the sort; only ADMIN_SORT_COLUMNS are sortable (see columns below).
+ */
+const columnDefs: ColumnDef<AdminRegistration>[] = [
+  {
+    id: "select",
+    header: ({ table }) => (
+      <input
+        type="checkbox"
+        aria-label="Select all registrations on this page"
+        checked={table.getIsAllPageRowsSelected()}
+        onChange={table.getToggleAllPageRowsSelectedHandler()}
+        className="h-4 w-4 accent-orange"
+      />
+    ),
+    cell: ({ row }) => (
+      <input
+        type="checkbox"
+        aria-label={`Select ${row.original.full_name}`}
+        checked={row.getIsSelected()}
+        onChange={row.getToggleSelectedHandler()}
+        className="h-4 w-4 accent-orange"
+      />
+    ),
+  },
+  {
+    id: "bib_number",
+    header: "Bib",
+    cell: ({ row }) => <BibNumberEditor registrationId={row.original.id} bibNumber={row.original.bib_number} />,
+  },
+  {
+    id: "full_name",
+    header: "Full Name",
+    cell: ({ row }) => <span className="font-medium">{row.original.full_name}</span>,
+  },
+  {
+    id: "corporate_email",
+    header: "Email",
+    cell: ({ row }) => {
+      const registration = row.original
+      return (
+        <>
+          <div>{registration.corporate_email}</div>
+          <span
+            className={`inline-flex items-center px-2 py-0.5 mt-1 rounded-full text-xs font-medium ${
+              registration.corporate_email_verified_at ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"
+            }`}
+            title={
+              registration.corporate_email_verified_at
+                ? `Verified ${new Date(registration.corporate_email_verified_at).toLocaleDateString()}`
+                : undefined
+            }
+          >
+            {registration.corporate_email_verified_at ? "verified" : "unverified"}
+          </span>
+        </>
+      )
+    },
+  },
+  {
+    id: "employee_id",
+    header: "Employee ID",
+    cell: ({ row }) => {
+      const registration = row.original
+      return (
+        <>
+          <div>{registration.employee_id}</div>
+          {registration.roster_status &&
+            (registration.roster_status === "pending_review" && registration.company_id ? (
+              <Link
+                href={`/admin/companies/${registration.company_id}/roster`}
+                className={`inline-flex items-center px-2 py-0.5 mt-1 rounded-full text-xs font-medium hover:underline ${rosterStatusStyles.pending_review}`}
+              >
+                {ROSTER_STATUS_LABELS.pending_review}
+              </Link>
+            ) : (
+              <span
+                className={`inline-flex items-center px-2 py-0.5 mt-1 rounded-full text-xs font-medium ${rosterStatusStyles[registration.roster_status]}`}
+              >
+                {ROSTER_STATUS_LABELS[registration.roster_status]}
+              </span>
+            ))}
+        </>
+      )
+    },
+  },
+  {
+    id: "company_name",
+    header: "Company",
+    cell: ({ row }) => row.original.company_name,
+  },
+  {
+    id: "category",
+    header: "Category",
+    cell: ({ row, table }) => {
+      const { categoryNames } = table.options.meta as AdminTableMeta
+      return row.original.category_id ? categoryNames[row.original.category_id] ?? "—" : "—"
+    },
+  },
+  {
+    id: "tshirt_size",
+    header: "T-shirt Size",
+    cell: ({ row }) => (
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-navy/10 text-navy">
+        {row.original.tshirt_size}
+      </span>
+    ),
+  },
+  {
+    id: "emergency_contact",
+    header: "Emergency Contact",
+    cell: ({ row }) => (
+      <div>
+        <div className="font-medium">{row.original.emergency_contact}</div>
+        <div className="text-sm text-gray-500">{row.original.emergency_phone}</div>
+      </div>
+    ),
+  },
+  {
+    id: "registration_date",
+    header: "Registration Date",
+    cell: ({ row }) =>
+      new Date(row.original.registration_date).toLocaleDateString("en-US", {
+        year: "numeric",
+        month: "short",
+        day: "numeric",
+      }),
+  },
+  {
+    id: "status",
+    header: "Status",
+    cell: ({ row, table }) => {
+      const registration = row.original
+      const status = (table.options.meta as AdminTableMeta).statusOf(registration)
+      return (
+        <>
+          <span
+            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(
+              status
+            )}`}
+          >
+            {status}
+          </span>
+          {registration.status_reason && status === registration.status && (
+            <div className="text-xs text-gray-500 mt-1 max-w-48">{registration.status_reason}</div>
+          )}
+        </>
+      )
+    },
+  },
+  {
+    id: "payment",
+    header: "Payment",
+    cell: ({ row }) => {
+      const payment = getLatestPayment(row.original.payments)
+      return payment ? (
+        <div>
+          <span
+            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${paymentStatusStyles[payment.status]}`}
+          >
+            {payment.status}
+          </span>
+          <div className="text-sm text-gray-500 mt-1">{formatPrice(payment.amount_paise)}</div>
+        </div>
+      ) : (
+        "—"
+      )
+    },
+  },
+  {
+    id: "checkin",
+    header: "Check-in",
+    cell: ({ row }) => {
+      const checkin = row.original.checkin
+      return checkin ? (
+        <span
+          className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800"
+          title={new Date(checkin.checked_in_at).toLocaleString()}
+        >
+          checked in
+        </span>
+      ) : (
+        "—"
+      )
+    },
+  },
+  {
+    id: "actions",
+    header: "Actions",
+    cell: ({ row, table }) => {
+      const { statusOf, applyStatusAction, isPending } = table.options.meta as AdminTableMeta
+      const status = statusOf(row.original)
+      return (
+        <div className="flex flex-col items-start gap-1">
+          {(Object.keys(STATUS_ACTIONS) as StatusAction[])
+            .filter((action) => canApplyStatusAction(status, action))
+            .map((action) => (
+              <button
+                key={action}
+                type="button"
+                onClick={() => applyStatusAction([row.original.id], action)}
+                disabled={isPending}
+                className={`text-sm font-semibold disabled:opacity-50 ${
+                  action === "cancel" ? "text-red-600 hover:text-red-800" : "text-navy hover:text-orange"
+                }`}
+              >
+                {STATUS_ACTIONS[action].label}
+              </button>
+            ))}
+        </div>
+      )
+    },
+  },
+]
+
+/**
+ * The table's columns, sortable where the server can sort
+ */
+const columns: ColumnDef<AdminRegistration>[] = columnDefs.map((column) => ({
+  ...column,
+  enableSorting: (ADMIN_SORT_COLUMNS as readonly string[]).includes(column.id ?? ""),
+}))
+
+/**
+ * Columns the admin can hide and reorder (all but the selection checkboxes),
+ * in the default order
+ */
+const customizableColumns = columnDefs
+  .filter((column) => column.id !== "select")
+  .map((column) => ({
+    id: column.id as string,
+    label: typeof column.header === "string" ? column.header : (column.id as string),
+  }))
+
+/**
+ * Ids of the customizable columns, in the default order
+ */
+const defaultColumnIds = customizableColumns.map((column) => column.id)
+
 /**
  * AdminTable component props
  */
 interface AdminTableProps {
-  /** Array of registration records to display in the table */
-  registrations: Registration[]
+  /** The registrations on the current page */
+  registrations: AdminRegistration[]
+  /** How many registrations match the current filters, across all pages */
+  total: number
+  /** The table's filters, sort and page, as read from the URL */
+  query: AdminRegistrationQuery
+  /** How many registrations have each facet option, with the other filters applied */
+  facets: AdminFacetCounts
+  /** Race categories of the event, used for the category column and filter */
+  categories: EventCategory[]
+  /** Slug of the event the registrations belong to (used in the export filename) */
+  eventSlug?: string
 }
 
 /**
  * Admin table component
- * 
- * Displays all event registrations in a sortable, searchable table.
+ *
+ * Displays one page of an event's registrations in a sortable, searchable
+ * table.
  * Features:
- * - Search/filter by company name
- * - Export filtered results to CSV
+ * - Search by name, email, employee ID, phone, company or bib
+ * - Filter by status, T-shirt size, company, race category and registration date
+ * - Sort by clicking a column header; choose the page and page size
+ * - Export every filtered registration (all pages) to CSV, XLSX or JSON, choosing the columns
  * - Responsive table layout
- * - Status badges with color coding
- * 
+ * - Status badges with color coding (pending, confirmed, waitlisted, cancelled)
+ * - Row selection with bulk confirm, cancel and reinstate
+ * - Choose, hide and reorder columns
+ *
  * @param {AdminTableProps} props - Component props
- * @param {Registration[]} props.registrations - Array of registration records
+ * @param {AdminRegistration[]} props.registrations - The registrations on the current page
+ * @param {number} props.total - Number of registrations matching the filters
+ * @param {AdminRegistrationQuery} props.query - The table state from the URL
+ * @param {AdminFacetCounts} props.facets - The facet counts
+ * @param {EventCategory[]} props.categories - Race categories of the event
+ * @param {string} [props.eventSlug] - Slug of the event being displayed
  * @returns {JSX.Element} The rendered admin table
- * 
+ *
  * @example
  * // Used in app/admin/page.tsx
- * const { data: registrations } = await supabase.from('registrations').select('*')
- * <AdminTable registrations={registrations || []} />
+ * const query = parseAdminRegistrationQuery(searchParams)
+ * const { registrations, total } = await getAdminRegistrations(supabase, event.id, query)
+ * const facets = await getAdminFacetCounts(supabase, event.id, query)
+ * <AdminTable registrations={registrations} total={total} query={query} facets={facets} categories={categories} eventSlug={event.slug} />
  */
-export default function AdminTable({ registrations }: AdminTableProps) {
-  // Search query state for filtering registrations
-  const [searchQuery, setSearchQuery] = useState("")
+export default function AdminTable({
+  registrations,
+  total,
+  query,
+  facets,
+  categories,
+  eventSlug,
+}: AdminTableProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  // Search box contents; sent to the URL once the admin stops typing
+  const [searchInput, setSearchInput] = useState(query.search)
+
+  // Rows ticked for a bulk action, by registration id
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+
+  // Statuses shown ahead of the server (optimistic updates), by registration id
+  const [statusOverrides, setStatusOverrides] = useState<Record<string, string>>({})
+
+  // Registrations waiting for a cancellation reason, or null
+  const [cancelIds, setCancelIds] = useState<string[] | null>(null)
+  const [cancelReason, setCancelReason] = useState("")
+
+  // Pending state while a status change is saved
+  const [isPending, startTransition] = useTransition()
+
+  // Pending state while the next page of data loads
+  const [isNavigating, startNavigation] = useTransition()
+
+  // Error message state for displaying status change errors
+  const [actionError, setActionError] = useState<string | null>(null)
+
+  // The element the rows scroll in (for virtualization)
+  const scrollRef = useRef<HTMLDivElement>(null)
+
+  // The latest search parameters asked for, which can be ahead of
+  // searchParams while a navigation loads
+  const queryRef = useRef(searchParams.toString())
+  useEffect(() => {
+    queryRef.current = searchParams.toString()
+  }, [searchParams])
+
+  // Fresh data from the server replaces the optimistic statuses, and the
+  // selection only ever covers the page shown
+  useEffect(() => {
+    setStatusOverrides({})
+    setRowSelection({})
+  }, [registrations])
+
+  // Keep the search box in step with the URL (e.g. after going back)
+  useEffect(() => {
+    setSearchInput(query.search)
+  }, [query.search])
+
+  /**
+   * Map of category id to category name for display
+   */
+  const categoryNames = useMemo(
+    () => Object.fromEntries(categories.map((category) => [category.id, category.name])),
+    [categories]
+  )
 
   /**
-   * Filters registrations based on the search query
-   * 
-   * Filters by company name (case-insensitive). Returns all registrations
-   * if search query is empty.
-   * 
-   * Uses useMemo to optimize performance by only recalculating when
-   * registrations or searchQuery changes.
-   * 
-   * @returns {Registration[]} Filtered array of registrations
+   * Updates the table state in the URL, which re-renders the page with the
+   * matching data. Values equal to the defaults are left out of the URL.
+   * Changes build on the latest parameters asked for, so a late search
+   * debounce cannot bring back filters that were just cleared.
+   *
+   * @param {Record<string, string | number | null>} changes - Search parameters to set (null removes one)
    */
-  const filteredRegistrations = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return registrations
+  const updateQuery = useCallback(
+    (changes: Record<string, string | number | null>) => {
+      const params = new URLSearchParams(queryRef.current)
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value === null || value === "") params.delete(key)
+        else params.set(key, String(value))
+      })
+      queryRef.current = params.toString()
+      startNavigation(() => {
+        router.push(`${pathname}?${params.toString()}`, { scroll: false })
+      })
+    },
+    [router, pathname]
+  )
+
+  // Search once the admin stops typing, from the first page
+  useEffect(() => {
+    if (searchInput.trim() === query.search) return
+    const timeout = setTimeout(() => updateQuery({ q: searchInput.trim(), page: null }), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchInput, query.search, updateQuery])
+
+  /**
+   * Returns the status to show for a registration
+   *
+   * @param {AdminRegistration} registration - The registration
+   * @returns {string} The optimistic status if a change is being saved, else the stored one
+   */
+  const statusOf = (registration: AdminRegistration) => statusOverrides[registration.id] ?? registration.status
+
+  /**
+   * Applies a status action, showing the expected status straight away and
+   * correcting it from the server's answer
+   *
+   * Cancelling first asks for a reason (see cancelIds).
+   *
+   * @param {string[]} ids - The registrations
+   * @param {StatusAction} action - The change to make
+   * @param {string} [reason] - Why; required to cancel
+   */
+  const applyStatusAction = (ids: string[], action: StatusAction, reason?: string) => {
+    const byId = new Map(registrations.map((reg) => [reg.id, reg]))
+    const eligible = ids.filter((id) => {
+      const registration = byId.get(id)
+      return registration && canApplyStatusAction(statusOf(registration), action)
+    })
+
+    setActionError(null)
+    if (eligible.length === 0) {
+      setActionError(`None of the selected registrations can be changed with ${STATUS_ACTIONS[action].label}`)
+      return
+    }
+
+    if (action === "cancel" && !reason) {
+      setCancelIds(eligible)
+      setCancelReason("")
+      return
     }
-    return registrations.filter((reg) =>
-      reg.company_name.toLowerCase().includes(searchQuery.toLowerCase())
-    )
-  }, [registrations, searchQuery])
+
+    const previous = Object.fromEntries(eligible.map((id) => [id, statusOverrides[id]]))
+    const revert = (overrides: Record<string, string>, revertIds: string[]) => {
+      const next = { ...overrides }
+      revertIds.forEach((id) => {
+        if (previous[id] === undefined) delete next[id]
+        else next[id] = previous[id]
+      })
+      return next
+    }
+
+    setStatusOverrides((current) => ({
+      ...current,
+      ...Object.fromEntries(eligible.map((id) => [id, STATUS_ACTIONS[action].to])),
+    }))
+    setCancelIds(null)
+
+    startTransition(async () => {
+      const result = await updateRegistrationStatus(eligible, action, reason)
+      if (result.error || !result.updated) {
+        setStatusOverrides((current) => revert(current, eligible))
+        setActionError(result.error ?? "We couldn't update the registrations")
+        return
+      }
+
+      const updated = new Map(result.updated.map((row) => [row.id, row.status]))
+      const skipped = eligible.filter((id) => !updated.has(id))
+      setStatusOverrides((current) => ({ ...revert(current, skipped), ...Object.fromEntries(updated) }))
+      setRowSelection({})
+      if (skipped.length > 0) {
+        setActionError(`${skipped.length} registration${skipped.length === 1 ? "" : "s"} could not be changed`)
+      }
+    })
+  }
+
+  /**
+   * The options of each facet filter
+   */
+  const facetOptionLists: Record<AdminFacet, FacetCount[]> = {
+    status: facetOptions(
+      REGISTRATION_STATUSES.map((status) => ({ value: status, label: status })),
+      facets.status,
+      query.facets.status
+    ),
+    tshirt_size: facetOptions(
+      TSHIRT_SIZES.map((size) => ({ value: size, label: size })),
+      facets.tshirt_size,
+      query.facets.tshirt_size
+    ),
+    company: facetOptions([], facets.company, query.facets.company),
+    category: facetOptions(
+      categories.map((category) => ({ value: category.id, label: category.name })),
+      facets.category,
+      query.facets.category
+    ),
+  }
+
+  const filtered = hasAdminFilters(query)
+
+  /**
+   * Removes every search, facet and date filter, keeping the sort and page size
+   */
+  const clearFilters = () => {
+    setSearchInput("")
+    updateQuery({
+      q: null,
+      from: null,
+      to: null,
+      page: null,
+      ...Object.fromEntries(Object.values(ADMIN_FACETS).map((param) => [param, null])),
+    })
+  }
+
+  const meta: AdminTableMeta = { categoryNames, statusOf, applyStatusAction, isPending }
+  const sorting: SortingState = [{ id: query.sort, desc: query.direction === "desc" }]
+  const pagination: PaginationState = { pageIndex: query.page - 1, pageSize: query.pageSize }
+
+  // Columns shown, in order: the URL's (ignoring unknown ids) or every column
+  const chosenColumns = query.columns.filter(
+    (id, index) => defaultColumnIds.includes(id) && query.columns.indexOf(id) === index
+  )
+  const visibleColumns = chosenColumns.length > 0 ? chosenColumns : defaultColumnIds
+  const columnOrder = ["select", ...visibleColumns]
+  const columnVisibility: VisibilityState = Object.fromEntries(
+    defaultColumnIds.filter((id) => !visibleColumns.includes(id)).map((id) => [id, false])
+  )
+
+  /**
+   * Sends the shown columns to the URL, leaving the parameter out when every
+   * column is shown in the default order
+   *
+   * @param {string[]} ids - Ids of the columns to show, in order
+   */
+  const handleColumnsChange = (ids: string[]) => {
+    const isDefault = ids.join(",") === defaultColumnIds.join(",")
+    updateQuery({ cols: isDefault ? null : ids.join(",") })
+  }
+
+  /**
+   * Sends a new sort to the URL, from the first page
+   *
+   * @param {Updater<SortingState>} updater - The new sort, or a function of the current one
+   */
+  const handleSortingChange = (updater: Updater<SortingState>) => {
+    const [next] = typeof updater === "function" ? updater(sorting) : updater
+    if (!next) return
+    const direction = next.desc ? "desc" : "asc"
+    const isDefault = next.id === DEFAULT_ADMIN_QUERY.sort && direction === DEFAULT_ADMIN_QUERY.direction
+    updateQuery({ sort: isDefault ? null : next.id, dir: isDefault ? null : direction, page: null })
+  }
+
+  /**
+   * Sends a new page or page size to the URL
+   *
+   * @param {Updater<PaginationState>} updater - The new pagination, or a function of the current one
+   */
+  const handlePaginationChange = (updater: Updater<PaginationState>) => {
+    const next = typeof updater === "function" ? updater(pagination) : updater
+    const sizeChanged = next.pageSize !== query.pageSize
+    updateQuery({
+      page: sizeChanged || next.pageIndex === 0 ? null : next.pageIndex + 1,
+      size: next.pageSize === DEFAULT_ADMIN_QUERY.pageSize ? null : next.pageSize,
+    })
+  }
+
+  const table = useReactTable({
+    data: registrations,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getRowId: (registration) => registration.id,
+    manualSorting: true,
+    manualPagination: true,
+    manualFiltering: true,
+    enableSortingRemoval: false,
+    rowCount: total,
+    state: { sorting, pagination, rowSelection, columnOrder, columnVisibility },
+    onSortingChange: handleSortingChange,
+    onPaginationChange: handlePaginationChange,
+    onRowSelectionChange: setRowSelection,
+    meta,
+  })
+
+  const rows = table.getRowModel().rows
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 10,
+  })
+  const virtualRows = virtualizer.getVirtualItems()
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0
+  const paddingBottom =
+    virtualRows.length > 0 ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0
+
+  // Cells in a row, for the rows that span the table
+  const columnCount = table.getVisibleLeafColumns().length
+
+  // Ticked rows on the current page
+  const selectedIds = table.getSelectedRowModel().rows.map((row) => row.id)
+
+  const firstShown = total === 0 ? 0 : (query.page - 1) * query.pageSize + 1
+  const lastShown = Math.min(query.page * query.pageSize, total)
 
   /**
-   * Exports filtered registrations to CSV file
-   * 
-   * Creates a CSV file with all registration data and triggers a download.
-   * The file is named with the current date (e.g., registrations_2024-12-24.csv).
-   * 
-   * CSV includes all fields from the Registration interface:
-   * - Full Name, Corporate Email, Employee ID, Company Name
-   * - T-shirt Size, Emergency Contact, Emergency Phone
-   * - Registration Date, Status
+   * Confirms the cancellation once a reason has been typed
+   *
+   * @param {React.FormEvent} e - Form submit event
    */
-  const handleExportCSV = () => {
-    const headers = [
-      "Full Name",
-      "Corporate Email",
-      "Employee ID",
-      "Company Name",
-      "T-shirt Size",
-      "Emergency Contact",
-      "Emergency Phone",
-      "Registration Date",
-      "Status",
-    ]
-
-    const csvRows = [
-      headers.join(","),
-      ...filteredRegistrations.map((reg) =>
-        [
-          `"${reg.full_name}"`,
-          `"${reg.corporate_email}"`,
-          `"${reg.employee_id}"`,
-          `"${reg.company_name}"`,
-          reg.tshirt_size,
-          `"${reg.emergency_contact}"`,
-          `"${reg.emergency_phone}"`,
-          new Date(reg.registration_date).toLocaleDateString(),
-          reg.status,
-        ].join(",")
-      ),
-    ]
-
-    const csvContent = csvRows.join("\n")
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" })
-    const link = document.createElement("a")
-    const url = URL.createObjectURL(blob)
-    
-    link.setAttribute("href", url)
-    link.setAttribute("download", `registrations_${new Date().toISOString().split("T")[0]}.csv`)
-    link.style.visibility = "hidden"
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+  const handleCancelSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!cancelIds || !cancelReason.trim()) return
+    applyStatusAction(cancelIds, "cancel", cancelReason.trim())
   }
 
   return (
@@ -163,96 +780,258 @@ export default function AdminTable({ registrations }: AdminTableProps) {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <Input
               type="text"
-              placeholder="Search by company name..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search name, email, employee ID, phone, company or bib..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               className="pl-10"
             />
           </div>
-          <Button
-            onClick={handleExportCSV}
-            className="bg-orange hover:bg-orange-dark text-white font-semibold px-6"
-          >
-            <Download className="w-4 h-4 mr-2" />
-            Export to CSV
-          </Button>
+          <div className="flex items-center gap-3">
+            <ColumnPicker
+              columns={customizableColumns}
+              visible={visibleColumns}
+              onChange={handleColumnsChange}
+              onReset={() => handleColumnsChange(defaultColumnIds)}
+            />
+            <ExportMenu eventSlug={eventSlug} disabled={total === 0} />
+          </div>
+        </div>
+
+        {/* Facet Filters */}
+        <div className="mt-4 flex flex-wrap items-center gap-3">
+          {(Object.keys(facetLabels) as AdminFacet[]).map((facet) => (
+            <FacetFilter
+              key={facet}
+              label={facetLabels[facet]}
+              options={facetOptionLists[facet]}
+              selected={query.facets[facet]}
+              onChange={(values) => updateQuery({ [ADMIN_FACETS[facet]]: values.join(","), page: null })}
+            />
+          ))}
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Registered from
+            <Input
+              type="date"
+              value={query.from}
+              max={query.to || undefined}
+              onChange={(e) => updateQuery({ from: e.target.value, page: null })}
+              className="h-9 w-40"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            to
+            <Input
+              type="date"
+              value={query.to}
+              min={query.from || undefined}
+              onChange={(e) => updateQuery({ to: e.target.value, page: null })}
+              className="h-9 w-40"
+            />
+          </label>
+          {filtered && (
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="text-sm font-semibold text-gray-600 hover:text-navy"
+            >
+              Clear all filters
+            </button>
+          )}
         </div>
+
         <div className="mt-4 text-sm text-gray-600">
-          Showing {filteredRegistrations.length} of {registrations.length} registrations
+          Showing {firstShown}–{lastShown} of {total} {filtered ? "matching " : ""}registrations
         </div>
+
+        {/* Bulk Status Actions */}
+        {selectedIds.length > 0 && !cancelIds && (
+          <div className="mt-4 flex flex-wrap items-center gap-3 bg-navy/5 border border-navy/10 rounded-md px-4 py-3">
+            <span className="text-sm font-semibold text-navy">{selectedIds.length} selected</span>
+            {(Object.keys(STATUS_ACTIONS) as StatusAction[]).map((action) => {
+              const Icon = statusActionIcons[action]
+              return (
+                <Button
+                  key={action}
+                  type="button"
+                  onClick={() => applyStatusAction(selectedIds, action)}
+                  disabled={isPending}
+                  className={
+                    action === "cancel"
+                      ? "bg-red-600 hover:bg-red-700 text-white font-semibold h-9"
+                      : "bg-navy hover:bg-navy-light text-white font-semibold h-9"
+                  }
+                >
+                  <Icon className="w-4 h-4 mr-2" />
+                  {STATUS_ACTIONS[action].label}
+                </Button>
+              )
+            })}
+            <button
+              type="button"
+              onClick={() => setRowSelection({})}
+              className="text-sm font-semibold text-gray-600 hover:text-navy"
+            >
+              Clear selection
+            </button>
+          </div>
+        )}
+
+        {/* Cancellation Reason */}
+        {cancelIds && (
+          <form
+            onSubmit={handleCancelSubmit}
+            className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3 bg-red-50 border border-red-200 rounded-md px-4 py-3"
+          >
+            <label htmlFor="cancel-reason" className="text-sm font-semibold text-red-800 shrink-0">
+              Cancel {cancelIds.length} registration{cancelIds.length === 1 ? "" : "s"}:
+            </label>
+            <Input
+              id="cancel-reason"
+              autoFocus
+              placeholder="Reason (shown to the participant)"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              maxLength={500}
+              className="bg-white"
+            />
+            <Button
+              type="submit"
+              disabled={isPending || !cancelReason.trim()}
+              className="bg-red-600 hover:bg-red-700 text-white font-semibold shrink-0"
+            >
+              Cancel Registrations
+            </Button>
+            <button
+              type="button"
+              onClick={() => setCancelIds(null)}
+              className="text-sm font-semibold text-gray-600 hover:text-navy shrink-0"
+            >
+              Keep
+            </button>
+          </form>
+        )}
+
+        {actionError && <p className="mt-2 text-sm text-red-500">{actionError}</p>}
       </div>
 
       {/* Table */}
-      <div className="overflow-x-auto">
+      <div
+        ref={scrollRef}
+        className={`max-h-[70vh] overflow-auto transition-opacity ${isNavigating ? "opacity-50" : ""}`}
+      >
         <Table>
           <TableHeader>
-            <TableRow className="bg-gray-50">
-              <TableHead className="font-semibold text-navy">Full Name</TableHead>
-              <TableHead className="font-semibold text-navy">Email</TableHead>
-              <TableHead className="font-semibold text-navy">Employee ID</TableHead>
-              <TableHead className="font-semibold text-navy">Company</TableHead>
-              <TableHead className="font-semibold text-navy">T-shirt Size</TableHead>
-              <TableHead className="font-semibold text-navy">Emergency Contact</TableHead>
-              <TableHead className="font-semibold text-navy">Registration Date</TableHead>
-              <TableHead className="font-semibold text-navy">Status</TableHead>
-            </TableRow>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id} className="bg-gray-50">
+                {headerGroup.headers.map((header) => {
+                  const sorted = header.column.getIsSorted()
+                  const SortIcon = sorted === "asc" ? ArrowUp : sorted === "desc" ? ArrowDown : ArrowUpDown
+                  return (
+                    <TableHead
+                      key={header.id}
+                      className={header.column.id === "select" ? "w-10" : "font-semibold text-navy"}
+                      aria-sort={sorted === "asc" ? "ascending" : sorted === "desc" ? "descending" : undefined}
+                    >
+                      {header.column.getCanSort() ? (
+                        <button
+                          type="button"
+                          onClick={header.column.getToggleSortingHandler()}
+                          className="inline-flex items-center gap-1 hover:text-orange"
+                        >
+                          {flexRender(header.column.columnDef.header, header.getContext())}
+                          <SortIcon className={`w-3.5 h-3.5 ${sorted ? "text-orange" : "text-gray-400"}`} />
+                        </button>
+                      ) : (
+                        flexRender(header.column.columnDef.header, header.getContext())
+                      )}
+                    </TableHead>
+                  )
+                })}
+              </TableRow>
+            ))}
           </TableHeader>
           <TableBody>
-            {filteredRegistrations.length === 0 ? (
+            {rows.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={8} className="text-center py-8 text-gray-500">
-                  {searchQuery
-                    ? `No registrations found matching "${searchQuery}"`
+                <TableCell colSpan={columnCount} className="text-center py-8 text-gray-500">
+                  {filtered
+                    ? "No registrations found matching the current filters"
                     : "No registrations found"}
                 </TableCell>
               </TableRow>
             ) : (
-              filteredRegistrations.map((registration) => (
-                <TableRow key={registration.id} className="hover:bg-gray-50">
-                  <TableCell className="font-medium">{registration.full_name}</TableCell>
-                  <TableCell>{registration.corporate_email}</TableCell>
-                  <TableCell>{registration.employee_id}</TableCell>
-                  <TableCell>{registration.company_name}</TableCell>
-                  <TableCell>
-                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-navy/10 text-navy">
-                      {registration.tshirt_size}
-                    </span>
-                  </TableCell>
-                  <TableCell>
-                    <div>
-                      <div className="font-medium">{registration.emergency_contact}</div>
-                      <div className="text-sm text-gray-500">{registration.emergency_phone}</div>
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    {new Date(registration.registration_date).toLocaleDateString("en-US", {
-                      year: "numeric",
-                      month: "short",
-                      day: "numeric",
-                    })}
-                  </TableCell>
-                  <TableCell>
-                    <span
-                      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        registration.status === "confirmed"
-                          ? "bg-green-100 text-green-800"
-                          : registration.status === "pending"
-                          ? "bg-yellow-100 text-yellow-800"
-                          : "bg-red-100 text-red-800"
-                      }`}
+              <>
+                {paddingTop > 0 && (
+                  <tr>
+                    <td colSpan={columnCount} style={{ height: paddingTop }} />
+                  </tr>
+                )}
+                {virtualRows.map((virtualRow) => {
+                  const row = rows[virtualRow.index]
+                  return (
+                    <TableRow
+                      key={row.id}
+                      data-index={virtualRow.index}
+                      ref={virtualizer.measureElement}
+                      className={row.getIsSelected() ? "bg-orange/5" : "hover:bg-gray-50"}
                     >
-                      {registration.status}
-                    </span>
-                  </TableCell>
-                </TableRow>
-              ))
+                      {row.getVisibleCells().map((cell) => (
+                        <TableCell key={cell.id}>{flexRender(cell.column.columnDef.cell, cell.getContext())}</TableCell>
+                      ))}
+                    </TableRow>
+                  )
+                })}
+                {paddingBottom > 0 && (
+                  <tr>
+                    <td colSpan={columnCount} style={{ height: paddingBottom }} />
+                  </tr>
+                )}
+              </>
             )}
           </TableBody>
         </Table>
       </div>
+
+      {/* Pagination */}
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 p-4 border-t border-gray-200 text-sm text-gray-600">
+        <label className="flex items-center gap-2">
+          Rows per page
+          <select
+            value={query.pageSize}
+            onChange={(e) => table.setPageSize(Number(e.target.value))}
+            className="h-9 rounded-md border border-input bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            {ADMIN_PAGE_SIZES.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-3">
+          <span>
+            Page {query.page} of {Math.max(table.getPageCount(), 1)}
+          </span>
+          <Button
+            type="button"
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage() || isNavigating}
+            className="bg-transparent border-2 border-navy text-navy hover:bg-navy hover:text-white font-semibold h-9 px-3"
+            aria-label="Previous page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage() || isNavigating}
+            className="bg-transparent border-2 border-navy text-navy hover:bg-navy hover:text-white font-semibold h-9 px-3"
+            aria-label="Next page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
     </div>
   )
 }
-
-
-
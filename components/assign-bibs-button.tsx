@@ -0,0 +1,63 @@
+/**
+ * Assign Bibs Button Component
+ *
+ * Gives every confirmed registration of an event that has no bib yet the
+ * next free number, e.g. after adding ranges to an event that already has
+ * confirmed participants.
+ *
+ * @module components/assign-bibs-button
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { Hash } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { assignMissingBibNumbers } from "@/app/admin/bibs/actions"
+
+/**
+ * Assign bibs button component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.eventId - The event to assign bibs for
+ * @param {number} props.missingCount - Confirmed registrations without a bib
+ * @returns {JSX.Element} The rendered button and result message
+ */
+export default function AssignBibsButton({ eventId, missingCount }: { eventId: string; missingCount: number }) {
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Result or error message
+  const [message, setMessage] = useState<string | null>(null)
+
+  /**
+   * Runs the assignment and reports how many bibs were given out
+   */
+  const handleAssign = () => {
+    setMessage(null)
+    startTransition(async () => {
+      const result = await assignMissingBibNumbers(eventId)
+      setMessage(
+        result.error ??
+          (result.assigned === missingCount
+            ? `Assigned ${result.assigned} bib numbers`
+            : `Assigned ${result.assigned} bib numbers. Add more ranges for the rest.`)
+      )
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-end">
+      <Button
+        type="button"
+        onClick={handleAssign}
+        disabled={isPending || missingCount === 0}
+        className="bg-navy hover:bg-navy-light text-white font-semibold"
+      >
+        <Hash className="w-4 h-4 mr-2" />
+        {isPending ? "Assigning..." : `Assign Missing Bibs (${missingCount})`}
+      </Button>
+      {message && <p className="mt-2 text-sm text-gray-600">{message}</p>}
+    </div>
+  )
+}
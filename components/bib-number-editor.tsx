@@ -0,0 +1,108 @@
+/**
+ * Bib Number Editor Component
+ *
+ * Inline editor for a registration's bib number in the admin table.
+ * Admins can type a specific bib (manual override) or clear it, in which
+ * case a confirmed registration is given the next free bib automatically.
+ * Enter saves, Escape cancels.
+ *
+ * @module components/bib-number-editor
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { Pencil } from "lucide-react"
+import { updateBibNumber } from "@/app/admin/bibs/actions"
+
+/**
+ * Bib number editor component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.registrationId - The registration to edit
+ * @param {number | null} props.bibNumber - The current bib number
+ * @returns {JSX.Element} The bib number, or an input while editing
+ *
+ * @example
+ * // Used in components/admin-table.tsx
+ * <BibNumberEditor registrationId={registration.id} bibNumber={registration.bib_number} />
+ */
+export default function BibNumberEditor({
+  registrationId,
+  bibNumber,
+}: {
+  registrationId: string
+  bibNumber: number | null
+}) {
+  // Whether the input is shown
+  const [editing, setEditing] = useState(false)
+
+  // Input value while editing
+  const [value, setValue] = useState(bibNumber?.toString() ?? "")
+
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying update errors
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Saves the new bib (an empty value reassigns automatically)
+   */
+  const handleSave = () => {
+    const trimmed = value.trim()
+    const next = trimmed === "" ? null : Number(trimmed)
+
+    if (next === bibNumber) {
+      setEditing(false)
+      return
+    }
+
+    setError(null)
+    startTransition(async () => {
+      const result = await updateBibNumber(registrationId, next)
+      if (result.error) {
+        setError(result.error)
+      } else {
+        setEditing(false)
+      }
+    })
+  }
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setValue(bibNumber?.toString() ?? "")
+          setEditing(true)
+        }}
+        className="group inline-flex items-center font-mono font-semibold text-navy"
+        title="Edit bib number"
+      >
+        {bibNumber ?? "—"}
+        <Pencil className="w-3 h-3 ml-1 text-gray-300 group-hover:text-orange" />
+      </button>
+    )
+  }
+
+  return (
+    <div>
+      <input
+        type="number"
+        min="1"
+        autoFocus
+        value={value}
+        disabled={isPending}
+        placeholder="Auto"
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handleSave()
+          if (e.key === "Escape") setEditing(false)
+        }}
+        className="w-20 h-8 rounded-md border border-input px-2 text-sm font-mono"
+      />
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+/**
+ * Bib Range Form Component
+ *
+ * Admin form for adding a range of bib numbers to an event, either for one
+ * race category or for the whole event.
+ *
+ * @module components/bib-range-form
+ */
+
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { createBibRange } from "@/app/admin/bibs/actions"
+import { bibRangeSchema, type BibRangeFormData } from "@/lib/bibs"
+import type { EventCategory } from "@/lib/events"
+
+/**
+ * Bib range form component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.eventId - The event to add ranges to
+ * @param {EventCategory[]} props.categories - The event's race categories
+ * @returns {JSX.Element} The rendered form
+ *
+ * @example
+ * // Used in app/admin/bibs/page.tsx
+ * <BibRangeForm eventId={selectedEvent.id} categories={categories} />
+ */
+export default function BibRangeForm({
+  eventId,
+  categories,
+}: {
+  eventId: string
+  categories: EventCategory[]
+}) {
+  // Loading state during submission
+  const [loading, setLoading] = useState(false)
+
+  // Error message state for displaying submission errors
+  const [error, setError] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<BibRangeFormData>({
+    resolver: zodResolver(bibRangeSchema),
+  })
+
+  /**
+   * Adds the range and clears the form on success
+   *
+   * @param {BibRangeFormData} data - Validated form data
+   */
+  const onSubmit = async (data: BibRangeFormData) => {
+    setError(null)
+    setLoading(true)
+
+    try {
+      const result = await createBibRange(eventId, data)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      reset()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 mb-8">
+      <h2 className="text-2xl font-bold text-navy mb-6">Add Bib Range</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-4 gap-4 items-start">
+        <div>
+          <label htmlFor="categoryId" className="block text-sm font-semibold text-navy mb-2">
+            Category
+          </label>
+          <select
+            id="categoryId"
+            {...register("categoryId")}
+            className="w-full h-10 rounded-md border border-input bg-white px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <option value="">Whole event</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="rangeStart" className="block text-sm font-semibold text-navy mb-2">
+            First Bib *
+          </label>
+          <Input id="rangeStart" type="number" min="1" placeholder="1001" {...register("rangeStart")} />
+          {errors.rangeStart && <p className="mt-1 text-sm text-red-500">{errors.rangeStart.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="rangeEnd" className="block text-sm font-semibold text-navy mb-2">
+            Last Bib *
+          </label>
+          <Input id="rangeEnd" type="number" min="1" placeholder="1999" {...register("rangeEnd")} />
+          {errors.rangeEnd && <p className="mt-1 text-sm text-red-500">{errors.rangeEnd.message}</p>}
+        </div>
+
+        <div className="md:pt-7">
+          <Button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-orange hover:bg-orange-dark text-white font-semibold"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {loading ? "Adding..." : "Add Range"}
+          </Button>
+        </div>
+      </div>
+    </form>
+  )
+}
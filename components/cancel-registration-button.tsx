@@ -0,0 +1,65 @@
+/**
+ * Cancel Registration Button Component
+ * 
+ * Lets a participant cancel their own registration from the dashboard.
+ * Asks for confirmation first, then calls the cancelRegistration server
+ * action. Freeing a seat automatically promotes the next waitlisted person.
+ * 
+ * @module components/cancel-registration-button
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cancelRegistration } from "@/app/dashboard/actions"
+
+/**
+ * Cancel registration button component
+ * 
+ * @param {Object} props - Component props
+ * @param {string} props.registrationId - The registration to cancel
+ * @returns {JSX.Element} The rendered button and any error message
+ * 
+ * @example
+ * // Used in app/dashboard/page.tsx
+ * <CancelRegistrationButton registrationId={registration.id} />
+ */
+export default function CancelRegistrationButton({ registrationId }: { registrationId: string }) {
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+  
+  // Error message state for displaying cancellation errors
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Confirms intent and cancels the registration
+   */
+  const handleCancel = () => {
+    if (!window.confirm("Are you sure you want to cancel your registration? Your spot will be given to the next person on the waitlist.")) {
+      return
+    }
+
+    setError(null)
+    startTransition(async () => {
+      const result = await cancelRegistration(registrationId)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <div>
+      <Button
+        type="button"
+        onClick={handleCancel}
+        disabled={isPending}
+        className="bg-white border border-red-300 text-red-700 hover:bg-red-50 font-semibold"
+      >
+        <XCircle className="w-4 h-4 mr-2" />
+        {isPending ? "Cancelling..." : "Cancel Registration"}
+      </Button>
+      {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
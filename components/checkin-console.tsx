@@ -0,0 +1,644 @@
+/**
+ * Check-in Console Component
+ *
+ * The volunteer-facing part of /checkin. A participant is found either by
+ * scanning their e-ticket with the camera or by searching for their bib
+ * number, email or employee ID. The console then shows what the desk needs
+ * (name, bib, T-shirt size, emergency contact) and a button to check them
+ * in. Participants who are already checked in are flagged with the time of
+ * the original check-in instead.
+ *
+ * The console keeps working when the venue network drops: the event's
+ * confirmed roster is cached on the device (see lib/checkin-offline) and
+ * used for scans and searches while offline, and check-ins made offline
+ * are queued and synced when the connection returns. Conflicts (the same
+ * participant checked in on two devices) are resolved by the database,
+ * which keeps the earliest check-in.
+ *
+ * @module components/checkin-console
+ */
+
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState, useTransition } from "react"
+import { AlertTriangle, CheckCircle, QrCode, Search, UserCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import QrScanner from "@/components/qr-scanner"
+import CheckinSyncStatus, { type SyncIssue } from "@/components/checkin-sync-status"
+import {
+  checkInParticipant,
+  getRoster,
+  lookupTicket,
+  searchParticipants,
+  syncCheckins,
+} from "@/app/checkin/actions"
+import {
+  applyQueuedCheckins,
+  enqueueCheckin,
+  findTicketInRoster,
+  getDeviceId,
+  getQueuedCheckins,
+  loadRoster,
+  removeQueuedCheckins,
+  saveRoster,
+  searchRoster,
+  type CachedRoster,
+} from "@/lib/checkin-offline"
+import { getStatusBadgeClass } from "@/lib/registrations"
+import type { Checkin, CheckinMethod, CheckinParticipant, QueuedCheckin } from "@/lib/checkins"
+import { cn } from "@/lib/utils"
+
+/**
+ * A message shown above the participant card
+ */
+interface ConsoleMessage {
+  type: "success" | "warning" | "error"
+  text: string
+}
+
+/**
+ * Classes for each message type
+ */
+const messageStyles: Record<ConsoleMessage["type"], string> = {
+  success: "bg-green-50 border-green-300 text-green-800",
+  warning: "bg-yellow-50 border-yellow-300 text-yellow-800",
+  error: "bg-red-50 border-red-300 text-red-800",
+}
+
+/**
+ * How often queued check-ins are retried, in milliseconds
+ */
+const SYNC_INTERVAL_MS = 30 * 1000
+
+/**
+ * How often the cached roster is refreshed while online, in milliseconds
+ */
+const ROSTER_REFRESH_MS = 5 * 60 * 1000
+
+/**
+ * Formats a check-in time, e.g. "06:12"
+ *
+ * @param {string} timestamp - ISO timestamp
+ * @returns {string} The time of day
+ */
+function formatCheckinTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString("en-IN", { hour: "2-digit", minute: "2-digit" })
+}
+
+/**
+ * Describes an existing check-in, e.g. "06:12 by you"
+ *
+ * @param {Checkin} checkin - The recorded (or queued) check-in
+ * @param {string} userId - The current volunteer
+ * @returns {string} Time and who checked the participant in
+ */
+function describeCheckin(checkin: Checkin, userId: string): string {
+  const who = checkin.checked_in_by === userId ? "you" : "another volunteer"
+  return `${formatCheckinTime(checkin.checked_in_at)} by ${who}${checkin.pending ? " (waiting to sync)" : ""}`
+}
+
+/**
+ * Check-in console component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.eventId - The event being checked in
+ * @param {string} props.userId - The signed-in volunteer
+ * @returns {JSX.Element} The rendered console
+ *
+ * @example
+ * // Used in app/checkin/page.tsx
+ * <CheckinConsole eventId={selectedEvent.id} userId={user.id} />
+ */
+export default function CheckinConsole({ eventId, userId }: { eventId: string; userId: string }) {
+  // Pending state while a lookup or check-in runs
+  const [isPending, startTransition] = useTransition()
+
+  // Scan with the camera or search by bib/email/employee ID
+  const [mode, setMode] = useState<CheckinMethod>("qr")
+
+  // Search box contents and results
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<CheckinParticipant[] | null>(null)
+
+  // The participant shown on the card
+  const [participant, setParticipant] = useState<CheckinParticipant | null>(null)
+
+  // Outcome of the last scan, search or check-in
+  const [message, setMessage] = useState<ConsoleMessage | null>(null)
+
+  // Offline support: this device's id, the cached roster and queued check-ins
+  const [deviceId, setDeviceId] = useState("")
+  const [online, setOnline] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const [roster, setRoster] = useState<CachedRoster | null>(null)
+  const [queue, setQueue] = useState<QueuedCheckin[]>([])
+  const [issues, setIssues] = useState<SyncIssue[]>([])
+
+  // Guards against overlapping syncs (timers, reconnects and the button)
+  const syncingRef = useRef(false)
+
+  // The cached roster with this device's unsynced check-ins applied
+  const rosterParticipants = useMemo(
+    () => applyQueuedCheckins(roster?.participants ?? [], queue, userId),
+    [roster, queue, userId]
+  )
+
+  /**
+   * Applies this device's unsynced check-in (if any) to a participant
+   * fetched from the server
+   */
+  const withQueuedCheckin = useCallback(
+    (found: CheckinParticipant) => applyQueuedCheckins([found], queue, userId)[0],
+    [queue, userId]
+  )
+
+  /**
+   * Downloads the event's roster and caches it on the device
+   */
+  const refreshRoster = useCallback(async () => {
+    try {
+      const result = await getRoster(eventId)
+      setOnline(true)
+      if (result.participants) {
+        const fresh = { eventId, participants: result.participants, cachedAt: new Date().toISOString() }
+        await saveRoster(fresh)
+        setRoster(fresh)
+      }
+    } catch {
+      setOnline(false)
+    }
+  }, [eventId])
+
+  /**
+   * Stores check-in results in the cached roster
+   *
+   * @param {Map<string, Checkin>} checkins - Check-ins by registration id
+   * @returns {Promise<CachedRoster | null>} The updated roster
+   */
+  const saveCheckinsToRoster = useCallback(
+    async (checkins: Map<string, Checkin>) => {
+      const cached = await loadRoster(eventId)
+      if (!cached) return null
+      const updated = {
+        ...cached,
+        participants: cached.participants.map((p) =>
+          checkins.has(p.id) ? { ...p, checkin: checkins.get(p.id)! } : p
+        ),
+      }
+      await saveRoster(updated)
+      setRoster(updated)
+      return updated
+    },
+    [eventId]
+  )
+
+  /**
+   * Sends queued check-ins to the server, in batches, until the queue is
+   * empty or the connection fails
+   */
+  const syncQueue = useCallback(async () => {
+    if (syncingRef.current) return
+    syncingRef.current = true
+    setSyncing(true)
+
+    try {
+      let pending = await getQueuedCheckins(eventId)
+      while (pending.length > 0) {
+        const result = await syncCheckins(pending)
+        setOnline(true)
+        if (!result.results) {
+          setMessage({ type: "error", text: result.error ?? "Check-ins could not be synced" })
+          break
+        }
+
+        const finished = result.results.filter((r) => !r.retry)
+        await removeQueuedCheckins(finished.map((r) => r.id))
+
+        const checkins = new Map<string, Checkin>()
+        finished.forEach((r) => r.checkin && checkins.set(r.registrationId, r.checkin))
+        const updated = await saveCheckinsToRoster(checkins)
+
+        const nameOf = (registrationId: string) =>
+          updated?.participants.find((p) => p.id === registrationId)?.full_name ?? "A participant"
+        const newIssues = finished.flatMap((r): SyncIssue[] =>
+          r.error
+            ? [{ registrationId: r.registrationId, text: `${nameOf(r.registrationId)}: ${r.error}` }]
+            : r.outcome === "duplicate" && r.checkin
+            ? [
+                {
+                  registrationId: r.registrationId,
+                  text: `${nameOf(r.registrationId)} was already checked in at ${formatCheckinTime(
+                    r.checkin.checked_in_at
+                  )} on another device`,
+                },
+              ]
+            : []
+        )
+        if (newIssues.length > 0) {
+          setIssues((current) => [...current, ...newIssues])
+        }
+
+        // Entries that failed temporarily wait for the next sync
+        if (finished.length < result.results.length) break
+        pending = await getQueuedCheckins(eventId)
+      }
+    } catch {
+      setOnline(false)
+    } finally {
+      setQueue(await getQueuedCheckins(eventId).catch(() => []))
+      syncingRef.current = false
+      setSyncing(false)
+    }
+  }, [eventId, saveCheckinsToRoster])
+
+  // Load the cached roster and queue, then sync and refresh when online
+  useEffect(() => {
+    let cancelled = false
+    setDeviceId(getDeviceId())
+    setOnline(navigator.onLine)
+
+    const start = async () => {
+      try {
+        const [cached, queued] = await Promise.all([loadRoster(eventId), getQueuedCheckins(eventId)])
+        if (cancelled) return
+        setRoster(cached)
+        setQueue(queued)
+      } catch (err) {
+        console.error("Error opening the check-in cache:", err)
+      }
+      if (!cancelled && navigator.onLine) {
+        await syncQueue()
+        await refreshRoster()
+      }
+    }
+    start()
+
+    return () => {
+      cancelled = true
+    }
+  }, [eventId, syncQueue, refreshRoster])
+
+  // Sync when the connection returns, and retry periodically
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true)
+      syncQueue().then(refreshRoster)
+    }
+    const handleOffline = () => setOnline(false)
+
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+    const syncTimer = setInterval(syncQueue, SYNC_INTERVAL_MS)
+    const rosterTimer = setInterval(() => navigator.onLine && refreshRoster(), ROSTER_REFRESH_MS)
+
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+      clearInterval(syncTimer)
+      clearInterval(rosterTimer)
+    }
+  }, [syncQueue, refreshRoster])
+
+  /**
+   * Shows a participant on the card, warning if they are already checked in
+   *
+   * @param {CheckinParticipant} found - The participant to show
+   */
+  const showParticipant = useCallback(
+    (found: CheckinParticipant) => {
+      setParticipant(found)
+      setMessage(
+        found.checkin
+          ? { type: "warning", text: `Already checked in at ${describeCheckin(found.checkin, userId)}` }
+          : found.status !== "confirmed"
+          ? { type: "error", text: `This registration is ${found.status} and cannot be checked in` }
+          : null
+      )
+    },
+    [userId]
+  )
+
+  /**
+   * Replaces a participant on the card and in the search results
+   *
+   * @param {CheckinParticipant} updated - The participant after checking in
+   */
+  const replaceParticipant = (updated: CheckinParticipant) => {
+    setParticipant(updated)
+    setResults((current) => current?.map((p) => (p.id === updated.id ? updated : p)) ?? null)
+  }
+
+  /**
+   * Looks up the participant for a scanned QR code, from the server when
+   * online and from the cached roster otherwise
+   *
+   * @param {string} token - The QR code contents
+   */
+  const handleScan = useCallback(
+    (token: string) => {
+      startTransition(async () => {
+        if (navigator.onLine) {
+          try {
+            const result = await lookupTicket(eventId, token)
+            setOnline(true)
+            if (result.error || !result.participant) {
+              setParticipant(null)
+              setMessage({ type: "error", text: result.error ?? "Ticket not recognised" })
+            } else {
+              showParticipant(withQueuedCheckin(result.participant))
+            }
+            return
+          } catch {
+            setOnline(false)
+          }
+        }
+
+        const found = findTicketInRoster(rosterParticipants, token)
+        if (found) {
+          showParticipant(found)
+        } else {
+          setParticipant(null)
+          setMessage({
+            type: "error",
+            text: roster
+              ? "Offline: this ticket is not on the roster for this event"
+              : "Offline: the roster has not been downloaded to this device",
+          })
+        }
+      })
+    },
+    [eventId, roster, rosterParticipants, showParticipant, withQueuedCheckin]
+  )
+
+  /**
+   * Searches for participants; a single match is shown straight away
+   *
+   * @param {React.FormEvent} e - Form submit event
+   */
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setParticipant(null)
+    setMessage(null)
+    startTransition(async () => {
+      let found: CheckinParticipant[] | null = null
+
+      if (navigator.onLine) {
+        try {
+          const result = await searchParticipants(eventId, query)
+          setOnline(true)
+          if (result.error) {
+            setResults(null)
+            setMessage({ type: "error", text: result.error })
+            return
+          }
+          found = (result.participants ?? []).map(withQueuedCheckin)
+        } catch {
+          setOnline(false)
+        }
+      }
+
+      if (!found) {
+        found = searchRoster(rosterParticipants, query)
+      }
+
+      setResults(found)
+      if (found.length === 0) {
+        setMessage({ type: "error", text: "No participant matches this search" })
+      } else if (found.length === 1) {
+        showParticipant(found[0])
+      }
+    })
+  }
+
+  /**
+   * Checks in the participant on the card
+   *
+   * When the server cannot be reached the check-in is queued on the device
+   * with the current time and synced later.
+   */
+  const handleCheckIn = () => {
+    if (!participant) return
+    const target = participant
+
+    startTransition(async () => {
+      if (navigator.onLine) {
+        try {
+          const result = await checkInParticipant(target.id, mode, deviceId)
+          setOnline(true)
+          if (result.participant) {
+            replaceParticipant(result.participant)
+            if (result.participant.checkin) {
+              await saveCheckinsToRoster(new Map([[target.id, result.participant.checkin]]))
+            }
+          }
+          if (result.error) {
+            setMessage({ type: "error", text: result.error })
+          } else if (result.alreadyCheckedIn && result.participant?.checkin) {
+            setMessage({
+              type: "warning",
+              text: `Already checked in at ${describeCheckin(result.participant.checkin, userId)}`,
+            })
+          } else {
+            setMessage({ type: "success", text: `${target.full_name} is checked in` })
+          }
+          return
+        } catch {
+          setOnline(false)
+        }
+      }
+
+      const queued: QueuedCheckin = {
+        id: crypto.randomUUID(),
+        registrationId: target.id,
+        eventId,
+        method: mode,
+        checkedInAt: new Date().toISOString(),
+        deviceId,
+      }
+      try {
+        await enqueueCheckin(queued)
+      } catch (err) {
+        console.error("Error queueing check-in:", err)
+        setMessage({ type: "error", text: "We couldn't save this check-in on the device. Please try again." })
+        return
+      }
+
+      setQueue((current) => [...current, queued])
+      replaceParticipant(applyQueuedCheckins([target], [queued], userId)[0])
+      setMessage({
+        type: "success",
+        text: `${target.full_name} is checked in. This will sync when the connection returns.`,
+      })
+    })
+  }
+
+  /**
+   * Switches between scanning and searching
+   *
+   * @param {CheckinMethod} next - The mode to switch to
+   */
+  const switchMode = (next: CheckinMethod) => {
+    setMode(next)
+    setParticipant(null)
+    setResults(null)
+    setMessage(null)
+  }
+
+  return (
+    <div className="space-y-6">
+      <CheckinSyncStatus
+        online={online}
+        syncing={syncing}
+        pendingCount={queue.length}
+        rosterSize={roster ? roster.participants.length : null}
+        rosterCachedAt={roster?.cachedAt ?? null}
+        issues={issues}
+        onSync={() => syncQueue().then(refreshRoster)}
+        onDismissIssues={() => setIssues([])}
+      />
+
+      {/* Mode tabs */}
+      <div className="grid grid-cols-2 gap-2">
+        <Button
+          type="button"
+          onClick={() => switchMode("qr")}
+          className={cn(
+            "font-semibold",
+            mode === "qr" ? "bg-navy hover:bg-navy-light text-white" : "bg-white text-navy border border-navy hover:bg-gray-50"
+          )}
+        >
+          <QrCode className="w-4 h-4 mr-2" />
+          Scan Ticket
+        </Button>
+        <Button
+          type="button"
+          onClick={() => switchMode("search")}
+          className={cn(
+            "font-semibold",
+            mode === "search" ? "bg-navy hover:bg-navy-light text-white" : "bg-white text-navy border border-navy hover:bg-gray-50"
+          )}
+        >
+          <Search className="w-4 h-4 mr-2" />
+          Search
+        </Button>
+      </div>
+
+      {mode === "qr" ? (
+        <QrScanner onScan={handleScan} />
+      ) : (
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Bib number, email or employee ID"
+            className="flex-1"
+            autoFocus
+          />
+          <Button
+            type="submit"
+            disabled={isPending || !query.trim()}
+            className="bg-orange hover:bg-orange-dark text-white font-semibold"
+          >
+            Find
+          </Button>
+        </form>
+      )}
+
+      {isPending && <p className="text-sm text-gray-500">Working...</p>}
+
+      {message && (
+        <div className={cn("flex items-start border rounded-lg p-4 font-semibold", messageStyles[message.type])}>
+          {message.type === "success" ? (
+            <CheckCircle className="w-5 h-5 mr-2 flex-shrink-0" />
+          ) : (
+            <AlertTriangle className="w-5 h-5 mr-2 flex-shrink-0" />
+          )}
+          {message.text}
+        </div>
+      )}
+
+      {/* Search results when more than one participant matches */}
+      {results && results.length > 1 && (
+        <ul className="bg-white rounded-lg shadow-md divide-y divide-gray-100">
+          {results.map((result) => (
+            <li key={result.id}>
+              <button
+                type="button"
+                onClick={() => showParticipant(result)}
+                className={cn(
+                  "w-full text-left px-4 py-3 hover:bg-gray-50 flex justify-between items-center",
+                  participant?.id === result.id && "bg-orange/10"
+                )}
+              >
+                <span>
+                  <span className="font-semibold text-navy">{result.full_name}</span>
+                  <span className="block text-sm text-gray-500">{result.corporate_email}</span>
+                </span>
+                <span className="text-sm text-gray-600">
+                  {result.bib_number !== null ? `#${result.bib_number}` : "No bib"}
+                  {result.checkin && " · checked in"}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {participant && (
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-start justify-between gap-4 mb-4">
+            <div>
+              <h2 className="text-2xl font-bold text-navy">{participant.full_name}</h2>
+              <p className="text-gray-600">
+                {participant.category_name ?? "No category"}
+                {" · "}
+                {participant.company_name}
+              </p>
+            </div>
+            <span className={cn("px-2 py-1 rounded-full text-xs font-semibold capitalize", getStatusBadgeClass(participant.status))}>
+              {participant.status}
+            </span>
+          </div>
+
+          <dl className="grid grid-cols-2 gap-4 mb-6">
+            <div>
+              <dt className="text-sm text-gray-500">Bib</dt>
+              <dd className="text-3xl font-bold text-orange">{participant.bib_number ?? "-"}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">T-Shirt Size</dt>
+              <dd className="text-3xl font-bold text-navy">{participant.tshirt_size}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Emergency Contact</dt>
+              <dd className="font-semibold text-navy">{participant.emergency_contact}</dd>
+              <dd className="text-gray-600">{participant.emergency_phone}</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Employee ID</dt>
+              <dd className="font-semibold text-navy">{participant.employee_id}</dd>
+            </div>
+          </dl>
+
+          {participant.checkin ? (
+            <p className="flex items-center text-green-700 font-semibold">
+              <UserCheck className="w-5 h-5 mr-2" />
+              Checked in at {describeCheckin(participant.checkin, userId)}
+            </p>
+          ) : (
+            <Button
+              type="button"
+              onClick={handleCheckIn}
+              disabled={isPending || !deviceId || participant.status !== "confirmed"}
+              className="w-full bg-orange hover:bg-orange-dark text-white font-semibold py-6 text-lg"
+            >
+              <UserCheck className="w-5 h-5 mr-2" />
+              {isPending ? "Checking in..." : "Check In"}
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,79 @@
+/**
+ * Check-in Counts Component
+ *
+ * Live race-day progress for the admin registrations page: how many
+ * confirmed participants have checked in so far. The counts are rendered
+ * on the server and refreshed whenever a check-in is recorded, via a
+ * Supabase Realtime subscription on the checkins table.
+ *
+ * @module components/checkin-counts
+ */
+
+"use client"
+
+import { useEffect, useState } from "react"
+import { UserCheck } from "lucide-react"
+import { createClient } from "@/lib/supabase/client"
+import { getCheckinCounts, type CheckinCounts as Counts } from "@/lib/checkins"
+
+/**
+ * Check-in counts component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.eventId - The event to show counts for
+ * @param {Counts} props.initialCounts - Counts rendered on the server
+ * @returns {JSX.Element} The rendered counts card
+ *
+ * @example
+ * // Used in app/admin/page.tsx
+ * <CheckinCounts eventId={selectedEvent.id} initialCounts={checkinCounts} />
+ */
+export default function CheckinCounts({
+  eventId,
+  initialCounts,
+}: {
+  eventId: string
+  initialCounts: Counts
+}) {
+  const [counts, setCounts] = useState(initialCounts)
+
+  useEffect(() => {
+    const supabase = createClient()
+    const channel = supabase
+      .channel(`checkins:${eventId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "checkins", filter: `event_id=eq.${eventId}` },
+        () => {
+          getCheckinCounts(supabase, eventId).then(setCounts)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [eventId])
+
+  const percent = counts.confirmed > 0 ? Math.round((counts.checkedIn / counts.confirmed) * 100) : 0
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex items-center gap-4">
+      <div className="bg-green-100 p-3 rounded-lg">
+        <UserCheck className="w-6 h-6 text-green-700" />
+      </div>
+      <div className="flex-1">
+        <div className="flex items-baseline justify-between">
+          <p className="text-sm text-gray-600">Checked in</p>
+          <p className="text-sm text-gray-500">{percent}%</p>
+        </div>
+        <p className="text-2xl font-bold text-navy">
+          {counts.checkedIn} <span className="text-base font-normal text-gray-500">of {counts.confirmed} confirmed</span>
+        </p>
+        <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    </div>
+  )
+}
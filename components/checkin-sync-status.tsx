@@ -0,0 +1,123 @@
+/**
+ * Check-in Sync Status Component
+ *
+ * Status bar for the check-in console: whether the device is online, how
+ * many check-ins are waiting to be synced, how fresh the cached roster is,
+ * and any check-ins that did not go through when they were synced (e.g.
+ * the participant had already been checked in on another device).
+ *
+ * @module components/checkin-sync-status
+ */
+
+"use client"
+
+import { AlertTriangle, CloudUpload, RefreshCw, Wifi, WifiOff, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+/**
+ * A synced check-in that needs the volunteer's attention
+ */
+export interface SyncIssue {
+  registrationId: string
+  text: string
+}
+
+/**
+ * CheckinSyncStatus component props
+ */
+interface CheckinSyncStatusProps {
+  online: boolean
+  syncing: boolean
+  /** Check-ins queued on this device */
+  pendingCount: number
+  /** Participants on the cached roster, or null if none is cached */
+  rosterSize: number | null
+  /** When the roster was downloaded (ISO timestamp) */
+  rosterCachedAt: string | null
+  issues: SyncIssue[]
+  onSync: () => void
+  onDismissIssues: () => void
+}
+
+/**
+ * Check-in sync status component
+ *
+ * @param {CheckinSyncStatusProps} props - Component props
+ * @returns {JSX.Element} The rendered status bar
+ *
+ * @example
+ * // Used in components/checkin-console.tsx
+ * <CheckinSyncStatus online={online} syncing={syncing} pendingCount={queue.length} ... />
+ */
+export default function CheckinSyncStatus({
+  online,
+  syncing,
+  pendingCount,
+  rosterSize,
+  rosterCachedAt,
+  issues,
+  onSync,
+  onDismissIssues,
+}: CheckinSyncStatusProps) {
+  return (
+    <div className="space-y-2">
+      <div className="bg-white rounded-lg shadow-md p-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+        <span className={cn("flex items-center font-semibold", online ? "text-green-700" : "text-red-700")}>
+          {online ? <Wifi className="w-4 h-4 mr-1" /> : <WifiOff className="w-4 h-4 mr-1" />}
+          {online ? "Online" : "Offline"}
+        </span>
+
+        <span
+          className={cn(
+            "flex items-center px-2 py-1 rounded-full font-semibold",
+            pendingCount > 0 ? "bg-yellow-100 text-yellow-800" : "bg-gray-100 text-gray-600"
+          )}
+        >
+          <CloudUpload className="w-4 h-4 mr-1" />
+          {pendingCount === 0
+            ? "All synced"
+            : `${pendingCount} check-in${pendingCount === 1 ? "" : "s"} waiting to sync`}
+        </span>
+
+        <span className="text-gray-500 flex-1">
+          {rosterSize === null || !rosterCachedAt
+            ? "Roster not downloaded yet"
+            : `Roster: ${rosterSize} participants, updated ${new Date(rosterCachedAt).toLocaleTimeString("en-IN", {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}`}
+        </span>
+
+        <Button
+          type="button"
+          onClick={onSync}
+          disabled={syncing}
+          className="bg-navy hover:bg-navy-light text-white font-semibold h-8 px-3 text-xs"
+        >
+          <RefreshCw className={cn("w-3 h-3 mr-1", syncing && "animate-spin")} />
+          {syncing ? "Syncing..." : "Sync now"}
+        </Button>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-300 rounded-lg p-3 text-sm text-yellow-800">
+          <div className="flex items-start justify-between mb-1">
+            <p className="flex items-center font-semibold">
+              <AlertTriangle className="w-4 h-4 mr-1" />
+              Some check-ins from this device were not recorded
+            </p>
+            <button type="button" onClick={onDismissIssues} aria-label="Dismiss" className="hover:text-yellow-900">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="list-disc pl-5 space-y-1">
+            {issues.map((issue) => (
+              <li key={issue.registrationId}>{issue.text}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
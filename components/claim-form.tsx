@@ -0,0 +1,142 @@
+/**
+ * Claim Form Component
+ *
+ * Password form on the claim page. Submitting claims the team registration
+ * with the emailed link, signs the employee in and takes them to their
+ * dashboard.
+ *
+ * @module components/claim-form
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import * as z from "zod"
+import { Lock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { claimRegistration, type ClaimLinkType } from "@/app/claim/actions"
+
+/**
+ * Zod schema for the claim form
+ *
+ * Validates:
+ * - password: Minimum 6 characters (as on the sign-up page)
+ * - confirmPassword: Must match password
+ */
+const claimSchema = z
+  .object({
+    password: z.string().min(6, "Password must be at least 6 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  })
+
+/**
+ * TypeScript type inferred from the Zod schema
+ */
+type ClaimFormData = z.infer<typeof claimSchema>
+
+/**
+ * Claim form component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.tokenHash - The token from the emailed link
+ * @param {ClaimLinkType} props.type - The link type from the emailed link
+ * @returns {JSX.Element} The rendered form
+ *
+ * @example
+ * // Used in app/claim/page.tsx
+ * <ClaimForm tokenHash={searchParams.token} type={type} />
+ */
+export default function ClaimForm({ tokenHash, type }: { tokenHash: string; type: ClaimLinkType }) {
+  // Router for navigation after the registration is claimed
+  const router = useRouter()
+
+  // Pending state while the claim runs
+  const [isPending, startTransition] = useTransition()
+
+  // Error state for displaying claim errors
+  const [error, setError] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ClaimFormData>({
+    resolver: zodResolver(claimSchema),
+  })
+
+  /**
+   * Claims the registration and opens the dashboard
+   *
+   * @param {ClaimFormData} data - Validated form data
+   */
+  const onSubmit = (data: ClaimFormData) => {
+    setError(null)
+    startTransition(async () => {
+      const result = await claimRegistration(tokenHash, type, data.password)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      router.push("/dashboard")
+      router.refresh()
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">{error}</div>
+      )}
+
+      <div>
+        <label htmlFor="password" className="block text-sm font-semibold text-navy mb-2">
+          Password *
+        </label>
+        <div className="relative">
+          <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <Input
+            id="password"
+            type="password"
+            placeholder="••••••••"
+            {...register("password")}
+            className={`pl-10 ${errors.password ? "border-red-500" : ""}`}
+          />
+        </div>
+        {errors.password && <p className="mt-1 text-sm text-red-500">{errors.password.message}</p>}
+      </div>
+
+      <div>
+        <label htmlFor="confirmPassword" className="block text-sm font-semibold text-navy mb-2">
+          Confirm Password *
+        </label>
+        <div className="relative">
+          <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <Input
+            id="confirmPassword"
+            type="password"
+            placeholder="••••••••"
+            {...register("confirmPassword")}
+            className={`pl-10 ${errors.confirmPassword ? "border-red-500" : ""}`}
+          />
+        </div>
+        {errors.confirmPassword && <p className="mt-1 text-sm text-red-500">{errors.confirmPassword.message}</p>}
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isPending}
+        className="w-full bg-orange hover:bg-orange-dark text-white font-semibold py-6 text-lg"
+      >
+        {isPending ? "Claiming..." : "Claim Registration"}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,170 @@
+/**
+ * Column Picker Component
+ *
+ * Drop-down list for choosing which columns of the admin registrations
+ * table are shown and in what order. Shown columns come first, in table
+ * order, with buttons to move them; ticking a hidden column adds it at the
+ * end.
+ *
+ * @module components/column-picker
+ */
+
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { ArrowDown, ArrowUp, Columns3 } from "lucide-react"
+
+/**
+ * ColumnPicker component props
+ */
+interface ColumnPickerProps {
+  /** Every column that can be shown, in the default order */
+  columns: { id: string; label: string }[]
+  /** Ids of the columns shown, in order */
+  visible: string[]
+  /** Called with the new shown columns, in order */
+  onChange: (visible: string[]) => void
+  /** Called to go back to every column in the default order */
+  onReset: () => void
+}
+
+/**
+ * Column picker component
+ *
+ * @param {ColumnPickerProps} props - Component props
+ * @returns {JSX.Element} The rendered column picker
+ *
+ * @example
+ * // Used in components/admin-table.tsx
+ * <ColumnPicker columns={customizableColumns} visible={visibleColumns} onChange={...} onReset={...} />
+ */
+export default function ColumnPicker({ columns, visible, onChange, onReset }: ColumnPickerProps) {
+  // Whether the list is open
+  const [open, setOpen] = useState(false)
+
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close the list when clicking elsewhere
+  useEffect(() => {
+    if (!open) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [open])
+
+  const labels = Object.fromEntries(columns.map((column) => [column.id, column.label]))
+  const hidden = columns.filter((column) => !visible.includes(column.id))
+
+  /**
+   * Shows or hides a column; the last shown column cannot be hidden
+   *
+   * @param {string} id - The column
+   */
+  const toggle = (id: string) => {
+    if (visible.includes(id)) {
+      if (visible.length > 1) onChange(visible.filter((item) => item !== id))
+    } else {
+      onChange([...visible, id])
+    }
+  }
+
+  /**
+   * Moves a shown column one place earlier or later
+   *
+   * @param {number} index - The column's position among the shown columns
+   * @param {number} offset - -1 to move it earlier, 1 to move it later
+   */
+  const move = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= visible.length) return
+    const next = [...visible]
+    next[index] = visible[target]
+    next[target] = visible[index]
+    onChange(next)
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className={`inline-flex items-center gap-2 h-10 rounded-md border px-3 text-sm font-medium ${
+          hidden.length > 0 ? "border-orange bg-orange/5 text-orange" : "border-input bg-white text-navy"
+        }`}
+      >
+        <Columns3 className="w-4 h-4" />
+        Columns
+        {hidden.length > 0 && (
+          <span className="text-xs">
+            ({visible.length}/{columns.length})
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-72 bg-white rounded-md shadow-lg border border-gray-200 p-2">
+          <ul className="max-h-80 overflow-y-auto">
+            {visible.map((id, index) => (
+              <li key={id} className="flex items-center gap-2 px-2 py-1 rounded text-sm hover:bg-gray-50">
+                <label className="flex flex-1 items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked
+                    disabled={visible.length === 1}
+                    onChange={() => toggle(id)}
+                    className="h-4 w-4 accent-orange"
+                  />
+                  <span className="truncate">{labels[id]}</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${labels[id]} left`}
+                  className="p-1 text-gray-500 hover:text-navy disabled:opacity-30"
+                >
+                  <ArrowUp className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(index, 1)}
+                  disabled={index === visible.length - 1}
+                  aria-label={`Move ${labels[id]} right`}
+                  className="p-1 text-gray-500 hover:text-navy disabled:opacity-30"
+                >
+                  <ArrowDown className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+            {hidden.map((column) => (
+              <li key={column.id}>
+                <label className="flex items-center gap-2 px-2 py-1.5 rounded text-sm text-gray-500 cursor-pointer hover:bg-gray-50">
+                  <input
+                    type="checkbox"
+                    checked={false}
+                    onChange={() => toggle(column.id)}
+                    className="h-4 w-4 accent-orange"
+                  />
+                  <span className="truncate">{column.label}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={onReset}
+            className="w-full mt-2 pt-2 border-t border-gray-100 text-sm font-semibold text-gray-600 hover:text-navy"
+          >
+            Show all in default order
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
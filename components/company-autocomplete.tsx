@@ -0,0 +1,199 @@
+/**
+ * Company Autocomplete Component
+ *
+ * Company name input that suggests companies from the directory as the
+ * participant types, matching canonical names and aliases (typing "TCS"
+ * suggests "Tata Consultancy Services"). When the participant's corporate
+ * email is known, companies with that email domain are suggested first,
+ * even before anything is typed.
+ *
+ * Picking a suggestion fills in the canonical name. Participants can still
+ * type a company that is not listed; the database links it to a new
+ * directory entry for admins to review.
+ *
+ * @module components/company-autocomplete
+ */
+
+"use client"
+
+import { useEffect, useState } from "react"
+import type { UseFormRegisterReturn } from "react-hook-form"
+import { Building } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import CompanyLogo from "@/components/company-logo"
+import { createClient } from "@/lib/supabase/client"
+import { searchCompanies, type CompanySuggestion } from "@/lib/companies"
+import { cn } from "@/lib/utils"
+
+/**
+ * Delay after the last keystroke before searching, in milliseconds
+ */
+const SEARCH_DELAY_MS = 250
+
+/**
+ * Company autocomplete component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.id - ID of the input (for its label)
+ * @param {UseFormRegisterReturn} props.registration - The field's React Hook Form registration
+ * @param {(name: string) => void} props.onSelectCompany - Called with the canonical name of a picked suggestion
+ * @param {string} [props.email] - The participant's email, to suggest companies with its domain first
+ * @param {boolean} [props.invalid] - Whether the field has a validation error
+ * @returns {JSX.Element} The rendered input and suggestions
+ *
+ * @example
+ * // Used in components/registration-form.tsx
+ * <CompanyAutocomplete
+ *   id="companyName"
+ *   registration={register("companyName")}
+ *   onSelectCompany={(name) => setValue("companyName", name, { shouldValidate: true })}
+ *   email={watch("corporateEmail")}
+ *   invalid={!!errors.companyName}
+ * />
+ */
+export default function CompanyAutocomplete({
+  id,
+  registration,
+  onSelectCompany,
+  email,
+  invalid,
+}: {
+  id: string
+  registration: UseFormRegisterReturn
+  onSelectCompany: (name: string) => void
+  email?: string
+  invalid?: boolean
+}) {
+  // Text typed so far
+  const [query, setQuery] = useState("")
+
+  // Suggestions for the current query and email
+  const [suggestions, setSuggestions] = useState<CompanySuggestion[]>([])
+
+  // Whether the suggestion list is shown
+  const [open, setOpen] = useState(false)
+
+  // Suggestion highlighted with the arrow keys
+  const [highlighted, setHighlighted] = useState(-1)
+
+  // Search after the participant stops typing
+  useEffect(() => {
+    if (!query.trim() && !email?.includes("@")) {
+      setSuggestions([])
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const results = await searchCompanies(createClient(), query, email)
+      if (!cancelled) {
+        setSuggestions(results)
+        setHighlighted(-1)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, email])
+
+  /**
+   * Fills in a suggestion's canonical name and closes the list
+   *
+   * @param {CompanySuggestion} suggestion - The picked suggestion
+   */
+  const pick = (suggestion: CompanySuggestion) => {
+    onSelectCompany(suggestion.name)
+    setQuery(suggestion.name)
+    setOpen(false)
+  }
+
+  /**
+   * Moves through the suggestions with the arrow keys, picks with Enter
+   * and closes the list with Escape
+   *
+   * @param {React.KeyboardEvent<HTMLInputElement>} e - Key event
+   */
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault()
+      setHighlighted((index) => (index + 1) % suggestions.length)
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault()
+      setHighlighted((index) => (index <= 0 ? suggestions.length - 1 : index - 1))
+    } else if (e.key === "Enter" && highlighted >= 0) {
+      e.preventDefault()
+      pick(suggestions[highlighted])
+    } else if (e.key === "Escape") {
+      setOpen(false)
+    }
+  }
+
+  const listId = `${id}-suggestions`
+
+  return (
+    <div className="relative">
+      <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+      <Input
+        id={id}
+        type="text"
+        placeholder="Start typing your company name"
+        autoComplete="off"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={open && suggestions.length > 0}
+        aria-controls={listId}
+        {...registration}
+        onChange={(e) => {
+          registration.onChange(e)
+          setQuery(e.target.value)
+          setOpen(true)
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={(e) => {
+          registration.onBlur(e)
+          setOpen(false)
+        }}
+        onKeyDown={handleKeyDown}
+        className={`pl-10 ${invalid ? "border-red-500" : ""}`}
+      />
+
+      {open && suggestions.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-72 overflow-auto rounded-md border border-gray-200 bg-white shadow-lg"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              role="option"
+              aria-selected={index === highlighted}
+              // Keep focus in the input so the blur does not close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(suggestion)}
+              className={cn(
+                "flex items-center gap-3 px-3 py-2 cursor-pointer text-sm",
+                index === highlighted ? "bg-orange/10" : "hover:bg-gray-50"
+              )}
+            >
+              <CompanyLogo name={suggestion.name} logoUrl={suggestion.logo_url} />
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold text-navy truncate">{suggestion.name}</p>
+                {suggestion.matched_alias && (
+                  <p className="text-xs text-gray-500 truncate">Also known as {suggestion.matched_alias}</p>
+                )}
+              </div>
+              {suggestion.domain_match && (
+                <span className="text-xs font-semibold text-green-600 whitespace-nowrap">Matches your email</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+/**
+ * Company Coordinators Component
+ *
+ * Admin panel listing a company's coordinators, with a form to add one by
+ * their login email and a Remove button for each. Coordinators open the
+ * company portal at /company.
+ *
+ * @module components/company-coordinators
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { UserPlus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { addCompanyCoordinator, removeCompanyCoordinator } from "@/app/admin/companies/actions"
+
+/**
+ * A coordinator as returned by company_coordinator_accounts()
+ */
+export interface CoordinatorAccount {
+  user_id: string
+  email: string
+  full_name: string | null
+}
+
+/**
+ * Company coordinators component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.companyId - The company
+ * @param {CoordinatorAccount[]} props.coordinators - The company's current coordinators
+ * @returns {JSX.Element} The rendered panel
+ *
+ * @example
+ * // Used in app/admin/companies/[companyId]/roster/page.tsx
+ * <CompanyCoordinators companyId={company.id} coordinators={coordinators} />
+ */
+export default function CompanyCoordinators({
+  companyId,
+  coordinators,
+}: {
+  companyId: string
+  coordinators: CoordinatorAccount[]
+}) {
+  // Email typed into the add form
+  const [email, setEmail] = useState("")
+
+  // Pending state while a server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying add and remove errors
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Adds the coordinator with the typed email
+   *
+   * @param {React.FormEvent} e - Form submit event
+   */
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    startTransition(async () => {
+      const result = await addCompanyCoordinator(companyId, email)
+      if (result.error) {
+        setError(result.error)
+      } else {
+        setEmail("")
+      }
+    })
+  }
+
+  /**
+   * Confirms intent and removes a coordinator
+   *
+   * @param {CoordinatorAccount} coordinator - The coordinator to remove
+   */
+  const handleRemove = (coordinator: CoordinatorAccount) => {
+    if (!window.confirm(`Remove ${coordinator.email} as a coordinator?`)) {
+      return
+    }
+
+    setError(null)
+    startTransition(async () => {
+      const result = await removeCompanyCoordinator(companyId, coordinator.user_id)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-bold text-navy mb-2">Coordinators</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Coordinators (e.g. HR) see this company&apos;s registrations at <strong>/company</strong>, upload its roster
+        and review mismatches. They need an account first.
+      </p>
+
+      {coordinators.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">No coordinators yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 mb-4">
+          {coordinators.map((coordinator) => (
+            <li key={coordinator.user_id} className="flex items-center justify-between py-2 text-sm">
+              <span>
+                {coordinator.full_name && (
+                  <span className="font-semibold text-navy mr-2">{coordinator.full_name}</span>
+                )}
+                <span className="text-gray-600">{coordinator.email}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => handleRemove(coordinator)}
+                disabled={isPending}
+                className="text-sm font-semibold text-red-600 hover:text-red-800 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-3">
+        <Input
+          type="email"
+          aria-label="Coordinator email"
+          placeholder="hr@company.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="sm:max-w-xs"
+        />
+        <Button
+          type="submit"
+          disabled={isPending || !email.trim()}
+          className="bg-navy hover:bg-navy-light text-white font-semibold"
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          {isPending ? "Saving..." : "Add Coordinator"}
+        </Button>
+      </form>
+      {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+/**
+ * Company Export Button Component
+ *
+ * Downloads a company's registrations for an event as CSV from the company
+ * portal. Built in the browser from the rows already on the page, which RLS
+ * has limited to the coordinator's company.
+ *
+ * @module components/company-export-button
+ */
+
+"use client"
+
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import type { CompanyRegistration } from "@/lib/company-portal"
+
+/**
+ * Quotes a value for CSV
+ *
+ * @param {string | number | null} value - The value
+ * @returns {string} The quoted value
+ */
+function csvValue(value: string | number | null): string {
+  return `"${String(value ?? "").replace(/"/g, '""')}"`
+}
+
+/**
+ * Company export button component
+ *
+ * @param {Object} props - Component props
+ * @param {CompanyRegistration[]} props.registrations - The registrations to export
+ * @param {Record<string, string>} props.categoryNames - Race category names by ID
+ * @param {string} props.fileName - Download name without extension, e.g. "acme_fall-2024"
+ * @returns {JSX.Element} The rendered button
+ *
+ * @example
+ * // Used in app/company/page.tsx
+ * <CompanyExportButton registrations={registrations} categoryNames={categoryNames} fileName={fileName} />
+ */
+export default function CompanyExportButton({
+  registrations,
+  categoryNames,
+  fileName,
+}: {
+  registrations: CompanyRegistration[]
+  categoryNames: Record<string, string>
+  fileName: string
+}) {
+  /**
+   * Builds the CSV and triggers the download
+   */
+  const handleExport = () => {
+    const headers = [
+      "Full Name",
+      "Corporate Email",
+      "Employee ID",
+      "Roster Check",
+      "Race Category",
+      "T-shirt Size",
+      "Status",
+      "Bib Number",
+      "Registration Date",
+    ]
+
+    const csvRows = [
+      headers.join(","),
+      ...registrations.map((reg) =>
+        [
+          csvValue(reg.full_name),
+          csvValue(reg.corporate_email),
+          csvValue(reg.employee_id),
+          reg.roster_status ?? "",
+          csvValue(reg.category_id ? categoryNames[reg.category_id] ?? "" : ""),
+          reg.tshirt_size,
+          reg.status,
+          reg.bib_number ?? "",
+          new Date(reg.registration_date).toLocaleDateString(),
+        ].join(",")
+      ),
+    ]
+
+    const blob = new Blob([csvRows.join("\n")], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.setAttribute("href", url)
+    link.setAttribute("download", `${fileName}_${new Date().toISOString().split("T")[0]}.csv`)
+    link.style.visibility = "hidden"
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Button
+      type="button"
+      onClick={handleExport}
+      disabled={registrations.length === 0}
+      className="bg-orange hover:bg-orange-dark text-white font-semibold"
+    >
+      <Download className="w-4 h-4 mr-2" />
+      Export CSV
+    </Button>
+  )
+}
@@ -0,0 +1,179 @@
+/**
+ * Company Form Component
+ *
+ * Admin form for adding a company to the directory or editing one. Aliases
+ * are other names the company is known by; registrations typing an alias
+ * are linked to the company. Email domains suggest the company to
+ * participants registering with a matching corporate email, and can be
+ * required (e.g. for companies subsidising their employees' entries).
+ *
+ * @module components/company-form
+ */
+
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Plus, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { saveCompany } from "@/app/admin/companies/actions"
+import { companySchema, type Company, type CompanyFormData } from "@/lib/companies"
+
+/**
+ * Converts an empty number input to undefined so optional fields validate
+ */
+const optionalNumber = (value: string) => (value === "" ? undefined : value)
+
+/**
+ * Company form component
+ *
+ * @param {Object} props - Component props
+ * @param {Company} [props.company] - The company to edit; omit to add a new one
+ * @returns {JSX.Element} The rendered form
+ *
+ * @example
+ * // Used in app/admin/companies/page.tsx
+ * <CompanyForm key={editing?.id ?? "new"} company={editing} />
+ */
+export default function CompanyForm({ company }: { company?: Company }) {
+  const router = useRouter()
+
+  // Loading state during submission
+  const [loading, setLoading] = useState(false)
+
+  // Error message state for displaying submission errors
+  const [error, setError] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<CompanyFormData>({
+    resolver: zodResolver(companySchema),
+    defaultValues: {
+      name: company?.name ?? "",
+      aliases: company?.aliases.join(", ") ?? "",
+      emailDomains: company?.email_domains.join(", ") ?? "",
+      requireEmailDomain: company?.require_email_domain ?? false,
+      logoUrl: company?.logo_url ?? "",
+      headcount: company?.headcount ?? undefined,
+    },
+  })
+
+  /**
+   * Saves the company, then clears the form (or leaves edit mode)
+   *
+   * @param {CompanyFormData} data - Validated form data
+   */
+  const onSubmit = async (data: CompanyFormData) => {
+    setError(null)
+    setLoading(true)
+
+    try {
+      const result = await saveCompany(company?.id ?? null, data)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      if (company) {
+        router.push("/admin/companies")
+      } else {
+        reset()
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      className="bg-white rounded-lg shadow-lg border border-gray-200 p-6"
+    >
+      <h2 className="text-2xl font-bold text-navy mb-6">{company ? `Edit ${company.name}` : "Add Company"}</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="name" className="block text-sm font-semibold text-navy mb-2">
+            Name *
+          </label>
+          <Input id="name" placeholder="Tata Consultancy Services" {...register("name")} />
+          {errors.name && <p className="mt-1 text-sm text-red-500">{errors.name.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="aliases" className="block text-sm font-semibold text-navy mb-2">
+            Aliases
+          </label>
+          <Input id="aliases" placeholder="TCS, Tata Consultancy" {...register("aliases")} />
+          <p className="mt-1 text-xs text-gray-500">
+            Separate with commas. Case, punctuation and suffixes like &quot;Ltd&quot; are ignored.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="emailDomains" className="block text-sm font-semibold text-navy mb-2">
+            Email Domains
+          </label>
+          <Input id="emailDomains" placeholder="tcs.com" {...register("emailDomains")} />
+          {errors.emailDomains && <p className="mt-1 text-sm text-red-500">{errors.emailDomains.message}</p>}
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" {...register("requireEmailDomain")} className="h-4 w-4 accent-orange" />
+            Participants must register with an email at these domains
+          </label>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="logoUrl" className="block text-sm font-semibold text-navy mb-2">
+              Logo URL
+            </label>
+            <Input id="logoUrl" type="url" placeholder="https://..." {...register("logoUrl")} />
+            {errors.logoUrl && <p className="mt-1 text-sm text-red-500">{errors.logoUrl.message}</p>}
+          </div>
+
+          <div>
+            <label htmlFor="headcount" className="block text-sm font-semibold text-navy mb-2">
+              Headcount
+            </label>
+            <Input
+              id="headcount"
+              type="number"
+              min="1"
+              placeholder="Not set"
+              {...register("headcount", { setValueAs: optionalNumber })}
+            />
+            {errors.headcount && <p className="mt-1 text-sm text-red-500">{errors.headcount.message}</p>}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-end items-center gap-4 mt-6">
+        {company && (
+          <Link href="/admin/companies" className="text-sm font-semibold text-gray-600 hover:text-navy">
+            Cancel
+          </Link>
+        )}
+        <Button
+          type="submit"
+          disabled={loading}
+          className="bg-orange hover:bg-orange-dark text-white font-semibold px-6"
+        >
+          {company ? <Save className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+          {loading ? "Saving..." : company ? "Save Changes" : "Add Company"}
+        </Button>
+      </div>
+    </form>
+  )
+}
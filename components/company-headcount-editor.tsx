@@ -0,0 +1,107 @@
+/**
+ * Company Headcount Editor Component
+ *
+ * Inline editor for a company's employee headcount on the admin
+ * leaderboard page. The headcount is used for the participation rate;
+ * clearing it removes the company's rate. Enter saves, Escape cancels.
+ *
+ * @module components/company-headcount-editor
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { Pencil } from "lucide-react"
+import { setCompanyHeadcount } from "@/app/admin/leaderboard/actions"
+
+/**
+ * Company headcount editor component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.companyId - The company to edit
+ * @param {number | null} props.headcount - The current headcount
+ * @returns {JSX.Element} The headcount, or an input while editing
+ *
+ * @example
+ * // Used in app/admin/leaderboard/page.tsx
+ * <CompanyHeadcountEditor companyId={standing.company_id} headcount={standing.headcount} />
+ */
+export default function CompanyHeadcountEditor({
+  companyId,
+  headcount,
+}: {
+  companyId: string
+  headcount: number | null
+}) {
+  // Whether the input is shown
+  const [editing, setEditing] = useState(false)
+
+  // Input value while editing
+  const [value, setValue] = useState(headcount?.toString() ?? "")
+
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying update errors
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Saves the new headcount (an empty value clears it)
+   */
+  const handleSave = () => {
+    const trimmed = value.trim()
+    const next = trimmed === "" ? null : Number(trimmed)
+
+    if (next === headcount) {
+      setEditing(false)
+      return
+    }
+
+    setError(null)
+    startTransition(async () => {
+      const result = await setCompanyHeadcount(companyId, next)
+      if (result.error) {
+        setError(result.error)
+      } else {
+        setEditing(false)
+      }
+    })
+  }
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setValue(headcount?.toString() ?? "")
+          setEditing(true)
+        }}
+        className="group inline-flex items-center font-semibold text-navy"
+        title="Edit headcount"
+      >
+        {headcount ?? "—"}
+        <Pencil className="w-3 h-3 ml-1 text-gray-300 group-hover:text-orange" />
+      </button>
+    )
+  }
+
+  return (
+    <div>
+      <input
+        type="number"
+        min="1"
+        autoFocus
+        value={value}
+        disabled={isPending}
+        placeholder="Not set"
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") handleSave()
+          if (e.key === "Escape") setEditing(false)
+        }}
+        className="w-28 h-8 rounded-md border border-input px-2 text-sm"
+      />
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
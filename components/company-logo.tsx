@@ -0,0 +1,54 @@
+/**
+ * Company Logo Component
+ *
+ * Shows a company's logo from the company directory, or its initial in a
+ * navy badge when no logo is set.
+ *
+ * @module components/company-logo
+ */
+
+/**
+ * Company logo component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.name - The company's name (alt text and fallback initial)
+ * @param {string | null} props.logoUrl - The logo URL, if any
+ * @param {number} [props.size=24] - Width and height in pixels
+ * @returns {JSX.Element} The rendered logo
+ *
+ * @example
+ * // Used in app/leaderboard/page.tsx
+ * <CompanyLogo name={standing.company_name} logoUrl={standing.logo_url} />
+ */
+export default function CompanyLogo({
+  name,
+  logoUrl,
+  size = 24,
+}: {
+  name: string
+  logoUrl: string | null
+  size?: number
+}) {
+  if (!logoUrl) {
+    return (
+      <span
+        aria-hidden="true"
+        style={{ width: size, height: size, fontSize: size / 2 }}
+        className="inline-flex flex-shrink-0 items-center justify-center rounded bg-navy/10 font-bold text-navy"
+      >
+        {name.charAt(0).toUpperCase()}
+      </span>
+    )
+  }
+
+  return (
+    // eslint-disable-next-line @next/next/no-img-element -- logos are hosted on arbitrary company domains
+    <img
+      src={logoUrl}
+      alt={`${name} logo`}
+      width={size}
+      height={size}
+      className="flex-shrink-0 rounded object-contain"
+    />
+  )
+}
@@ -0,0 +1,118 @@
+/**
+ * Company Merge Form Component
+ *
+ * Admin form for merging a duplicate company (e.g. "TCS") into the company
+ * it belongs to (e.g. "Tata Consultancy Services"). The duplicate's
+ * registrations move to the kept company, and its name becomes an alias so
+ * future registrations match too.
+ *
+ * @module components/company-merge-form
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { Merge } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { mergeCompanies } from "@/app/admin/companies/actions"
+
+/**
+ * Company merge form component
+ *
+ * @param {Object} props - Component props
+ * @param {{ id: string; name: string }[]} props.companies - Companies in the directory, sorted by name
+ * @returns {JSX.Element} The rendered form
+ *
+ * @example
+ * // Used in app/admin/companies/page.tsx
+ * <CompanyMergeForm companies={companies} />
+ */
+export default function CompanyMergeForm({ companies }: { companies: { id: string; name: string }[] }) {
+  // Selected duplicate and kept company IDs
+  const [sourceId, setSourceId] = useState("")
+  const [targetId, setTargetId] = useState("")
+
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Result or error message
+  const [message, setMessage] = useState<string | null>(null)
+
+  /**
+   * Confirms intent and merges the duplicate into the kept company
+   *
+   * @param {React.FormEvent} e - Form submit event
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const source = companies.find((company) => company.id === sourceId)
+    const target = companies.find((company) => company.id === targetId)
+    if (!source || !target) return
+
+    if (!window.confirm(`Merge "${source.name}" into "${target.name}"? This cannot be undone.`)) {
+      return
+    }
+
+    setMessage(null)
+    startTransition(async () => {
+      const result = await mergeCompanies(sourceId, targetId)
+      if (result.error) {
+        setMessage(result.error)
+      } else {
+        setMessage(`Merged into ${target.name} (${result.moved} registrations moved)`)
+        setSourceId("")
+        setTargetId("")
+      }
+    })
+  }
+
+  const selectClass =
+    "w-full h-10 rounded-md border border-input bg-white px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid sm:grid-cols-2 gap-3">
+        <select
+          aria-label="Duplicate"
+          value={sourceId}
+          onChange={(e) => setSourceId(e.target.value)}
+          className={selectClass}
+        >
+          <option value="">Duplicate (e.g. TCS)</option>
+          {companies.map((company) => (
+            <option key={company.id} value={company.id}>
+              {company.name}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Company to keep"
+          value={targetId}
+          onChange={(e) => setTargetId(e.target.value)}
+          className={selectClass}
+        >
+          <option value="">Merge into…</option>
+          {companies
+            .filter((company) => company.id !== sourceId)
+            .map((company) => (
+              <option key={company.id} value={company.id}>
+                {company.name}
+              </option>
+            ))}
+        </select>
+      </div>
+      <div className="flex items-center gap-4">
+        <Button
+          type="submit"
+          disabled={isPending || !sourceId || !targetId}
+          className="bg-navy hover:bg-navy-light text-white font-semibold"
+        >
+          <Merge className="w-4 h-4 mr-2" />
+          {isPending ? "Merging..." : "Merge"}
+        </Button>
+        {message && <p className="text-sm text-gray-600">{message}</p>}
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,171 @@
+/**
+ * Corporate Email Verification Component
+ *
+ * Verifies a participant's corporate email with a one-time code: "Send
+ * code" emails a 6-digit code (and a link that verifies the email too),
+ * and the participant types the code here. Shown under the corporate email
+ * on the registration form, and on the dashboard for registrations whose
+ * email is not verified yet.
+ *
+ * @module components/corporate-email-verification
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { CheckCircle, Send } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { sendCorporateEmailCode, verifyCorporateEmailCode } from "@/app/dashboard/actions"
+
+/**
+ * Corporate email verification component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.email - The corporate email to verify
+ * @param {boolean} props.verified - Whether the email is already verified
+ * @param {() => void} [props.onVerified] - Called once the email is verified (the
+ *   dashboard refreshes on its own, since the action revalidates it)
+ * @returns {JSX.Element} The rendered verification controls
+ *
+ * @example
+ * // Used in components/registration-form.tsx
+ * <CorporateEmailVerification
+ *   email={corporateEmail}
+ *   verified={corporateEmail.trim() === verifiedEmail}
+ *   onVerified={() => setVerifiedEmail(corporateEmail.trim())}
+ * />
+ *
+ * @example
+ * // Used in app/dashboard/page.tsx
+ * <CorporateEmailVerification
+ *   email={registration.corporate_email}
+ *   verified={!!registration.corporate_email_verified_at}
+ * />
+ */
+export default function CorporateEmailVerification({
+  email,
+  verified,
+  onVerified,
+}: {
+  email: string
+  verified: boolean
+  onVerified?: () => void
+}) {
+  // Email the last code was sent to (the field may change afterwards)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+
+  // Code typed by the participant
+  const [code, setCode] = useState("")
+
+  // Pending state while a server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying send and verify errors
+  const [error, setError] = useState<string | null>(null)
+
+  if (verified) {
+    return (
+      <p className="mt-2 inline-flex items-center text-sm font-semibold text-green-600">
+        <CheckCircle className="w-4 h-4 mr-1" />
+        Corporate email verified
+      </p>
+    )
+  }
+
+  const codeSent = sentTo !== null && sentTo === email.trim()
+
+  /**
+   * Emails a code to the corporate email
+   */
+  const handleSend = () => {
+    setError(null)
+    startTransition(async () => {
+      const result = await sendCorporateEmailCode(email.trim())
+      if (result.error) {
+        setError(result.error)
+      } else {
+        setSentTo(email.trim())
+        setCode("")
+      }
+    })
+  }
+
+  /**
+   * Checks the typed code
+   */
+  const handleVerify = () => {
+    setError(null)
+    startTransition(async () => {
+      const result = await verifyCorporateEmailCode(email.trim(), code)
+      if (result.error) {
+        setError(result.error)
+      } else {
+        onVerified?.()
+      }
+    })
+  }
+
+  return (
+    <div className="mt-3 rounded-md border border-orange/30 bg-orange/5 p-4">
+      {codeSent ? (
+        <>
+          <p className="text-sm text-gray-700 mb-3">
+            We sent a 6-digit code to <span className="font-semibold text-navy">{sentTo}</span>. Enter it below,
+            or open the link in the email.
+          </p>
+          <div className="flex gap-2">
+            <Input
+              aria-label="Verification code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault()
+                  handleVerify()
+                }
+              }}
+              className="w-32 font-mono tracking-widest"
+            />
+            <Button
+              type="button"
+              onClick={handleVerify}
+              disabled={isPending || code.length !== 6}
+              className="bg-navy hover:bg-navy-light text-white font-semibold"
+            >
+              {isPending ? "Checking..." : "Verify"}
+            </Button>
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={isPending}
+              className="text-sm font-semibold text-gray-600 hover:text-navy disabled:opacity-50"
+            >
+              Resend
+            </button>
+          </div>
+        </>
+      ) : (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-sm text-gray-700">
+            Verify your corporate email so your company can recognise your entry.
+          </p>
+          <Button
+            type="button"
+            onClick={handleSend}
+            disabled={isPending || !email.includes("@")}
+            className="bg-navy hover:bg-navy-light text-white font-semibold whitespace-nowrap"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {isPending ? "Sending..." : "Send Code"}
+          </Button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+/**
+ * Delete Bib Range Button Component
+ *
+ * Removes a bib range after confirmation. Bibs already assigned from the
+ * range are kept.
+ *
+ * @module components/delete-bib-range-button
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { Trash2 } from "lucide-react"
+import { deleteBibRange } from "@/app/admin/bibs/actions"
+
+/**
+ * Delete bib range button component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.rangeId - The range to delete
+ * @returns {JSX.Element} The rendered button
+ */
+export default function DeleteBibRangeButton({ rangeId }: { rangeId: string }) {
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying deletion errors
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Confirms intent and deletes the range
+   */
+  const handleDelete = () => {
+    if (!window.confirm("Delete this bib range? Bibs already assigned from it are kept.")) {
+      return
+    }
+
+    setError(null)
+    startTransition(async () => {
+      const result = await deleteBibRange(rangeId)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleDelete}
+        disabled={isPending}
+        aria-label="Delete bib range"
+        className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,172 @@
+/**
+ * E-Ticket Component
+ *
+ * Shows a confirmed participant's ticket on the dashboard: a signed QR code
+ * for race-day check-in alongside their name, bib, race category and start
+ * time. The ticket can be downloaded as a PNG image to keep on a phone or
+ * print.
+ *
+ * The QR code image is generated on the server; this component only draws
+ * the downloadable version.
+ *
+ * @module components/e-ticket
+ */
+
+"use client"
+
+import { Download, Ticket } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+/**
+ * Details printed on the ticket
+ */
+export interface ETicketDetails {
+  eventTitle: string
+  eventDate: string
+  venue: string
+  fullName: string
+  bibNumber: number | null
+  categoryName: string | null
+  startTime: string | null
+}
+
+/**
+ * Ticket image size in pixels
+ */
+const TICKET_WIDTH = 800
+const TICKET_HEIGHT = 1100
+
+/**
+ * E-ticket component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.qrDataUrl - PNG data URL of the signed QR code
+ * @param {ETicketDetails} props.details - Details printed on the ticket
+ * @param {string} props.fileName - Name of the downloaded file (without extension)
+ * @returns {JSX.Element} The rendered ticket
+ *
+ * @example
+ * // Used in app/dashboard/page.tsx
+ * <ETicket qrDataUrl={qrDataUrl} details={ticketDetails} fileName="ticket_fall-2024_42" />
+ */
+export default function ETicket({
+  qrDataUrl,
+  details,
+  fileName,
+}: {
+  qrDataUrl: string
+  details: ETicketDetails
+  fileName: string
+}) {
+  /**
+   * Draws the ticket on a canvas and downloads it as a PNG
+   */
+  const handleDownload = () => {
+    const canvas = document.createElement("canvas")
+    canvas.width = TICKET_WIDTH
+    canvas.height = TICKET_HEIGHT
+    const context = canvas.getContext("2d")
+    if (!context) return
+
+    const qrImage = new Image()
+    qrImage.onload = () => {
+      // Background and header band
+      context.fillStyle = "#ffffff"
+      context.fillRect(0, 0, TICKET_WIDTH, TICKET_HEIGHT)
+      context.fillStyle = "#1e3a5f"
+      context.fillRect(0, 0, TICKET_WIDTH, 160)
+
+      context.textAlign = "center"
+      context.fillStyle = "#ffffff"
+      context.font = "bold 40px sans-serif"
+      context.fillText(details.eventTitle, TICKET_WIDTH / 2, 80)
+      context.font = "24px sans-serif"
+      context.fillText(`${details.eventDate} · ${details.venue}`, TICKET_WIDTH / 2, 125)
+
+      // Participant
+      context.fillStyle = "#1e3a5f"
+      context.font = "bold 44px sans-serif"
+      context.fillText(details.fullName, TICKET_WIDTH / 2, 240)
+
+      if (details.bibNumber) {
+        context.fillStyle = "#f97316"
+        context.font = "bold 96px monospace"
+        context.fillText(String(details.bibNumber), TICKET_WIDTH / 2, 360)
+      }
+
+      context.fillStyle = "#374151"
+      context.font = "28px sans-serif"
+      const race = [details.categoryName, details.startTime && `Starts ${details.startTime}`]
+        .filter(Boolean)
+        .join(" · ")
+      context.fillText(race, TICKET_WIDTH / 2, 420)
+
+      // QR code
+      context.drawImage(qrImage, (TICKET_WIDTH - 480) / 2, 470, 480, 480)
+
+      context.fillStyle = "#6b7280"
+      context.font = "22px sans-serif"
+      context.fillText("Show this code at check-in", TICKET_WIDTH / 2, 1010)
+
+      const link = document.createElement("a")
+      link.href = canvas.toDataURL("image/png")
+      link.download = `${fileName}.png`
+      link.click()
+    }
+    qrImage.src = qrDataUrl
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8 mb-8 border-l-4 border-navy">
+      <div className="flex items-center space-x-3 mb-6">
+        <div className="bg-navy/10 p-3 rounded-lg">
+          <Ticket className="w-6 h-6 text-navy" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-navy">Your E-Ticket</h2>
+          <p className="text-gray-600">Show this QR code at check-in on race day</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row md:items-center gap-8">
+        {/* eslint-disable-next-line @next/next/no-img-element -- data URL generated on the server */}
+        <img
+          src={qrDataUrl}
+          alt="Ticket QR code"
+          width={220}
+          height={220}
+          className="mx-auto md:mx-0 border border-gray-200 rounded-lg"
+        />
+        <div className="flex-1 space-y-3">
+          <div>
+            <p className="text-sm text-gray-600">Participant</p>
+            <p className="font-semibold text-navy text-lg">{details.fullName}</p>
+          </div>
+          {details.bibNumber && (
+            <div>
+              <p className="text-sm text-gray-600">Bib Number</p>
+              <p className="font-bold text-orange font-mono text-3xl">{details.bibNumber}</p>
+            </div>
+          )}
+          {details.categoryName && (
+            <div>
+              <p className="text-sm text-gray-600">Race</p>
+              <p className="font-semibold text-navy">
+                {details.categoryName}
+                {details.startTime && ` · Starts ${details.startTime}`}
+              </p>
+            </div>
+          )}
+          <Button
+            type="button"
+            onClick={handleDownload}
+            className="bg-orange hover:bg-orange-dark text-white font-semibold"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download Ticket
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
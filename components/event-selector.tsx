@@ -0,0 +1,74 @@
+/**
+ * Event Selector Component
+ *
+ * Dropdown for switching the event (edition) a page is scoped to. The
+ * selection is stored in the `?event=<slug>` search parameter so the
+ * server component re-renders with data for the chosen event and the
+ * view can be bookmarked or shared.
+ *
+ * @module components/event-selector
+ */
+
+"use client"
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { CalendarDays } from "lucide-react"
+import { eventTitle, type RaceEvent } from "@/lib/events"
+
+/**
+ * EventSelector component props
+ */
+interface EventSelectorProps {
+  /** Events to choose from */
+  events: RaceEvent[]
+  /** Slug of the currently selected event */
+  selectedSlug: string
+}
+
+/**
+ * Event selector component
+ *
+ * Renders a select box listing all events. Changing the selection updates
+ * the `event` search parameter while keeping any other parameters.
+ *
+ * @param {EventSelectorProps} props - Component props
+ * @returns {JSX.Element} The rendered event selector
+ *
+ * @example
+ * // Used in app/admin/page.tsx
+ * <EventSelector events={events} selectedSlug={selectedEvent.slug} />
+ */
+export default function EventSelector({ events, selectedSlug }: EventSelectorProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  /**
+   * Navigates to the same page scoped to the newly selected event
+   *
+   * @param {string} slug - Slug of the selected event
+   */
+  const handleChange = (slug: string) => {
+    const params = new URLSearchParams(searchParams.toString())
+    params.set("event", slug)
+    router.push(`${pathname}?${params.toString()}`)
+  }
+
+  return (
+    <div className="relative">
+      <CalendarDays className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5 pointer-events-none" />
+      <select
+        aria-label="Select event"
+        value={selectedSlug}
+        onChange={(e) => handleChange(e.target.value)}
+        className="w-full h-10 rounded-md border border-input bg-white pl-10 pr-3 py-2 text-sm font-medium text-navy focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        {events.map((event) => (
+          <option key={event.id} value={event.slug}>
+            {eventTitle(event)}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+}
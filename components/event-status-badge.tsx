@@ -0,0 +1,64 @@
+/**
+ * Event Status Badge Component
+ *
+ * Small pill showing whether an event is open for registration, sold out,
+ * completed, etc. Used on the events listing and event detail pages.
+ *
+ * @module components/event-status-badge
+ */
+
+import { cn } from "@/lib/utils"
+import type { EventStatus } from "@/lib/events"
+
+/**
+ * Badge colours for each event status
+ */
+const statusStyles: Record<EventStatus, string> = {
+  upcoming: "bg-blue-50 text-blue-700 border-blue-200",
+  open: "bg-green-50 text-green-700 border-green-200",
+  sold_out: "bg-red-50 text-red-700 border-red-200",
+  closed: "bg-gray-100 text-gray-700 border-gray-200",
+  completed: "bg-navy/10 text-navy border-navy/20",
+}
+
+/**
+ * Human-readable labels for each event status
+ */
+const statusLabels: Record<EventStatus, string> = {
+  upcoming: "Registration Opens Soon",
+  open: "Registration Open",
+  sold_out: "Sold Out",
+  closed: "Registration Closed",
+  completed: "Completed",
+}
+
+/**
+ * Event status badge component
+ *
+ * @param {Object} props - Component props
+ * @param {EventStatus} props.status - The event status to display
+ * @param {string} [props.className] - Additional classes
+ * @returns {JSX.Element} The rendered badge
+ *
+ * @example
+ * <EventStatusBadge status={getEventStatus(event, registeredCount)} />
+ */
+export default function EventStatusBadge({
+  status,
+  className,
+}: {
+  status: EventStatus
+  className?: string
+}) {
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center px-3 py-1 rounded-full text-xs font-semibold border",
+        statusStyles[status],
+        className
+      )}
+    >
+      {statusLabels[status]}
+    </span>
+  )
+}
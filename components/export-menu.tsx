@@ -0,0 +1,178 @@
+/**
+ * Export Menu Component
+ *
+ * Drop-down for exporting the admin registrations table: choose a format
+ * (CSV, XLSX or JSON) and the columns, then download every registration
+ * matching the current search, filters and sort. The file is built and
+ * streamed by /api/registrations/export, so the download starts straight
+ * away however many registrations match.
+ *
+ * @module components/export-menu
+ */
+
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { useSearchParams } from "next/navigation"
+import { ChevronDown, Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ADMIN_VIEW_PARAMS } from "@/lib/admin-views"
+import { EXPORT_COLUMNS, EXPORT_FORMATS, type ExportFormat } from "@/lib/registration-export"
+
+/**
+ * ExportMenu component props
+ */
+interface ExportMenuProps {
+  /** Slug of the event being exported */
+  eventSlug?: string
+  /** True when there is nothing to export */
+  disabled?: boolean
+}
+
+/**
+ * Export menu component
+ *
+ * @param {ExportMenuProps} props - Component props
+ * @returns {JSX.Element} The rendered export menu
+ *
+ * @example
+ * // Used in components/admin-table.tsx
+ * <ExportMenu eventSlug={eventSlug} disabled={total === 0} />
+ */
+export default function ExportMenu({ eventSlug, disabled }: ExportMenuProps) {
+  const searchParams = useSearchParams()
+
+  // Whether the menu is open
+  const [open, setOpen] = useState(false)
+
+  // The chosen file format
+  const [format, setFormat] = useState<ExportFormat>("csv")
+
+  // Ids of the columns to export
+  const [fields, setFields] = useState<string[]>(EXPORT_COLUMNS.map((column) => column.id))
+
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close the menu when clicking elsewhere
+  useEffect(() => {
+    if (!open) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [open])
+
+  /**
+   * Ticks or unticks a column
+   *
+   * @param {string} id - The column
+   */
+  const toggle = (id: string) => {
+    setFields(fields.includes(id) ? fields.filter((item) => item !== id) : [...fields, id])
+  }
+
+  /**
+   * Builds the export URL for the table's current view
+   *
+   * The table's columns (`cols`) are left out: the export has its own.
+   *
+   * @returns {string} The URL of the export route
+   */
+  const exportHref = () => {
+    const params = new URLSearchParams()
+    ADMIN_VIEW_PARAMS.filter((key) => key !== "cols" && key !== "size").forEach((key) => {
+      const value = searchParams.get(key)
+      if (value) params.set(key, value)
+    })
+    if (eventSlug) params.set("event", eventSlug)
+    params.set("format", format)
+    if (fields.length < EXPORT_COLUMNS.length) {
+      const chosen = EXPORT_COLUMNS.filter((column) => fields.includes(column.id))
+      params.set("fields", chosen.map((column) => column.id).join(","))
+    }
+    return `/api/registrations/export?${params.toString()}`
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        aria-expanded={open}
+        className="bg-orange hover:bg-orange-dark text-white font-semibold px-6"
+      >
+        <Download className="w-4 h-4 mr-2" />
+        Export
+        <ChevronDown className="w-4 h-4 ml-2" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-72 bg-white rounded-md shadow-lg border border-gray-200 p-3 space-y-3">
+          <label className="block text-sm font-semibold text-navy space-y-1">
+            <span>Format</span>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="w-full h-9 rounded-md border border-input bg-white px-2 text-sm font-normal focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((value) => (
+                <option key={value} value={value}>
+                  {EXPORT_FORMATS[value].label}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <div>
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-semibold text-navy">Columns</span>
+              <button
+                type="button"
+                onClick={() =>
+                  setFields(fields.length === EXPORT_COLUMNS.length ? [] : EXPORT_COLUMNS.map((column) => column.id))
+                }
+                className="font-semibold text-gray-600 hover:text-navy"
+              >
+                {fields.length === EXPORT_COLUMNS.length ? "Select none" : "Select all"}
+              </button>
+            </div>
+            <ul className="mt-1 max-h-56 overflow-y-auto">
+              {EXPORT_COLUMNS.map((column) => (
+                <li key={column.id}>
+                  <label className="flex items-center gap-2 px-2 py-1 rounded text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={fields.includes(column.id)}
+                      onChange={() => toggle(column.id)}
+                      className="h-4 w-4 accent-orange"
+                    />
+                    {column.label}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {fields.length === 0 ? (
+            <p className="text-sm text-gray-500">Choose at least one column</p>
+          ) : (
+            <a
+              href={exportHref()}
+              download
+              onClick={() => setOpen(false)}
+              className="flex items-center justify-center w-full h-10 rounded-md bg-orange hover:bg-orange-dark text-white text-sm font-semibold"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download {EXPORT_FORMATS[format].label}
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
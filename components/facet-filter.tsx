@@ -0,0 +1,145 @@
+/**
+ * Facet Filter Component
+ *
+ * Drop-down list of checkboxes for filtering the admin registrations table
+ * by one facet (status, T-shirt size, company or category). Each option
+ * shows how many registrations match it with the other filters applied.
+ * Long lists (e.g. companies) get a box for narrowing the options.
+ *
+ * @module components/facet-filter
+ */
+
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { ChevronDown } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import type { FacetCount } from "@/lib/admin-registrations"
+
+/**
+ * Options shown before the list gets a box for narrowing it
+ */
+const SEARCHABLE_AFTER = 8
+
+/**
+ * FacetFilter component props
+ */
+interface FacetFilterProps {
+  /** The facet's name, e.g. "Status" */
+  label: string
+  /** The facet's options with their counts */
+  options: FacetCount[]
+  /** Values currently ticked */
+  selected: string[]
+  /** Called with the new ticked values */
+  onChange: (values: string[]) => void
+}
+
+/**
+ * Facet filter component
+ *
+ * @param {FacetFilterProps} props - Component props
+ * @returns {JSX.Element} The rendered facet filter
+ *
+ * @example
+ * // Used in components/admin-table.tsx
+ * <FacetFilter label="Status" options={statusOptions} selected={query.facets.status} onChange={...} />
+ */
+export default function FacetFilter({ label, options, selected, onChange }: FacetFilterProps) {
+  // Whether the list is open
+  const [open, setOpen] = useState(false)
+
+  // Text narrowing a long list of options
+  const [filter, setFilter] = useState("")
+
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close the list when clicking elsewhere
+  useEffect(() => {
+    if (!open) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [open])
+
+  const query = filter.trim().toLowerCase()
+  const shown = query ? options.filter((option) => option.label.toLowerCase().includes(query)) : options
+
+  /**
+   * Ticks or unticks an option
+   *
+   * @param {string} value - The option's value
+   */
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value])
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className={`inline-flex items-center gap-2 h-9 rounded-md border px-3 text-sm font-medium ${
+          selected.length > 0 ? "border-orange bg-orange/5 text-orange" : "border-input bg-white text-navy"
+        }`}
+      >
+        {label}
+        {selected.length > 0 && (
+          <span className="inline-flex items-center justify-center min-w-5 h-5 px-1 rounded-full bg-orange text-white text-xs">
+            {selected.length}
+          </span>
+        )}
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute z-20 mt-1 w-64 bg-white rounded-md shadow-lg border border-gray-200 p-2">
+          {options.length > SEARCHABLE_AFTER && (
+            <Input
+              autoFocus
+              placeholder={`Find ${label.toLowerCase()}...`}
+              value={filter}
+              onChange={(e) => setFilter(e.target.value)}
+              className="h-8 mb-2"
+            />
+          )}
+          <ul className="max-h-64 overflow-y-auto">
+            {shown.length === 0 ? (
+              <li className="px-2 py-1.5 text-sm text-gray-500">No options</li>
+            ) : (
+              shown.map((option) => (
+                <li key={option.value}>
+                  <label className="flex items-center gap-2 px-2 py-1.5 rounded text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(option.value)}
+                      onChange={() => toggle(option.value)}
+                      className="h-4 w-4 accent-orange"
+                    />
+                    <span className="flex-1 truncate">{option.label}</span>
+                    <span className="text-xs text-gray-500">{option.count}</span>
+                  </label>
+                </li>
+              ))
+            )}
+          </ul>
+          {selected.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange([])}
+              className="w-full mt-2 pt-2 border-t border-gray-100 text-sm font-semibold text-gray-600 hover:text-navy"
+            >
+              Clear {label.toLowerCase()}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+/**
+ * Leaderboard Snapshot Button Component
+ *
+ * Takes a snapshot of the company leaderboard now, for example just before
+ * announcing movers. Snapshots are otherwise taken weekly.
+ *
+ * @module components/leaderboard-snapshot-button
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { Camera } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { takeLeaderboardSnapshot } from "@/app/admin/leaderboard/actions"
+
+/**
+ * Leaderboard snapshot button component
+ *
+ * @returns {JSX.Element} The rendered button and result message
+ */
+export default function LeaderboardSnapshotButton() {
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Result or error message
+  const [message, setMessage] = useState<string | null>(null)
+
+  /**
+   * Takes the snapshot and reports how many rows were recorded
+   */
+  const handleSnapshot = () => {
+    setMessage(null)
+    startTransition(async () => {
+      const result = await takeLeaderboardSnapshot()
+      setMessage(result.error ?? `Snapshot taken (${result.recorded} company rows)`)
+    })
+  }
+
+  return (
+    <div className="flex flex-col items-end">
+      <Button
+        type="button"
+        onClick={handleSnapshot}
+        disabled={isPending}
+        className="bg-navy hover:bg-navy-light text-white font-semibold"
+      >
+        <Camera className="w-4 h-4 mr-2" />
+        {isPending ? "Taking snapshot..." : "Take Snapshot Now"}
+      </Button>
+      {message && <p className="mt-2 text-sm text-gray-600">{message}</p>}
+    </div>
+  )
+}
@@ -6,6 +6,8 @@
  * - Responsive design with mobile hamburger menu
  * - Dynamic navigation links based on authentication state
  * - Admin link for users with admin role
+ * - Check-in link for volunteers and admins
+ * - Company portal link for company coordinators
  * - Logout functionality
  * - Sticky positioning for always-visible navigation
  * 
@@ -17,10 +19,11 @@
 import Link from "next/link"
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { Menu, X, LogOut, Shield } from "lucide-react"
+import { Menu, X, LogOut, Shield, ScanLine, Briefcase } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 import { useAuth } from "@/components/auth-provider"
+import { getUserRole, hasRole } from "@/lib/roles"
 
 /**
  * Navigation bar component
@@ -29,7 +32,8 @@ import { useAuth } from "@/components/auth-provider"
  * - Logo/brand name
  * - Public navigation links (Home, Gallery, Announcements, Events)
  * - Conditional links based on auth state:
- *   - Authenticated: Dashboard, Admin (if admin), Logout
+ *   - Authenticated: Dashboard, Check-in (if volunteer or admin), My Company (if company
+ *     coordinator), Admin (if admin), Logout
  *   - Unauthenticated: Register
  * - Mobile-responsive hamburger menu
  * 
@@ -54,6 +58,15 @@ const Navbar = () => {
   // Router for navigation after logout
   const router = useRouter()
 
+  // Links follow the user's role; the pages themselves check it again
+  const isAdmin = getUserRole(user) === "admin"
+
+  // Volunteers and admins run race-day check-in
+  const canCheckIn = hasRole(user, ["admin", "volunteer"])
+
+  // Company coordinators follow their employees' entries in the company portal
+  const isCoordinator = getUserRole(user) === "company_coordinator"
+
   /**
    * Public navigation links that are always visible
    * These routes don't require authentication
@@ -63,6 +76,7 @@ const Navbar = () => {
     { href: "/gallery", label: "Gallery" },
     { href: "/announcements", label: "Announcements" },
     { href: "/events", label: "Events" },
+    { href: "/leaderboard", label: "Leaderboard" },
   ]
 
   /**
@@ -113,7 +127,25 @@ const Navbar = () => {
                     >
                       Dashboard
                     </Link>
-                    {user.user_metadata?.role === "admin" && (
+                    {canCheckIn && (
+                      <Link
+                        href="/checkin"
+                        className="text-white hover:text-orange transition-colors font-medium flex items-center"
+                      >
+                        <ScanLine size={16} className="mr-1" />
+                        Check-in
+                      </Link>
+                    )}
+                    {isCoordinator && (
+                      <Link
+                        href="/company"
+                        className="text-white hover:text-orange transition-colors font-medium flex items-center"
+                      >
+                        <Briefcase size={16} className="mr-1" />
+                        My Company
+                      </Link>
+                    )}
+                    {isAdmin && (
                       <Link
                         href="/admin"
                         className="text-white hover:text-orange transition-colors font-medium flex items-center"
@@ -184,7 +216,27 @@ const Navbar = () => {
                     >
                       Dashboard
                     </Link>
-                    {user.user_metadata?.role === "admin" && (
+                    {canCheckIn && (
+                      <Link
+                        href="/checkin"
+                        onClick={() => setIsOpen(false)}
+                        className="block px-3 py-2 text-white hover:text-orange hover:bg-navy-light rounded-md transition-colors font-medium flex items-center"
+                      >
+                        <ScanLine size={16} className="mr-2" />
+                        Check-in
+                      </Link>
+                    )}
+                    {isCoordinator && (
+                      <Link
+                        href="/company"
+                        onClick={() => setIsOpen(false)}
+                        className="block px-3 py-2 text-white hover:text-orange hover:bg-navy-light rounded-md transition-colors font-medium flex items-center"
+                      >
+                        <Briefcase size={16} className="mr-2" />
+                        My Company
+                      </Link>
+                    )}
+                    {isAdmin && (
                       <Link
                         href="/admin"
                         onClick={() => setIsOpen(false)}
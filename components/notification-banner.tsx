@@ -0,0 +1,66 @@
+/**
+ * Notification Banner Component
+ * 
+ * Displays an unread in-app notification (e.g. a waitlist promotion) on the
+ * participant dashboard with a button to dismiss it.
+ * 
+ * @module components/notification-banner
+ */
+
+"use client"
+
+import Link from "next/link"
+import { useTransition } from "react"
+import { Bell, X } from "lucide-react"
+import { markNotificationRead } from "@/app/dashboard/actions"
+
+/**
+ * Notification data structure
+ * 
+ * Matches the structure of the notifications table in Supabase.
+ */
+export interface Notification {
+  id: string
+  type: string
+  title: string
+  body: string
+  link: string | null
+  created_at: string
+}
+
+/**
+ * Notification banner component
+ * 
+ * @param {Object} props - Component props
+ * @param {Notification} props.notification - The notification to display
+ * @returns {JSX.Element} The rendered banner
+ */
+export default function NotificationBanner({ notification }: { notification: Notification }) {
+  const [isPending, startTransition] = useTransition()
+
+  return (
+    <div className="flex items-start justify-between bg-orange/10 border border-orange/30 rounded-lg p-4">
+      <div className="flex items-start space-x-3">
+        <Bell className="w-5 h-5 text-orange mt-0.5 flex-shrink-0" />
+        <div>
+          <p className="font-semibold text-navy">{notification.title}</p>
+          <p className="text-sm text-gray-700">{notification.body}</p>
+          {notification.link && (
+            <Link href={notification.link} className="text-sm font-semibold text-orange hover:text-orange-dark">
+              View details
+            </Link>
+          )}
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={() => startTransition(async () => { await markNotificationRead(notification.id) })}
+        disabled={isPending}
+        className="text-gray-400 hover:text-navy transition-colors p-1"
+        aria-label="Dismiss notification"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
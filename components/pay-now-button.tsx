@@ -0,0 +1,74 @@
+/**
+ * Pay Now Button Component
+ * 
+ * Lets a participant pay for a pending registration from the dashboard,
+ * e.g. after abandoning checkout or being promoted from the waitlist.
+ * Calls the payForRegistration server action and redirects to the
+ * provider's checkout page.
+ * 
+ * @module components/pay-now-button
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { CreditCard } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { payForRegistration } from "@/app/dashboard/actions"
+import { formatPrice } from "@/lib/utils"
+
+/**
+ * Pay now button component
+ * 
+ * @param {Object} props - Component props
+ * @param {string} props.registrationId - The registration to pay for
+ * @param {number} props.amountPaise - The amount due, in paise
+ * @returns {JSX.Element} The rendered button and any error message
+ * 
+ * @example
+ * // Used in app/dashboard/page.tsx
+ * <PayNowButton registrationId={registration.id} amountPaise={registration.category.price_paise} />
+ */
+export default function PayNowButton({
+  registrationId,
+  amountPaise,
+}: {
+  registrationId: string
+  amountPaise: number
+}) {
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying payment errors
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Starts a payment and redirects to checkout
+   */
+  const handlePay = () => {
+    setError(null)
+    startTransition(async () => {
+      const result = await payForRegistration(registrationId)
+      if (result.error) {
+        setError(result.error)
+      } else if (result.checkoutUrl) {
+        window.location.href = result.checkoutUrl
+      }
+    })
+  }
+
+  return (
+    <div>
+      <Button
+        type="button"
+        onClick={handlePay}
+        disabled={isPending}
+        className="bg-orange hover:bg-orange-dark text-white font-semibold"
+      >
+        <CreditCard className="w-4 h-4 mr-2" />
+        {isPending ? "Redirecting..." : `Pay ${formatPrice(amountPaise)}`}
+      </Button>
+      {error && <p className="mt-2 text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+/**
+ * Promo Code Form Component
+ *
+ * Admin form for creating promo codes. A code gives a percentage or flat
+ * discount and can optionally be limited to one event, a number of
+ * redemptions, an expiry date and the employees of one company.
+ *
+ * @module components/promo-code-form
+ */
+
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { createPromoCode } from "@/app/admin/promo-codes/actions"
+import { eventTitle, type RaceEvent } from "@/lib/events"
+import { promoCodeSchema, type PromoCodeFormData } from "@/lib/pricing"
+
+/**
+ * Converts an empty number input to undefined so optional fields validate
+ */
+const optionalNumber = (value: string) => (value === "" ? undefined : value)
+
+/**
+ * Promo code form component
+ *
+ * @param {Object} props - Component props
+ * @param {RaceEvent[]} props.events - Events a code can be limited to
+ * @returns {JSX.Element} The rendered form
+ *
+ * @example
+ * // Used in app/admin/promo-codes/page.tsx
+ * <PromoCodeForm events={events} />
+ */
+export default function PromoCodeForm({ events }: { events: RaceEvent[] }) {
+  // Loading state during submission
+  const [loading, setLoading] = useState(false)
+
+  // Error message state for displaying submission errors
+  const [error, setError] = useState<string | null>(null)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors },
+  } = useForm<PromoCodeFormData>({
+    resolver: zodResolver(promoCodeSchema),
+    defaultValues: { discountType: "percent" },
+  })
+
+  const discountType = watch("discountType")
+
+  /**
+   * Creates the promo code and clears the form on success
+   *
+   * @param {PromoCodeFormData} data - Validated form data
+   */
+  const onSubmit = async (data: PromoCodeFormData) => {
+    setError(null)
+    setLoading(true)
+
+    try {
+      const result = await createPromoCode(data)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      reset()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const selectClass =
+    "w-full h-10 rounded-md border border-input bg-white px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+  return (
+    <form
+      onSubmit={handleSubmit(onSubmit)}
+      className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 mb-8"
+    >
+      <h2 className="text-2xl font-bold text-navy mb-6">Create Promo Code</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm mb-6">
+          {error}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="code" className="block text-sm font-semibold text-navy mb-2">
+            Code *
+          </label>
+          <Input id="code" placeholder="EARLYBIRD20" {...register("code")} className="uppercase" />
+          {errors.code && <p className="mt-1 text-sm text-red-500">{errors.code.message}</p>}
+        </div>
+
+        <div>
+          <label htmlFor="discountType" className="block text-sm font-semibold text-navy mb-2">
+            Discount Type *
+          </label>
+          <select id="discountType" {...register("discountType")} className={selectClass}>
+            <option value="percent">Percentage</option>
+            <option value="flat">Flat amount (₹)</option>
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="discountValue" className="block text-sm font-semibold text-navy mb-2">
+            {discountType === "flat" ? "Discount (₹) *" : "Discount (%) *"}
+          </label>
+          <Input id="discountValue" type="number" min="0" step="any" {...register("discountValue")} />
+          {errors.discountValue && (
+            <p className="mt-1 text-sm text-red-500">{errors.discountValue.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="eventId" className="block text-sm font-semibold text-navy mb-2">
+            Event
+          </label>
+          <select id="eventId" {...register("eventId")} className={selectClass}>
+            <option value="">All events</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {eventTitle(event)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="maxRedemptions" className="block text-sm font-semibold text-navy mb-2">
+            Usage Limit
+          </label>
+          <Input
+            id="maxRedemptions"
+            type="number"
+            min="1"
+            placeholder="Unlimited"
+            {...register("maxRedemptions", { setValueAs: optionalNumber })}
+          />
+          {errors.maxRedemptions && (
+            <p className="mt-1 text-sm text-red-500">{errors.maxRedemptions.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="expiresAt" className="block text-sm font-semibold text-navy mb-2">
+            Expires At
+          </label>
+          <Input id="expiresAt" type="datetime-local" {...register("expiresAt")} />
+        </div>
+
+        <div>
+          <label htmlFor="companyName" className="block text-sm font-semibold text-navy mb-2">
+            Restrict to Company
+          </label>
+          <Input id="companyName" placeholder="Any company" {...register("companyName")} />
+        </div>
+
+        <div>
+          <label htmlFor="description" className="block text-sm font-semibold text-navy mb-2">
+            Description
+          </label>
+          <Input id="description" placeholder="Internal note" {...register("description")} />
+        </div>
+      </div>
+
+      <div className="flex justify-end mt-6">
+        <Button
+          type="submit"
+          disabled={loading}
+          className="bg-orange hover:bg-orange-dark text-white font-semibold px-6"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          {loading ? "Creating..." : "Create Code"}
+        </Button>
+      </div>
+    </form>
+  )
+}
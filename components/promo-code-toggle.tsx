@@ -0,0 +1,54 @@
+/**
+ * Promo Code Toggle Component
+ *
+ * Button in the promo codes table that activates or deactivates a code
+ * via the setPromoCodeActive server action.
+ *
+ * @module components/promo-code-toggle
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { setPromoCodeActive } from "@/app/admin/promo-codes/actions"
+
+/**
+ * Promo code toggle component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.promoCodeId - The promo code to update
+ * @param {boolean} props.active - Whether the code is currently active
+ * @returns {JSX.Element} The rendered toggle button
+ */
+export default function PromoCodeToggle({ promoCodeId, active }: { promoCodeId: string; active: boolean }) {
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying update errors
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Flips the code's active flag
+   */
+  const handleToggle = () => {
+    setError(null)
+    startTransition(async () => {
+      const result = await setPromoCodeActive(promoCodeId, !active)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={handleToggle}
+        disabled={isPending}
+        className="text-sm font-semibold text-navy hover:text-orange disabled:opacity-50"
+      >
+        {active ? "Deactivate" : "Activate"}
+      </button>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+/**
+ * QR Scanner Component
+ *
+ * Reads QR codes from the device camera (the rear camera on phones) using
+ * the browser's BarcodeDetector API. Used by the check-in console to scan
+ * participant e-tickets. Browsers without BarcodeDetector or camera access
+ * show a message instead, and volunteers can fall back to search.
+ *
+ * @module components/qr-scanner
+ */
+
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { CameraOff } from "lucide-react"
+
+/**
+ * Minimal typing for the BarcodeDetector API, which is not yet part of
+ * TypeScript's DOM library
+ */
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options: { formats: string[] }) => BarcodeDetectorLike
+  }
+}
+
+/**
+ * How often a video frame is checked for a QR code, in milliseconds
+ */
+const SCAN_INTERVAL_MS = 250
+
+/**
+ * How long the same code is ignored after being read, in milliseconds,
+ * so a ticket held in front of the camera is reported once
+ */
+const REPEAT_DELAY_MS = 3000
+
+/**
+ * QR scanner component
+ *
+ * @param {Object} props - Component props
+ * @param {(value: string) => void} props.onScan - Called with the contents of each QR code read
+ * @returns {JSX.Element} The camera preview, or a message if scanning is unavailable
+ *
+ * @example
+ * // Used in components/checkin-console.tsx
+ * <QrScanner onScan={handleScan} />
+ */
+export default function QrScanner({ onScan }: { onScan: (value: string) => void }) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  // Latest callback, so a new onScan does not restart the camera
+  const onScanRef = useRef(onScan)
+
+  // Why scanning is unavailable, if it is
+  const [unavailable, setUnavailable] = useState<string | null>(null)
+
+  useEffect(() => {
+    onScanRef.current = onScan
+  }, [onScan])
+
+  useEffect(() => {
+    if (!window.BarcodeDetector || !navigator.mediaDevices?.getUserMedia) {
+      setUnavailable("This browser can't scan QR codes. Use search instead, or try Chrome on Android.")
+      return
+    }
+
+    const detector = new window.BarcodeDetector({ formats: ["qr_code"] })
+    let stream: MediaStream | null = null
+    let timer: ReturnType<typeof setInterval> | undefined
+    let stopped = false
+    let lastValue = ""
+    let lastReadAt = 0
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then(async (mediaStream) => {
+        if (stopped) {
+          mediaStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+        stream = mediaStream
+        const video = videoRef.current
+        if (!video) return
+        video.srcObject = mediaStream
+        await video.play()
+        if (stopped) return
+
+        timer = setInterval(async () => {
+          if (video.readyState < video.HAVE_CURRENT_DATA) return
+          try {
+            const [code] = await detector.detect(video)
+            if (!code) return
+            const now = Date.now()
+            if (code.rawValue === lastValue && now - lastReadAt < REPEAT_DELAY_MS) return
+            lastValue = code.rawValue
+            lastReadAt = now
+            onScanRef.current(code.rawValue)
+          } catch {
+            // Frames that can't be decoded are skipped
+          }
+        }, SCAN_INTERVAL_MS)
+      })
+      .catch(() => {
+        setUnavailable("Camera access was denied. Allow camera access to scan tickets, or use search.")
+      })
+
+    // Stop the camera when the scanner is hidden or the page is left
+    return () => {
+      stopped = true
+      clearInterval(timer)
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [])
+
+  if (unavailable) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center bg-gray-100 rounded-lg p-8 text-gray-600">
+        <CameraOff className="w-10 h-10 mb-3 text-gray-400" />
+        <p>{unavailable}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative bg-black rounded-lg overflow-hidden aspect-square sm:aspect-video">
+      <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+      <div className="absolute inset-0 m-auto w-48 h-48 sm:w-64 sm:h-64 border-4 border-orange/80 rounded-lg pointer-events-none" />
+    </div>
+  )
+}
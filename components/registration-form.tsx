@@ -3,101 +3,99 @@
  * 
  * Multi-step registration form for event participants. Collects all required
  * information for event registration including personal details, company information,
- * and emergency contact information.
+ * the race category (e.g. 5K Run, 10K Run, 3K Walk) and emergency contact information.
  * 
  * Features:
  * - Multi-step form with progress indication
- * - Client-side validation using Zod
+ * - Client-side validation using Zod (the same schema is re-checked on the server)
  * - Step-by-step validation (validates current step before proceeding)
- * - Submits registration data to Supabase database
- * - Success state with confirmation message
+ * - Price breakdown (pricing tier and promo code discount) on the final step
+ * - Submits registration data through a server action
+ * - Redirects to checkout when the chosen category has a fee
  * 
  * @module components/registration-form
  */
 
 "use client"
 
-import { useState } from "react"
+import { useState, useTransition } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
-import * as z from "zod"
-import { createClient } from "@/lib/supabase/client"
+import { registrationSchema, type RegistrationFormData } from "@/lib/registration-schema"
+import { getCorporateEmailStatus, getPriceQuote, submitRegistration } from "@/app/dashboard/actions"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { User, Mail, Building, Hash, Shirt, Phone, ChevronRight, ChevronLeft, Check } from "lucide-react"
+import CompanyAutocomplete from "@/components/company-autocomplete"
+import CorporateEmailVerification from "@/components/corporate-email-verification"
+import { User, Mail, Building, Hash, Shirt, Phone, ChevronRight, ChevronLeft, Check, Flag, Tag } from "lucide-react"
 import { useRouter } from "next/navigation"
-
-/**
- * Zod schema for registration form validation
- * 
- * Validates all registration fields:
- * - fullName: Minimum 2 characters
- * - corporateEmail: Valid email format
- * - employeeId: Required field
- * - companyName: Minimum 2 characters
- * - tshirtSize: Must be one of: S, M, L, XL
- * - emergencyContact: Minimum 2 characters
- * - emergencyPhone: Minimum 10 characters (basic phone validation)
- */
-const registrationSchema = z.object({
-  fullName: z.string().min(2, "Full name must be at least 2 characters"),
-  corporateEmail: z.string().email("Please enter a valid email address"),
-  employeeId: z.string().min(1, "Employee ID is required"),
-  companyName: z.string().min(2, "Company name must be at least 2 characters"),
-  tshirtSize: z.enum(["S", "M", "L", "XL"], {
-    required_error: "Please select a T-shirt size",
-  }),
-  emergencyContact: z.string().min(2, "Emergency contact name is required"),
-  emergencyPhone: z.string().min(10, "Emergency contact phone is required"),
-})
-
-/**
- * TypeScript type inferred from the Zod schema
- * Used for type-safe form data handling
- */
-type RegistrationFormData = z.infer<typeof registrationSchema>
+import { formatStartTime, type EventCategory } from "@/lib/events"
+import { cn, formatPrice } from "@/lib/utils"
+import type { CategoryPrice, PriceQuote } from "@/lib/pricing"
 
 /**
  * Form step definitions
  * 
- * Defines the three steps of the registration form with their titles and icons
+ * Defines the four steps of the registration form with their titles and icons
  */
 const steps = [
   { id: 1, title: "Personal Info", icon: User },
   { id: 2, title: "Company Details", icon: Building },
-  { id: 3, title: "Additional Info", icon: Shirt },
+  { id: 3, title: "Race Category", icon: Flag },
+  { id: 4, title: "Additional Info", icon: Shirt },
 ]
 
 /**
  * Registration form component
  * 
  * Multi-step form component that collects event registration information.
- * The form is divided into three steps:
- * 1. Personal Info: Full name, corporate email, employee ID
+ * The form is divided into four steps:
+ * 1. Personal Info: Full name, corporate email (verified with a one-time
+ *    code), employee ID
  * 2. Company Details: Company name
- * 3. Additional Info: T-shirt size, emergency contact details
+ * 3. Race Category: One of the event's categories (distance, start time, price)
+ * 4. Additional Info: T-shirt size, emergency contact details, promo code
+ *    and the price breakdown
  * 
  * Features:
  * - Step-by-step navigation with validation
  * - Progress indicator
  * - Form validation before proceeding to next step
- * - Saves registration to Supabase database
- * - Shows success state after submission
+ * - Saves registration via the submitRegistration server action
+ * - Redirects to the payment page for paid categories, otherwise refreshes
+ *   the dashboard to show the registration status
  * 
  * @param {Object} props - Component props
- * @param {string} props.userId - The authenticated user's ID (required for database insert)
+ * @param {string} props.eventId - The event being registered for
+ * @param {EventCategory[]} props.categories - Race categories offered at the event
+ * @param {Record<string, number>} props.categoryCounts - Seats taken per category id
+ * @param {Record<string, CategoryPrice>} props.categoryPrices - Current (tier) price per category id
  * @returns {JSX.Element} The rendered registration form
  * 
  * @example
  * // Used in app/dashboard/page.tsx
- * const { data: { user } } = await supabase.auth.getUser()
- * <RegistrationForm userId={user.id} />
+ * <RegistrationForm
+ *   eventId={selectedEvent.id}
+ *   categories={categories}
+ *   categoryCounts={categoryCounts}
+ *   categoryPrices={categoryPrices}
+ * />
  */
-export default function RegistrationForm({ userId }: { userId: string }) {
+export default function RegistrationForm({
+  eventId,
+  categories,
+  categoryCounts,
+  categoryPrices,
+}: {
+  eventId: string
+  categories: EventCategory[]
+  categoryCounts: Record<string, number>
+  categoryPrices: Record<string, CategoryPrice>
+}) {
   // Router for navigation after successful registration
   const router = useRouter()
   
-  // Current step in the multi-step form (1, 2, or 3)
+  // Current step in the multi-step form (1 to 4)
   const [currentStep, setCurrentStep] = useState(1)
   
   // Loading state during form submission
@@ -105,9 +103,14 @@ export default function RegistrationForm({ userId }: { userId: string }) {
   
   // Error message state for displaying submission errors
   const [error, setError] = useState<string | null>(null)
-  
-  // Supabase client for database operations
-  const supabase = createClient()
+
+  // Corporate email the participant has verified, if any
+  const [verifiedEmail, setVerifiedEmail] = useState<string | null>(null)
+
+  // Price breakdown shown on the final step, and any promo code error
+  const [quote, setQuote] = useState<PriceQuote | null>(null)
+  const [promoError, setPromoError] = useState<string | null>(null)
+  const [isQuoting, startQuoting] = useTransition()
 
   // React Hook Form setup with Zod validation
   const {
@@ -116,6 +119,8 @@ export default function RegistrationForm({ userId }: { userId: string }) {
     formState: { errors }, // Form validation errors
     trigger,           // Manually trigger validation for specific fields
     getValues,         // Get current form values
+    watch,             // Subscribe to field values (selected category)
+    setValue,          // Set a field's value (picked company suggestion)
   } = useForm<RegistrationFormData>({
     resolver: zodResolver(registrationSchema), // Use Zod for validation
     mode: "onChange",  // Validate on change for real-time feedback
@@ -128,11 +133,13 @@ export default function RegistrationForm({ userId }: { userId: string }) {
    * and validates only those fields before allowing the user to proceed.
    * 
    * Step field mapping:
-   * - Step 1: fullName, corporateEmail, employeeId
+   * - Step 1: fullName, corporateEmail, employeeId (and the corporate
+   *   email must be verified)
    * - Step 2: companyName
-   * - Step 3: tshirtSize, emergencyContact, emergencyPhone
+   * - Step 3: categoryId
+   * - Step 4: tshirtSize, emergencyContact, emergencyPhone
    * 
-   * @param {number} step - The step number to validate (1, 2, or 3)
+   * @param {number} step - The step number to validate (1 to 4)
    * @returns {Promise<boolean>} True if step is valid, false otherwise
    */
   const validateStep = async (step: number): Promise<boolean> => {
@@ -143,12 +150,48 @@ export default function RegistrationForm({ userId }: { userId: string }) {
     } else if (step === 2) {
       fields = ["companyName"]
     } else if (step === 3) {
+      fields = ["categoryId"]
+    } else if (step === 4) {
       fields = ["tshirtSize", "emergencyContact", "emergencyPhone"]
     }
 
     // Trigger validation for the fields in this step
     const result = await trigger(fields)
-    return result
+    if (!result || step !== 1) return result
+
+    // The email may have been verified through the link in another tab
+    const email = getValues("corporateEmail").trim()
+    if (email === verifiedEmail) return true
+
+    const status = await getCorporateEmailStatus(email)
+    if (status.verified) {
+      setVerifiedEmail(email)
+      return true
+    }
+    setError(status.error ?? "Please verify your corporate email to continue")
+    return false
+  }
+
+  /**
+   * Fetches the price breakdown for the selected category and promo code
+   * 
+   * Prices are computed on the server (current pricing tier minus the
+   * promo code discount), so the breakdown matches what will be charged.
+   */
+  const refreshQuote = () => {
+    const { categoryId, promoCode, companyName } = getValues()
+    if (!categoryId) return
+
+    setPromoError(null)
+    startQuoting(async () => {
+      const result = await getPriceQuote(categoryId, promoCode, companyName)
+      if (result.error) {
+        setPromoError(result.error)
+        return
+      }
+      setQuote(result.quote ?? null)
+      if (result.quote?.promoError) setPromoError(result.quote.promoError)
+    })
   }
 
   /**
@@ -156,12 +199,14 @@ export default function RegistrationForm({ userId }: { userId: string }) {
    * 
    * Validates the current step before allowing progression.
    * Only advances if validation passes and not already on the last step.
+   * Entering the final step loads the price breakdown.
    */
   const nextStep = async () => {
     const isValid = await validateStep(currentStep)
-    if (isValid && currentStep < 3) {
+    if (isValid && currentStep < steps.length) {
       setCurrentStep(currentStep + 1)
       setError(null) // Clear any previous errors
+      if (currentStep + 1 === steps.length) refreshQuote()
     }
   }
 
@@ -184,9 +229,10 @@ export default function RegistrationForm({ userId }: { userId: string }) {
    * This function:
    * 1. Clears any previous errors
    * 2. Sets loading state
-   * 3. Inserts registration data into Supabase database
-   * 4. Handles errors if insertion fails
-   * 5. Refreshes the page on success to show updated registration status
+   * 3. Submits the registration for the selected event via a server action
+   * 4. Handles errors if the submission fails
+   * 5. Redirects to checkout when payment is due, otherwise refreshes the
+   *    page to show the updated registration status
    * 
    * @param {RegistrationFormData} data - Validated form data from all steps
    */
@@ -195,22 +241,18 @@ export default function RegistrationForm({ userId }: { userId: string }) {
     setLoading(true)
 
     try {
-      const { error: insertError } = await supabase
-        .from("registrations")
-        .insert({
-          user_id: userId,
-          full_name: data.fullName,
-          corporate_email: data.corporateEmail,
-          employee_id: data.employeeId,
-          company_name: data.companyName,
-          tshirt_size: data.tshirtSize,
-          emergency_contact: data.emergencyContact,
-          emergency_phone: data.emergencyPhone,
-          registration_date: new Date().toISOString(),
-          status: "confirmed",
-        })
-
-      if (insertError) throw insertError
+      const result = await submitRegistration(eventId, data)
+
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+
+      if (result.checkoutUrl) {
+        // Leave the app for the payment provider's checkout page
+        window.location.href = result.checkoutUrl
+        return
+      }
 
       // Refresh the page to show updated registration status
       router.refresh()
@@ -222,6 +264,13 @@ export default function RegistrationForm({ userId }: { userId: string }) {
   }
 
   const formValues = getValues()
+  const corporateEmail = watch("corporateEmail") ?? ""
+  const selectedCategoryId = watch("categoryId")
+  const selectedCategory = categories.find((category) => category.id === selectedCategoryId)
+  const selectedCategoryFull =
+    !!selectedCategory &&
+    selectedCategory.capacity !== null &&
+    (categoryCounts[selectedCategory.id] ?? 0) >= selectedCategory.capacity
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-8 border border-gray-200">
@@ -321,6 +370,14 @@ export default function RegistrationForm({ userId }: { userId: string }) {
               {errors.corporateEmail && (
                 <p className="mt-1 text-sm text-red-500">{errors.corporateEmail.message}</p>
               )}
+              <CorporateEmailVerification
+                email={corporateEmail}
+                verified={!!corporateEmail && corporateEmail.trim() === verifiedEmail}
+                onVerified={() => {
+                  setVerifiedEmail(corporateEmail.trim())
+                  setError(null)
+                }}
+              />
             </div>
 
             <div>
@@ -353,16 +410,13 @@ export default function RegistrationForm({ userId }: { userId: string }) {
               <label htmlFor="companyName" className="block text-sm font-semibold text-navy mb-2">
                 Company Name *
               </label>
-              <div className="relative">
-                <Building className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
-                <Input
-                  id="companyName"
-                  type="text"
-                  placeholder="Your Company Name"
-                  {...register("companyName")}
-                  className={`pl-10 ${errors.companyName ? "border-red-500" : ""}`}
-                />
-              </div>
+              <CompanyAutocomplete
+                id="companyName"
+                registration={register("companyName")}
+                onSelectCompany={(name) => setValue("companyName", name, { shouldValidate: true })}
+                email={corporateEmail}
+                invalid={!!errors.companyName}
+              />
               {errors.companyName && (
                 <p className="mt-1 text-sm text-red-500">{errors.companyName.message}</p>
               )}
@@ -370,8 +424,72 @@ export default function RegistrationForm({ userId }: { userId: string }) {
           </div>
         )}
 
-        {/* Step 3: Additional Info */}
+        {/* Step 3: Race Category */}
         {currentStep === 3 && (
+          <div className="space-y-6 animate-fade-in">
+            <h3 className="text-2xl font-bold text-navy mb-6">Choose Your Race</h3>
+
+            <div className="grid gap-4" role="radiogroup" aria-label="Race category">
+              {categories.map((category) => {
+                const startTime = formatStartTime(category)
+                const currentPrice = categoryPrices[category.id]
+                const isFull =
+                  category.capacity !== null &&
+                  (categoryCounts[category.id] ?? 0) >= category.capacity
+
+                return (
+                  <label
+                    key={category.id}
+                    className={cn(
+                      "flex items-center justify-between border-2 rounded-lg p-4 cursor-pointer transition-all",
+                      selectedCategoryId === category.id
+                        ? "border-orange bg-orange/5"
+                        : "border-gray-200 hover:border-orange/50"
+                    )}
+                  >
+                    <div className="flex items-center space-x-4">
+                      <input
+                        type="radio"
+                        value={category.id}
+                        {...register("categoryId")}
+                        className="w-4 h-4 accent-orange"
+                      />
+                      <div>
+                        <p className="font-semibold text-navy">{category.name}</p>
+                        <p className="text-sm text-gray-600">
+                          {category.distance_km} km
+                          {startTime && ` · Starts ${startTime}`}
+                        </p>
+                        {isFull && (
+                          <p className="text-xs font-medium text-blue-700 mt-1">
+                            Full - you will join the waitlist
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <span className="font-bold text-navy">
+                        {formatPrice(currentPrice?.price_paise ?? category.price_paise)}
+                      </span>
+                      {currentPrice && currentPrice.price_paise !== category.price_paise && (
+                        <p className="text-xs text-gray-500">
+                          <span className="line-through">{formatPrice(category.price_paise)}</span>
+                          {" "}{currentPrice.tier_name}
+                        </p>
+                      )}
+                    </div>
+                  </label>
+                )
+              })}
+            </div>
+            {errors.categoryId && (
+              <p className="mt-1 text-sm text-red-500">{errors.categoryId.message}</p>
+            )}
+          </div>
+        )}
+
+        {/* Step 4: Additional Info */}
+        {currentStep === 4 && (
           <div className="space-y-6 animate-fade-in">
             <h3 className="text-2xl font-bold text-navy mb-6">Additional Information</h3>
             
@@ -434,6 +552,64 @@ export default function RegistrationForm({ userId }: { userId: string }) {
                 <p className="mt-1 text-sm text-red-500">{errors.emergencyPhone.message}</p>
               )}
             </div>
+
+            <div>
+              <label htmlFor="promoCode" className="block text-sm font-semibold text-navy mb-2">
+                Promo Code
+              </label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                  <Input
+                    id="promoCode"
+                    type="text"
+                    placeholder="Optional"
+                    {...register("promoCode")}
+                    className={`pl-10 uppercase ${promoError || errors.promoCode ? "border-red-500" : ""}`}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  onClick={refreshQuote}
+                  disabled={isQuoting}
+                  className="border border-navy bg-white text-navy hover:bg-navy/5 font-semibold"
+                >
+                  Apply
+                </Button>
+              </div>
+              {(promoError || errors.promoCode) && (
+                <p className="mt-1 text-sm text-red-500">{promoError ?? errors.promoCode?.message}</p>
+              )}
+            </div>
+
+            {/* Price Breakdown */}
+            {selectedCategory && (
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2">
+                <h4 className="font-semibold text-navy">Price Breakdown</h4>
+                {quote ? (
+                  <>
+                    <div className="flex justify-between text-sm text-gray-700">
+                      <span>
+                        {selectedCategory.name} ({quote.tierName})
+                      </span>
+                      <span>{formatPrice(quote.basePricePaise)}</span>
+                    </div>
+                    {quote.discountPaise > 0 && (
+                      <div className="flex justify-between text-sm text-green-700">
+                        <span>Promo code {getValues("promoCode")?.toUpperCase()}</span>
+                        <span>-{formatPrice(quote.discountPaise)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between border-t pt-2 font-bold text-navy">
+                      <span>Total</span>
+                      <span>{formatPrice(quote.totalPaise)}</span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">{isQuoting ? "Calculating..." : "Price unavailable"}</p>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -450,7 +626,7 @@ export default function RegistrationForm({ userId }: { userId: string }) {
             Previous
           </Button>
 
-          {currentStep < 3 ? (
+          {currentStep < steps.length ? (
             <Button
               type="button"
               onClick={nextStep}
@@ -465,7 +641,13 @@ export default function RegistrationForm({ userId }: { userId: string }) {
               disabled={loading}
               className="bg-orange hover:bg-orange-dark text-white font-semibold"
             >
-              {loading ? "Submitting..." : "Complete Registration"}
+              {loading
+                ? "Submitting..."
+                : selectedCategoryFull
+                ? "Join Waitlist"
+                : quote && quote.totalPaise > 0
+                ? `Pay ${formatPrice(quote.totalPaise)} & Register`
+                : "Complete Registration"}
             </Button>
           )}
         </div>
@@ -0,0 +1,470 @@
+/**
+ * Registration Import Form Component
+ *
+ * Admin form for importing walk-in and offline registrations from a
+ * spreadsheet, in three steps: upload a CSV (read in the browser) or XLSX
+ * (read by a server action), map the file's columns to registration
+ * fields, and preview every row before importing.
+ *
+ * Features:
+ * - Column mapping guessed from the header row
+ * - Preview with each row's errors (left out of the import) and duplicate
+ *   warnings (imported anyway), checked on the server with the
+ *   registration form's rules
+ * - Valid rows imported in one transaction
+ * - Error report of the rows not imported, as CSV, to fix and import again
+ *
+ * @module components/registration-import-form
+ */
+
+"use client"
+
+import { useMemo, useRef, useState, useTransition } from "react"
+import { AlertTriangle, CheckCircle2, Download, Eye, Upload, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { parseCsv } from "@/lib/csv"
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  applyColumnMapping,
+  guessColumnMapping,
+  importErrorReport,
+  unmappedFields,
+  type ColumnMapping,
+  type ImportField,
+  type ImportRowCheck,
+} from "@/lib/registration-import"
+import { cn } from "@/lib/utils"
+import {
+  importRegistrations,
+  previewRegistrationImport,
+  readImportFile,
+  type ImportRegistrationsResult,
+} from "@/app/admin/import/actions"
+
+/**
+ * The uploaded file
+ */
+interface ImportFile {
+  name: string
+  headers: string[]
+  /** Non-blank rows after the header */
+  rows: string[][]
+}
+
+/**
+ * Returns how a checked row will be treated
+ *
+ * @param {ImportRowCheck} check - The row's checks
+ * @returns {"error" | "warning" | "ready"} The row's state
+ */
+function rowState(check: ImportRowCheck): "error" | "warning" | "ready" {
+  if (check.errors.length > 0) return "error"
+  return check.warnings.length > 0 ? "warning" : "ready"
+}
+
+/**
+ * Badge styles for each row state
+ */
+const stateStyles: Record<ReturnType<typeof rowState>, string> = {
+  ready: "bg-green-100 text-green-800",
+  warning: "bg-yellow-100 text-yellow-800",
+  error: "bg-red-100 text-red-800",
+}
+
+/**
+ * Registration import form component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.eventId - The event to import registrations into
+ * @param {string[]} props.categoryNames - The event's race category names, shown in the instructions
+ * @returns {JSX.Element} The rendered upload, mapping and preview steps
+ *
+ * @example
+ * // Used in app/admin/import/page.tsx
+ * <RegistrationImportForm eventId={selectedEvent.id} categoryNames={categories.map((c) => c.name)} />
+ */
+export default function RegistrationImportForm({
+  eventId,
+  categoryNames,
+}: {
+  eventId: string
+  categoryNames: string[]
+}) {
+  // Pending state while a file is read, previewed or imported
+  const [isPending, startTransition] = useTransition()
+
+  // The uploaded file and its column mapping
+  const [file, setFile] = useState<ImportFile | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+
+  // Checks from the last preview or import
+  const [checks, setChecks] = useState<ImportRowCheck[] | null>(null)
+
+  // Whether the preview lists only rows with errors or warnings
+  const [problemsOnly, setProblemsOnly] = useState(false)
+
+  // Result of the import, once it succeeded
+  const [result, setResult] = useState<ImportRegistrationsResult | null>(null)
+
+  // Error message for the current step
+  const [error, setError] = useState<string | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const mappedRows = useMemo(
+    () => (file && mapping ? applyColumnMapping(file.rows, mapping) : []),
+    [file, mapping]
+  )
+  const missing = mapping ? unmappedFields(mapping) : []
+
+  /**
+   * Reads the chosen file and guesses its column mapping
+   *
+   * @param {React.ChangeEvent<HTMLInputElement>} e - File input change event
+   */
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0]
+    if (!chosen) return
+
+    setError(null)
+    setChecks(null)
+    setResult(null)
+    startTransition(async () => {
+      let rows: string[][]
+      if (chosen.name.toLowerCase().endsWith(".xlsx")) {
+        const formData = new FormData()
+        formData.append("file", chosen)
+        const read = await readImportFile(formData)
+        if (read.error || !read.rows) {
+          setError(read.error ?? "We couldn't read this file")
+          return
+        }
+        rows = read.rows
+      } else {
+        rows = parseCsv(await chosen.text()).filter((row) => row.some((cell) => cell.trim() !== ""))
+      }
+
+      const [headers, ...dataRows] = rows
+      if (!headers || dataRows.length === 0) {
+        setError("The file needs a header row and at least one registration")
+        return
+      }
+      if (dataRows.length > MAX_IMPORT_ROWS) {
+        setError(`Please import at most ${MAX_IMPORT_ROWS} rows at a time`)
+        return
+      }
+
+      const trimmedHeaders = headers.map((header) => header.trim())
+      setFile({ name: chosen.name, headers: trimmedHeaders, rows: dataRows })
+      setMapping(guessColumnMapping(trimmedHeaders))
+    })
+  }
+
+  /**
+   * Maps a field to a column of the file; the preview must be run again
+   *
+   * @param {ImportField} field - The registration field
+   * @param {number} column - The column index, or -1 for none
+   */
+  const handleMappingChange = (field: ImportField, column: number) => {
+    if (!mapping) return
+    setMapping({ ...mapping, [field]: column })
+    setChecks(null)
+  }
+
+  /**
+   * Checks every row on the server without saving
+   */
+  const handlePreview = () => {
+    setError(null)
+    startTransition(async () => {
+      const preview = await previewRegistrationImport(eventId, mappedRows)
+      if (preview.error || !preview.checks) {
+        setError(preview.error ?? "We couldn't check the rows")
+        return
+      }
+      setChecks(preview.checks)
+    })
+  }
+
+  /**
+   * Imports the rows without errors
+   */
+  const handleImport = () => {
+    const count = checks?.filter((check) => check.errors.length === 0).length ?? 0
+    if (!window.confirm(`Import ${count} registrations? Each participant will be emailed.`)) return
+
+    setError(null)
+    startTransition(async () => {
+      const imported = await importRegistrations(eventId, mappedRows)
+      if (imported.checks) {
+        setChecks(imported.checks)
+      }
+      if (imported.error || !imported.imported) {
+        setError(imported.error ?? "We couldn't import the registrations")
+        return
+      }
+      setResult(imported)
+    })
+  }
+
+  /**
+   * Downloads the rows not imported, with the reasons, as CSV
+   */
+  const handleDownloadReport = () => {
+    if (!file || !checks) return
+
+    const blob = new Blob([importErrorReport(file.headers, file.rows, checks)], { type: "text/csv;charset=utf-8;" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.setAttribute("href", url)
+    link.setAttribute("download", `${file.name.replace(/\.[^.]+$/, "")}_errors.csv`)
+    link.style.visibility = "hidden"
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  /**
+   * Clears the form for another file
+   */
+  const handleReset = () => {
+    setFile(null)
+    setMapping(null)
+    setChecks(null)
+    setResult(null)
+    setError(null)
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const readyCount = checks?.filter((check) => rowState(check) !== "error").length ?? 0
+  const warningCount = checks?.filter((check) => rowState(check) === "warning").length ?? 0
+  const errorCount = (checks?.length ?? 0) - readyCount
+  const rowsByLine = new Map(mappedRows.map((row) => [row.line, row.values]))
+  const shownChecks = (checks ?? []).filter((check) => !problemsOnly || rowState(check) !== "ready")
+  const importedStatuses = (result?.imported ?? []).reduce<Record<string, number>>((counts, row) => {
+    counts[row.status] = (counts[row.status] ?? 0) + 1
+    return counts
+  }, {})
+  const selectClass =
+    "w-full h-9 rounded-md border border-input bg-white px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+        <h2 className="text-xl font-bold text-navy mb-2">1. Upload a Spreadsheet</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Upload a CSV or Excel (XLSX) file with a header row and up to {MAX_IMPORT_ROWS} registrations. Each row needs
+          the participant&apos;s full name, corporate email, employee ID, company, race category (
+          {categoryNames.join(", ") || "none set up yet"}), T-shirt size (S, M, L or XL) and emergency contact.
+        </p>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={handleFile}
+            disabled={isPending}
+            className="text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-navy/10 file:text-navy file:font-semibold hover:file:bg-navy/20"
+          />
+          {file && (
+            <span className="text-sm text-gray-500">
+              {file.name}: {file.rows.length} rows
+            </span>
+          )}
+        </div>
+      </div>
+
+      {file && mapping && !result && (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+          <h2 className="text-xl font-bold text-navy mb-2">2. Match the Columns</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Choose the column of your file that holds each registration field.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            {IMPORT_FIELDS.map(({ field, label }) => (
+              <label key={field} className="block text-sm font-semibold text-navy space-y-1">
+                <span>{label}</span>
+                <select
+                  value={mapping[field]}
+                  onChange={(e) => handleMappingChange(field, Number(e.target.value))}
+                  disabled={isPending}
+                  className={cn(selectClass, "font-normal", mapping[field] === -1 && "border-red-500")}
+                >
+                  <option value={-1}>Not in the file</option>
+                  {file.headers.map((header, index) => (
+                    <option key={index} value={index}>
+                      {header || `Column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mt-6">
+            <p className="text-sm text-gray-600">
+              {missing.length > 0
+                ? `Every field is required; choose a column for ${missing.join(", ")}.`
+                : `${file.rows.length} rows will be checked with the registration form's rules.`}
+            </p>
+            <Button
+              type="button"
+              onClick={handlePreview}
+              disabled={isPending || missing.length > 0}
+              className="bg-transparent border-2 border-navy text-navy hover:bg-navy hover:text-white font-semibold"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              {isPending && !checks ? "Checking..." : "Preview Rows"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">{error}</div>}
+
+      {result && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md text-sm flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <span>
+            Imported {result.imported?.length ?? 0} registrations (
+            {Object.entries(importedStatuses)
+              .map(([status, count]) => `${count} ${status}`)
+              .join(", ")}
+            ).{errorCount > 0 && ` ${errorCount} rows with errors were not imported.`}
+          </span>
+          <Button
+            type="button"
+            onClick={handleReset}
+            className="bg-transparent border-2 border-navy text-navy hover:bg-navy hover:text-white font-semibold"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import Another File
+          </Button>
+        </div>
+      )}
+
+      {checks && (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-4">
+            <div>
+              <h2 className="text-xl font-bold text-navy mb-1">{result ? "Import Report" : "3. Preview"}</h2>
+              <p className="text-sm text-gray-600 inline-flex flex-wrap items-center gap-x-4 gap-y-1">
+                <span className="inline-flex items-center gap-1">
+                  <CheckCircle2 className="w-4 h-4 text-green-600" />
+                  {readyCount} {result ? "imported" : "ready"}
+                </span>
+                <span className="inline-flex items-center gap-1">
+                  <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                  {warningCount} with warnings
+                </span>
+                <span className="inline-flex items-center gap-1">
+                  <XCircle className="w-4 h-4 text-red-600" />
+                  {errorCount} with errors{!result && errorCount > 0 && " (left out)"}
+                </span>
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-navy">
+                <input
+                  type="checkbox"
+                  checked={problemsOnly}
+                  onChange={(e) => setProblemsOnly(e.target.checked)}
+                  className="h-4 w-4 accent-orange"
+                />
+                Only rows with problems
+              </label>
+              {errorCount > 0 && (
+                <Button
+                  type="button"
+                  onClick={handleDownloadReport}
+                  className="bg-transparent border-2 border-navy text-navy hover:bg-navy hover:text-white font-semibold"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Error Report
+                </Button>
+              )}
+              {!result && (
+                <Button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={isPending || readyCount === 0}
+                  className="bg-orange hover:bg-orange-dark text-white font-semibold"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  {isPending ? "Importing..." : `Import ${readyCount} Registrations`}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-gray-200 rounded-md max-h-[32rem]">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  <TableHead className="font-semibold text-navy">Row</TableHead>
+                  <TableHead className="font-semibold text-navy">Result</TableHead>
+                  <TableHead className="font-semibold text-navy">Full Name</TableHead>
+                  <TableHead className="font-semibold text-navy">Corporate Email</TableHead>
+                  <TableHead className="font-semibold text-navy">Company</TableHead>
+                  <TableHead className="font-semibold text-navy">Category</TableHead>
+                  <TableHead className="font-semibold text-navy">Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shownChecks.map((check) => {
+                  const values = rowsByLine.get(check.line)
+                  const state = rowState(check)
+                  return (
+                    <TableRow key={check.line} className="align-top">
+                      <TableCell className="font-mono">{check.line}</TableCell>
+                      <TableCell>
+                        <span className={cn("px-2 py-1 rounded-full text-xs font-semibold capitalize", stateStyles[state])}>
+                          {state}
+                        </span>
+                      </TableCell>
+                      <TableCell className="font-semibold text-navy">{values?.fullName || "—"}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{values?.corporateEmail || "—"}</TableCell>
+                      <TableCell className="text-sm">{values?.companyName || "—"}</TableCell>
+                      <TableCell className="text-sm">{values?.category || "—"}</TableCell>
+                      <TableCell className="text-sm">
+                        <ul className="space-y-0.5">
+                          {check.errors.map((message) => (
+                            <li key={message} className="text-red-600">
+                              {message}
+                            </li>
+                          ))}
+                          {check.warnings.map((message) => (
+                            <li key={message} className="text-yellow-700">
+                              {message}
+                            </li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+                {shownChecks.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                      Every row is ready to import.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
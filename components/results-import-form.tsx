@@ -0,0 +1,131 @@
+/**
+ * Results Import Form Component
+ *
+ * Admin form for uploading the timing company's results CSV. The file is
+ * read in the browser and sent to the import action, which reports how
+ * many results were stored and which rows were skipped (and why).
+ *
+ * @module components/results-import-form
+ */
+
+"use client"
+
+import { useRef, useState, useTransition } from "react"
+import { Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { importResults, type ImportResultsResult } from "@/app/admin/results/actions"
+
+/**
+ * Results import form component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.eventId - The event to import results for
+ * @returns {JSX.Element} The rendered form and import report
+ *
+ * @example
+ * // Used in app/admin/results/page.tsx
+ * <ResultsImportForm eventId={selectedEvent.id} />
+ */
+export default function ResultsImportForm({ eventId }: { eventId: string }) {
+  // Pending state while the import runs
+  const [isPending, startTransition] = useTransition()
+
+  // The chosen file
+  const [file, setFile] = useState<File | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Report from the last import
+  const [report, setReport] = useState<ImportResultsResult | null>(null)
+
+  /**
+   * Reads the chosen file and imports it
+   *
+   * @param {React.FormEvent} e - Form submit event
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+    setReport(null)
+    startTransition(async () => {
+      const result = await importResults(eventId, await file.text())
+      setReport(result)
+      if (!result.error) {
+        setFile(null)
+        if (fileInputRef.current) fileInputRef.current.value = ""
+      }
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6 mb-8">
+      <h2 className="text-xl font-bold text-navy mb-2">Import Timing Results</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload the CSV from the timing company. Required columns: <strong>Bib</strong> and{" "}
+        <strong>Gun Time</strong>; optional: <strong>Chip Time</strong>, <strong>Gender</strong> and split
+        columns (any header containing &quot;Split&quot;). Importing replaces this event&apos;s existing results.
+      </p>
+
+      <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-navy/10 file:text-navy file:font-semibold hover:file:bg-navy/20"
+        />
+        <Button
+          type="submit"
+          disabled={isPending || !file}
+          className="bg-orange hover:bg-orange-dark text-white font-semibold"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {isPending ? "Importing..." : "Import Results"}
+        </Button>
+      </form>
+
+      {report && (
+        <div className="mt-6 space-y-4">
+          {report.error ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md">{report.error}</div>
+          ) : (
+            <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-md">
+              Imported {report.imported} results.
+              {report.rejected && report.rejected.length > 0 && ` ${report.rejected.length} rows were skipped.`}
+            </div>
+          )}
+
+          {report.rejected && report.rejected.length > 0 && (
+            <div className="overflow-x-auto border border-gray-200 rounded-md max-h-96">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className="font-semibold text-navy">Line</TableHead>
+                    <TableHead className="font-semibold text-navy">Bib</TableHead>
+                    <TableHead className="font-semibold text-navy">Problem</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.rejected.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="font-mono">{row.line}</TableCell>
+                      <TableCell className="font-mono">{row.bib || "—"}</TableCell>
+                      <TableCell>{row.reason}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+/**
+ * Roster Review Buttons Component
+ *
+ * Approve and Reject buttons for a registration held because its employee
+ * ID and corporate email did not match the company's roster. Rejecting
+ * cancels the registration, so it asks for confirmation first.
+ *
+ * @module components/roster-review-buttons
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { reviewRosterMismatch } from "@/app/admin/companies/[companyId]/roster/actions"
+
+/**
+ * Roster review buttons component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.companyId - The registration's company
+ * @param {string} props.registrationId - The held registration
+ * @param {string} props.name - The participant's name, for the confirmation prompt
+ * @returns {JSX.Element} The rendered buttons
+ *
+ * @example
+ * // Used in app/admin/companies/[companyId]/roster/page.tsx
+ * <RosterReviewButtons companyId={company.id} registrationId={registration.id} name={registration.full_name} />
+ */
+export default function RosterReviewButtons({
+  companyId,
+  registrationId,
+  name,
+}: {
+  companyId: string
+  registrationId: string
+  name: string
+}) {
+  // Pending state while the server action runs
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying review errors
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Approves or rejects the registration
+   *
+   * @param {boolean} approve - True to approve, false to reject
+   */
+  const handleReview = (approve: boolean) => {
+    if (!approve && !window.confirm(`Reject ${name}'s registration? It will be cancelled.`)) {
+      return
+    }
+
+    setError(null)
+    startTransition(async () => {
+      const result = await reviewRosterMismatch(companyId, registrationId, approve)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() => handleReview(true)}
+          disabled={isPending}
+          className="text-sm font-semibold text-green-700 hover:text-green-900 disabled:opacity-50"
+        >
+          Approve
+        </button>
+        <button
+          type="button"
+          onClick={() => handleReview(false)}
+          disabled={isPending}
+          className="text-sm font-semibold text-red-600 hover:text-red-800 disabled:opacity-50"
+        >
+          Reject
+        </button>
+      </div>
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
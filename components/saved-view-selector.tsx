@@ -0,0 +1,285 @@
+/**
+ * Saved View Selector Component
+ *
+ * Dropdown of the admin's saved views of the registrations table (their
+ * own and those shared by other admins), with buttons for saving the
+ * current columns, filters and sort as a new view and for updating or
+ * deleting the selected view. The selected view is kept in the `?view=`
+ * search parameter next to the table state it opened.
+ *
+ * @module components/saved-view-selector
+ */
+
+"use client"
+
+import { useEffect, useRef, useState, useTransition } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { LayoutList, Save, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  adminViewHref,
+  adminViewSchema,
+  toViewParams,
+  type AdminView,
+  type AdminViewFormData,
+} from "@/lib/admin-views"
+import { deleteAdminView, saveAdminView, updateAdminView } from "@/app/admin/actions"
+
+/**
+ * Returns whether two sets of view parameters are the same, ignoring order
+ *
+ * @param {string} a - URL search parameters
+ * @param {string} b - URL search parameters
+ * @returns {boolean} True if both keep the same view parameters
+ */
+function sameViewParams(a: string, b: string): boolean {
+  const normalize = (search: string) => {
+    const params = new URLSearchParams(toViewParams(search))
+    params.sort()
+    return params.toString()
+  }
+  return normalize(a) === normalize(b)
+}
+
+/**
+ * SavedViewSelector component props
+ */
+interface SavedViewSelectorProps {
+  /** Views the admin can open (their own and shared ones) */
+  views: AdminView[]
+  /** The signed-in admin, who can change only their own views */
+  userId: string
+  /** Slug of the selected event, kept when switching views */
+  eventSlug: string
+}
+
+/**
+ * Saved view selector component
+ *
+ * @param {SavedViewSelectorProps} props - Component props
+ * @returns {JSX.Element} The rendered view selector
+ *
+ * @example
+ * // Used in app/admin/page.tsx
+ * <SavedViewSelector views={views} userId={user.id} eventSlug={selectedEvent.slug} />
+ */
+export default function SavedViewSelector({ views, userId, eventSlug }: SavedViewSelectorProps) {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+
+  // Whether the save form is open
+  const [saving, setSaving] = useState(false)
+
+  // Pending state while a view is saved, updated or deleted
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying save, update and delete errors
+  const [error, setError] = useState<string | null>(null)
+
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<AdminViewFormData>({
+    resolver: zodResolver(adminViewSchema),
+    defaultValues: { name: "", shared: false },
+  })
+
+  // Close the save form when clicking elsewhere
+  useEffect(() => {
+    if (!saving) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setSaving(false)
+      }
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [saving])
+
+  const current = searchParams.toString()
+  const selected = views.find((view) => view.id === searchParams.get("view")) ?? null
+  const isOwn = selected?.owner_id === userId
+  const modified = selected ? !sameViewParams(selected.params, current) : false
+
+  const ownViews = views.filter((view) => view.owner_id === userId)
+  const sharedViews = views.filter((view) => view.owner_id !== userId)
+
+  /**
+   * Opens a view, or the default layout, for the selected event
+   *
+   * @param {string} viewId - The view to open ("" for the default layout)
+   */
+  const handleChange = (viewId: string) => {
+    const view = views.find((item) => item.id === viewId)
+    setError(null)
+    router.push(view ? adminViewHref(view, eventSlug) : `/admin?event=${encodeURIComponent(eventSlug)}`)
+  }
+
+  /**
+   * Saves the current layout as a new view and switches to it
+   *
+   * @param {AdminViewFormData} data - The view's name and sharing
+   */
+  const onSubmit = (data: AdminViewFormData) => {
+    setError(null)
+    startTransition(async () => {
+      const result = await saveAdminView(data, current)
+      if (result.error || !result.view) {
+        setError(result.error ?? "We couldn't save the view")
+        return
+      }
+      reset()
+      setSaving(false)
+      router.push(adminViewHref(result.view, eventSlug))
+    })
+  }
+
+  /**
+   * Saves the current layout into the selected view
+   */
+  const handleUpdate = () => {
+    if (!selected) return
+    setError(null)
+    startTransition(async () => {
+      const result = await updateAdminView(selected.id, current)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      router.refresh()
+    })
+  }
+
+  /**
+   * Deletes the selected view and goes back to the default layout
+   */
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`Delete the view "${selected.name}"?`)) return
+    setError(null)
+    startTransition(async () => {
+      const result = await deleteAdminView(selected.id)
+      if (result.error) {
+        setError(result.error)
+        return
+      }
+      router.push(`/admin?event=${encodeURIComponent(eventSlug)}`)
+    })
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <LayoutList className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5 pointer-events-none" />
+          <select
+            aria-label="Saved view"
+            value={selected?.id ?? ""}
+            onChange={(e) => handleChange(e.target.value)}
+            className="w-full h-10 rounded-md border border-input bg-white pl-10 pr-3 py-2 text-sm font-medium text-navy focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <option value="">Default view</option>
+            {ownViews.length > 0 && (
+              <optgroup label="My views">
+                {ownViews.map((view) => (
+                  <option key={view.id} value={view.id}>
+                    {view.shared ? `${view.name} (shared)` : view.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {sharedViews.length > 0 && (
+              <optgroup label="Shared by other admins">
+                {sharedViews.map((view) => (
+                  <option key={view.id} value={view.id}>
+                    {view.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+        </div>
+        <Button
+          type="button"
+          onClick={() => setSaving(!saving)}
+          disabled={isPending}
+          aria-expanded={saving}
+          aria-label="Save as a new view"
+          title="Save as a new view"
+          className="bg-transparent border-2 border-navy text-navy hover:bg-navy hover:text-white font-semibold h-10 px-3"
+        >
+          <Save className="w-4 h-4" />
+        </Button>
+        {isOwn && (
+          <Button
+            type="button"
+            onClick={handleDelete}
+            disabled={isPending}
+            aria-label="Delete this view"
+            title="Delete this view"
+            className="bg-transparent border-2 border-red-600 text-red-600 hover:bg-red-600 hover:text-white font-semibold h-10 px-3"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {selected && modified && (
+        <div className="mt-1 flex items-center gap-3 text-sm text-gray-600">
+          <span>Unsaved changes</span>
+          {isOwn && (
+            <button
+              type="button"
+              onClick={handleUpdate}
+              disabled={isPending}
+              className="font-semibold text-navy hover:text-orange disabled:opacity-50"
+            >
+              Update view
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => handleChange(selected.id)}
+            disabled={isPending}
+            className="font-semibold text-navy hover:text-orange disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+      )}
+
+      {saving && (
+        <form
+          onSubmit={handleSubmit(onSubmit)}
+          className="absolute right-0 z-20 mt-1 w-full bg-white rounded-md shadow-lg border border-gray-200 p-4 space-y-3"
+        >
+          <p className="text-sm text-gray-600">Save the current columns, filters and sort as a view.</p>
+          <div className="space-y-1">
+            <Input autoFocus placeholder="View name, e.g. Kit pickup" {...register("name")} />
+            {errors.name && <p className="text-sm text-red-500">{errors.name.message}</p>}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-navy">
+            <input type="checkbox" {...register("shared")} className="h-4 w-4 accent-orange" />
+            Share with all admins
+          </label>
+          <Button
+            type="submit"
+            disabled={isPending}
+            className="w-full bg-orange hover:bg-orange-dark text-white font-semibold"
+          >
+            {isPending ? "Saving..." : "Save View"}
+          </Button>
+        </form>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+/**
+ * Team Invitation Card Component
+ *
+ * Shown on the dashboard when a company's captain has invited the
+ * participant to register for the selected event (participants who
+ * already had an account when their team was registered). Accepting
+ * registers them with the details the captain entered, going to checkout
+ * if an entry fee is due; declining discards the invitation.
+ *
+ * @module components/team-invitation-card
+ */
+
+"use client"
+
+import { useState, useTransition } from "react"
+import { useRouter } from "next/navigation"
+import { Check, Users, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { acceptTeamInvitation, declineTeamInvitation } from "@/app/dashboard/actions"
+import type { TeamInvitation } from "@/lib/team-registration"
+
+/**
+ * Team invitation card component
+ *
+ * @param {Object} props - Component props
+ * @param {TeamInvitation} props.invitation - The invitation
+ * @param {string} props.eventName - The event's title
+ * @returns {JSX.Element} The rendered card
+ *
+ * @example
+ * // Used in app/dashboard/page.tsx
+ * <TeamInvitationCard invitation={invitation} eventName={eventTitle(selectedEvent)} />
+ */
+export default function TeamInvitationCard({
+  invitation,
+  eventName,
+}: {
+  invitation: TeamInvitation
+  eventName: string
+}) {
+  const router = useRouter()
+
+  // Pending state while the invitation is accepted or declined
+  const [isPending, startTransition] = useTransition()
+
+  // Error message state for displaying action errors
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Accepts the invitation, going to checkout if a payment is due
+   */
+  const handleAccept = () => {
+    setError(null)
+    startTransition(async () => {
+      const result = await acceptTeamInvitation(invitation.id)
+      if (result.error) {
+        setError(result.error)
+      } else if (result.checkoutUrl) {
+        // Leave the app for the payment provider's checkout page
+        window.location.href = result.checkoutUrl
+      } else {
+        router.refresh()
+      }
+    })
+  }
+
+  /**
+   * Confirms intent and declines the invitation
+   */
+  const handleDecline = () => {
+    if (!window.confirm(`Decline ${invitation.company_name}'s invitation? You can still register yourself.`)) {
+      return
+    }
+
+    setError(null)
+    startTransition(async () => {
+      const result = await declineTeamInvitation(invitation.id)
+      if (result.error) setError(result.error)
+    })
+  }
+
+  const details = [
+    { label: "Race Category", value: invitation.category?.name ?? "Not set" },
+    { label: "Name", value: invitation.full_name },
+    { label: "Corporate Email", value: invitation.corporate_email },
+    { label: "Employee ID", value: invitation.employee_id },
+    { label: "T-shirt Size", value: invitation.tshirt_size },
+    { label: "Emergency Contact", value: `${invitation.emergency_contact} (${invitation.emergency_phone})` },
+  ]
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-8 mb-8 border-l-4 border-orange">
+      <div className="flex items-start space-x-3 mb-6">
+        <div className="bg-orange/10 p-3 rounded-lg">
+          <Users className="w-6 h-6 text-orange" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold text-navy mb-1">Your team is waiting</h2>
+          <p className="text-gray-600">
+            {invitation.company_name} has invited you to register for {eventName}. Check your details and accept to
+            register.
+          </p>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        {details.map((detail) => (
+          <div key={detail.label}>
+            <dt className="text-sm text-gray-500">{detail.label}</dt>
+            <dd className="font-semibold text-navy">{detail.value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="flex flex-wrap gap-3">
+        <Button
+          type="button"
+          onClick={handleAccept}
+          disabled={isPending}
+          className="bg-orange hover:bg-orange/90 text-white font-semibold"
+        >
+          <Check className="w-4 h-4 mr-2" />
+          {isPending ? "Saving..." : "Accept and Register"}
+        </Button>
+        <Button
+          type="button"
+          onClick={handleDecline}
+          disabled={isPending}
+          className="bg-white border border-gray-300 text-gray-700 hover:bg-gray-50 font-semibold"
+        >
+          <X className="w-4 h-4 mr-2" />
+          Decline
+        </Button>
+      </div>
+      {error && <p className="mt-3 text-sm text-red-500">{error}</p>}
+    </div>
+  )
+}
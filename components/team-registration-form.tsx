@@ -0,0 +1,374 @@
+/**
+ * Team Registration Form Component
+ *
+ * Grid for registering a company's employees in bulk. The captain types
+ * employees in row by row or imports a CSV (read in the browser), fixes any
+ * rows flagged by validation, and submits the team. Each employee is
+ * emailed an invitation to claim their registration.
+ *
+ * Features:
+ * - Client-side validation of every row using Zod (the same rules as the
+ *   registration form, re-checked on the server)
+ * - CSV import matching race categories by name
+ * - Per-row report of the submission; rows that succeeded are removed from
+ *   the grid so failed ones can be fixed and submitted again
+ *
+ * @module components/team-registration-form
+ */
+
+"use client"
+
+import { useRef, useState, useTransition } from "react"
+import { useFieldArray, useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Plus, Send, Trash2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { TSHIRT_SIZES } from "@/lib/company-portal"
+import type { EventCategory } from "@/lib/events"
+import {
+  MAX_TEAM_SIZE,
+  emptyTeamMember,
+  parseTeamCsv,
+  teamSchema,
+  type TeamFormData,
+  type TeamMember,
+  type TeamRowResult,
+} from "@/lib/team-registration"
+import { cn } from "@/lib/utils"
+import { registerTeam } from "@/app/company/team/actions"
+
+/**
+ * Text input columns of the grid, in display order
+ */
+const TEXT_COLUMNS: { field: keyof TeamMember; label: string; type?: string }[] = [
+  { field: "fullName", label: "Full Name" },
+  { field: "corporateEmail", label: "Corporate Email", type: "email" },
+  { field: "employeeId", label: "Employee ID" },
+]
+
+/**
+ * Emergency contact columns, shown after the selects
+ */
+const CONTACT_COLUMNS: { field: keyof TeamMember; label: string; type?: string }[] = [
+  { field: "emergencyContact", label: "Emergency Contact" },
+  { field: "emergencyPhone", label: "Emergency Phone", type: "tel" },
+]
+
+/**
+ * Badge styles for each row outcome
+ */
+const outcomeStyles: Record<TeamRowResult["outcome"], string> = {
+  invited: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+}
+
+/**
+ * Team registration form component
+ *
+ * @param {Object} props - Component props
+ * @param {string} props.companyId - The captain's company
+ * @param {string} props.companyName - The company's name, shown in the instructions
+ * @param {string} props.eventId - The event to register for
+ * @param {EventCategory[]} props.categories - The event's race categories
+ * @returns {JSX.Element} The rendered grid and submission report
+ *
+ * @example
+ * // Used in app/company/team/page.tsx
+ * <TeamRegistrationForm companyId={company.id} companyName={company.name} eventId={event.id} categories={categories} />
+ */
+export default function TeamRegistrationForm({
+  companyId,
+  companyName,
+  eventId,
+  categories,
+}: {
+  companyId: string
+  companyName: string
+  eventId: string
+  categories: EventCategory[]
+}) {
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors },
+  } = useForm<TeamFormData>({
+    resolver: zodResolver(teamSchema),
+    defaultValues: { members: [emptyTeamMember()] },
+  })
+  const { fields, append, remove } = useFieldArray({ control, name: "members" })
+
+  // Pending state while the team is submitted
+  const [isPending, startTransition] = useTransition()
+
+  // Error message for the whole form (CSV import or submission)
+  const [error, setError] = useState<string | null>(null)
+
+  // Report from the last submission
+  const [report, setReport] = useState<TeamRowResult[] | null>(null)
+
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  /**
+   * Replaces the grid with the rows of a CSV file
+   *
+   * @param {React.ChangeEvent<HTMLInputElement>} e - File input change event
+   */
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const { members, error: importError } = parseTeamCsv(await file.text(), categories)
+    if (fileInputRef.current) fileInputRef.current.value = ""
+
+    if (importError || members.length === 0) {
+      setError(importError ?? "No employees were found in the file")
+      return
+    }
+
+    setError(null)
+    setReport(null)
+    reset({ members })
+  }
+
+  /**
+   * Submits the team and keeps only the rows that failed
+   *
+   * @param {TeamFormData} data - The validated grid
+   */
+  const onSubmit = (data: TeamFormData) => {
+    setError(null)
+    setReport(null)
+    startTransition(async () => {
+      const result = await registerTeam(companyId, eventId, data.members)
+      if (result.error || !result.rows) {
+        setError(result.error ?? "We couldn't register the team")
+        return
+      }
+
+      setReport(result.rows)
+      const failed = result.rows.filter((row) => row.outcome === "failed").map((row) => data.members[row.index])
+      reset({ members: failed.length > 0 ? failed : [emptyTeamMember()] })
+    })
+  }
+
+  /**
+   * Renders a text input cell with its validation message
+   *
+   * @param {number} index - Row index
+   * @param {Object} column - The column
+   * @returns {JSX.Element} The table cell
+   */
+  const textCell = (index: number, column: { field: keyof TeamMember; label: string; type?: string }) => {
+    const message = errors.members?.[index]?.[column.field]?.message
+    return (
+      <TableCell key={column.field} className="align-top min-w-40">
+        <Input
+          type={column.type ?? "text"}
+          aria-label={`${column.label}, row ${index + 1}`}
+          {...register(`members.${index}.${column.field}`)}
+          className={cn("h-9", message && "border-red-500")}
+        />
+        {message && <p className="mt-1 text-xs text-red-500">{message}</p>}
+      </TableCell>
+    )
+  }
+
+  const successCount = report?.filter((row) => row.outcome !== "failed").length ?? 0
+  const failedCount = (report?.length ?? 0) - successCount
+  const selectClass = "w-full h-9 rounded-md border px-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+        <h2 className="text-xl font-bold text-navy mb-2">Employees</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Add up to {MAX_TEAM_SIZE} {companyName} employees, or import a CSV with <strong>Full Name</strong>,{" "}
+          <strong>Email</strong>, <strong>Employee ID</strong>, <strong>Category</strong>,{" "}
+          <strong>T-shirt Size</strong>, <strong>Emergency Contact</strong> and <strong>Emergency Phone</strong>{" "}
+          columns. Each employee gets an email to claim their registration and set a password; anyone who already
+          has an account is invited to accept the registration from their dashboard instead.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleImport}
+            className="hidden"
+            aria-label="Import CSV"
+          />
+          <Button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isPending}
+            className="bg-transparent border-2 border-navy text-navy hover:bg-navy hover:text-white font-semibold"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Import CSV
+          </Button>
+          <span className="text-sm text-gray-500">Importing replaces the rows below.</span>
+        </div>
+
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  <TableHead className="font-semibold text-navy">#</TableHead>
+                  {TEXT_COLUMNS.map((column) => (
+                    <TableHead key={column.field} className="font-semibold text-navy">
+                      {column.label}
+                    </TableHead>
+                  ))}
+                  <TableHead className="font-semibold text-navy">Category</TableHead>
+                  <TableHead className="font-semibold text-navy">T-shirt</TableHead>
+                  {CONTACT_COLUMNS.map((column) => (
+                    <TableHead key={column.field} className="font-semibold text-navy">
+                      {column.label}
+                    </TableHead>
+                  ))}
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map((field, index) => {
+                  const rowErrors = errors.members?.[index]
+                  return (
+                    <TableRow key={field.id}>
+                      <TableCell className="align-top pt-4 text-sm text-gray-500">{index + 1}</TableCell>
+                      {TEXT_COLUMNS.map((column) => textCell(index, column))}
+                      <TableCell className="align-top min-w-36">
+                        <select
+                          aria-label={`Category, row ${index + 1}`}
+                          {...register(`members.${index}.categoryId`)}
+                          className={cn(selectClass, rowErrors?.categoryId ? "border-red-500" : "border-input")}
+                        >
+                          <option value="">Select</option>
+                          {categories.map((category) => (
+                            <option key={category.id} value={category.id}>
+                              {category.name}
+                            </option>
+                          ))}
+                        </select>
+                        {rowErrors?.categoryId && (
+                          <p className="mt-1 text-xs text-red-500">{rowErrors.categoryId.message}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="align-top min-w-24">
+                        <select
+                          aria-label={`T-shirt size, row ${index + 1}`}
+                          {...register(`members.${index}.tshirtSize`)}
+                          className={cn(selectClass, rowErrors?.tshirtSize ? "border-red-500" : "border-input")}
+                        >
+                          <option value="">Size</option>
+                          {TSHIRT_SIZES.map((size) => (
+                            <option key={size} value={size}>
+                              {size}
+                            </option>
+                          ))}
+                        </select>
+                        {rowErrors?.tshirtSize && (
+                          <p className="mt-1 text-xs text-red-500">Please select a T-shirt size</p>
+                        )}
+                      </TableCell>
+                      {CONTACT_COLUMNS.map((column) => textCell(index, column))}
+                      <TableCell className="align-top">
+                        <button
+                          type="button"
+                          onClick={() => remove(index)}
+                          disabled={fields.length === 1 || isPending}
+                          aria-label={`Remove row ${index + 1}`}
+                          className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          {errors.members?.root?.message && (
+            <p className="mt-2 text-sm text-red-500">{errors.members.root.message}</p>
+          )}
+          {errors.members?.message && <p className="mt-2 text-sm text-red-500">{errors.members.message}</p>}
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mt-6">
+            <Button
+              type="button"
+              onClick={() => append(emptyTeamMember())}
+              disabled={isPending || fields.length >= MAX_TEAM_SIZE}
+              className="bg-transparent border-2 border-navy text-navy hover:bg-navy hover:text-white font-semibold"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Row
+            </Button>
+            <Button type="submit" disabled={isPending} className="bg-orange hover:bg-orange-dark text-white font-semibold">
+              <Send className="w-4 h-4 mr-2" />
+              {isPending ? `Registering ${fields.length} employees...` : `Register ${fields.length} Employees`}
+            </Button>
+          </div>
+        </form>
+
+        {error && (
+          <div className="mt-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md text-sm">{error}</div>
+        )}
+      </div>
+
+      {report && (
+        <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-6">
+          <h2 className="text-xl font-bold text-navy mb-2">Submission Report</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {successCount} invited, {failedCount} failed.
+            {failedCount > 0 && " The failed rows are back in the grid above; fix them and submit again."}
+          </p>
+          <div className="overflow-x-auto border border-gray-200 rounded-md max-h-96">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  <TableHead className="font-semibold text-navy">Row</TableHead>
+                  <TableHead className="font-semibold text-navy">Corporate Email</TableHead>
+                  <TableHead className="font-semibold text-navy">Result</TableHead>
+                  <TableHead className="font-semibold text-navy">Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.map((row) => (
+                  <TableRow key={row.index}>
+                    <TableCell className="font-mono">{row.index + 1}</TableCell>
+                    <TableCell className="text-sm text-gray-600">{row.corporateEmail || "—"}</TableCell>
+                    <TableCell>
+                      <span
+                        className={cn(
+                          "px-2 py-1 rounded-full text-xs font-semibold capitalize",
+                          outcomeStyles[row.outcome]
+                        )}
+                      >
+                        {row.outcome}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-sm">{row.error ?? row.note ?? ""}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
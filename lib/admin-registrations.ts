@@ -0,0 +1,332 @@
+/**
+ * Admin registration list
+ *
+ * The query behind the registrations table at /admin. Sorting, filtering
+ * and pagination happen in the database so an edition with thousands of
+ * registrations loads one page at a time. Searching and facet filtering use
+ * search_admin_registrations() in supabase_schema.sql, and the facet counts
+ * admin_registration_facets(), so both apply the same rules.
+ *
+ * The table's state lives in the URL (`?q=&status=&tshirt=&company=
+ * &category=&from=&to=&sort=&dir=&page=&size=&cols=`, facets and columns as
+ * comma-separated lists) so a view can be shared or saved (lib/admin-views);
+ * parseAdminRegistrationQuery reads it on the server and the table writes
+ * it back as the admin browses.
+ *
+ * @module lib/admin-registrations
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { parseList } from "@/lib/companies"
+import type { PaymentSummary } from "@/lib/registrations"
+import type { RosterStatus } from "@/lib/rosters"
+
+/**
+ * Registration data structure as listed in the admin table
+ *
+ * Matches the structure of the registrations table in Supabase, with the
+ * embedded payments and company aliases selected by
+ * ADMIN_REGISTRATION_COLUMNS.
+ */
+export interface AdminRegistration {
+  id: string
+  user_id: string
+  event_id: string
+  category_id: string | null
+  full_name: string
+  corporate_email: string
+  /** When the participant verified the corporate email (null = unverified) */
+  corporate_email_verified_at: string | null
+  employee_id: string
+  /** Result of checking the employee ID against the company's roster (null = no roster) */
+  roster_status: RosterStatus | null
+  company_id: string | null
+  company_name: string
+  tshirt_size: string
+  emergency_contact: string
+  emergency_phone: string
+  registration_date: string
+  status: string
+  /** Why an admin last changed the status (shown to the participant) */
+  status_reason: string | null
+  /** Race bib, assigned when the registration is confirmed */
+  bib_number: number | null
+  /** Payment attempts for the registration (empty for free categories) */
+  payments?: PaymentSummary[]
+  /** The linked directory company, whose aliases also match the search */
+  company?: { aliases: string[] } | null
+  /** The race-day check-in (kit pickup), or null if not checked in yet */
+  checkin?: { checked_in_at: string } | null
+}
+
+/**
+ * A row returned by search_admin_registrations() with
+ * ADMIN_REGISTRATION_COLUMNS; one-to-one embeds usually come back as an
+ * object, but may be an array
+ */
+interface AdminRegistrationRow extends Omit<AdminRegistration, "checkin"> {
+  checkin?: { checked_in_at: string } | { checked_in_at: string }[] | null
+}
+
+/**
+ * Columns selected for the admin table
+ */
+export const ADMIN_REGISTRATION_COLUMNS =
+  "*, payments(status, amount_paise, paid_at, created_at), company:companies(aliases), checkin:checkins(checked_in_at)"
+
+/**
+ * Columns the table can be sorted by (registrations columns)
+ */
+export const ADMIN_SORT_COLUMNS = [
+  "bib_number",
+  "full_name",
+  "corporate_email",
+  "employee_id",
+  "company_name",
+  "tshirt_size",
+  "registration_date",
+  "status",
+] as const
+
+/**
+ * A column the table can be sorted by
+ */
+export type AdminSortColumn = (typeof ADMIN_SORT_COLUMNS)[number]
+
+/**
+ * Rows per page the admin can choose from
+ */
+export const ADMIN_PAGE_SIZES = [25, 50, 100, 250, 500]
+
+/**
+ * Rows per page when none is chosen
+ */
+export const DEFAULT_ADMIN_PAGE_SIZE = 50
+
+/**
+ * Facets the table can be filtered by, with the URL parameter of each
+ */
+export const ADMIN_FACETS = {
+  status: "status",
+  tshirt_size: "tshirt",
+  company: "company",
+  category: "category",
+} as const
+
+/**
+ * A facet the table can be filtered by
+ */
+export type AdminFacet = keyof typeof ADMIN_FACETS
+
+/**
+ * One option of a facet and how many matching registrations have it
+ */
+export interface FacetCount {
+  value: string
+  label: string
+  count: number
+}
+
+/**
+ * The options of every facet, most common first
+ */
+export type AdminFacetCounts = Record<AdminFacet, FacetCount[]>
+
+/**
+ * The registrations table's state: filters, sort, page and columns
+ */
+export interface AdminRegistrationQuery {
+  /** Text to look for in the name, email, employee ID, phone, company or bib ("" = all) */
+  search: string
+  /** Options ticked in each facet (none = all) */
+  facets: Record<AdminFacet, string[]>
+  /** First registration date to include (YYYY-MM-DD, "" = no limit) */
+  from: string
+  /** Last registration date to include (YYYY-MM-DD, "" = no limit) */
+  to: string
+  sort: AdminSortColumn
+  direction: "asc" | "desc"
+  /** Page number, starting at 1 */
+  page: number
+  pageSize: number
+  /** Ids of the columns shown, in order (empty = every column in the default order) */
+  columns: string[]
+}
+
+/**
+ * The table's state when the URL sets nothing: newest registrations first
+ */
+export const DEFAULT_ADMIN_QUERY: AdminRegistrationQuery = {
+  search: "",
+  facets: { status: [], tshirt_size: [], company: [], category: [] },
+  from: "",
+  to: "",
+  sort: "registration_date",
+  direction: "desc",
+  page: 1,
+  pageSize: DEFAULT_ADMIN_PAGE_SIZE,
+  columns: [],
+}
+
+/**
+ * Matches a YYYY-MM-DD date
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Reads the table's state from URL search parameters
+ *
+ * Unknown sort columns and page sizes and malformed dates fall back to the
+ * defaults. Column ids are checked by the table, which defines the columns.
+ *
+ * @param {Record<string, string | undefined>} params - The page's search parameters
+ * @returns {AdminRegistrationQuery} The table state
+ *
+ * @example
+ * const query = parseAdminRegistrationQuery(searchParams)
+ */
+export function parseAdminRegistrationQuery(params: Record<string, string | undefined>): AdminRegistrationQuery {
+  const sort = ADMIN_SORT_COLUMNS.find((column) => column === params.sort) ?? DEFAULT_ADMIN_QUERY.sort
+  const pageSize = Number(params.size)
+
+  const date = (value?: string) => (value && DATE_PATTERN.test(value) ? value : "")
+
+  return {
+    search: params.q?.trim() ?? "",
+    facets: {
+      status: parseList(params[ADMIN_FACETS.status]),
+      tshirt_size: parseList(params[ADMIN_FACETS.tshirt_size]),
+      company: parseList(params[ADMIN_FACETS.company]),
+      category: parseList(params[ADMIN_FACETS.category]),
+    },
+    from: date(params.from),
+    to: date(params.to),
+    sort,
+    direction: params.dir === "asc" || params.dir === "desc" ? params.dir : DEFAULT_ADMIN_QUERY.direction,
+    page: Math.max(parseInt(params.page ?? "", 10) || 1, 1),
+    pageSize: ADMIN_PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_ADMIN_PAGE_SIZE,
+    columns: parseList(params.cols),
+  }
+}
+
+/**
+ * Matches a UUID
+ */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Returns the arguments of search_admin_registrations() and
+ * admin_registration_facets() for the table's filters
+ *
+ * Ids that are not UUIDs are dropped so a hand-edited URL cannot make the
+ * query fail.
+ *
+ * @param {string} eventId - The event
+ * @param {AdminRegistrationQuery} query - The table state
+ * @returns {Record<string, unknown>} The function arguments
+ */
+function searchArgs(eventId: string, query: AdminRegistrationQuery): Record<string, unknown> {
+  const uuids = (ids: string[]) => ids.filter((id) => UUID_PATTERN.test(id))
+
+  return {
+    p_event_id: eventId,
+    p_query: query.search || null,
+    p_statuses: query.facets.status,
+    p_tshirt_sizes: query.facets.tshirt_size,
+    p_company_ids: uuids(query.facets.company),
+    p_category_ids: uuids(query.facets.category),
+    p_from: query.from || null,
+    p_to: query.to || null,
+  }
+}
+
+/**
+ * Returns whether the table state filters anything out
+ *
+ * @param {AdminRegistrationQuery} query - The table state
+ * @returns {boolean} True if a search, facet or date filter is set
+ */
+export function hasAdminFilters(query: AdminRegistrationQuery): boolean {
+  return !!(query.search || query.from || query.to || Object.values(query.facets).some((values) => values.length > 0))
+}
+
+/**
+ * Fetches the registrations of an event matching the table's search and
+ * filters, sorted in the database
+ *
+ * Only the query's page is returned; `total` is the exact number of
+ * matching registrations. A failed request is reported as no matches, with
+ * `failed` set.
+ *
+ * @param {SupabaseClient} supabase - Supabase client acting as an admin
+ * @param {string} eventId - The event
+ * @param {AdminRegistrationQuery} query - Search, filters, sort and page
+ * @returns {Promise<{ registrations: AdminRegistration[]; total: number; failed: boolean }>} The registrations and how many match
+ *
+ * @example
+ * const { registrations, total } = await getAdminRegistrations(supabase, event.id, query)
+ */
+export async function getAdminRegistrations(
+  supabase: SupabaseClient,
+  eventId: string,
+  query: AdminRegistrationQuery
+): Promise<{ registrations: AdminRegistration[]; total: number; failed: boolean }> {
+  const start = (query.page - 1) * query.pageSize
+  const { data, error, count } = await supabase
+    .rpc("search_admin_registrations", searchArgs(eventId, query), { count: "exact" })
+    .select(ADMIN_REGISTRATION_COLUMNS)
+    .order(query.sort, { ascending: query.direction === "asc", nullsFirst: false })
+    .order("id")
+    .range(start, start + query.pageSize - 1)
+
+  if (error) {
+    console.error("Error fetching registrations:", error)
+    return { registrations: [], total: 0, failed: true }
+  }
+
+  const rows = (data as AdminRegistrationRow[] | null) ?? []
+  const registrations: AdminRegistration[] = rows.map((row) => ({
+    ...row,
+    checkin: (Array.isArray(row.checkin) ? row.checkin[0] : row.checkin) ?? null,
+  }))
+  return { registrations, total: count ?? 0, failed: false }
+}
+
+/**
+ * Fetches the facet counts for the table's search and filters
+ *
+ * Each facet is counted with every other filter applied, so ticking an
+ * option adds the registrations its count shows.
+ *
+ * @param {SupabaseClient} supabase - Supabase client acting as an admin
+ * @param {string} eventId - The event
+ * @param {AdminRegistrationQuery} query - Search and filters (sort and page are ignored)
+ * @returns {Promise<AdminFacetCounts>} The options of each facet, most common first
+ *
+ * @example
+ * const facets = await getAdminFacetCounts(supabase, event.id, query)
+ * facets.status // [{ value: "confirmed", label: "confirmed", count: 812 }, ...]
+ */
+export async function getAdminFacetCounts(
+  supabase: SupabaseClient,
+  eventId: string,
+  query: AdminRegistrationQuery
+): Promise<AdminFacetCounts> {
+  const facets: AdminFacetCounts = { status: [], tshirt_size: [], company: [], category: [] }
+
+  const { data, error } = await supabase.rpc("admin_registration_facets", searchArgs(eventId, query))
+  if (error) {
+    console.error("Error fetching facet counts:", error)
+    return facets
+  }
+
+  const rows = (data as { facet: AdminFacet; value: string; label: string | null; count: number }[] | null) ?? []
+  rows.forEach((row) => {
+    facets[row.facet]?.push({ value: row.value, label: row.label ?? row.value, count: Number(row.count) })
+  })
+
+  Object.values(facets).forEach((options) =>
+    options.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+  )
+  return facets
+}
@@ -0,0 +1,124 @@
+/**
+ * Saved admin views
+ *
+ * Named layouts of the registrations table at /admin: which columns are
+ * shown and in what order, the search and filters, and the sort. A view
+ * stores the table's URL search parameters (see lib/admin-registrations),
+ * so opening one is just loading /admin with them. Views are private to
+ * the admin who saved them unless shared with every admin; RLS on
+ * admin_views enforces who can see and change them.
+ *
+ * @module lib/admin-views
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import * as z from "zod"
+import { ADMIN_FACETS } from "@/lib/admin-registrations"
+
+/**
+ * Saved view
+ *
+ * Matches the structure of the admin_views table in Supabase.
+ */
+export interface AdminView {
+  id: string
+  /** The admin who saved the view; only they can change or delete it */
+  owner_id: string
+  name: string
+  /** True if every admin can open the view */
+  shared: boolean
+  /** The table's URL search parameters, e.g. "status=confirmed&cols=bib_number,full_name" */
+  params: string
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * URL search parameters a view keeps
+ *
+ * The event, page and the view itself are left out, so a view can be
+ * opened for any event and always starts on the first page.
+ */
+export const ADMIN_VIEW_PARAMS: string[] = [
+  "q",
+  ...Object.values(ADMIN_FACETS),
+  "from",
+  "to",
+  "sort",
+  "dir",
+  "size",
+  "cols",
+]
+
+/**
+ * Validation schema for saving a view
+ */
+export const adminViewSchema = z.object({
+  name: z.string().trim().min(1, "Please name the view").max(60, "Name must be at most 60 characters"),
+  shared: z.boolean(),
+})
+
+/**
+ * Type inferred from adminViewSchema
+ */
+export type AdminViewFormData = z.infer<typeof adminViewSchema>
+
+/**
+ * Keeps only the search parameters a view saves
+ *
+ * @param {string} search - URL search parameters, e.g. "event=fall-2025&status=confirmed&page=3"
+ * @returns {string} The view's parameters, e.g. "status=confirmed"
+ *
+ * @example
+ * toViewParams(searchParams.toString())
+ */
+export function toViewParams(search: string): string {
+  const all = new URLSearchParams(search)
+  const params = new URLSearchParams()
+  ADMIN_VIEW_PARAMS.forEach((key) => {
+    const value = all.get(key)
+    if (value) {
+      params.set(key, value)
+    }
+  })
+  return params.toString()
+}
+
+/**
+ * Builds the /admin URL that opens a view for an event
+ *
+ * @param {AdminView} view - The view
+ * @param {string} [eventSlug] - The event to show (default: the next event)
+ * @returns {string} The URL
+ *
+ * @example
+ * router.push(adminViewHref(view, "fall-2025"))
+ */
+export function adminViewHref(view: AdminView, eventSlug?: string): string {
+  const params = new URLSearchParams(toViewParams(view.params))
+  if (eventSlug) {
+    params.set("event", eventSlug)
+  }
+  params.set("view", view.id)
+  return `/admin?${params.toString()}`
+}
+
+/**
+ * Fetches the views the admin can open: their own and shared ones, by name
+ *
+ * @param {SupabaseClient} supabase - Supabase client acting as an admin
+ * @returns {Promise<AdminView[]>} The views, or an empty array on error
+ *
+ * @example
+ * const views = await getAdminViews(supabase)
+ */
+export async function getAdminViews(supabase: SupabaseClient): Promise<AdminView[]> {
+  const { data, error } = await supabase.from("admin_views").select("*").order("name")
+
+  if (error) {
+    console.error("Error fetching saved views:", error)
+    return []
+  }
+
+  return (data as AdminView[]) ?? []
+}
@@ -0,0 +1,98 @@
+/**
+ * Admin helpers
+ *
+ * Server-side helpers used by admin, check-in and company roster server
+ * actions to check the caller's role before doing anything. RLS policies
+ * enforce the same rules in the database; these checks give a clear error
+ * message up front.
+ *
+ * @module lib/admin
+ */
+
+import type { SupabaseClient, User } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/server"
+import { getUserRole, hasRole, type UserRole } from "@/lib/roles"
+
+/**
+ * Roles allowed to run race-day check-in at /checkin
+ */
+const CHECKIN_ROLES: UserRole[] = ["admin", "volunteer"]
+
+/**
+ * An authenticated admin and a Supabase client acting as them
+ */
+export interface AdminSession {
+  supabase: SupabaseClient
+  user: User
+}
+
+/**
+ * Returns the current admin session
+ *
+ * @returns {Promise<AdminSession | null>} The session, or null if the caller is not a signed-in admin
+ */
+export async function getAdminSession(): Promise<AdminSession | null> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user || getUserRole(user) !== "admin") {
+    return null
+  }
+
+  return { supabase, user }
+}
+
+/**
+ * Returns whether a user may run race-day check-in (volunteers and admins)
+ *
+ * @param {User} user - The signed-in user
+ * @returns {boolean} True if the user has a check-in role
+ */
+export function isCheckinStaff(user: User): boolean {
+  return hasRole(user, CHECKIN_ROLES)
+}
+
+/**
+ * Returns the current check-in session (a volunteer or admin)
+ *
+ * @returns {Promise<AdminSession | null>} The session, or null if the caller is not signed-in check-in staff
+ */
+export async function getCheckinSession(): Promise<AdminSession | null> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user || !isCheckinStaff(user)) {
+    return null
+  }
+
+  return { supabase, user }
+}
+
+/**
+ * Returns a session for managing a company's roster and entries: an admin,
+ * or one of the company's coordinators
+ *
+ * @param {string} companyId - The company
+ * @returns {Promise<AdminSession | null>} The session, or null if the caller may not manage the company
+ */
+export async function getCompanySession(companyId: string): Promise<AdminSession | null> {
+  const supabase = await createClient()
+  const {
+    data: { user },
+  } = await supabase.auth.getUser()
+
+  if (!user) {
+    return null
+  }
+
+  if (getUserRole(user) === "admin") {
+    return { supabase, user }
+  }
+
+  const { data: isCoordinator } = await supabase.rpc("is_company_coordinator", { p_company_id: companyId })
+  return isCoordinator ? { supabase, user } : null
+}
@@ -0,0 +1,199 @@
+/**
+ * Audit log helpers
+ *
+ * Types and queries for the audit log at /admin/audit. Entries are written
+ * only by database triggers (`record_audit_log` and `record_role_change`
+ * in supabase_schema.sql) whenever an admin changes registrations, roles,
+ * content or settings, so the app only ever reads them.
+ *
+ * @module lib/audit-log
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * Kinds of change recorded (mirrors the CHECK constraint on audit_log.action)
+ */
+export type AuditAction = "insert" | "update" | "delete"
+
+/**
+ * Labels for each kind of change
+ */
+export const AUDIT_ACTIONS: Record<AuditAction, string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+}
+
+/**
+ * Audited tables and their labels, in the order shown in the filter
+ *
+ * `users` entries are role changes; only the email and role are stored.
+ */
+export const AUDIT_TABLES: Record<string, string> = {
+  registrations: "Registrations",
+  users: "User roles",
+  company_coordinators: "Company coordinators",
+  events: "Events",
+  event_categories: "Race categories",
+  pricing_tiers: "Pricing tiers",
+  promo_codes: "Promo codes",
+  bib_ranges: "Bib ranges",
+  companies: "Companies",
+  employee_rosters: "Employee rosters",
+  race_results: "Race results",
+}
+
+/**
+ * Entries shown per page
+ */
+export const AUDIT_PAGE_SIZE = 50
+
+/**
+ * Audit log entry
+ *
+ * Matches the structure of the audit_log table in Supabase.
+ */
+export interface AuditLogEntry {
+  id: number
+  /** The admin (or the user the server acted for) who made the change, or null if it was made outside the app */
+  actor_id: string | null
+  actor_email: string | null
+  action: AuditAction
+  target_table: string
+  /** The changed row's id (the user's id for roles and coordinators) */
+  target_id: string | null
+  /** The row before the change (null for inserts) */
+  old_data: Record<string, unknown> | null
+  /** The row after the change (null for deletes) */
+  new_data: Record<string, unknown> | null
+  created_at: string
+}
+
+/**
+ * Filters for browsing the audit log; every field is optional
+ */
+export interface AuditLogFilters {
+  table?: string
+  action?: string
+  /** Part of the actor's email */
+  actor?: string
+  /** Exact id of the changed row */
+  target?: string
+  /** First day to include (YYYY-MM-DD) */
+  from?: string
+  /** Last day to include (YYYY-MM-DD) */
+  to?: string
+}
+
+/**
+ * One field changed by an update
+ */
+export interface AuditFieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+/**
+ * Fields left out of the change list because every update touches them
+ */
+const IGNORED_FIELDS = ["updated_at"]
+
+/**
+ * Matches a YYYY-MM-DD date
+ */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Fetches a page of the audit log, newest first
+ *
+ * Unknown tables and actions and malformed dates are ignored rather than
+ * matching nothing. RLS only lets admins read the log.
+ *
+ * @param {SupabaseClient} supabase - Supabase client acting as an admin
+ * @param {AuditLogFilters} filters - The filters to apply
+ * @param {number} page - Page number, starting at 1
+ * @returns {Promise<{ entries: AuditLogEntry[]; total: number }>} The page's entries and the number of matching entries
+ *
+ * @example
+ * const { entries, total } = await getAuditLog(supabase, { table: "registrations" }, 1)
+ */
+export async function getAuditLog(
+  supabase: SupabaseClient,
+  filters: AuditLogFilters,
+  page: number
+): Promise<{ entries: AuditLogEntry[]; total: number }> {
+  const start = (Math.max(page, 1) - 1) * AUDIT_PAGE_SIZE
+  let query = supabase
+    .from("audit_log")
+    .select("*", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .range(start, start + AUDIT_PAGE_SIZE - 1)
+
+  if (filters.table && Object.hasOwn(AUDIT_TABLES, filters.table)) {
+    query = query.eq("target_table", filters.table)
+  }
+  if (filters.action && Object.hasOwn(AUDIT_ACTIONS, filters.action)) {
+    query = query.eq("action", filters.action)
+  }
+  if (filters.actor?.trim()) {
+    query = query.ilike("actor_email", `%${filters.actor.trim().replace(/[%_\\]/g, "\\$&")}%`)
+  }
+  if (filters.target?.trim()) {
+    query = query.eq("target_id", filters.target.trim())
+  }
+  if (filters.from && DATE_PATTERN.test(filters.from)) {
+    query = query.gte("created_at", `${filters.from}T00:00:00Z`)
+  }
+  if (filters.to && DATE_PATTERN.test(filters.to)) {
+    query = query.lte("created_at", `${filters.to}T23:59:59.999Z`)
+  }
+
+  const { data, error, count } = await query
+
+  if (error) {
+    console.error("Error fetching audit log:", error)
+    return { entries: [], total: 0 }
+  }
+
+  return { entries: (data as AuditLogEntry[]) ?? [], total: count ?? 0 }
+}
+
+/**
+ * Lists the fields an update changed
+ *
+ * @param {AuditLogEntry} entry - An audit log entry
+ * @returns {AuditFieldChange[]} The changed fields (empty for inserts and deletes)
+ *
+ * @example
+ * getChangedFields(entry) // [{ field: "status", before: "pending", after: "confirmed" }]
+ */
+export function getChangedFields(entry: AuditLogEntry): AuditFieldChange[] {
+  if (entry.action !== "update" || !entry.old_data || !entry.new_data) {
+    return []
+  }
+
+  const before = entry.old_data
+  const after = entry.new_data
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }))
+}
+
+/**
+ * Formats a recorded value for display
+ *
+ * @param {unknown} value - A value from old_data or new_data
+ * @returns {string} The value as text ("—" for empty values)
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") {
+    return "—"
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
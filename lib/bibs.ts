@@ -0,0 +1,59 @@
+/**
+ * Bib number helpers
+ *
+ * Types and validation for bib ranges. Bib numbers themselves are assigned
+ * by the database (`set_bib_number` trigger) when a registration becomes
+ * confirmed: the lowest free number in the category's ranges, then in the
+ * event-wide ranges.
+ *
+ * @module lib/bibs
+ */
+
+import * as z from "zod"
+
+/**
+ * Bib range data structure
+ *
+ * Matches the structure of the bib_ranges table in Supabase.
+ */
+export interface BibRange {
+  id: string
+  event_id: string
+  /** Category the range is reserved for, or null for the whole event */
+  category_id: string | null
+  range_start: number
+  range_end: number
+}
+
+/**
+ * Zod schema for adding a bib range in the admin screen
+ */
+export const bibRangeSchema = z
+  .object({
+    categoryId: z.string().optional(),
+    rangeStart: z.coerce.number().int("Use whole numbers").positive("Bib numbers start at 1"),
+    rangeEnd: z.coerce.number().int("Use whole numbers").positive("Bib numbers start at 1"),
+  })
+  .refine((data) => data.rangeEnd >= data.rangeStart, {
+    message: "The last bib must not be lower than the first",
+    path: ["rangeEnd"],
+  })
+
+/**
+ * TypeScript type inferred from the bib range schema
+ */
+export type BibRangeFormData = z.infer<typeof bibRangeSchema>
+
+/**
+ * Checks whether two bib ranges share any numbers
+ *
+ * @param {Pick<BibRange, "range_start" | "range_end">} a - First range
+ * @param {Pick<BibRange, "range_start" | "range_end">} b - Second range
+ * @returns {boolean} True if the ranges overlap
+ */
+export function bibRangesOverlap(
+  a: Pick<BibRange, "range_start" | "range_end">,
+  b: Pick<BibRange, "range_start" | "range_end">
+): boolean {
+  return a.range_start <= b.range_end && b.range_start <= a.range_end
+}
@@ -0,0 +1,239 @@
+/**
+ * Offline check-in storage
+ *
+ * Browser-only helpers that let the check-in console keep working when the
+ * venue network drops. Each device keeps in IndexedDB:
+ * - rosters: The confirmed participants of an event, refreshed while online,
+ *   so scans and searches can be answered locally
+ * - queue: Check-ins made on the device that have not been recorded in the
+ *   database yet; the console syncs them when the connection returns
+ *
+ * Ticket signatures cannot be verified offline (the signing secret stays on
+ * the server), so offline scans are accepted only for registrations on the
+ * cached roster of the event being checked in.
+ *
+ * @module lib/checkin-offline
+ */
+
+import type { CheckinParticipant, QueuedCheckin } from "@/lib/checkins"
+
+/**
+ * IndexedDB database name and schema version
+ */
+const DB_NAME = "silicon-mile-checkin"
+const DB_VERSION = 1
+
+/**
+ * Object store names
+ */
+const ROSTER_STORE = "rosters"
+const QUEUE_STORE = "queue"
+
+/**
+ * localStorage key holding this device's id
+ */
+const DEVICE_ID_KEY = "checkin-device-id"
+
+/**
+ * Prefix of e-ticket tokens (see lib/tickets)
+ */
+const TICKET_PREFIX = "SM1"
+
+/**
+ * An event's roster as cached on the device
+ */
+export interface CachedRoster {
+  eventId: string
+  participants: CheckinParticipant[]
+  /** When the roster was downloaded (ISO timestamp) */
+  cachedAt: string
+}
+
+/**
+ * Opens the check-in database, creating its stores on first use
+ *
+ * @returns {Promise<IDBDatabase>} The open database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(ROSTER_STORE)) {
+        db.createObjectStore(ROSTER_STORE, { keyPath: "eventId" })
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: "id" })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Runs work against one object store and waits for the transaction to commit
+ *
+ * @param {string} storeName - The store to use
+ * @param {IDBTransactionMode} mode - "readonly" or "readwrite"
+ * @param {(store: IDBObjectStore) => IDBRequest<T> | void} work - Issues the requests
+ * @returns {Promise<T | undefined>} The result of the request returned by `work`, if any
+ */
+async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = work(transaction.objectStore(storeName))
+    transaction.oncomplete = () => {
+      db.close()
+      resolve(request ? request.result : undefined)
+    }
+    transaction.onerror = transaction.onabort = () => {
+      db.close()
+      reject(transaction.error)
+    }
+  })
+}
+
+/**
+ * Returns this device's id, creating one on first use
+ *
+ * The id breaks ties between devices that checked in the same participant
+ * at the same moment, and is recorded with each check-in.
+ *
+ * @returns {string} The device id
+ */
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+  return deviceId
+}
+
+/**
+ * Stores an event's roster, replacing any previous copy
+ *
+ * @param {CachedRoster} roster - The roster to cache
+ */
+export async function saveRoster(roster: CachedRoster): Promise<void> {
+  await runTransaction(ROSTER_STORE, "readwrite", (store) => store.put(roster))
+}
+
+/**
+ * Loads the cached roster for an event
+ *
+ * @param {string} eventId - The event being checked in
+ * @returns {Promise<CachedRoster | null>} The cached roster, or null if none was downloaded yet
+ */
+export async function loadRoster(eventId: string): Promise<CachedRoster | null> {
+  const roster = await runTransaction<CachedRoster>(ROSTER_STORE, "readonly", (store) => store.get(eventId))
+  return roster ?? null
+}
+
+/**
+ * Adds a check-in to the sync queue
+ *
+ * @param {QueuedCheckin} checkin - The check-in made on this device
+ */
+export async function enqueueCheckin(checkin: QueuedCheckin): Promise<void> {
+  await runTransaction(QUEUE_STORE, "readwrite", (store) => store.put(checkin))
+}
+
+/**
+ * Returns the queued check-ins for an event, oldest first
+ *
+ * @param {string} eventId - The event being checked in
+ * @returns {Promise<QueuedCheckin[]>} Check-ins not yet recorded in the database
+ */
+export async function getQueuedCheckins(eventId: string): Promise<QueuedCheckin[]> {
+  const queue = await runTransaction<QueuedCheckin[]>(QUEUE_STORE, "readonly", (store) => store.getAll())
+  return (queue ?? [])
+    .filter((checkin) => checkin.eventId === eventId)
+    .sort((a, b) => a.checkedInAt.localeCompare(b.checkedInAt))
+}
+
+/**
+ * Removes synced check-ins from the queue
+ *
+ * @param {string[]} ids - Queue entry ids to remove
+ */
+export async function removeQueuedCheckins(ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+  await runTransaction(QUEUE_STORE, "readwrite", (store) => {
+    ids.forEach((id) => store.delete(id))
+  })
+}
+
+/**
+ * Marks roster participants with check-ins still waiting in the queue
+ *
+ * @param {CheckinParticipant[]} participants - The cached roster
+ * @param {QueuedCheckin[]} queue - The event's queued check-ins
+ * @param {string} userId - The signed-in volunteer
+ * @returns {CheckinParticipant[]} The roster with queued check-ins applied
+ */
+export function applyQueuedCheckins(
+  participants: CheckinParticipant[],
+  queue: QueuedCheckin[],
+  userId: string
+): CheckinParticipant[] {
+  const queued = new Map(queue.map((checkin) => [checkin.registrationId, checkin]))
+  return participants.map((participant) => {
+    const checkin = queued.get(participant.id)
+    if (!checkin || participant.checkin) return participant
+    return {
+      ...participant,
+      checkin: {
+        checked_in_at: checkin.checkedInAt,
+        checked_in_by: userId,
+        device_id: checkin.deviceId,
+        pending: true,
+      },
+    }
+  })
+}
+
+/**
+ * Finds roster participants by bib number, email or employee ID
+ *
+ * Matches the same way as the online search in lib/checkins.
+ *
+ * @param {CheckinParticipant[]} participants - The cached roster
+ * @param {string} query - Bib number, email or employee ID
+ * @returns {CheckinParticipant[]} Matching participants
+ */
+export function searchRoster(participants: CheckinParticipant[], query: string): CheckinParticipant[] {
+  const term = query.trim().toLowerCase()
+  if (!term) return []
+
+  return participants.filter(
+    (participant) =>
+      participant.corporate_email.toLowerCase() === term ||
+      participant.employee_id.toLowerCase() === term ||
+      (/^\d+$/.test(term) && participant.bib_number === Number(term))
+  )
+}
+
+/**
+ * Finds the roster participant for a scanned e-ticket, without verifying
+ * its signature
+ *
+ * @param {CheckinParticipant[]} participants - The cached roster of the event being checked in
+ * @param {string} token - The contents of the scanned QR code
+ * @returns {CheckinParticipant | null} The participant, or null if the ticket is not on the roster
+ */
+export function findTicketInRoster(participants: CheckinParticipant[], token: string): CheckinParticipant | null {
+  const [prefix, registrationId, eventId] = token.trim().split(".")
+  if (prefix !== TICKET_PREFIX) return null
+
+  return (
+    participants.find((participant) => participant.id === registrationId && participant.event_id === eventId) ??
+    null
+  )
+}
@@ -0,0 +1,303 @@
+/**
+ * Check-in helpers
+ *
+ * Types and queries for race-day check-in at /checkin. Volunteers find a
+ * participant by scanning their e-ticket or searching by bib, email or
+ * employee ID, then record the check-in. Each registration can be checked
+ * in once (UNIQUE(registration_id) on checkins); a second attempt is
+ * reported as a duplicate with the original time.
+ *
+ * Check-ins made while the venue network is down are queued on the device
+ * (see lib/checkin-offline) and recorded later with the time they happened.
+ * When two devices checked in the same participant, `record_checkin` keeps
+ * the earliest check-in (ties going to the lower device id).
+ *
+ * The queries take a Supabase client so they work with both the server
+ * client (check-in actions) and the browser client (live admin counts).
+ *
+ * @module lib/checkins
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * How a participant was found when checked in
+ */
+export type CheckinMethod = "qr" | "search"
+
+/**
+ * A recorded check-in
+ */
+export interface Checkin {
+  checked_in_at: string
+  /** The volunteer (or admin) who checked the participant in */
+  checked_in_by: string
+  /** The device the check-in was made on */
+  device_id?: string
+  /** True while the check-in is queued on this device and not yet synced */
+  pending?: boolean
+}
+
+/**
+ * What happened to a check-in sent to the database
+ *
+ * - checked_in: Recorded (or had already been recorded by an earlier sync)
+ * - replaced: Recorded in place of a later check-in from another device
+ * - duplicate: The participant was already checked in earlier
+ */
+export type CheckinOutcome = "checked_in" | "replaced" | "duplicate"
+
+/**
+ * A check-in made on a device, waiting to be recorded in the database
+ */
+export interface QueuedCheckin {
+  /** Random id identifying the queue entry on the device */
+  id: string
+  registrationId: string
+  eventId: string
+  method: CheckinMethod
+  /** When the check-in happened on the device (ISO timestamp) */
+  checkedInAt: string
+  deviceId: string
+}
+
+/**
+ * What a volunteer sees about a participant at the check-in desk
+ */
+export interface CheckinParticipant {
+  id: string
+  event_id: string
+  full_name: string
+  corporate_email: string
+  employee_id: string
+  company_name: string
+  tshirt_size: string
+  emergency_contact: string
+  emergency_phone: string
+  bib_number: number | null
+  status: string
+  category_name: string | null
+  checkin: Checkin | null
+}
+
+/**
+ * Check-in numbers for an event
+ */
+export interface CheckinCounts {
+  checkedIn: number
+  /** Confirmed registrations, i.e. participants expected at the venue */
+  confirmed: number
+}
+
+/**
+ * Columns selected for a CheckinParticipant
+ */
+const PARTICIPANT_COLUMNS =
+  "id, event_id, full_name, corporate_email, employee_id, company_name, tshirt_size, emergency_contact, emergency_phone, bib_number, status, category:event_categories(name), checkin:checkins(checked_in_at, checked_in_by, device_id)"
+
+/**
+ * A registration row selected with PARTICIPANT_COLUMNS; one-to-one embeds
+ * usually come back as an object, but may be an array
+ */
+interface CheckinParticipantRow extends Omit<CheckinParticipant, "category_name" | "checkin"> {
+  category: { name: string } | null
+  checkin: Checkin | Checkin[] | null
+}
+
+/**
+ * Maximum number of search results shown to a volunteer
+ */
+const SEARCH_LIMIT = 10
+
+/**
+ * Rows fetched per request when downloading a roster
+ */
+const ROSTER_PAGE_SIZE = 1000
+
+/**
+ * Converts a registration row selected with PARTICIPANT_COLUMNS
+ *
+ * @param {CheckinParticipantRow} row - Registration row with category and checkin joined
+ * @returns {CheckinParticipant} The participant
+ */
+function toCheckinParticipant(row: CheckinParticipantRow): CheckinParticipant {
+  const { category, checkin, ...registration } = row
+  return {
+    ...registration,
+    category_name: category?.name ?? null,
+    checkin: (Array.isArray(checkin) ? checkin[0] : checkin) ?? null,
+  }
+}
+
+/**
+ * Escapes LIKE wildcards so a search term is matched literally
+ *
+ * @param {string} value - The search term
+ * @returns {string} The escaped term
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&")
+}
+
+/**
+ * Fetches a single participant for check-in
+ *
+ * @param {SupabaseClient} supabase - A Supabase client for check-in staff
+ * @param {string} registrationId - The registration to fetch
+ * @returns {Promise<CheckinParticipant | null>} The participant, or null if not found
+ */
+export async function getCheckinParticipant(
+  supabase: SupabaseClient,
+  registrationId: string
+): Promise<CheckinParticipant | null> {
+  const { data, error } = await supabase
+    .from("registrations")
+    .select(PARTICIPANT_COLUMNS)
+    .eq("id", registrationId)
+    .maybeSingle<CheckinParticipantRow>()
+
+  if (error) {
+    console.error("Error fetching check-in participant:", error)
+    return null
+  }
+
+  return data ? toCheckinParticipant(data) : null
+}
+
+/**
+ * Finds an event's participants by bib number, email or employee ID
+ *
+ * Email and employee ID are matched exactly but case-insensitively; a
+ * numeric query is also tried as a bib number. Cancelled registrations
+ * are left out.
+ *
+ * @param {SupabaseClient} supabase - A Supabase client for check-in staff
+ * @param {string} eventId - The event being checked in
+ * @param {string} query - Bib number, email or employee ID
+ * @returns {Promise<CheckinParticipant[]>} Matching participants
+ */
+export async function searchCheckinParticipants(
+  supabase: SupabaseClient,
+  eventId: string,
+  query: string
+): Promise<CheckinParticipant[]> {
+  const term = query.trim()
+  if (!term) return []
+
+  const base = () =>
+    supabase
+      .from("registrations")
+      .select(PARTICIPANT_COLUMNS)
+      .eq("event_id", eventId)
+      .neq("status", "cancelled")
+      .limit(SEARCH_LIMIT)
+
+  const searches = [
+    base().ilike("corporate_email", escapeLike(term)),
+    base().ilike("employee_id", escapeLike(term)),
+  ]
+  if (/^\d+$/.test(term)) {
+    searches.push(base().eq("bib_number", Number(term)))
+  }
+
+  const results = await Promise.all(searches.map((search) => search.returns<CheckinParticipantRow[]>()))
+
+  const participants = new Map<string, CheckinParticipant>()
+  for (const { data, error } of results) {
+    if (error) {
+      console.error("Error searching check-in participants:", error)
+      continue
+    }
+    for (const row of data ?? []) {
+      participants.set(row.id, toCheckinParticipant(row))
+    }
+  }
+  return Array.from(participants.values())
+}
+
+/**
+ * Fetches an event's confirmed participants, for caching on check-in devices
+ *
+ * @param {SupabaseClient} supabase - A Supabase client for check-in staff
+ * @param {string} eventId - The event being checked in
+ * @returns {Promise<CheckinParticipant[]>} The roster, ordered by name
+ * @throws {Error} If the query fails (so a good cached roster is not replaced)
+ */
+export async function getCheckinRoster(supabase: SupabaseClient, eventId: string): Promise<CheckinParticipant[]> {
+  const roster: CheckinParticipant[] = []
+
+  // Fetched in pages, since the API caps the rows returned per request
+  for (let from = 0; ; from += ROSTER_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("registrations")
+      .select(PARTICIPANT_COLUMNS)
+      .eq("event_id", eventId)
+      .eq("status", "confirmed")
+      .order("full_name", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + ROSTER_PAGE_SIZE - 1)
+      .returns<CheckinParticipantRow[]>()
+
+    if (error) throw error
+
+    roster.push(...(data ?? []).map(toCheckinParticipant))
+    if (!data || data.length < ROSTER_PAGE_SIZE) break
+  }
+
+  return roster
+}
+
+/**
+ * Records a check-in through the `record_checkin` database function
+ *
+ * @param {SupabaseClient} supabase - A Supabase client for check-in staff
+ * @param {Object} checkin - The check-in to record
+ * @param {string} checkin.registrationId - The registration being checked in
+ * @param {CheckinMethod} checkin.method - How the participant was found
+ * @param {string} checkin.deviceId - The device the check-in was made on
+ * @param {string} [checkin.checkedInAt] - When it happened, for queued check-ins (defaults to now)
+ * @returns {Promise<{ checkin: Checkin; outcome: CheckinOutcome }>} The winning check-in and what happened
+ * @throws {Error} If the registration cannot be checked in (e.g. it is not confirmed)
+ */
+export async function recordCheckin(
+  supabase: SupabaseClient,
+  checkin: { registrationId: string; method: CheckinMethod; deviceId: string; checkedInAt?: string }
+): Promise<{ checkin: Checkin; outcome: CheckinOutcome }> {
+  const { data, error } = await supabase
+    .rpc("record_checkin", {
+      p_registration_id: checkin.registrationId,
+      p_method: checkin.method,
+      p_device_id: checkin.deviceId,
+      p_checked_in_at: checkin.checkedInAt ?? null,
+    })
+    .single()
+
+  if (error) throw error
+
+  const { outcome, ...recorded } = data as Checkin & { outcome: CheckinOutcome }
+  return { checkin: recorded, outcome }
+}
+
+/**
+ * Counts an event's check-ins and confirmed registrations
+ *
+ * @param {SupabaseClient} supabase - A Supabase client for check-in staff or an admin
+ * @param {string} eventId - The event to count
+ * @returns {Promise<CheckinCounts>} The counts (zero on error)
+ */
+export async function getCheckinCounts(supabase: SupabaseClient, eventId: string): Promise<CheckinCounts> {
+  const [checkins, confirmed] = await Promise.all([
+    supabase.from("checkins").select("id", { count: "exact", head: true }).eq("event_id", eventId),
+    supabase
+      .from("registrations")
+      .select("id", { count: "exact", head: true })
+      .eq("event_id", eventId)
+      .eq("status", "confirmed"),
+  ])
+
+  if (checkins.error || confirmed.error) {
+    console.error("Error counting check-ins:", checkins.error ?? confirmed.error)
+  }
+
+  return { checkedIn: checkins.count ?? 0, confirmed: confirmed.count ?? 0 }
+}
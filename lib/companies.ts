@@ -0,0 +1,120 @@
+/**
+ * Company directory helpers
+ *
+ * Types, validation and queries for the canonical company directory. Each
+ * registration is linked to a company by the database (`set_registration_company`
+ * trigger): the typed company name is matched against company names and
+ * aliases, ignoring case, punctuation and legal suffixes ("Ltd", "Pvt",
+ * ...), and a new company is created when nothing matches. Admins merge
+ * duplicates at /admin/companies.
+ *
+ * @module lib/companies
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import * as z from "zod"
+
+/**
+ * Company data structure
+ *
+ * Matches the structure of the companies table in Supabase.
+ */
+export interface Company {
+  id: string
+  name: string
+  /** Other names the company is known by, e.g. "TCS" */
+  aliases: string[]
+  /** Lower-case email domains of the company's employees, e.g. "tcs.com" */
+  email_domains: string[]
+  /** Whether participants must register with an email at one of email_domains */
+  require_email_domain: boolean
+  logo_url: string | null
+  /** Number of employees, used for the leaderboard participation rate */
+  headcount: number | null
+}
+
+/**
+ * Columns selected whenever companies are fetched
+ */
+export const COMPANY_COLUMNS = "id, name, aliases, email_domains, require_email_domain, logo_url, headcount"
+
+/**
+ * A company suggested by the autocomplete, as returned by search_companies()
+ */
+export interface CompanySuggestion {
+  id: string
+  name: string
+  logo_url: string | null
+  /** The alias that matched the query, when the name itself did not */
+  matched_alias: string | null
+  /** Whether the company's email domain matches the participant's email */
+  domain_match: boolean
+}
+
+/**
+ * Splits a comma- or newline-separated list, dropping blanks and duplicates
+ *
+ * @param {string} [value] - The list as typed
+ * @returns {string[]} The entries
+ */
+export function parseList(value?: string): string[] {
+  return Array.from(
+    new Set(
+      (value ?? "")
+        .split(/[,\n]/)
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    )
+  )
+}
+
+/**
+ * Zod schema for creating or editing a company in the admin screen
+ *
+ * Aliases and email domains are entered as comma-separated lists.
+ */
+export const companySchema = z.object({
+  name: z.string().trim().min(2, "Company name must be at least 2 characters"),
+  aliases: z.string().optional(),
+  emailDomains: z
+    .string()
+    .optional()
+    .refine(
+      (value) => parseList(value).every((domain) => /^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(domain)),
+      "Enter domains like company.com, separated by commas"
+    ),
+  requireEmailDomain: z.boolean().optional(),
+  logoUrl: z.union([z.literal(""), z.string().trim().url("Please enter a valid URL")]).optional(),
+  headcount: z.coerce.number().int("Use a whole number").positive("Headcount must be above zero").optional(),
+})
+
+/**
+ * TypeScript type inferred from the company schema
+ */
+export type CompanyFormData = z.infer<typeof companySchema>
+
+/**
+ * Searches the directory for the company autocomplete
+ *
+ * @param {SupabaseClient} supabase - Any Supabase client (the directory is public)
+ * @param {string} query - Text typed so far (matched against names and aliases)
+ * @param {string} [email] - Corporate email, to suggest the company with its domain first
+ * @returns {Promise<CompanySuggestion[]>} Up to 8 suggestions, or an empty array on error
+ */
+export async function searchCompanies(
+  supabase: SupabaseClient,
+  query: string,
+  email?: string
+): Promise<CompanySuggestion[]> {
+  const { data, error } = await supabase.rpc("search_companies", {
+    p_query: query,
+    p_email: email || null,
+  })
+
+  if (error) {
+    console.error("Error searching companies:", error)
+    return []
+  }
+
+  return (data as CompanySuggestion[]) ?? []
+}
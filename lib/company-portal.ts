@@ -0,0 +1,150 @@
+/**
+ * Company coordinator portal
+ *
+ * Helpers for the /company dashboard, where a company's coordinators (users
+ * with the company_coordinator role, linked to the company in
+ * company_coordinators) follow their employees' registrations. RLS limits
+ * coordinators to their own companies' registrations; these helpers only
+ * shape the data for display.
+ *
+ * @module lib/company-portal
+ */
+
+import type { SupabaseClient, User } from "@supabase/supabase-js"
+import type { RegistrationStatus } from "@/lib/registrations"
+import type { RosterStatus } from "@/lib/rosters"
+import { hasRole } from "@/lib/roles"
+
+/**
+ * T-shirt sizes, in display order (mirrors the CHECK constraint on registrations.tshirt_size)
+ */
+export const TSHIRT_SIZES = ["S", "M", "L", "XL"] as const
+
+/**
+ * A company a coordinator can open in the portal
+ */
+export interface PortalCompany {
+  id: string
+  name: string
+  logo_url: string | null
+  headcount: number | null
+}
+
+/**
+ * An employee's registration, as listed in the portal
+ */
+export interface CompanyRegistration {
+  id: string
+  full_name: string
+  corporate_email: string
+  employee_id: string
+  category_id: string | null
+  tshirt_size: string
+  status: RegistrationStatus
+  roster_status: RosterStatus | null
+  bib_number: number | null
+  registration_date: string
+}
+
+/**
+ * Columns selected for CompanyRegistration
+ */
+export const COMPANY_REGISTRATION_COLUMNS =
+  "id, full_name, corporate_email, employee_id, category_id, tshirt_size, status, roster_status, bib_number, registration_date"
+
+/**
+ * Participation figures for a company at an event
+ */
+export interface CompanyStats {
+  /** Registrations that are not cancelled */
+  registered: number
+  /** Registrations per status */
+  byStatus: Record<RegistrationStatus, number>
+  /** Registrations held for roster review */
+  awaitingReview: number
+  /** Percentage of the headcount registered, or null without a headcount */
+  participationRate: number | null
+  /** Active registrations per race category ID ("" for none) */
+  byCategory: Record<string, number>
+  /** Active registrations per T-shirt size */
+  byTshirtSize: Record<string, number>
+}
+
+/**
+ * Returns whether a user may open the company portal (coordinators and admins)
+ *
+ * Which companies they see is decided by company_coordinators and RLS.
+ *
+ * @param {User} user - The signed-in user
+ * @returns {boolean} True if the user has a portal role
+ */
+export function isCompanyPortalUser(user: User): boolean {
+  return hasRole(user, ["admin", "company_coordinator"])
+}
+
+/**
+ * Returns the companies a user coordinates, sorted by name
+ *
+ * @param {SupabaseClient} supabase - The user's Supabase client
+ * @param {string} userId - The coordinator
+ * @returns {Promise<PortalCompany[]>} The companies, or an empty array on error
+ */
+export async function getCoordinatedCompanies(supabase: SupabaseClient, userId: string): Promise<PortalCompany[]> {
+  const { data, error } = await supabase
+    .from("company_coordinators")
+    .select("company:companies(id, name, logo_url, headcount)")
+    .eq("user_id", userId)
+
+  if (error) {
+    console.error("Error fetching coordinated companies:", error)
+    return []
+  }
+
+  return ((data ?? []) as unknown as { company: PortalCompany | null }[])
+    .flatMap((row) => (row.company ? [row.company] : []))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Summarises a company's registrations for an event
+ *
+ * Cancelled registrations only count towards byStatus.
+ *
+ * @param {CompanyRegistration[]} registrations - The company's registrations for the event
+ * @param {number | null} headcount - The company's employee headcount
+ * @returns {CompanyStats} The participation figures
+ *
+ * @example
+ * const stats = summariseCompanyRegistrations(registrations, company.headcount)
+ * stats.byTshirtSize // { S: 4, M: 12, L: 9, XL: 2 }
+ */
+export function summariseCompanyRegistrations(
+  registrations: CompanyRegistration[],
+  headcount: number | null
+): CompanyStats {
+  const byStatus: Record<RegistrationStatus, number> = { pending: 0, confirmed: 0, waitlisted: 0, cancelled: 0 }
+  const byCategory: Record<string, number> = {}
+  const byTshirtSize: Record<string, number> = Object.fromEntries(TSHIRT_SIZES.map((size) => [size, 0]))
+  let awaitingReview = 0
+
+  for (const registration of registrations) {
+    byStatus[registration.status] = (byStatus[registration.status] ?? 0) + 1
+    if (registration.status === "cancelled") continue
+
+    const categoryKey = registration.category_id ?? ""
+    byCategory[categoryKey] = (byCategory[categoryKey] ?? 0) + 1
+    byTshirtSize[registration.tshirt_size] = (byTshirtSize[registration.tshirt_size] ?? 0) + 1
+    if (registration.roster_status === "pending_review") awaitingReview++
+  }
+
+  const registered = registrations.length - byStatus.cancelled
+
+  return {
+    registered,
+    byStatus,
+    awaitingReview,
+    participationRate: headcount ? Math.round((registered / headcount) * 1000) / 10 : null,
+    byCategory,
+    byTshirtSize,
+  }
+}
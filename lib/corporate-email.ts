@@ -0,0 +1,351 @@
+/**
+ * Corporate email verification
+ *
+ * Participants prove they own their corporate email (which can differ from
+ * their login email) with a one-time code, or a link in the same email.
+ * Registrations are only accepted for a verified corporate email, and a
+ * company can require its participants' emails to be at its own domains
+ * (companies.require_email_domain); the database enforces both when the
+ * registration is inserted.
+ *
+ * Codes and link tokens are stored hashed in corporate_email_verifications,
+ * which only the service role can read. Server-only.
+ *
+ * @module lib/corporate-email
+ */
+
+import { createHash, randomBytes, randomInt } from "crypto"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { sendEmail } from "@/lib/email"
+
+/**
+ * How long a code and link stay valid, in minutes
+ */
+export const CODE_TTL_MINUTES = 30
+
+/**
+ * Attempts at a code allowed before a new code must be requested
+ */
+export const MAX_CODE_ATTEMPTS = 5
+
+/**
+ * Minimum time between two codes for the same email, in seconds
+ */
+export const RESEND_COOLDOWN_SECONDS = 60
+
+/**
+ * A row of corporate_email_verifications
+ */
+interface EmailVerification {
+  id: string
+  user_id: string
+  email: string
+  code_hash: string
+  attempts: number
+  expires_at: string
+  verified_at: string | null
+  created_at: string
+}
+
+/**
+ * Normalises an email for comparison (trimmed, lower case)
+ *
+ * @param {string} email - The email as typed
+ * @returns {string} The normalised email
+ */
+export function normaliseEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+/**
+ * Returns the domain of an email, e.g. "tcs.com"
+ *
+ * @param {string} email - The email
+ * @returns {string} The lower-case domain, or "" if there is none
+ */
+export function emailDomain(email: string): string {
+  return normaliseEmail(email).split("@")[1] ?? ""
+}
+
+/**
+ * Hashes a code or link token for storage
+ *
+ * @param {string} value - The code or token
+ * @returns {string} Hex-encoded SHA-256 hash
+ */
+function hashSecret(value: string): string {
+  return createHash("sha256").update(value).digest("hex")
+}
+
+/**
+ * Returns when a user verified an email, if they have
+ *
+ * @param {SupabaseClient} supabase - The user's Supabase client
+ * @param {string} userId - The user
+ * @param {string} email - The corporate email
+ * @returns {Promise<string | null>} When the email was verified, or null
+ */
+export async function getEmailVerifiedAt(
+  supabase: SupabaseClient,
+  userId: string,
+  email: string
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc("corporate_email_verified_at", {
+    p_user_id: userId,
+    p_email: email,
+  })
+
+  if (error) {
+    console.error("Error checking corporate email verification:", error)
+    return null
+  }
+
+  return data ?? null
+}
+
+/**
+ * Sends a new verification code and link to a corporate email
+ *
+ * Only the newest code is accepted; links in earlier emails keep working
+ * until they expire.
+ *
+ * @param {string} userId - The participant
+ * @param {string} email - The corporate email to verify
+ * @param {string} siteUrl - Absolute URL of the site, for the link
+ * @returns {Promise<string | null>} An error message, or null once the email is sent
+ */
+export async function sendVerificationCode(userId: string, email: string, siteUrl: string): Promise<string | null> {
+  const supabase = createAdminClient()
+  const normalised = normaliseEmail(email)
+
+  const { data: latest } = await supabase
+    .from("corporate_email_verifications")
+    .select("created_at")
+    .eq("user_id", userId)
+    .eq("email", normalised)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (latest && Date.now() - new Date(latest.created_at).getTime() < RESEND_COOLDOWN_SECONDS * 1000) {
+    return "We just sent you a code. Please wait a minute before asking for another."
+  }
+
+  const code = randomInt(0, 1_000_000).toString().padStart(6, "0")
+  const token = randomBytes(32).toString("base64url")
+
+  const { error } = await supabase.from("corporate_email_verifications").insert({
+    user_id: userId,
+    email: normalised,
+    code_hash: hashSecret(code),
+    token_hash: hashSecret(token),
+    expires_at: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+  })
+
+  if (error) {
+    console.error("Error creating corporate email verification:", error)
+    return "We couldn't send a code. Please try again."
+  }
+
+  const link = `${siteUrl}/verify-email?token=${token}`
+
+  try {
+    await sendEmail({
+      to: normalised,
+      subject: `Your Silicon Mile verification code: ${code}`,
+      text: [
+        `Your code to verify this corporate email for The Silicon Mile is ${code}.`,
+        "",
+        `Or open this link to verify it: ${link}`,
+        "",
+        `The code and link expire in ${CODE_TTL_MINUTES} minutes. If you didn't ask for this, you can ignore this email.`,
+      ].join("\n"),
+    })
+  } catch (err) {
+    console.error("Error sending corporate email verification:", err)
+    return "We couldn't send the email. Please check the address and try again."
+  }
+
+  return null
+}
+
+/**
+ * Marks a verification as verified, along with the participant's
+ * registrations that use the email
+ *
+ * @param {Pick<EmailVerification, "id" | "user_id" | "email">} verification - The verification
+ * @returns {Promise<string | null>} An error message, or null on success
+ */
+async function markVerified(verification: Pick<EmailVerification, "id" | "user_id" | "email">): Promise<string | null> {
+  const supabase = createAdminClient()
+  const verifiedAt = new Date().toISOString()
+
+  const { error } = await supabase
+    .from("corporate_email_verifications")
+    .update({ verified_at: verifiedAt })
+    .eq("id", verification.id)
+
+  if (error) {
+    console.error("Error marking corporate email verified:", error)
+    return "We couldn't verify your email. Please try again."
+  }
+
+  // Registrations made before the email was verified
+  const { error: registrationError } = await supabase
+    .from("registrations")
+    .update({ corporate_email_verified_at: verifiedAt })
+    .eq("user_id", verification.user_id)
+    .ilike("corporate_email", verification.email.replace(/[\\%_]/g, "\\$&"))
+    .is("corporate_email_verified_at", null)
+
+  if (registrationError) {
+    console.error("Error marking registrations verified:", registrationError)
+  }
+
+  return null
+}
+
+/**
+ * Records a corporate email as verified without a code, e.g. when an
+ * employee claims a team registration from the invitation sent to that
+ * email
+ *
+ * @param {string} userId - The participant
+ * @param {string} email - The corporate email they proved they own
+ * @returns {Promise<string | null>} An error message, or null on success
+ */
+export async function recordVerifiedEmail(userId: string, email: string): Promise<string | null> {
+  const supabase = createAdminClient()
+  const now = new Date().toISOString()
+
+  const { data: verification, error } = await supabase
+    .from("corporate_email_verifications")
+    .insert({
+      user_id: userId,
+      email: normaliseEmail(email),
+      code_hash: hashSecret(randomBytes(32).toString("hex")),
+      token_hash: hashSecret(randomBytes(32).toString("hex")),
+      expires_at: now,
+    })
+    .select("id, user_id, email")
+    .single()
+
+  if (error) {
+    console.error("Error recording corporate email verification:", error)
+    return "We couldn't verify your email. Please try again."
+  }
+
+  return markVerified(verification)
+}
+
+/**
+ * Checks a code a participant typed for their corporate email
+ *
+ * @param {string} userId - The participant
+ * @param {string} email - The corporate email being verified
+ * @param {string} code - The code typed
+ * @returns {Promise<string | null>} An error message, or null once the email is verified
+ */
+export async function verifyCode(userId: string, email: string, code: string): Promise<string | null> {
+  const supabase = createAdminClient()
+
+  const { data: verification } = await supabase
+    .from("corporate_email_verifications")
+    .select("id, user_id, email, code_hash, attempts, expires_at, verified_at, created_at")
+    .eq("user_id", userId)
+    .eq("email", normaliseEmail(email))
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const row = verification as EmailVerification | null
+  if (row?.verified_at) return null
+
+  if (!row || new Date(row.expires_at) <= new Date()) {
+    return "This code has expired. Please send a new one."
+  }
+
+  // Count the attempt before checking the code, in one statement, so
+  // concurrent guesses cannot get past the limit
+  const { data: attempts, error } = await supabase.rpc("use_email_verification_attempt", {
+    p_verification_id: row.id,
+    p_max_attempts: MAX_CODE_ATTEMPTS,
+  })
+
+  if (error) {
+    console.error("Error counting corporate email code attempt:", error)
+    return "We couldn't check your code. Please try again."
+  }
+
+  if (attempts === null) {
+    return "Too many wrong codes. Please send a new one."
+  }
+
+  if (hashSecret(code.trim()) !== row.code_hash) {
+    return "That code isn't right. Please check the email and try again."
+  }
+
+  return markVerified(row)
+}
+
+/**
+ * Verifies a corporate email from the link in the verification email
+ *
+ * @param {string} token - The token from the link
+ * @returns {Promise<{ email?: string; error?: string }>} The verified email, or an error message
+ */
+export async function verifyToken(token: string): Promise<{ email?: string; error?: string }> {
+  const supabase = createAdminClient()
+
+  const { data: verification } = await supabase
+    .from("corporate_email_verifications")
+    .select("id, user_id, email, expires_at, verified_at")
+    .eq("token_hash", hashSecret(token))
+    .maybeSingle()
+
+  if (!verification) {
+    return { error: "This verification link is not valid." }
+  }
+
+  if (verification.verified_at) {
+    return { email: verification.email }
+  }
+
+  if (new Date(verification.expires_at) <= new Date()) {
+    return { error: "This verification link has expired. Please send a new code from the registration form." }
+  }
+
+  const error = await markVerified(verification)
+  return error ? { error } : { email: verification.email }
+}
+
+/**
+ * Checks a corporate email against the company's required domains
+ *
+ * @param {SupabaseClient} supabase - Any Supabase client (companies are public)
+ * @param {string} companyName - The company name as typed
+ * @param {string} email - The corporate email
+ * @returns {Promise<string | null>} An error message when the company requires
+ *   another domain, or null if the email is allowed
+ */
+export async function checkCompanyDomain(
+  supabase: SupabaseClient,
+  companyName: string,
+  email: string
+): Promise<string | null> {
+  const { data: companyId } = await supabase.rpc("find_company", { p_name: companyName })
+  if (!companyId) return null
+
+  const { data: company } = await supabase
+    .from("companies")
+    .select("name, email_domains, require_email_domain")
+    .eq("id", companyId)
+    .maybeSingle()
+
+  if (!company?.require_email_domain || company.email_domains.length === 0) return null
+
+  return company.email_domains.includes(emailDomain(email))
+    ? null
+    : `${company.name} registrations need a corporate email at ${company.email_domains.join(", ")}`
+}
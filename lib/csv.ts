@@ -0,0 +1,96 @@
+/**
+ * CSV helpers
+ *
+ * A small RFC 4180 parser for files uploaded by admins (e.g. timing
+ * results). Handles quoted fields containing commas, quotes and line
+ * breaks, CRLF or LF line endings and a leading byte order mark. Also a
+ * writer for files admins fix and upload again.
+ *
+ * @module lib/csv
+ */
+
+/**
+ * Parses CSV text into rows of fields
+ *
+ * Blank lines are skipped. Fields are returned as written (not trimmed).
+ *
+ * @param {string} text - The CSV file contents
+ * @returns {string[][]} The rows, header row included
+ *
+ * @example
+ * parseCsv('bib,name\n1,"Rao, A."') // [["bib", "name"], ["1", "Rao, A."]]
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  const input = text.replace(/^\uFEFF/, "")
+
+  /**
+   * Ends the current row, skipping rows that are entirely empty
+   */
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0] !== "") {
+      rows.push(row)
+    }
+    row = []
+    field = ""
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
+
+/**
+ * Encodes one CSV record, including its CRLF line ending
+ *
+ * Fields are written as they are, quoted only when they contain a comma,
+ * quote or line break (RFC 4180), so parseCsv reads back the same values.
+ * Unlike the registration export, values starting with = + - @ are not
+ * escaped: an admin fixing the file would import the escape character.
+ *
+ * @param {(string | number)[]} fields - The record's fields
+ * @returns {string} The encoded record
+ *
+ * @example
+ * toCsvRow(["+91 98450 12345", 'Rao, "A."']) // '+91 98450 12345,"Rao, ""A."""\r\n'
+ */
+export function toCsvRow(fields: (string | number)[]): string {
+  return `${fields
+    .map((field) => {
+      const text = String(field)
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    })
+    .join(",")}\r\n`
+}
@@ -0,0 +1,53 @@
+/**
+ * Email
+ *
+ * Entry point for sending transactional email (e.g. corporate email
+ * verification codes). Selects the configured provider.
+ *
+ * Provider selection (EMAIL_PROVIDER environment variable):
+ * - "resend": Resend HTTP API
+ * - "mock" (default): Writes emails to the server log for development
+ *
+ * Server-only.
+ *
+ * @module lib/email
+ */
+
+import { mockEmailProvider } from "@/lib/email/mock"
+import { resendEmailProvider } from "@/lib/email/resend"
+import type { EmailMessage, EmailProvider } from "@/lib/email/types"
+
+export type { EmailMessage, EmailProvider } from "@/lib/email/types"
+
+/**
+ * Registered email providers by name
+ */
+const providers: Record<string, EmailProvider> = {
+  mock: mockEmailProvider,
+  resend: resendEmailProvider,
+}
+
+/**
+ * Returns the configured email provider
+ *
+ * @returns {EmailProvider} The provider named by EMAIL_PROVIDER (defaults to mock)
+ * @throws {Error} If EMAIL_PROVIDER names an unknown provider
+ */
+export function getEmailProvider(): EmailProvider {
+  const name = process.env.EMAIL_PROVIDER || "mock"
+  const provider = providers[name]
+  if (!provider) {
+    throw new Error(`Unknown EMAIL_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(", ")}`)
+  }
+  return provider
+}
+
+/**
+ * Sends an email with the configured provider
+ *
+ * @param {EmailMessage} message - The email to send
+ * @returns {Promise<void>} Resolves once the provider has accepted the email
+ */
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  await getEmailProvider().send(message)
+}
@@ -0,0 +1,22 @@
+/**
+ * Mock email provider
+ *
+ * A local stand-in for a real email service, used in development and
+ * tests. Emails are written to the server log instead of being sent, so
+ * verification codes and links can be copied from the terminal.
+ *
+ * @module lib/email/mock
+ */
+
+import type { EmailMessage, EmailProvider } from "@/lib/email/types"
+
+/**
+ * Mock email provider implementation
+ */
+export const mockEmailProvider: EmailProvider = {
+  name: "mock",
+
+  async send(message: EmailMessage): Promise<void> {
+    console.info(`[mock email] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+  },
+}
@@ -0,0 +1,60 @@
+/**
+ * Resend email provider
+ *
+ * Sends transactional email through the Resend HTTP API.
+ *
+ * Required environment variables:
+ * - RESEND_API_KEY: API key from the Resend dashboard
+ * - EMAIL_FROM: Sender address on a domain verified with Resend,
+ *   e.g. "The Silicon Mile <no-reply@siliconmile.in>"
+ *
+ * @see https://resend.com/docs/api-reference/emails/send-email
+ *
+ * @module lib/email/resend
+ */
+
+import { EmailProviderError, type EmailMessage, type EmailProvider } from "@/lib/email/types"
+
+const RESEND_API_URL = "https://api.resend.com"
+
+/**
+ * Reads a required environment variable
+ *
+ * @throws {EmailProviderError} If the variable is not set
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) {
+    throw new EmailProviderError(`Missing ${name} for the Resend email provider`)
+  }
+  return value
+}
+
+/**
+ * Resend email provider implementation
+ */
+export const resendEmailProvider: EmailProvider = {
+  name: "resend",
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch(`${RESEND_API_URL}/emails`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${requireEnv("RESEND_API_KEY")}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: requireEnv("EMAIL_FROM"),
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    })
+
+    if (!response.ok) {
+      const details = await response.text()
+      throw new EmailProviderError(`Resend rejected the email: ${details}`)
+    }
+  },
+}
@@ -0,0 +1,48 @@
+/**
+ * Email provider types
+ *
+ * Defines the interface every email provider (Resend, the local mock
+ * mailer, ...) implements. The rest of the app only talks to this
+ * interface, so switching providers is a configuration change.
+ *
+ * @module lib/email/types
+ */
+
+/**
+ * A transactional email to send
+ */
+export interface EmailMessage {
+  to: string
+  subject: string
+  /** Plain-text body */
+  text: string
+  /** Optional HTML body; mail clients fall back to the text body */
+  html?: string
+}
+
+/**
+ * Email provider interface
+ */
+export interface EmailProvider {
+  /** Identifier of the provider (e.g. "resend", "mock") */
+  readonly name: string
+
+  /**
+   * Sends an email
+   *
+   * @param {EmailMessage} message - The email to send
+   * @returns {Promise<void>} Resolves once the provider has accepted the email
+   * @throws {EmailProviderError} If the provider rejects the email
+   */
+  send(message: EmailMessage): Promise<void>
+}
+
+/**
+ * Error thrown when a provider rejects a request
+ */
+export class EmailProviderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "EmailProviderError"
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Event helpers
+ *
+ * Shared types and helpers for working with events (editions of The Silicon
+ * Mile 5K such as "Spring Edition" or "Fall Edition"). Every registration
+ * belongs to exactly one event, and pages that show registrations are scoped
+ * to a selected event via the `?event=<slug>` search parameter.
+ *
+ * @module lib/events
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * Event data structure
+ *
+ * Matches the structure of the events table in Supabase.
+ * Named RaceEvent to avoid clashing with the DOM `Event` type.
+ */
+export interface RaceEvent {
+  id: string
+  slug: string
+  name: string
+  edition: string
+  /** Race day as an ISO date (YYYY-MM-DD) */
+  event_date: string
+  /** Start time on race day (HH:MM:SS), if announced */
+  start_time: string | null
+  venue: string
+  description: string | null
+  /** Route and course details shown on the event page */
+  course_info: string | null
+  registration_opens_at: string
+  registration_closes_at: string
+  /** Maximum number of participants, or null for no limit */
+  capacity: number | null
+}
+
+/**
+ * Race category data structure
+ *
+ * A race offered at an event (e.g. 5K Run, 10K Run, 3K Walk).
+ * Matches the structure of the event_categories table in Supabase.
+ */
+export interface EventCategory {
+  id: string
+  event_id: string
+  name: string
+  distance_km: number
+  /** Start time on race day (HH:MM:SS), if announced */
+  start_time: string | null
+  /** Maximum number of participants in this category, or null for no limit */
+  capacity: number | null
+  /** Entry fee in paise (1 INR = 100 paise) */
+  price_paise: number
+  sort_order: number
+}
+
+/**
+ * Columns selected whenever event categories are fetched
+ */
+export const CATEGORY_COLUMNS =
+  "id, event_id, name, distance_km, start_time, capacity, price_paise, sort_order"
+
+/**
+ * Columns selected whenever events are fetched
+ */
+export const EVENT_COLUMNS =
+  "id, slug, name, edition, event_date, start_time, venue, description, course_info, registration_opens_at, registration_closes_at, capacity"
+
+/**
+ * Public status of an event, shown as a badge on the events pages
+ *
+ * - upcoming: Registration has not opened yet
+ * - open: Registration is open and spots are available
+ * - sold_out: Registration is open but capacity has been reached
+ * - closed: Registration window has ended, race day not yet passed
+ * - completed: Race day has passed
+ */
+export type EventStatus = "upcoming" | "open" | "sold_out" | "closed" | "completed"
+
+/**
+ * Fetches all events, most recent race day first
+ *
+ * @param {SupabaseClient} supabase - A browser or server Supabase client
+ * @returns {Promise<RaceEvent[]>} All events, or an empty array on error
+ */
+export async function getEvents(supabase: SupabaseClient): Promise<RaceEvent[]> {
+  const { data, error } = await supabase
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .order("event_date", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching events:", error)
+    return []
+  }
+
+  return (data as RaceEvent[]) || []
+}
+
+/**
+ * Fetches a single event by its slug
+ *
+ * @param {SupabaseClient} supabase - A browser or server Supabase client
+ * @param {string} slug - The event slug (e.g. "fall-2024")
+ * @returns {Promise<RaceEvent | null>} The event, or null if not found
+ */
+export async function getEventBySlug(
+  supabase: SupabaseClient,
+  slug: string
+): Promise<RaceEvent | null> {
+  const { data, error } = await supabase
+    .from("events")
+    .select(EVENT_COLUMNS)
+    .eq("slug", slug)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching event:", error)
+    return null
+  }
+
+  return data as RaceEvent | null
+}
+
+/**
+ * Fetches the number of active registrations per event
+ *
+ * Uses the `event_registration_counts` database function, which can be
+ * called by anonymous visitors without exposing registration rows.
+ *
+ * @param {SupabaseClient} supabase - A browser or server Supabase client
+ * @returns {Promise<Record<string, number>>} Map of event id to registration count
+ */
+export async function getEventRegistrationCounts(
+  supabase: SupabaseClient
+): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc("event_registration_counts")
+
+  if (error) {
+    console.error("Error fetching event registration counts:", error)
+    return {}
+  }
+
+  const counts: Record<string, number> = {}
+  for (const row of (data as { event_id: string; registered_count: number }[]) || []) {
+    counts[row.event_id] = Number(row.registered_count)
+  }
+  return counts
+}
+
+/**
+ * Fetches the race categories offered at an event, in display order
+ *
+ * @param {SupabaseClient} supabase - A browser or server Supabase client
+ * @param {string} eventId - The event id
+ * @returns {Promise<EventCategory[]>} The event's categories, or an empty array on error
+ */
+export async function getEventCategories(
+  supabase: SupabaseClient,
+  eventId: string
+): Promise<EventCategory[]> {
+  const { data, error } = await supabase
+    .from("event_categories")
+    .select(CATEGORY_COLUMNS)
+    .eq("event_id", eventId)
+    .order("sort_order", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching event categories:", error)
+    return []
+  }
+
+  return (data as EventCategory[]) || []
+}
+
+/**
+ * Fetches the number of seats taken per category of an event
+ *
+ * @param {SupabaseClient} supabase - A browser or server Supabase client
+ * @param {string} eventId - The event id
+ * @returns {Promise<Record<string, number>>} Map of category id to registration count
+ */
+export async function getCategoryRegistrationCounts(
+  supabase: SupabaseClient,
+  eventId: string
+): Promise<Record<string, number>> {
+  const { data, error } = await supabase.rpc("category_registration_counts", {
+    p_event_id: eventId,
+  })
+
+  if (error) {
+    console.error("Error fetching category registration counts:", error)
+    return {}
+  }
+
+  const counts: Record<string, number> = {}
+  for (const row of (data as { category_id: string; registered_count: number }[]) || []) {
+    counts[row.category_id] = Number(row.registered_count)
+  }
+  return counts
+}
+
+/**
+ * Picks the event a page should be scoped to
+ *
+ * Resolution order:
+ * 1. The event whose slug or id matches the requested value
+ * 2. The soonest upcoming event (race day today or later)
+ * 3. The most recent past event
+ *
+ * @param {RaceEvent[]} events - Events ordered by race day, most recent first
+ * @param {string} [requested] - Slug or id from the `?event=` search parameter
+ * @returns {RaceEvent | null} The selected event, or null if there are no events
+ */
+export function selectEvent(events: RaceEvent[], requested?: string): RaceEvent | null {
+  if (requested) {
+    const match = events.find((event) => event.slug === requested || event.id === requested)
+    if (match) return match
+  }
+
+  const today = new Date().toISOString().split("T")[0]
+  const upcoming = events.filter((event) => event.event_date >= today)
+
+  // Events are ordered newest first, so the last upcoming one is the soonest
+  if (upcoming.length > 0) return upcoming[upcoming.length - 1]
+
+  return events[0] ?? null
+}
+
+/**
+ * Checks whether an event is currently accepting registrations
+ *
+ * @param {RaceEvent} event - The event to check
+ * @param {Date} [now] - Reference time (defaults to the current time)
+ * @returns {boolean} True if now falls inside the registration window
+ */
+export function isRegistrationOpen(event: RaceEvent, now: Date = new Date()): boolean {
+  return (
+    now >= new Date(event.registration_opens_at) &&
+    now <= new Date(event.registration_closes_at)
+  )
+}
+
+/**
+ * Checks whether an event's race day has passed
+ *
+ * @param {RaceEvent} event - The event to check
+ * @param {Date} [now] - Reference time (defaults to the current time)
+ * @returns {boolean} True if race day is before today
+ */
+export function isEventPast(event: RaceEvent, now: Date = new Date()): boolean {
+  return event.event_date < now.toISOString().split("T")[0]
+}
+
+/**
+ * Determines the public status of an event
+ *
+ * @param {RaceEvent} event - The event to check
+ * @param {number} registeredCount - Number of active registrations for the event
+ * @param {Date} [now] - Reference time (defaults to the current time)
+ * @returns {EventStatus} The event status
+ */
+export function getEventStatus(
+  event: RaceEvent,
+  registeredCount: number,
+  now: Date = new Date()
+): EventStatus {
+  if (isEventPast(event, now)) return "completed"
+  if (now < new Date(event.registration_opens_at)) return "upcoming"
+  if (now > new Date(event.registration_closes_at)) return "closed"
+  if (event.capacity !== null && registeredCount >= event.capacity) return "sold_out"
+  return "open"
+}
+
+/**
+ * Builds the display title of an event
+ *
+ * @example
+ * eventTitle(event) // "The Silicon Mile 5K - Fall Edition"
+ */
+export function eventTitle(event: Pick<RaceEvent, "name" | "edition">): string {
+  return `${event.name} - ${event.edition}`
+}
+
+/**
+ * Formats the race day of an event for display
+ *
+ * The date is parsed as UTC so the calendar day never shifts with the
+ * viewer's timezone.
+ *
+ * @example
+ * formatEventDate(event) // "September 28, 2024"
+ */
+export function formatEventDate(event: RaceEvent): string {
+  return new Date(`${event.event_date}T00:00:00Z`).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+/**
+ * Formats the start time of an event or race category for display
+ *
+ * @example
+ * formatStartTime(event) // "6:30 AM"
+ * formatStartTime(category) // "6:00 AM"
+ *
+ * @returns {string | null} The formatted time, or null if not announced
+ */
+export function formatStartTime(item: Pick<RaceEvent | EventCategory, "start_time">): string | null {
+  if (!item.start_time) return null
+
+  const [hours, minutes] = item.start_time.split(":").map(Number)
+  const suffix = hours >= 12 ? "PM" : "AM"
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12
+  return `${displayHours}:${String(minutes).padStart(2, "0")} ${suffix}`
+}
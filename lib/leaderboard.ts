@@ -0,0 +1,191 @@
+/**
+ * Company leaderboard helpers
+ *
+ * Types and queries for the inter-company leaderboard. Standings are
+ * computed in the database by company_leaderboard(), which groups
+ * registrations by the directory company they are linked to (see
+ * lib/companies), so name variants and aliases count as one company.
+ *
+ * Weekly snapshots of the standings (ranked by registrants) are kept in
+ * company_leaderboard_snapshots so movers can be announced.
+ *
+ * @module lib/leaderboard
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * One company's standing, as returned by company_leaderboard()
+ */
+export interface CompanyStanding {
+  company_id: string
+  /** Canonical name from the company directory */
+  company_name: string
+  logo_url: string | null
+  /** Pending or confirmed registrations */
+  registrants: number
+  /** Registrants with a race result */
+  finishers: number
+  /** Average net time of finishers, if any finished */
+  average_time_ms: number | null
+  /** Average pace of finishers in milliseconds per km, if any finished */
+  average_pace_ms_per_km: number | null
+  /** Employee headcount set by an admin, if any */
+  headcount: number | null
+  /** Registrants as a percentage of headcount, if a headcount is set */
+  participation_rate: number | null
+}
+
+/**
+ * A company's row in a leaderboard snapshot
+ */
+export interface LeaderboardSnapshotRow {
+  company_id: string
+  company_name: string
+  rank: number
+  registrants: number
+  taken_on: string
+}
+
+/**
+ * Ways the leaderboard can be ranked
+ *
+ * - registrants: Most registrants first (the headline ranking)
+ * - finishers: Most finishers first
+ * - time: Fastest average time (or pace across categories) first
+ * - participation: Highest participation rate first
+ */
+export type LeaderboardSort = "registrants" | "finishers" | "time" | "participation"
+
+/**
+ * Display labels for each ranking
+ */
+export const leaderboardSortLabels: Record<LeaderboardSort, string> = {
+  registrants: "Registrants",
+  finishers: "Finishers",
+  time: "Average Time",
+  participation: "Participation",
+}
+
+/**
+ * Fetches an event's company standings, most registrants first
+ *
+ * @param {SupabaseClient} supabase - Any Supabase client (the leaderboard is public)
+ * @param {string} eventId - The event
+ * @param {string | null} categoryId - Limit to one race category, or null for the whole event
+ * @returns {Promise<CompanyStanding[]>} The standings, or an empty array on error
+ */
+export async function getCompanyLeaderboard(
+  supabase: SupabaseClient,
+  eventId: string,
+  categoryId: string | null = null
+): Promise<CompanyStanding[]> {
+  const { data, error } = await supabase.rpc("company_leaderboard", {
+    p_event_id: eventId,
+    p_category_id: categoryId,
+  })
+
+  if (error) {
+    console.error("Error fetching company leaderboard:", error)
+    return []
+  }
+
+  return ((data as CompanyStanding[]) ?? []).map((standing) => ({
+    ...standing,
+    registrants: Number(standing.registrants),
+    finishers: Number(standing.finishers),
+    participation_rate: standing.participation_rate === null ? null : Number(standing.participation_rate),
+  }))
+}
+
+/**
+ * Fetches the most recent snapshot of an event's leaderboard taken before a date
+ *
+ * @param {SupabaseClient} supabase - Any Supabase client (snapshots are public)
+ * @param {string} eventId - The event
+ * @param {string} [before] - Only consider snapshots taken before this ISO date
+ * @returns {Promise<LeaderboardSnapshotRow[]>} The snapshot's rows, or an empty array if there is none
+ */
+export async function getLatestSnapshot(
+  supabase: SupabaseClient,
+  eventId: string,
+  before?: string
+): Promise<LeaderboardSnapshotRow[]> {
+  let latestQuery = supabase
+    .from("company_leaderboard_snapshots")
+    .select("taken_on")
+    .eq("event_id", eventId)
+  if (before) latestQuery = latestQuery.lt("taken_on", before)
+
+  const { data: latest } = await latestQuery.order("taken_on", { ascending: false }).limit(1).maybeSingle()
+  if (!latest) return []
+
+  const { data, error } = await supabase
+    .from("company_leaderboard_snapshots")
+    .select("company_id, company_name, rank, registrants, taken_on")
+    .eq("event_id", eventId)
+    .eq("taken_on", latest.taken_on)
+    .order("rank", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching leaderboard snapshot:", error)
+    return []
+  }
+
+  return (data as LeaderboardSnapshotRow[]) ?? []
+}
+
+/**
+ * Returns the value a standing is ranked by, higher being better
+ *
+ * Times are negated so that faster ranks higher like the other measures.
+ *
+ * @param {CompanyStanding} standing - A company's standing
+ * @param {LeaderboardSort} sort - The ranking
+ * @param {boolean} byPace - Rank "time" by average pace instead of time (when categories are mixed)
+ * @returns {number | null} The value, or null if the company has none (no finishers, no headcount)
+ */
+function rankingValue(standing: CompanyStanding, sort: LeaderboardSort, byPace: boolean): number | null {
+  if (sort === "registrants") return standing.registrants
+  if (sort === "finishers") return standing.finishers
+  if (sort === "participation") return standing.participation_rate
+  const time = byPace ? standing.average_pace_ms_per_km : standing.average_time_ms
+  return time === null ? null : -time
+}
+
+/**
+ * Ranks standings, giving tied companies the same place
+ *
+ * Companies without a value for the ranking go last, unranked, in
+ * registrant order.
+ *
+ * @param {CompanyStanding[]} standings - Standings, most registrants first
+ * @param {LeaderboardSort} sort - The ranking
+ * @param {boolean} byPace - Rank "time" by average pace instead of time (when categories are mixed)
+ * @returns {{ standing: CompanyStanding; place: number | null }[]} The sorted standings with their places
+ */
+export function rankStandings(
+  standings: CompanyStanding[],
+  sort: LeaderboardSort,
+  byPace: boolean
+): { standing: CompanyStanding; place: number | null }[] {
+  const sorted = [...standings].sort((a, b) => {
+    const left = rankingValue(a, sort, byPace)
+    const right = rankingValue(b, sort, byPace)
+    if (left === null || right === null) {
+      return left === right ? b.registrants - a.registrants : left === null ? 1 : -1
+    }
+    return right - left || b.registrants - a.registrants
+  })
+
+  const ranked: { standing: CompanyStanding; place: number | null }[] = []
+  sorted.forEach((standing, index) => {
+    const value = rankingValue(standing, sort, byPace)
+    const previous = index > 0 ? rankingValue(sorted[index - 1], sort, byPace) : null
+    ranked.push({
+      standing,
+      place: value === null ? null : previous === value ? ranked[index - 1].place : index + 1,
+    })
+  })
+  return ranked
+}
@@ -0,0 +1,73 @@
+/**
+ * Member accounts
+ *
+ * Finds or creates the account a participant is registered under when
+ * someone else registers them: a company captain registering a team, or
+ * an admin importing registrations. Participants without an account get
+ * one (unconfirmed) with a link to claim their registration and set a
+ * password at /claim; participants who never claimed theirs get a fresh
+ * link. Server-only.
+ *
+ * @module lib/member-accounts
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getEmailSiteUrl } from "@/lib/site-url"
+
+/**
+ * The account a participant is registered under
+ */
+export interface MemberAccount {
+  userId: string
+  /** Claim link for participants who have not set a password yet */
+  claimUrl: string | null
+  /** True if the account was created for this registration */
+  created: boolean
+}
+
+/**
+ * Finds or creates the account for a participant's corporate email
+ *
+ * @param {string} email - The participant's corporate email
+ * @param {string} fullName - The participant's name, stored on a new account
+ * @param {string} companyName - The company, stored on a new account
+ * @returns {Promise<MemberAccount>} The account, with a claim link if the participant has yet to sign in
+ * @throws {Error} If the account could not be looked up or created
+ *
+ * @example
+ * const account = await getMemberAccount("asha@acme.com", "Asha Rao", "Acme")
+ */
+export async function getMemberAccount(email: string, fullName: string, companyName: string): Promise<MemberAccount> {
+  const admin = createAdminClient()
+
+  const { data: existing, error: lookupError } = await admin.rpc("find_user_by_email", { p_email: email }).maybeSingle()
+  if (lookupError) {
+    throw lookupError
+  }
+
+  const account = existing as { id: string; confirmed: boolean } | null
+  if (account?.confirmed) {
+    return { userId: account.id, claimUrl: null, created: false }
+  }
+
+  // New participants get an invitation; invited participants who never
+  // claimed theirs get a fresh sign-in link instead
+  const { data, error } = account
+    ? await admin.auth.admin.generateLink({ type: "magiclink", email })
+    : await admin.auth.admin.generateLink({
+        type: "invite",
+        email,
+        options: { data: { full_name: fullName, company_name: companyName } },
+      })
+
+  if (error || !data.user) {
+    throw error ?? new Error("No user returned")
+  }
+
+  const type = account ? "email" : "invite"
+  return {
+    userId: data.user.id,
+    claimUrl: `${getEmailSiteUrl()}/claim?token=${encodeURIComponent(data.properties.hashed_token)}&type=${type}`,
+    created: !account,
+  }
+}
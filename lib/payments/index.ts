@@ -0,0 +1,210 @@
+/**
+ * Payments
+ *
+ * Entry point for the payment subsystem. Selects the configured provider
+ * and implements the provider-independent parts of the flow: starting a
+ * payment for a registration and applying verified webhook events.
+ *
+ * Provider selection (PAYMENT_PROVIDER environment variable):
+ * - "razorpay": Razorpay Payment Links
+ * - "mock" (default outside production): Local mock gateway for
+ *   development and tests
+ *
+ * Production fails closed: PAYMENT_PROVIDER must be set and cannot be
+ * "mock", since the mock gateway lets anyone confirm a registration.
+ *
+ * Server-only: uses the service role Supabase client.
+ *
+ * @module lib/payments
+ */
+
+import { createAdminClient } from "@/lib/supabase/admin"
+import { mockPaymentProvider } from "@/lib/payments/mock"
+import { razorpayPaymentProvider } from "@/lib/payments/razorpay"
+import { PaymentProviderError, type PaymentProvider, type PaymentWebhookEvent } from "@/lib/payments/types"
+
+export type { PaymentProvider, PaymentWebhookEvent } from "@/lib/payments/types"
+
+/**
+ * Registered payment providers by name
+ */
+const providers: Record<string, PaymentProvider> = {
+  mock: mockPaymentProvider,
+  razorpay: razorpayPaymentProvider,
+}
+
+/**
+ * Returns the configured payment provider
+ *
+ * @returns {PaymentProvider} The provider named by PAYMENT_PROVIDER (defaults to mock outside production)
+ * @throws {PaymentProviderError} If PAYMENT_PROVIDER names an unknown provider, or in production is unset or "mock"
+ */
+export function getPaymentProvider(): PaymentProvider {
+  const production = process.env.NODE_ENV === "production"
+  const name = process.env.PAYMENT_PROVIDER || (production ? "" : mockPaymentProvider.name)
+
+  if (!name) {
+    throw new PaymentProviderError("PAYMENT_PROVIDER must be set in production")
+  }
+  if (production && name === mockPaymentProvider.name) {
+    throw new PaymentProviderError("The mock payment provider cannot be used in production")
+  }
+
+  const provider = Object.hasOwn(providers, name) ? providers[name] : undefined
+  if (!provider) {
+    throw new PaymentProviderError(
+      `Unknown PAYMENT_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(", ")}`
+    )
+  }
+  return provider
+}
+
+/**
+ * Returns whether the mock checkout page (/checkout/mock) may be used: only
+ * in development, with the mock provider configured
+ *
+ * @returns {boolean} True if mock checkouts can be completed
+ */
+export function isMockCheckoutEnabled(): boolean {
+  return process.env.NODE_ENV === "development" && getPaymentProvider().name === mockPaymentProvider.name
+}
+
+/**
+ * Details needed to start a payment for a registration
+ */
+export interface StartPaymentInput {
+  registrationId: string
+  amountPaise: number
+  description: string
+  customer: { name: string; email: string }
+  /** Absolute URL to return to after checkout */
+  returnUrl: string
+}
+
+/**
+ * Creates a payment row and a provider order for a registration
+ *
+ * @param {StartPaymentInput} input - Payment details
+ * @returns {Promise<string>} The checkout URL to redirect the participant to
+ */
+export async function startPayment(input: StartPaymentInput): Promise<string> {
+  const supabase = createAdminClient()
+  const provider = getPaymentProvider()
+  const paymentId = crypto.randomUUID()
+
+  const order = await provider.createOrder({
+    paymentId,
+    amountPaise: input.amountPaise,
+    currency: "INR",
+    description: input.description,
+    customer: input.customer,
+    returnUrl: input.returnUrl,
+  })
+
+  const { error } = await supabase.from("payments").insert({
+    id: paymentId,
+    registration_id: input.registrationId,
+    provider: provider.name,
+    provider_order_id: order.providerOrderId,
+    amount_paise: input.amountPaise,
+    currency: "INR",
+    status: "created",
+  })
+
+  if (error) throw error
+
+  return order.checkoutUrl
+}
+
+/**
+ * Outcome of processing a webhook request
+ */
+export interface WebhookResult {
+  /** HTTP status to respond with */
+  status: number
+  message: string
+}
+
+/**
+ * Verifies and applies a payment webhook
+ *
+ * On a captured payment the payment row is marked captured and the
+ * registration is confirmed. Processing is idempotent, so providers
+ * retrying a webhook is harmless.
+ *
+ * @param {PaymentProvider} provider - The provider that sent the webhook
+ * @param {string} rawBody - The raw request body
+ * @param {string | null} signature - The signature header value
+ * @returns {Promise<WebhookResult>} The HTTP status and message to respond with
+ */
+export async function processPaymentWebhook(
+  provider: PaymentProvider,
+  rawBody: string,
+  signature: string | null
+): Promise<WebhookResult> {
+  if (!provider.verifySignature(rawBody, signature)) {
+    return { status: 401, message: "Invalid signature" }
+  }
+
+  let event: PaymentWebhookEvent | null
+  try {
+    event = provider.parseWebhook(rawBody)
+  } catch {
+    return { status: 400, message: "Malformed payload" }
+  }
+
+  if (!event) {
+    return { status: 200, message: "Ignored" }
+  }
+
+  const supabase = createAdminClient()
+  const { data: payment, error } = await supabase
+    .from("payments")
+    .select("id, registration_id, status")
+    .eq("provider", provider.name)
+    .eq("provider_order_id", event.providerOrderId)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error looking up payment:", error)
+    return { status: 500, message: "Lookup failed" }
+  }
+
+  if (!payment) {
+    return { status: 404, message: "Unknown order" }
+  }
+
+  // Already captured: a retried or late webhook must not change anything
+  if (payment.status === "captured") {
+    return { status: 200, message: "Already processed" }
+  }
+
+  const { error: paymentError } = await supabase
+    .from("payments")
+    .update({
+      status: event.status,
+      provider_payment_id: event.providerPaymentId,
+      paid_at: event.status === "captured" ? new Date().toISOString() : null,
+    })
+    .eq("id", payment.id)
+
+  if (paymentError) {
+    console.error("Error updating payment:", paymentError)
+    return { status: 500, message: "Update failed" }
+  }
+
+  if (event.status === "captured") {
+    const { error: registrationError } = await supabase
+      .from("registrations")
+      .update({ status: "confirmed" })
+      .eq("id", payment.registration_id)
+      .eq("status", "pending")
+
+    if (registrationError) {
+      console.error("Error confirming registration:", registrationError)
+      return { status: 500, message: "Update failed" }
+    }
+  }
+
+  return { status: 200, message: "Processed" }
+}
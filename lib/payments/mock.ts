@@ -0,0 +1,97 @@
+/**
+ * Mock payment provider
+ *
+ * A local stand-in for a real payment gateway, used in development and
+ * tests. Orders "check out" on the app's own /checkout/mock page, which
+ * lets you simulate a successful or failed payment. The outcome is
+ * delivered as a signed webhook payload and goes through exactly the same
+ * verification and processing path as a real provider's webhook.
+ *
+ * @module lib/payments/mock
+ */
+
+import { randomUUID } from "crypto"
+import { hmacSha256Hex, verifyHmacSha256Hex } from "@/lib/signature"
+import {
+  PaymentProviderError,
+  type CreateOrderInput,
+  type CreatedOrder,
+  type PaymentProvider,
+  type PaymentWebhookEvent,
+} from "@/lib/payments/types"
+
+/**
+ * Shape of the mock gateway's webhook body
+ */
+interface MockWebhookBody {
+  event: "payment.captured" | "payment.failed"
+  order_id: string
+  payment_id: string
+}
+
+/**
+ * Returns the secret used to sign mock webhooks
+ *
+ * A fixed default is used when MOCK_PAYMENT_WEBHOOK_SECRET is not set, but
+ * only outside production; the mock provider must never be enabled there.
+ *
+ * @throws {PaymentProviderError} If no secret is set in production
+ */
+function getSecret(): string {
+  const secret = process.env.MOCK_PAYMENT_WEBHOOK_SECRET
+  if (secret) {
+    return secret
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new PaymentProviderError("Missing MOCK_PAYMENT_WEBHOOK_SECRET for the mock payment provider")
+  }
+  return "mock-payment-webhook-secret"
+}
+
+/**
+ * Builds and signs a mock webhook payload
+ *
+ * Used by the mock checkout page to simulate the gateway notifying us.
+ *
+ * @param {string} orderId - The mock order id
+ * @param {boolean} succeeded - Whether the simulated payment succeeded
+ * @returns {{ body: string; signature: string }} The raw body and its signature
+ */
+export function buildMockWebhook(orderId: string, succeeded: boolean) {
+  const payload: MockWebhookBody = {
+    event: succeeded ? "payment.captured" : "payment.failed",
+    order_id: orderId,
+    payment_id: `mock_pay_${randomUUID()}`,
+  }
+  const body = JSON.stringify(payload)
+  return { body, signature: hmacSha256Hex(body, getSecret()) }
+}
+
+/**
+ * Mock payment provider implementation
+ */
+export const mockPaymentProvider: PaymentProvider = {
+  name: "mock",
+  signatureHeader: "x-mock-signature",
+
+  async createOrder(input: CreateOrderInput): Promise<CreatedOrder> {
+    const providerOrderId = `mock_order_${randomUUID()}`
+    const checkoutUrl = new URL("/checkout/mock", input.returnUrl)
+    checkoutUrl.searchParams.set("order", providerOrderId)
+
+    return { providerOrderId, checkoutUrl: checkoutUrl.toString() }
+  },
+
+  verifySignature(rawBody: string, signature: string | null): boolean {
+    return verifyHmacSha256Hex(rawBody, signature, getSecret())
+  },
+
+  parseWebhook(rawBody: string): PaymentWebhookEvent | null {
+    const body = JSON.parse(rawBody) as MockWebhookBody
+    return {
+      providerOrderId: body.order_id,
+      providerPaymentId: body.payment_id,
+      status: body.event === "payment.captured" ? "captured" : "failed",
+    }
+  },
+}
@@ -0,0 +1,106 @@
+/**
+ * Razorpay payment provider
+ *
+ * Uses Razorpay Payment Links: each order is a hosted payment page the
+ * participant is redirected to, and Razorpay reports the outcome through a
+ * signed webhook (`payment_link.paid`).
+ *
+ * Required environment variables:
+ * - RAZORPAY_KEY_ID / RAZORPAY_KEY_SECRET: API credentials
+ * - RAZORPAY_WEBHOOK_SECRET: Secret configured on the webhook in the Razorpay dashboard
+ *
+ * @see https://razorpay.com/docs/api/payments/payment-links/
+ *
+ * @module lib/payments/razorpay
+ */
+
+import { verifyHmacSha256Hex } from "@/lib/signature"
+import {
+  PaymentProviderError,
+  type CreateOrderInput,
+  type CreatedOrder,
+  type PaymentProvider,
+  type PaymentWebhookEvent,
+} from "@/lib/payments/types"
+
+const RAZORPAY_API_URL = "https://api.razorpay.com/v1"
+
+/**
+ * Reads a required environment variable
+ *
+ * @throws {PaymentProviderError} If the variable is not set
+ */
+function requireEnv(name: string): string {
+  const value = process.env[name]
+  if (!value) {
+    throw new PaymentProviderError(`Missing ${name} for the Razorpay payment provider`)
+  }
+  return value
+}
+
+/**
+ * Razorpay payment provider implementation
+ */
+export const razorpayPaymentProvider: PaymentProvider = {
+  name: "razorpay",
+  signatureHeader: "x-razorpay-signature",
+
+  async createOrder(input: CreateOrderInput): Promise<CreatedOrder> {
+    const credentials = Buffer.from(
+      `${requireEnv("RAZORPAY_KEY_ID")}:${requireEnv("RAZORPAY_KEY_SECRET")}`
+    ).toString("base64")
+
+    const response = await fetch(`${RAZORPAY_API_URL}/payment_links`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        amount: input.amountPaise,
+        currency: input.currency,
+        reference_id: input.paymentId,
+        description: input.description,
+        customer: input.customer,
+        notify: { email: true },
+        callback_url: input.returnUrl,
+        callback_method: "get",
+      }),
+    })
+
+    if (!response.ok) {
+      const details = await response.text()
+      throw new PaymentProviderError(`Razorpay rejected the payment link request: ${details}`)
+    }
+
+    const link = (await response.json()) as { id: string; short_url: string }
+    return { providerOrderId: link.id, checkoutUrl: link.short_url }
+  },
+
+  verifySignature(rawBody: string, signature: string | null): boolean {
+    return verifyHmacSha256Hex(rawBody, signature, requireEnv("RAZORPAY_WEBHOOK_SECRET"))
+  },
+
+  parseWebhook(rawBody: string): PaymentWebhookEvent | null {
+    const body = JSON.parse(rawBody)
+
+    switch (body.event) {
+      case "payment_link.paid":
+        return {
+          providerOrderId: body.payload.payment_link.entity.id,
+          providerPaymentId: body.payload.payment?.entity?.id ?? null,
+          status: "captured",
+        }
+      case "payment_link.cancelled":
+      case "payment_link.expired":
+        return {
+          providerOrderId: body.payload.payment_link.entity.id,
+          providerPaymentId: null,
+          status: "failed",
+        }
+      default:
+        // Other event types (e.g. payment.authorized) are not needed
+        return null
+    }
+  },
+}
@@ -0,0 +1,98 @@
+/**
+ * Payment provider types
+ *
+ * Defines the interface every payment provider (Razorpay, the local mock
+ * gateway, ...) implements. The rest of the app only talks to this
+ * interface, so switching providers is a configuration change.
+ *
+ * @module lib/payments/types
+ */
+
+/**
+ * Input for creating a payment order
+ */
+export interface CreateOrderInput {
+  /** Our payments.id, passed to the provider as its reference */
+  paymentId: string
+  /** Amount to charge in paise (1 INR = 100 paise) */
+  amountPaise: number
+  currency: string
+  /** Short description shown on the checkout page */
+  description: string
+  customer: {
+    name: string
+    email: string
+  }
+  /** Absolute URL the participant returns to after paying */
+  returnUrl: string
+}
+
+/**
+ * A payment order created with a provider
+ */
+export interface CreatedOrder {
+  /** The provider's id for the order (stored as payments.provider_order_id) */
+  providerOrderId: string
+  /** URL of the hosted checkout page to send the participant to */
+  checkoutUrl: string
+}
+
+/**
+ * A verified payment notification received from a provider's webhook
+ */
+export interface PaymentWebhookEvent {
+  providerOrderId: string
+  /** The provider's id for the individual payment, if known */
+  providerPaymentId: string | null
+  /** Outcome of the payment */
+  status: "captured" | "failed"
+}
+
+/**
+ * Payment provider interface
+ *
+ * Modelled on Razorpay/Stripe style flows: create an order, send the
+ * participant to a hosted checkout, then receive a signed webhook.
+ */
+export interface PaymentProvider {
+  /** Identifier stored in payments.provider (e.g. "razorpay", "mock") */
+  readonly name: string
+
+  /**
+   * Creates an order with the provider
+   *
+   * @param {CreateOrderInput} input - Order details
+   * @returns {Promise<CreatedOrder>} The provider order id and checkout URL
+   */
+  createOrder(input: CreateOrderInput): Promise<CreatedOrder>
+
+  /**
+   * Verifies a webhook signature against the raw request body
+   *
+   * @param {string} rawBody - The exact request body as received
+   * @param {string | null} signature - Signature header sent by the provider
+   * @returns {boolean} True if the signature is valid
+   */
+  verifySignature(rawBody: string, signature: string | null): boolean
+
+  /**
+   * Extracts the payment outcome from a verified webhook body
+   *
+   * @param {string} rawBody - The verified request body
+   * @returns {PaymentWebhookEvent | null} The event, or null for event types we ignore
+   */
+  parseWebhook(rawBody: string): PaymentWebhookEvent | null
+
+  /** Name of the HTTP header carrying the webhook signature */
+  readonly signatureHeader: string
+}
+
+/**
+ * Error thrown when a provider rejects a request
+ */
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PaymentProviderError"
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Pricing helpers
+ *
+ * Types and helpers for registration prices: time-based pricing tiers
+ * (e.g. Early Bird, Regular, Late) per race category, and promo codes with
+ * percentage or flat discounts.
+ *
+ * Prices are always computed by the database (`category_current_prices` and
+ * `quote_registration_price`), so the amount shown on the registration form
+ * is exactly the amount recorded on the registration and charged at checkout.
+ * All amounts are in paise (1 INR = 100 paise).
+ *
+ * @module lib/pricing
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import * as z from "zod"
+import { formatPrice } from "@/lib/utils"
+
+/**
+ * The price a category currently sells at
+ */
+export interface CategoryPrice {
+  /** Name of the active pricing tier ("Regular" when no tier applies) */
+  tier_name: string
+  price_paise: number
+}
+
+/**
+ * Price breakdown for a registration
+ */
+export interface PriceQuote {
+  /** Name of the active pricing tier */
+  tierName: string
+  /** Tier price before any discount */
+  basePricePaise: number
+  discountPaise: number
+  /** Amount to pay */
+  totalPaise: number
+  /** Id of the applied promo code, if one was valid */
+  promoCodeId: string | null
+  /** Why the promo code could not be applied, if it was not */
+  promoError: string | null
+}
+
+/**
+ * A row returned by quote_registration_price()
+ */
+interface PriceQuoteRow {
+  tier_name: string
+  base_price_paise: number
+  discount_paise: number
+  total_paise: number
+  promo_code_id: string | null
+  promo_error: string | null
+}
+
+/**
+ * Promo code data structure
+ *
+ * Matches the structure of the promo_codes table in Supabase.
+ */
+export interface PromoCode {
+  id: string
+  code: string
+  description: string | null
+  /** Event the code is limited to, or null for every event */
+  event_id: string | null
+  discount_type: "percent" | "flat"
+  /** Whole percentage for percent codes, paise for flat codes */
+  discount_value: number
+  max_redemptions: number | null
+  expires_at: string | null
+  /** Company whose employees may use the code, or null for everyone */
+  company_name: string | null
+  active: boolean
+  created_at: string
+}
+
+/**
+ * Zod schema for creating a promo code in the admin screen
+ *
+ * The flat discount is entered in rupees and converted to paise on the server.
+ */
+export const promoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3, "Code must be at least 3 characters")
+      .max(32, "Code must be at most 32 characters")
+      .regex(/^[A-Za-z0-9_-]+$/, "Use only letters, numbers, dashes and underscores"),
+    description: z.string().trim().optional(),
+    eventId: z.string().optional(),
+    discountType: z.enum(["percent", "flat"]),
+    discountValue: z.coerce.number().positive("Discount must be greater than zero"),
+    maxRedemptions: z.coerce.number().int().positive("Usage limit must be a positive whole number").optional(),
+    expiresAt: z.string().optional(),
+    companyName: z.string().trim().optional(),
+  })
+  .refine((data) => data.discountType !== "percent" || (data.discountValue <= 100 && Number.isInteger(data.discountValue)), {
+    message: "Percentage must be a whole number from 1 to 100",
+    path: ["discountValue"],
+  })
+
+/**
+ * TypeScript type inferred from the promo code schema
+ */
+export type PromoCodeFormData = z.infer<typeof promoCodeSchema>
+
+/**
+ * Fetches the current price (active tier) of each category of an event
+ *
+ * @param {SupabaseClient} supabase - A browser or server Supabase client
+ * @param {string} eventId - The event id
+ * @returns {Promise<Record<string, CategoryPrice>>} Current prices keyed by category id
+ */
+export async function getCategoryCurrentPrices(
+  supabase: SupabaseClient,
+  eventId: string
+): Promise<Record<string, CategoryPrice>> {
+  const { data, error } = await supabase.rpc("category_current_prices", { p_event_id: eventId })
+
+  if (error) {
+    console.error("Error fetching category prices:", error)
+    return {}
+  }
+
+  const prices: Record<string, CategoryPrice> = {}
+  for (const row of (data as ({ category_id: string } & CategoryPrice)[]) || []) {
+    prices[row.category_id] = { tier_name: row.tier_name, price_paise: row.price_paise }
+  }
+  return prices
+}
+
+/**
+ * Prices a registration, applying a promo code if given
+ *
+ * @param {SupabaseClient} supabase - A server Supabase client for a signed-in user
+ * @param {string} categoryId - The chosen race category
+ * @param {string} [promoCode] - Promo code entered by the participant
+ * @param {string} [companyName] - The participant's company (for company-restricted codes)
+ * @returns {Promise<PriceQuote>} The price breakdown
+ * @throws {Error} If the category does not exist or the query fails or returns no quote
+ */
+export async function quoteRegistrationPrice(
+  supabase: SupabaseClient,
+  categoryId: string,
+  promoCode?: string,
+  companyName?: string
+): Promise<PriceQuote> {
+  const { data, error } = await supabase
+    .rpc("quote_registration_price", {
+      p_category_id: categoryId,
+      p_promo_code: promoCode || null,
+      p_company_name: companyName || null,
+    })
+    .single<PriceQuoteRow>()
+
+  if (error) throw error
+  if (!data) throw new Error("No price quote returned")
+
+  return {
+    tierName: data.tier_name,
+    basePricePaise: data.base_price_paise,
+    discountPaise: data.discount_paise,
+    totalPaise: data.total_paise,
+    promoCodeId: data.promo_code_id,
+    promoError: data.promo_error,
+  }
+}
+
+/**
+ * Returns the amount due for a registration
+ *
+ * Registrations made before pricing tiers existed have no recorded price
+ * and fall back to the category's regular price.
+ *
+ * @param {Object} registration - Registration with its category joined
+ * @returns {number} The amount due in paise
+ */
+export function getAmountDue(registration: {
+  price_paise: number | null
+  discount_paise: number | null
+  category?: { price_paise: number } | null
+}): number {
+  const price = registration.price_paise ?? registration.category?.price_paise ?? 0
+  return Math.max(price - (registration.discount_paise ?? 0), 0)
+}
+
+/**
+ * Formats a promo code's discount for display
+ *
+ * @param {Pick<PromoCode, "discount_type" | "discount_value">} promo - The promo code
+ * @returns {string} e.g. "20% off" or "₹100 off"
+ */
+export function formatDiscount(promo: Pick<PromoCode, "discount_type" | "discount_value">): string {
+  return promo.discount_type === "percent"
+    ? `${promo.discount_value}% off`
+    : `${formatPrice(promo.discount_value)} off`
+}
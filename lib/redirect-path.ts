@@ -0,0 +1,47 @@
+/**
+ * Redirect paths
+ *
+ * After logging in, users are sent back to the page they were headed to
+ * (the `next` search parameter set by the middleware). Only paths on this
+ * site are accepted, so a crafted login link cannot send users to another
+ * site: browsers treat `//evil.com` and `/\evil.com` as links to evil.com.
+ *
+ * @module lib/redirect-path
+ */
+
+/**
+ * Where users go after logging in when no valid path was given
+ */
+export const DEFAULT_REDIRECT_PATH = "/dashboard"
+
+/**
+ * Returns a redirect path if it stays on this site, or the fallback
+ *
+ * The path must start with a single slash, contain no backslashes, and
+ * resolve to the given origin.
+ *
+ * @param {string | null | undefined} next - The requested path
+ * @param {string} origin - This site's origin (e.g. window.location.origin)
+ * @param {string} [fallback] - Path returned when `next` is missing or unsafe (defaults to /dashboard)
+ * @returns {string} The path, query and hash to redirect to
+ *
+ * @example
+ * safeRedirectPath("/dashboard?event=fall-2024", origin) // "/dashboard?event=fall-2024"
+ * safeRedirectPath("/\\evil.com", origin) // "/dashboard"
+ */
+export function safeRedirectPath(
+  next: string | null | undefined,
+  origin: string,
+  fallback: string = DEFAULT_REDIRECT_PATH
+): string {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.includes("\\")) {
+    return fallback
+  }
+
+  try {
+    const url = new URL(next, origin)
+    return url.origin === origin ? url.pathname + url.search + url.hash : fallback
+  } catch {
+    return fallback
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * Registration export
+ *
+ * Columns, formats and encoding for exporting the admin registrations table
+ * (all pages of the current search, filters and sort) from
+ * /api/registrations/export. Every format uses the same typed values:
+ * dates are ISO 8601 timestamps in UTC, amounts are numbers in rupees and
+ * flags are booleans.
+ *
+ * CSV follows RFC 4180 (quoted fields, doubled quotes, CRLF line endings)
+ * and neutralizes text that a spreadsheet would run as a formula. Columns
+ * marked sensitive, such as the emergency phone, are redacted unless the
+ * exporting user's role is in EXPORT_UNREDACTED_ROLES.
+ *
+ * @module lib/registration-export
+ */
+
+import { getLatestPayment } from "@/lib/registrations"
+import type { AdminRegistration } from "@/lib/admin-registrations"
+import type { UserRole } from "@/lib/roles"
+
+/**
+ * File formats an export can be downloaded in
+ */
+export type ExportFormat = "csv" | "xlsx" | "json"
+
+/**
+ * Label and content type of each format (the format is also the file extension)
+ */
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; contentType: string }> = {
+  csv: { label: "CSV", contentType: "text/csv; charset=utf-8" },
+  xlsx: {
+    label: "Excel (XLSX)",
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  json: { label: "JSON", contentType: "application/json; charset=utf-8" },
+}
+
+/**
+ * Roles that can export registrations: admins, and check-in staff (e.g. a
+ * kit pickup list), who can already look registrations up at the venue
+ */
+export const EXPORT_ROLES: UserRole[] = ["admin", "volunteer"]
+
+/**
+ * Roles whose exports include sensitive columns; other roles get REDACTED
+ * in their place
+ */
+export const EXPORT_UNREDACTED_ROLES: UserRole[] = ["admin"]
+
+/**
+ * Written in place of a sensitive value the user may not export
+ */
+export const REDACTED = "[redacted]"
+
+/**
+ * An exported value
+ */
+export type ExportValue = string | number | boolean | null
+
+/**
+ * What column values need besides the registration
+ */
+export interface ExportContext {
+  /** Category id to name */
+  categoryNames: Record<string, string>
+}
+
+/**
+ * A column that can be exported
+ */
+export interface ExportColumn {
+  /** Key in the JSON export and in the `fields` parameter */
+  id: string
+  /** Header in the CSV and XLSX exports */
+  label: string
+  /** "date" values are ISO 8601 timestamps (written as dates in XLSX) */
+  type?: "date"
+  /** Redacted for roles not in EXPORT_UNREDACTED_ROLES */
+  sensitive?: boolean
+  value: (registration: AdminRegistration, context: ExportContext) => ExportValue
+}
+
+/**
+ * Converts a stored timestamp to ISO 8601 in UTC
+ *
+ * @param {string | null | undefined} value - A timestamp from the database
+ * @returns {string | null} The ISO timestamp, or null if there is none
+ */
+function isoDate(value: string | null | undefined): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
+/**
+ * Columns that can be exported, in export order
+ */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: "bib_number", label: "Bib Number", value: (reg) => reg.bib_number },
+  { id: "full_name", label: "Full Name", value: (reg) => reg.full_name },
+  { id: "corporate_email", label: "Corporate Email", value: (reg) => reg.corporate_email },
+  { id: "email_verified", label: "Email Verified", value: (reg) => !!reg.corporate_email_verified_at },
+  { id: "employee_id", label: "Employee ID", value: (reg) => reg.employee_id },
+  { id: "roster_status", label: "Roster Check", value: (reg) => reg.roster_status },
+  { id: "company_name", label: "Company Name", value: (reg) => reg.company_name },
+  {
+    id: "category",
+    label: "Race Category",
+    value: (reg, context) => (reg.category_id ? context.categoryNames[reg.category_id] ?? null : null),
+  },
+  { id: "tshirt_size", label: "T-shirt Size", value: (reg) => reg.tshirt_size },
+  { id: "emergency_contact", label: "Emergency Contact", sensitive: true, value: (reg) => reg.emergency_contact },
+  { id: "emergency_phone", label: "Emergency Phone", sensitive: true, value: (reg) => reg.emergency_phone },
+  {
+    id: "registration_date",
+    label: "Registration Date",
+    type: "date",
+    value: (reg) => isoDate(reg.registration_date),
+  },
+  { id: "status", label: "Status", value: (reg) => reg.status },
+  { id: "status_reason", label: "Status Reason", value: (reg) => reg.status_reason },
+  { id: "payment_status", label: "Payment Status", value: (reg) => getLatestPayment(reg.payments)?.status ?? null },
+  {
+    id: "amount_paid",
+    label: "Amount Paid",
+    value: (reg) => {
+      const payment = getLatestPayment(reg.payments)
+      return payment?.status === "captured" ? payment.amount_paise / 100 : null
+    },
+  },
+  { id: "checked_in_at", label: "Checked In At", type: "date", value: (reg) => isoDate(reg.checkin?.checked_in_at) },
+]
+
+/**
+ * Reads the columns to export from the `fields` parameter
+ *
+ * @param {string} [fields] - Comma-separated column ids
+ * @returns {ExportColumn[]} The chosen columns in export order (every column if none are known)
+ *
+ * @example
+ * parseExportColumns("full_name,tshirt_size") // [Full Name, T-shirt Size]
+ */
+export function parseExportColumns(fields?: string): ExportColumn[] {
+  const ids = (fields ?? "").split(",").map((id) => id.trim())
+  const chosen = EXPORT_COLUMNS.filter((column) => ids.includes(column.id))
+  return chosen.length > 0 ? chosen : EXPORT_COLUMNS
+}
+
+/**
+ * Returns a registration's values for the chosen columns
+ *
+ * @param {AdminRegistration} registration - The registration
+ * @param {ExportColumn[]} columns - The columns to export
+ * @param {ExportContext} context - Category names
+ * @param {boolean} redact - Whether to replace sensitive values with REDACTED
+ * @returns {ExportValue[]} The values, in column order
+ */
+export function exportValues(
+  registration: AdminRegistration,
+  columns: ExportColumn[],
+  context: ExportContext,
+  redact: boolean
+): ExportValue[] {
+  return columns.map((column) => {
+    const value = column.value(registration, context)
+    return redact && column.sensitive && value !== null && value !== "" ? REDACTED : value
+  })
+}
+
+/**
+ * Characters that make a spreadsheet treat a cell as a formula
+ */
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"]
+
+/**
+ * Encodes one CSV field
+ *
+ * Text starting with a formula character is prefixed with an apostrophe
+ * so spreadsheets show it instead of running it (e.g. `=HYPERLINK(...)`
+ * typed as a name). Fields containing commas, quotes or line breaks are
+ * quoted, with quotes doubled (RFC 4180).
+ *
+ * @param {ExportValue} value - The value
+ * @returns {string} The encoded field
+ *
+ * @example
+ * toCsvField('Jane "JD" Doe') // '"Jane ""JD"" Doe"'
+ * toCsvField("=1+1")          // "'=1+1"
+ */
+export function toCsvField(value: ExportValue): string {
+  if (value === null) {
+    return ""
+  }
+  if (typeof value !== "string") {
+    return String(value)
+  }
+
+  const text = FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix)) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Encodes one CSV record, including its CRLF line ending
+ *
+ * @param {ExportValue[]} values - The record's values
+ * @returns {string} The encoded record
+ */
+export function toCsvRecord(values: ExportValue[]): string {
+  return `${values.map(toCsvField).join(",")}\r\n`
+}
+
+/**
+ * Returns a registration as a JSON object keyed by column id
+ *
+ * @param {ExportValue[]} values - The registration's values
+ * @param {ExportColumn[]} columns - The exported columns
+ * @returns {Record<string, ExportValue>} The object
+ */
+export function toJsonRecord(values: ExportValue[], columns: ExportColumn[]): Record<string, ExportValue> {
+  return Object.fromEntries(columns.map((column, index) => [column.id, values[index]]))
+}
+
+/**
+ * Names an export file after the event, the race category (when exactly
+ * one is selected) and today's date
+ *
+ * @param {ExportFormat} format - The file format
+ * @param {string} eventSlug - The event
+ * @param {string | null} [categoryName] - The only selected category
+ * @returns {string} The file name, e.g. registrations_fall-2024_10k-run_2024-12-24.csv
+ */
+export function exportFilename(format: ExportFormat, eventSlug: string, categoryName?: string | null): string {
+  const categorySuffix = categoryName ? `_${categoryName.toLowerCase().replace(/[^a-z0-9]+/g, "-")}` : ""
+  return `registrations_${eventSlug}${categorySuffix}_${new Date().toISOString().split("T")[0]}.${format}`
+}
@@ -0,0 +1,325 @@
+/**
+ * Registration import
+ *
+ * Admins import walk-in and offline registrations from a CSV or XLSX
+ * spreadsheet at /admin/import. The file's columns are mapped to
+ * registration fields (guessed from the header row, adjustable by the
+ * admin), every row is checked with the same registrationSchema as the
+ * registration form, and rows that look like someone already in the file
+ * or already registered are flagged. The preview and the import run the
+ * same checks; rows with errors are left out of the import and can be
+ * downloaded as an error report to fix and import again.
+ *
+ * Shared by the import form and its server actions.
+ *
+ * @module lib/registration-import
+ */
+
+import * as z from "zod"
+import { registrationSchema } from "@/lib/registration-schema"
+import { toCsvRow } from "@/lib/csv"
+import type { EventCategory } from "@/lib/events"
+
+/**
+ * Most rows imported from one file
+ */
+export const MAX_IMPORT_ROWS = 500
+
+/**
+ * Largest XLSX file accepted; the file is sent to a server action, and
+ * server actions accept request bodies up to 1 MB
+ */
+export const MAX_IMPORT_FILE_BYTES = 900 * 1024
+
+/**
+ * A registration field that can be imported
+ */
+export type ImportField =
+  | "fullName"
+  | "corporateEmail"
+  | "employeeId"
+  | "companyName"
+  | "category"
+  | "tshirtSize"
+  | "emergencyContact"
+  | "emergencyPhone"
+
+/**
+ * Fields a file's columns are mapped to, in display order, with the header
+ * names recognised for each (lower-cased, spaces and punctuation removed)
+ */
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: "fullName", label: "Full Name", aliases: ["fullname", "name", "participantname", "employeename"] },
+  {
+    field: "corporateEmail",
+    label: "Corporate Email",
+    aliases: ["corporateemail", "email", "workemail", "emailaddress"],
+  },
+  { field: "employeeId", label: "Employee ID", aliases: ["employeeid", "empid", "employeeno", "employeenumber"] },
+  {
+    field: "companyName",
+    label: "Company Name",
+    aliases: ["companyname", "company", "organisation", "organization", "employer"],
+  },
+  { field: "category", label: "Race Category", aliases: ["racecategory", "category", "race", "distance"] },
+  { field: "tshirtSize", label: "T-shirt Size", aliases: ["tshirtsize", "tshirt", "shirtsize", "size"] },
+  { field: "emergencyContact", label: "Emergency Contact", aliases: ["emergencycontact", "emergencycontactname"] },
+  {
+    field: "emergencyPhone",
+    label: "Emergency Phone",
+    aliases: ["emergencyphone", "emergencycontactphone", "emergencynumber"],
+  },
+]
+
+/**
+ * Column of the file mapped to each field (-1 if none)
+ */
+export type ColumnMapping = Record<ImportField, number>
+
+/**
+ * A row of the file, read through the column mapping
+ */
+export interface ImportRow {
+  /** Row number in the file (the header is row 1; blank rows are skipped) */
+  line: number
+  /** Each field's cell, trimmed */
+  values: Record<ImportField, string>
+}
+
+/**
+ * The checks for one row
+ */
+export interface ImportRowCheck {
+  line: number
+  corporateEmail: string
+  /** Why the row cannot be imported */
+  errors: string[]
+  /** Possible duplicates; the row is imported anyway */
+  warnings: string[]
+}
+
+/**
+ * The import row schema: registrationSchema without the promo code (admins
+ * set prices from the admin table)
+ */
+export const importRowSchema = registrationSchema.omit({ promoCode: true })
+
+/**
+ * A row's registration details once validated
+ */
+export type ImportRowData = z.infer<typeof importRowSchema>
+
+/**
+ * A row that passed every check
+ */
+export interface ValidImportRow {
+  line: number
+  data: ImportRowData
+}
+
+/**
+ * The details of an existing registration compared against imported rows
+ */
+export interface ExistingRegistration {
+  corporate_email: string
+  employee_id: string
+  full_name: string
+  company_name: string
+}
+
+/**
+ * Normalises a header for matching against IMPORT_FIELDS aliases
+ *
+ * @param {string} header - Header as written in the file
+ * @returns {string} The normalised header
+ */
+function normaliseHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_#.-]/g, "")
+}
+
+/**
+ * Normalises a value for duplicate matching (case and spacing ignored)
+ *
+ * @param {string} value - A name, company or employee ID
+ * @returns {string} The normalised value
+ */
+function normaliseKey(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, " ")
+}
+
+/**
+ * Guesses which column holds each field from the header row
+ *
+ * Each column is mapped to at most one field.
+ *
+ * @param {string[]} headers - The file's header row
+ * @returns {ColumnMapping} The guessed mapping
+ *
+ * @example
+ * guessColumnMapping(["Name", "Email"]) // { fullName: 0, corporateEmail: 1, employeeId: -1, ... }
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalised = headers.map(normaliseHeader)
+  const used: number[] = []
+
+  return Object.fromEntries(
+    IMPORT_FIELDS.map(({ field, aliases }) => {
+      const index = normalised.findIndex((header, i) => !used.includes(i) && aliases.includes(header))
+      if (index !== -1) used.push(index)
+      return [field, index]
+    })
+  ) as ColumnMapping
+}
+
+/**
+ * Returns the fields no column is mapped to
+ *
+ * @param {ColumnMapping} mapping - The column mapping
+ * @returns {string[]} Labels of the unmapped fields
+ */
+export function unmappedFields(mapping: ColumnMapping): string[] {
+  return IMPORT_FIELDS.filter(({ field }) => mapping[field] === -1).map(({ label }) => label)
+}
+
+/**
+ * Reads a file's rows through the column mapping
+ *
+ * @param {string[][]} rows - The file's rows, without the header row
+ * @param {ColumnMapping} mapping - The column mapping
+ * @returns {ImportRow[]} The rows, numbered as in the file
+ */
+export function applyColumnMapping(rows: string[][], mapping: ColumnMapping): ImportRow[] {
+  return rows.map((row, index) => ({
+    line: index + 2,
+    values: Object.fromEntries(
+      IMPORT_FIELDS.map(({ field }) => [field, mapping[field] === -1 ? "" : (row[mapping[field]] ?? "").trim()])
+    ) as Record<ImportField, string>,
+  }))
+}
+
+/**
+ * Checks imported rows against the registration rules and for duplicates
+ *
+ * Errors keep a row out of the import: a failed registrationSchema rule, a
+ * race category not offered at the event, or an email used by an earlier
+ * row or an existing registration. Warnings flag rows that may be the same
+ * person as an earlier row or an existing registration (the same employee
+ * ID, or the same name, at the same company); they are imported anyway.
+ *
+ * @param {ImportRow[]} rows - The rows to check
+ * @param {EventCategory[]} categories - The event's race categories (matched by name, ignoring case)
+ * @param {ExistingRegistration[]} existing - The event's registrations
+ * @returns {{ checks: ImportRowCheck[]; valid: ValidImportRow[] }} The checks for every row, and the rows without errors
+ */
+export function checkImportRows(
+  rows: ImportRow[],
+  categories: EventCategory[],
+  existing: ExistingRegistration[]
+): { checks: ImportRowCheck[]; valid: ValidImportRow[] } {
+  const categoryIds = new Map(categories.map((category) => [normaliseKey(category.name), category.id]))
+
+  // Earlier rows by email, employee ID + company and name + company;
+  // existing registrations are recorded as row 0
+  const emails = new Map<string, number>()
+  const employees = new Map<string, number>()
+  const names = new Map<string, number>()
+  existing.forEach((registration) => {
+    const company = normaliseKey(registration.company_name)
+    emails.set(normaliseKey(registration.corporate_email), 0)
+    employees.set(`${normaliseKey(registration.employee_id)}|${company}`, 0)
+    names.set(`${normaliseKey(registration.full_name)}|${company}`, 0)
+  })
+
+  const duplicateOf = (line: number | undefined, what: string) =>
+    line === 0 ? `An existing registration has the same ${what}` : `Same ${what} as row ${line}`
+
+  const checks: ImportRowCheck[] = []
+  const valid: ValidImportRow[] = []
+
+  rows.forEach(({ line, values }) => {
+    const errors: string[] = []
+    const warnings: string[] = []
+    const email = values.corporateEmail.toLowerCase()
+
+    const categoryId = values.category ? categoryIds.get(normaliseKey(values.category)) : ""
+    if (categoryId === undefined) {
+      errors.push(`This event has no race category named "${values.category}"`)
+    }
+
+    const parsed = importRowSchema.safeParse({
+      fullName: values.fullName,
+      corporateEmail: email,
+      employeeId: values.employeeId,
+      companyName: values.companyName,
+      categoryId: categoryId ?? values.category,
+      tshirtSize: values.tshirtSize.toUpperCase(),
+      emergencyContact: values.emergencyContact,
+      emergencyPhone: values.emergencyPhone,
+    })
+    if (!parsed.success) {
+      parsed.error.issues.forEach((issue) => {
+        if (!errors.includes(issue.message)) errors.push(issue.message)
+      })
+    }
+
+    if (email) {
+      if (emails.has(email)) {
+        errors.push(
+          emails.get(email) === 0 ? "Already registered for this event" : `Same email as row ${emails.get(email)}`
+        )
+      } else {
+        emails.set(email, line)
+      }
+    }
+
+    const company = normaliseKey(values.companyName)
+    if (company) {
+      const employeeKey = `${normaliseKey(values.employeeId)}|${company}`
+      const nameKey = `${normaliseKey(values.fullName)}|${company}`
+      if (values.employeeId && employees.has(employeeKey)) {
+        warnings.push(duplicateOf(employees.get(employeeKey), "employee ID and company"))
+      } else if (values.fullName && names.has(nameKey)) {
+        warnings.push(duplicateOf(names.get(nameKey), "name and company"))
+      }
+      if (values.employeeId && !employees.has(employeeKey)) employees.set(employeeKey, line)
+      if (values.fullName && !names.has(nameKey)) names.set(nameKey, line)
+    }
+
+    checks.push({ line, corporateEmail: email, errors, warnings })
+    if (errors.length === 0 && parsed.success) {
+      valid.push({ line, data: parsed.data })
+    }
+  })
+
+  return { checks, valid }
+}
+
+/**
+ * Builds the error report: the rows that were not imported, as in the
+ * file, with a column explaining why
+ *
+ * Cells are written exactly as read (see toCsvRow), so the fixed report can
+ * be imported again.
+ *
+ * @param {string[]} headers - The file's header row
+ * @param {string[][]} rows - The file's rows, without the header row
+ * @param {ImportRowCheck[]} checks - The checks for each row
+ * @returns {string} The report as CSV text
+ */
+export function importErrorReport(headers: string[], rows: string[][], checks: ImportRowCheck[]): string {
+  const failed = checks.filter((check) => check.errors.length > 0)
+  return (
+    "\uFEFF" +
+    toCsvRow(["Row", ...headers, "Errors"]) +
+    failed
+      .map((check) => {
+        const cells = rows[check.line - 2] ?? []
+        return toCsvRow([
+          check.line,
+          ...headers.map((_, index) => cells[index] ?? ""),
+          check.errors.join("; "),
+        ])
+      })
+      .join("")
+  )
+}
@@ -0,0 +1,45 @@
+/**
+ * Registration schema
+ *
+ * Zod schema for event registration data. Shared by the registration form
+ * (client-side validation) and the server actions that write registrations,
+ * so both apply exactly the same rules.
+ *
+ * @module lib/registration-schema
+ */
+
+import * as z from "zod"
+
+/**
+ * Zod schema for registration form validation
+ *
+ * Validates all registration fields:
+ * - fullName: Minimum 2 characters
+ * - corporateEmail: Valid email format
+ * - employeeId: Required field
+ * - companyName: Minimum 2 characters
+ * - categoryId: A race category must be selected
+ * - tshirtSize: Must be one of: S, M, L, XL
+ * - emergencyContact: Minimum 2 characters
+ * - emergencyPhone: Minimum 10 characters (basic phone validation)
+ * - promoCode: Optional; checked against promo_codes on the server
+ */
+export const registrationSchema = z.object({
+  fullName: z.string().min(2, "Full name must be at least 2 characters"),
+  corporateEmail: z.string().email("Please enter a valid email address"),
+  employeeId: z.string().min(1, "Employee ID is required"),
+  companyName: z.string().min(2, "Company name must be at least 2 characters"),
+  categoryId: z.string({ required_error: "Please select a race category" }).min(1, "Please select a race category"),
+  tshirtSize: z.enum(["S", "M", "L", "XL"], {
+    required_error: "Please select a T-shirt size",
+  }),
+  emergencyContact: z.string().min(2, "Emergency contact name is required"),
+  emergencyPhone: z.string().min(10, "Emergency contact phone is required"),
+  promoCode: z.string().trim().max(32, "Promo code is too long").optional(),
+})
+
+/**
+ * TypeScript type inferred from the Zod schema
+ * Used for type-safe form data handling
+ */
+export type RegistrationFormData = z.infer<typeof registrationSchema>
@@ -0,0 +1,125 @@
+/**
+ * Registration helpers
+ *
+ * Shared status definitions for event registrations, used by the admin
+ * table and the participant dashboard so both display statuses the same way.
+ *
+ * @module lib/registrations
+ */
+
+/**
+ * Registration status values (mirrors the CHECK constraint on registrations.status)
+ *
+ * - pending: Submitted but not yet confirmed
+ * - confirmed: Holds a seat at the event
+ * - waitlisted: Submitted after the event reached capacity; promoted
+ *   automatically (oldest first) when a seat is freed
+ * - cancelled: Cancelled by the participant or an admin
+ */
+export type RegistrationStatus = "pending" | "confirmed" | "waitlisted" | "cancelled"
+
+/**
+ * Every registration status, in lifecycle order
+ */
+export const REGISTRATION_STATUSES: RegistrationStatus[] = ["pending", "confirmed", "waitlisted", "cancelled"]
+
+/**
+ * Badge colour classes for each registration status
+ */
+export const registrationStatusStyles: Record<RegistrationStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  confirmed: "bg-green-100 text-green-800",
+  waitlisted: "bg-blue-100 text-blue-800",
+  cancelled: "bg-red-100 text-red-800",
+}
+
+/**
+ * Returns the badge classes for a status string from the database
+ *
+ * Falls back to the cancelled style for unknown values so unexpected
+ * statuses stand out rather than looking confirmed.
+ *
+ * @param {string} status - Status value from the registrations table
+ * @returns {string} Tailwind classes for the status badge
+ */
+export function getStatusBadgeClass(status: string): string {
+  return registrationStatusStyles[status as RegistrationStatus] ?? registrationStatusStyles.cancelled
+}
+
+/**
+ * Payment status values (mirrors the CHECK constraint on payments.status)
+ *
+ * - created: Checkout started, no outcome yet
+ * - captured: Paid; the registration has been confirmed
+ * - failed: The payment attempt failed or was abandoned at the provider
+ * - refunded: The payment was refunded
+ */
+export type PaymentStatus = "created" | "captured" | "failed" | "refunded"
+
+/**
+ * A payment attempt as embedded in registration queries
+ */
+export interface PaymentSummary {
+  status: PaymentStatus
+  amount_paise: number
+  paid_at?: string | null
+  created_at: string
+}
+
+/**
+ * Badge colour classes for each payment status
+ */
+export const paymentStatusStyles: Record<PaymentStatus, string> = {
+  created: "bg-yellow-100 text-yellow-800",
+  captured: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  refunded: "bg-gray-100 text-gray-700",
+}
+
+/**
+ * Returns the most recent payment attempt for a registration
+ *
+ * @param {PaymentSummary[] | null | undefined} payments - The registration's payments
+ * @returns {PaymentSummary | undefined} The latest payment, if any
+ */
+export function getLatestPayment(payments: PaymentSummary[] | null | undefined): PaymentSummary | undefined {
+  return [...(payments ?? [])].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  )[0]
+}
+
+/**
+ * Status changes admins can make from the registrations table
+ *
+ * - confirm: Confirm a pending or waitlisted registration (e.g. paid at the desk)
+ * - cancel: Cancel a registration; a reason is required
+ * - reinstate: Give a cancelled registration its seat back
+ */
+export type StatusAction = "confirm" | "cancel" | "reinstate"
+
+/**
+ * What each status action applies to and the status it is expected to set
+ *
+ * `to` is what the table shows while the change is saved; the database has
+ * the final say (a reinstated registration may be confirmed if already paid,
+ * or waitlisted if the event is full).
+ */
+export const STATUS_ACTIONS: Record<
+  StatusAction,
+  { label: string; from: RegistrationStatus[]; to: RegistrationStatus }
+> = {
+  confirm: { label: "Confirm", from: ["pending", "waitlisted"], to: "confirmed" },
+  cancel: { label: "Cancel", from: ["pending", "confirmed", "waitlisted"], to: "cancelled" },
+  reinstate: { label: "Reinstate", from: ["cancelled"], to: "pending" },
+}
+
+/**
+ * Returns whether a status action applies to a registration
+ *
+ * @param {string} status - The registration's current status
+ * @param {StatusAction} action - The action
+ * @returns {boolean} True if the action would change the registration
+ */
+export function canApplyStatusAction(status: string, action: StatusAction): boolean {
+  return STATUS_ACTIONS[action].from.includes(status as RegistrationStatus)
+}
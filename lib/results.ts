@@ -0,0 +1,385 @@
+/**
+ * Race results helpers
+ *
+ * Types and helpers for timing results: parsing the CSV supplied by the
+ * timing company, and formatting times and paces for the public results
+ * pages.
+ *
+ * Results are stored per participant in race_results (matched to a
+ * registration by bib) with times in milliseconds. Rankings are computed
+ * by the race_result_rankings view, per race category (categories are
+ * different distances) and per gender within a category, ordered by net
+ * time: chip time, or gun time when there is no chip time.
+ *
+ * @module lib/results
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { parseCsv } from "@/lib/csv"
+
+/**
+ * Gender values stored on results
+ *
+ * - M: Male
+ * - F: Female
+ * - X: Other / non-binary
+ */
+export type ResultGender = "M" | "F" | "X"
+
+/**
+ * Display labels for each gender
+ */
+export const genderLabels: Record<ResultGender, string> = {
+  M: "Men",
+  F: "Women",
+  X: "Non-binary",
+}
+
+/**
+ * A split time recorded at an intermediate timing point
+ */
+export interface ResultSplit {
+  /** Split name from the CSV header, e.g. "Split 5K" */
+  label: string
+  time_ms: number
+}
+
+/**
+ * A result row from the race_result_rankings view
+ */
+export interface RankedResult {
+  id: string
+  event_id: string
+  registration_id: string
+  category_id: string | null
+  bib_number: number
+  full_name: string
+  company_name: string | null
+  gender: ResultGender | null
+  gun_time_ms: number
+  chip_time_ms: number | null
+  net_time_ms: number
+  splits: ResultSplit[]
+  category_rank: number
+  category_finishers: number
+  gender_rank: number | null
+  gender_finishers: number | null
+}
+
+/**
+ * A result parsed from the timing CSV, before matching to a registration
+ */
+export interface ParsedResult {
+  /** Line number in the file, for error reports */
+  line: number
+  bib_number: number
+  gun_time_ms: number
+  chip_time_ms: number | null
+  gender: ResultGender | null
+  splits: ResultSplit[]
+}
+
+/**
+ * A CSV row that could not be imported
+ */
+export interface RejectedResultRow {
+  line: number
+  /** The bib as written in the file, if any */
+  bib: string
+  reason: string
+}
+
+/**
+ * Header names accepted for each column (lower-cased, spaces and
+ * underscores removed)
+ */
+const COLUMN_ALIASES = {
+  bib: ["bib", "bibnumber", "bibno"],
+  gunTime: ["guntime", "gun"],
+  chipTime: ["chiptime", "chip", "nettime"],
+  gender: ["gender", "sex"],
+}
+
+/**
+ * Normalises a CSV header for matching against COLUMN_ALIASES
+ *
+ * @param {string} header - Header as written in the file
+ * @returns {string} The normalised header
+ */
+function normaliseHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_#.-]/g, "")
+}
+
+/**
+ * Parses a race time such as "1:02:03", "25:31", "25:31.4" or "1531.4"
+ *
+ * @param {string} value - Time as written by the timing company
+ * @returns {number | null} The time in milliseconds, or null if it is blank or not a time
+ */
+export function parseRaceTime(value: string): number | null {
+  const text = value.trim()
+  if (!/^\d+(:\d{1,2}){0,2}(\.\d+)?$/.test(text)) return null
+
+  const [whole, fraction = ""] = text.split(".")
+  const seconds = whole.split(":").reduce((total, part) => total * 60 + Number(part), 0)
+  const ms = seconds * 1000 + Math.round(Number(`0.${fraction || "0"}`) * 1000)
+  return ms > 0 ? ms : null
+}
+
+/**
+ * Formats a race time, e.g. "25:31" or "1:02:03.4"
+ *
+ * Tenths of a second are shown only when the time has them.
+ *
+ * @param {number} ms - Time in milliseconds
+ * @returns {string} The formatted time
+ */
+export function formatRaceTime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const tenths = Math.floor((ms % 1000) / 100)
+
+  const clock =
+    hours > 0
+      ? `${hours}:${String(minutes).padStart(2, "0")}:${String(seconds).padStart(2, "0")}`
+      : `${minutes}:${String(seconds).padStart(2, "0")}`
+  return tenths > 0 ? `${clock}.${tenths}` : clock
+}
+
+/**
+ * Formats the average pace for a race, e.g. "5:06 /km"
+ *
+ * @param {number} ms - Race time in milliseconds
+ * @param {number} distanceKm - Race distance in kilometres
+ * @returns {string | null} The pace, or null if the distance is unknown
+ */
+export function formatPace(ms: number, distanceKm: number | null | undefined): string | null {
+  if (!distanceKm || distanceKm <= 0) return null
+  const secondsPerKm = Math.round(ms / 1000 / distanceKm)
+  return `${Math.floor(secondsPerKm / 60)}:${String(secondsPerKm % 60).padStart(2, "0")} /km`
+}
+
+/**
+ * Formats a place, e.g. "1st", "22nd", "113th"
+ *
+ * @param {number} place - The rank
+ * @returns {string} The ordinal
+ */
+export function formatPlace(place: number): string {
+  const lastTwo = place % 100
+  const suffix =
+    lastTwo >= 11 && lastTwo <= 13 ? "th" : ({ 1: "st", 2: "nd", 3: "rd" } as Record<number, string>)[place % 10] ?? "th"
+  return `${place}${suffix}`
+}
+
+/**
+ * Reads a gender value from the CSV
+ *
+ * @param {string} value - e.g. "M", "Male", "F", "female"
+ * @returns {ResultGender | null} The gender, or null if blank or unrecognised
+ */
+function parseGender(value: string): ResultGender | null {
+  const text = value.trim().toUpperCase()
+  if (text === "M" || text === "MALE") return "M"
+  if (text === "F" || text === "FEMALE") return "F"
+  if (text === "X" || text === "OTHER" || text === "NON-BINARY") return "X"
+  return null
+}
+
+/**
+ * Parses the timing company's results CSV
+ *
+ * Required columns: bib and gun time. Optional columns: chip time, gender,
+ * and any number of split columns (headers containing "split", e.g.
+ * "Split 5K"), kept in file order. Other columns are ignored.
+ *
+ * @param {string} text - The CSV file contents
+ * @returns {{ results: ParsedResult[]; rejected: RejectedResultRow[]; error?: string }}
+ *   Parsed rows, rows that could not be read, or an error if the file itself is unusable
+ */
+export function parseResultsCsv(text: string): {
+  results: ParsedResult[]
+  rejected: RejectedResultRow[]
+  error?: string
+} {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    return { results: [], rejected: [], error: "The file is empty" }
+  }
+
+  const headers = header.map(normaliseHeader)
+  const findColumn = (aliases: string[]) => headers.findIndex((h) => aliases.includes(h))
+  const bibColumn = findColumn(COLUMN_ALIASES.bib)
+  const gunColumn = findColumn(COLUMN_ALIASES.gunTime)
+  const chipColumn = findColumn(COLUMN_ALIASES.chipTime)
+  const genderColumn = findColumn(COLUMN_ALIASES.gender)
+  const splitColumns = headers.flatMap((h, index) => (h.includes("split") ? [index] : []))
+
+  if (bibColumn === -1 || gunColumn === -1) {
+    return {
+      results: [],
+      rejected: [],
+      error: "The file needs a header row with at least \"Bib\" and \"Gun Time\" columns",
+    }
+  }
+
+  const results: ParsedResult[] = []
+  const rejected: RejectedResultRow[] = []
+  const seenBibs = new Set<number>()
+
+  rows.forEach((row, index) => {
+    // Line numbers count the header as line 1
+    const line = index + 2
+    const bib = (row[bibColumn] ?? "").trim()
+    const reject = (reason: string) => rejected.push({ line, bib, reason })
+
+    if (!/^\d+$/.test(bib) || Number(bib) <= 0) {
+      return reject("Missing or invalid bib number")
+    }
+    const bibNumber = Number(bib)
+    if (seenBibs.has(bibNumber)) {
+      return reject("Bib appears more than once in the file")
+    }
+
+    const gunTime = parseRaceTime(row[gunColumn] ?? "")
+    if (gunTime === null) {
+      return reject("Missing or invalid gun time")
+    }
+
+    const chipText = chipColumn === -1 ? "" : (row[chipColumn] ?? "").trim()
+    const chipTime = chipText ? parseRaceTime(chipText) : null
+    if (chipText && chipTime === null) {
+      return reject("Invalid chip time")
+    }
+
+    const splits: ResultSplit[] = []
+    for (const column of splitColumns) {
+      const value = (row[column] ?? "").trim()
+      if (!value) continue
+      const time = parseRaceTime(value)
+      if (time === null) {
+        return reject(`Invalid time in "${header[column].trim()}"`)
+      }
+      splits.push({ label: header[column].trim(), time_ms: time })
+    }
+
+    seenBibs.add(bibNumber)
+    results.push({
+      line,
+      bib_number: bibNumber,
+      gun_time_ms: gunTime,
+      chip_time_ms: chipTime,
+      gender: genderColumn === -1 ? null : parseGender(row[genderColumn] ?? ""),
+      splits,
+    })
+  })
+
+  return { results, rejected }
+}
+
+/**
+ * Results shown per page on the public results list
+ */
+export const RESULTS_PAGE_SIZE = 50
+
+/**
+ * Filters for the public results list
+ */
+export interface ResultsQuery {
+  categoryId?: string
+  gender?: ResultGender
+  /** Name (partial match) or bib number */
+  search?: string
+  /** 1-based page number */
+  page?: number
+}
+
+/**
+ * Fetches one page of an event's ranked results, fastest first
+ *
+ * Ranks are computed over the whole category, so filtering by gender or
+ * searching keeps each runner's real place.
+ *
+ * @param {SupabaseClient} supabase - Any Supabase client (results are public)
+ * @param {string} eventId - The event
+ * @param {ResultsQuery} query - Category, gender, search and page
+ * @returns {Promise<{ results: RankedResult[]; total: number }>} The page of results and the total number of matches
+ */
+export async function getRankedResults(
+  supabase: SupabaseClient,
+  eventId: string,
+  { categoryId, gender, search, page = 1 }: ResultsQuery
+): Promise<{ results: RankedResult[]; total: number }> {
+  let query = supabase
+    .from("race_result_rankings")
+    .select("*", { count: "exact" })
+    .eq("event_id", eventId)
+
+  if (categoryId) query = query.eq("category_id", categoryId)
+  if (gender) query = query.eq("gender", gender)
+
+  const term = search?.trim()
+  if (term) {
+    query = /^\d+$/.test(term)
+      ? query.eq("bib_number", Number(term))
+      : query.ilike("full_name", `%${term.replace(/[\\%_]/g, "\\$&")}%`)
+  }
+
+  const from = (Math.max(page, 1) - 1) * RESULTS_PAGE_SIZE
+  const { data, count, error } = await query
+    .order("net_time_ms", { ascending: true })
+    .order("bib_number", { ascending: true })
+    .range(from, from + RESULTS_PAGE_SIZE - 1)
+
+  if (error) {
+    console.error("Error fetching results:", error)
+    return { results: [], total: 0 }
+  }
+
+  return { results: (data as RankedResult[]) ?? [], total: count ?? 0 }
+}
+
+/**
+ * Fetches a single participant's ranked result by bib
+ *
+ * @param {SupabaseClient} supabase - Any Supabase client (results are public)
+ * @param {string} eventId - The event
+ * @param {number} bibNumber - The participant's bib
+ * @returns {Promise<RankedResult | null>} The result, or null if there is none
+ */
+export async function getResultByBib(
+  supabase: SupabaseClient,
+  eventId: string,
+  bibNumber: number
+): Promise<RankedResult | null> {
+  const { data, error } = await supabase
+    .from("race_result_rankings")
+    .select("*")
+    .eq("event_id", eventId)
+    .eq("bib_number", bibNumber)
+    .maybeSingle()
+
+  if (error) {
+    console.error("Error fetching result:", error)
+    return null
+  }
+
+  return data as RankedResult | null
+}
+
+/**
+ * Returns whether results have been published for an event
+ *
+ * @param {SupabaseClient} supabase - Any Supabase client (results are public)
+ * @param {string} eventId - The event
+ * @returns {Promise<boolean>} True if at least one result exists
+ */
+export async function hasResults(supabase: SupabaseClient, eventId: string): Promise<boolean> {
+  const { count } = await supabase
+    .from("race_results")
+    .select("id", { count: "exact", head: true })
+    .eq("event_id", eventId)
+  return (count ?? 0) > 0
+}
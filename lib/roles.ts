@@ -0,0 +1,61 @@
+/**
+ * User roles
+ *
+ * A user's role is stored in their `app_metadata.role`, which only the
+ * server (service role) and SQL can change. It must never be read from
+ * `user_metadata`: users can edit their own user metadata with
+ * `supabase.auth.updateUser`. The database reads the same claim through
+ * user_role() in supabase_schema.sql.
+ *
+ * Pages, server actions and the middleware decide access with
+ * getUserRole(); the navbar uses it only to choose which links to show.
+ *
+ * @module lib/roles
+ */
+
+import type { User } from "@supabase/supabase-js"
+
+/**
+ * Roles a user can have
+ *
+ * - user: A participant (the default)
+ * - admin: Organisers; full access
+ * - volunteer: Race-day check-in staff
+ * - company_coordinator: Follows their companies' entries in the company portal
+ */
+export type UserRole = "user" | "admin" | "volunteer" | "company_coordinator"
+
+/**
+ * Every role, for validating stored values
+ */
+const ROLES: UserRole[] = ["user", "admin", "volunteer", "company_coordinator"]
+
+/**
+ * Returns a user's role
+ *
+ * Pass a user returned by `supabase.auth.getUser()`, which the auth server
+ * has verified, rather than one read from the session cookie.
+ *
+ * @param {User | null | undefined} user - The signed-in user, if any
+ * @returns {UserRole} The user's role ("user" when signed out or no role is set)
+ *
+ * @example
+ * if (getUserRole(user) !== "admin") {
+ *   redirect("/dashboard")
+ * }
+ */
+export function getUserRole(user: User | null | undefined): UserRole {
+  const role = user?.app_metadata?.role
+  return ROLES.includes(role) ? role : "user"
+}
+
+/**
+ * Returns whether a user has one of the given roles
+ *
+ * @param {User | null | undefined} user - The signed-in user, if any
+ * @param {UserRole[]} roles - The roles allowed
+ * @returns {boolean} True if the user's role is one of roles
+ */
+export function hasRole(user: User | null | undefined, roles: UserRole[]): boolean {
+  return roles.includes(getUserRole(user))
+}
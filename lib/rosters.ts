@@ -0,0 +1,163 @@
+/**
+ * Employee rosters
+ *
+ * A company's coordinators (or admins) can upload a roster of employee IDs
+ * and emails. Registrations for a company with a roster are checked
+ * against it when they are submitted: a registration whose employee ID and
+ * corporate email do not match a roster entry is held as pending until a
+ * coordinator or admin reviews it. The database does the matching (see
+ * hold_registration_for_roster_review) and only the company's coordinators
+ * and admins can read the roster.
+ *
+ * @module lib/rosters
+ */
+
+import { parseCsv } from "@/lib/csv"
+
+/**
+ * Result of checking a registration against its company's roster
+ *
+ * - `matched`: the employee ID and email are on the roster
+ * - `pending_review`: they are not; the registration is held as pending
+ * - `approved` / `rejected`: a coordinator or admin reviewed the mismatch
+ */
+export type RosterStatus = "matched" | "pending_review" | "approved" | "rejected"
+
+/**
+ * Labels for roster statuses, as shown to admins and participants
+ */
+export const ROSTER_STATUS_LABELS: Record<RosterStatus, string> = {
+  matched: "On roster",
+  pending_review: "Needs review",
+  approved: "Approved",
+  rejected: "Rejected",
+}
+
+/**
+ * Badge colours for roster statuses
+ */
+export const rosterStatusStyles: Record<RosterStatus, string> = {
+  matched: "bg-green-100 text-green-800",
+  pending_review: "bg-yellow-100 text-yellow-800",
+  approved: "bg-blue-100 text-blue-800",
+  rejected: "bg-red-100 text-red-800",
+}
+
+/**
+ * A roster entry parsed from the CSV
+ */
+export interface RosterEntry {
+  employee_id: string
+  email: string
+}
+
+/**
+ * A CSV row that could not be imported
+ */
+export interface RejectedRosterRow {
+  line: number
+  /** The employee ID as written in the file, if any */
+  employeeId: string
+  reason: string
+}
+
+/**
+ * A registration held for review, as listed on the roster page
+ */
+export interface RosterReviewItem {
+  id: string
+  full_name: string
+  corporate_email: string
+  employee_id: string
+  status: string
+  registration_date: string
+  event: { name: string; edition: string } | null
+}
+
+/**
+ * Header names accepted for each column (lower-cased, spaces and
+ * underscores removed)
+ */
+const COLUMN_ALIASES = {
+  employeeId: ["employeeid", "empid", "employeeno", "employeenumber", "id"],
+  email: ["email", "emailaddress", "corporateemail", "workemail"],
+}
+
+/**
+ * Normalises a CSV header for matching against COLUMN_ALIASES
+ *
+ * @param {string} header - Header as written in the file
+ * @returns {string} The normalised header
+ */
+function normaliseHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_#.-]/g, "")
+}
+
+/**
+ * Parses a company's employee roster CSV
+ *
+ * Required columns: employee ID and email. Other columns are ignored.
+ * Employee IDs must be unique within the file (ignoring case).
+ *
+ * @param {string} text - The CSV file contents
+ * @returns {{ entries: RosterEntry[]; rejected: RejectedRosterRow[]; error?: string }}
+ *   Parsed rows, rows that could not be read, or an error if the file itself is unusable
+ *
+ * @example
+ * const { entries, rejected } = parseRosterCsv("Employee ID,Email\nE1001,asha@tcs.com")
+ * // entries: [{ employee_id: "E1001", email: "asha@tcs.com" }]
+ */
+export function parseRosterCsv(text: string): {
+  entries: RosterEntry[]
+  rejected: RejectedRosterRow[]
+  error?: string
+} {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    return { entries: [], rejected: [], error: "The file is empty" }
+  }
+
+  const headers = header.map(normaliseHeader)
+  const findColumn = (aliases: string[]) => headers.findIndex((h) => aliases.includes(h))
+  const employeeIdColumn = findColumn(COLUMN_ALIASES.employeeId)
+  const emailColumn = findColumn(COLUMN_ALIASES.email)
+
+  if (employeeIdColumn === -1 || emailColumn === -1) {
+    return {
+      entries: [],
+      rejected: [],
+      error: "The file needs a header row with \"Employee ID\" and \"Email\" columns",
+    }
+  }
+
+  const entries: RosterEntry[] = []
+  const rejected: RejectedRosterRow[] = []
+  const seenIds = new Set<string>()
+
+  rows.forEach((row, index) => {
+    // Line numbers count the header as line 1
+    const line = index + 2
+    const employeeId = (row[employeeIdColumn] ?? "").trim()
+    const email = (row[emailColumn] ?? "").trim().toLowerCase()
+
+    // Skip blank lines (e.g. a trailing empty row from a spreadsheet)
+    if (!employeeId && !email) return
+
+    const reject = (reason: string) => rejected.push({ line, employeeId, reason })
+
+    if (!employeeId) {
+      return reject("Missing employee ID")
+    }
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return reject("Missing or invalid email")
+    }
+    if (seenIds.has(employeeId.toLowerCase())) {
+      return reject("Employee ID appears more than once in the file")
+    }
+
+    seenIds.add(employeeId.toLowerCase())
+    entries.push({ employee_id: employeeId, email })
+  })
+
+  return { entries, rejected }
+}
@@ -0,0 +1,38 @@
+/**
+ * Signature helpers
+ *
+ * HMAC-SHA256 signing and constant-time verification, shared by the
+ * payment providers (webhook signatures) and e-tickets (QR code signatures).
+ *
+ * @module lib/signature
+ */
+
+import { createHmac, timingSafeEqual } from "crypto"
+
+/**
+ * Computes the hex HMAC-SHA256 signature of a payload
+ *
+ * @param {string} payload - The data to sign
+ * @param {string} secret - The shared secret
+ * @returns {string} Hex-encoded signature
+ */
+export function hmacSha256Hex(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("hex")
+}
+
+/**
+ * Checks a hex signature in constant time
+ *
+ * @param {string} payload - The data that was signed
+ * @param {string | null} signature - The signature to check
+ * @param {string} secret - The shared secret
+ * @returns {boolean} True if the signature matches
+ */
+export function verifyHmacSha256Hex(payload: string, signature: string | null, secret: string): boolean {
+  if (!signature) return false
+
+  const expected = Buffer.from(hmacSha256Hex(payload, secret), "hex")
+  const received = Buffer.from(signature, "hex")
+
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
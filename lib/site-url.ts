@@ -0,0 +1,52 @@
+/**
+ * Site URL helpers
+ *
+ * Server-only: reads the request headers and environment.
+ *
+ * @module lib/site-url
+ */
+
+import { headers } from "next/headers"
+
+/**
+ * Returns the absolute URL of the site for the current request
+ *
+ * Payment providers need absolute URLs to send people back to.
+ * NEXT_PUBLIC_SITE_URL takes precedence when set (e.g. behind a proxy).
+ * Use getEmailSiteUrl for links sent by email.
+ *
+ * @returns {string} The site URL without a trailing slash, e.g. "https://siliconmile.in"
+ */
+export function getSiteUrl(): string {
+  if (process.env.NEXT_PUBLIC_SITE_URL) {
+    return process.env.NEXT_PUBLIC_SITE_URL
+  }
+  const headerList = headers()
+  const host = headerList.get("x-forwarded-host") ?? headerList.get("host")
+  const protocol = headerList.get("x-forwarded-proto") ?? "http"
+  return `${protocol}://${host}`
+}
+
+/**
+ * Returns the absolute URL of the site for links sent by email (claim,
+ * verification and invitation links)
+ *
+ * Only NEXT_PUBLIC_SITE_URL is used, never the request's Host headers: a
+ * forged header would otherwise put another site's address in a genuine
+ * email from us.
+ *
+ * @returns {string} The site URL without a trailing slash, e.g. "https://siliconmile.in"
+ * @throws {Error} If NEXT_PUBLIC_SITE_URL is not configured
+ */
+export function getEmailSiteUrl(): string {
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL
+  if (!siteUrl) {
+    throw new Error(
+      "Missing site URL configuration!\n\n" +
+        "Please add to your .env.local file:\n" +
+        "NEXT_PUBLIC_SITE_URL=https://your-domain.com\n\n" +
+        "Links in emails are built from it."
+    )
+  }
+  return siteUrl.replace(/\/+$/, "")
+}
@@ -0,0 +1,67 @@
+/**
+ * Supabase client configuration for privileged server-side operations
+ * 
+ * This module provides a Supabase client authenticated with the service role
+ * key. It bypasses Row Level Security, so it must only ever be used on the
+ * server (Server Actions, Route Handlers) for operations that have no user
+ * session or that participants are not allowed to perform themselves, such
+ * as confirming a registration after a verified payment webhook.
+ * 
+ * Changes the server makes on a user's behalf (e.g. a captain registering
+ * their team) name that user as the actor, so the audit log attributes them.
+ *
+ * NEVER import this module from a Client Component.
+ * 
+ * @module lib/supabase/admin
+ */
+
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Creates a Supabase client with service role privileges
+ * 
+ * @param {string} [actorId] - The user the server is acting for; sent as the
+ *   X-Actor-Id header, which the audit log trigger records as the actor
+ * @returns {ReturnType<typeof createClient>} A Supabase client that bypasses RLS
+ * 
+ * @throws {Error} Throws an error if SUPABASE_SERVICE_ROLE_KEY is not configured
+ * 
+ * @example
+ * // In a route handler
+ * import { createAdminClient } from '@/lib/supabase/admin'
+ * 
+ * export async function POST(request: Request) {
+ *   const supabase = createAdminClient()
+ *   await supabase.from('payments').update({ status: 'captured' }).eq('id', paymentId)
+ * }
+ * 
+ * @example
+ * // Acting for a signed-in user, so audited changes are attributed to them
+ * const supabase = createAdminClient(user.id)
+ * 
+ * @remarks
+ * Always authorize the caller (or verify a webhook signature) before using
+ * this client, since RLS policies will not protect the data.
+ */
+export function createAdminClient(actorId?: string) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error(
+      'Missing Supabase service role configuration!\n\n' +
+      'Please add to your .env.local file:\n' +
+      'SUPABASE_SERVICE_ROLE_KEY=your_service_role_key\n\n' +
+      'Get this value from: https://supabase.com/dashboard/project/_/settings/api'
+    )
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      // Service role clients act on behalf of the server, never a user session
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    global: actorId ? { headers: { 'X-Actor-Id': actorId } } : undefined,
+  })
+}
@@ -10,6 +10,20 @@
 
 import { createServerClient, type CookieOptions } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { hasRole, type UserRole } from '@/lib/roles'
+import { safeRedirectPath } from '@/lib/redirect-path'
+
+/**
+ * Routes limited to particular roles, checked after authentication
+ *
+ * Signed-in users without one of the roles are sent to /dashboard. The
+ * pages check again; this keeps them from rendering at all.
+ */
+const ROLE_ROUTES: { prefix: string; roles: UserRole[] }[] = [
+  { prefix: '/admin', roles: ['admin'] },
+  { prefix: '/checkin', roles: ['admin', 'volunteer'] },
+  { prefix: '/company', roles: ['admin', 'company_coordinator'] },
+]
 
 /**
  * Updates the user session and handles route protection based on authentication status
@@ -18,14 +32,18 @@ import { NextResponse, type NextRequest } from 'next/server'
  * 1. Creates a Supabase client for middleware context
  * 2. Retrieves the current user session
  * 3. Redirects unauthenticated users away from protected routes
- * 4. Returns a response with updated session cookies
+ * 4. Redirects signed-in users without the required role (see getUserRole)
+ *    away from role-restricted routes
+ * 5. Returns a response with updated session cookies
  * 
  * IMPORTANT: This function must be called for every request that needs session
  * management. It should be called from Next.js middleware.
  * 
  * Protected routes:
  * - /dashboard - Requires authentication
- * - /admin - Requires authentication (additional admin check in page component)
+ * - /admin - Requires authentication and the admin role (checked again in page component)
+ * - /checkin - Requires authentication and the volunteer or admin role (checked again in page component)
+ * - /company - Requires authentication and the company_coordinator or admin role (checked again in page component)
  * 
  * Public routes (allowed without authentication):
  * - /login
@@ -106,22 +124,43 @@ export async function updateSession(request: NextRequest) {
   } = await supabase.auth.getUser()
 
   // Route protection: Redirect unauthenticated users away from protected routes
-  // Protected routes: /dashboard and /admin
+  // Protected routes: /dashboard, /admin, /checkin and /company
   // Public routes: /login, /register, and everything else
   if (
     !user &&
     !request.nextUrl.pathname.startsWith('/login') &&
     !request.nextUrl.pathname.startsWith('/register') &&
     (request.nextUrl.pathname.startsWith('/dashboard') ||
-     request.nextUrl.pathname.startsWith('/admin'))
+     request.nextUrl.pathname.startsWith('/admin') ||
+     request.nextUrl.pathname.startsWith('/checkin') ||
+     request.nextUrl.pathname.startsWith('/company'))
   ) {
     // User is not authenticated and trying to access a protected route
-    // Redirect to login page
+    // Redirect to login page, remembering where they were headed
+    // (e.g. /dashboard?event=fall-2024 from an event's Register button), as
+    // long as that stays on this site
     const url = request.nextUrl.clone()
     url.pathname = '/login'
+    url.search = ''
+    url.searchParams.set(
+      'next',
+      safeRedirectPath(request.nextUrl.pathname + request.nextUrl.search, request.nextUrl.origin)
+    )
     return NextResponse.redirect(url)
   }
 
+  // Role protection: Send signed-in users without the route's role to their
+  // dashboard, keeping any refreshed session cookies
+  const roleRoute = ROLE_ROUTES.find((route) => request.nextUrl.pathname.startsWith(route.prefix))
+  if (user && roleRoute && !hasRole(user, roleRoute.roles)) {
+    const url = request.nextUrl.clone()
+    url.pathname = '/dashboard'
+    url.search = ''
+    const redirectResponse = NextResponse.redirect(url)
+    supabaseResponse.cookies.getAll().forEach((cookie) => redirectResponse.cookies.set(cookie))
+    return redirectResponse
+  }
+
   // IMPORTANT: You *must* return the supabaseResponse object as it is. If you're
   // creating a new response object with NextResponse.next() make sure to:
   // 1. Pass the request in it, like so:
@@ -0,0 +1,45 @@
+/**
+ * Supabase client configuration for public, cookie-less server rendering
+ *
+ * This module provides a Supabase client that never reads or writes cookies.
+ * Reading cookies opts a Next.js route into dynamic rendering, so pages that
+ * should be statically generated and revalidated (e.g. the public events
+ * pages) use this client instead of the one in lib/supabase/server.
+ *
+ * Queries run as the anonymous role, so only data exposed to anonymous
+ * visitors by RLS policies (or SECURITY DEFINER functions) is returned.
+ *
+ * @module lib/supabase/public
+ */
+
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Creates a Supabase client for anonymous, read-only server-side queries
+ *
+ * @returns {ReturnType<typeof createClient>} A Supabase client without a user session
+ *
+ * @example
+ * // In a statically generated page
+ * import { createPublicClient } from '@/lib/supabase/public'
+ *
+ * export const revalidate = 300
+ *
+ * export default async function EventsPage() {
+ *   const supabase = createPublicClient()
+ *   const { data } = await supabase.from('events').select('*')
+ * }
+ */
+export function createPublicClient() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        // No session is ever stored: every query runs as the anon role
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  )
+}
@@ -0,0 +1,206 @@
+/**
+ * Team registration
+ *
+ * A company's captain (one of its coordinators) can register a whole team
+ * at once from the company portal, typing employees into a grid or
+ * importing a CSV. Every row is checked with the same registrationSchema
+ * as the participant registration form; employees are then emailed an
+ * invitation to claim their registration and set a password, or, if they
+ * already have an account, to accept it from their dashboard.
+ *
+ * Shared by the team registration form and its server action.
+ *
+ * @module lib/team-registration
+ */
+
+import * as z from "zod"
+import { parseCsv } from "@/lib/csv"
+import { registrationSchema } from "@/lib/registration-schema"
+import type { EventCategory } from "@/lib/events"
+
+/**
+ * Most employees registered in one submission
+ */
+export const MAX_TEAM_SIZE = 200
+
+/**
+ * One employee in the team grid
+ *
+ * The same fields as the registration form, minus the company (the
+ * captain's company) and the promo code.
+ */
+export interface TeamMember {
+  fullName: string
+  corporateEmail: string
+  employeeId: string
+  categoryId: string
+  tshirtSize: string
+  emergencyContact: string
+  emergencyPhone: string
+}
+
+/**
+ * The team member schema: registrationSchema without the fields the captain
+ * does not fill in
+ */
+export const teamMemberSchema = registrationSchema.omit({ companyName: true, promoCode: true })
+
+/**
+ * The team grid schema: between one and MAX_TEAM_SIZE valid rows
+ */
+export const teamSchema = z.object({
+  members: z
+    .array(teamMemberSchema)
+    .min(1, "Add at least one employee")
+    .max(MAX_TEAM_SIZE, `Please register at most ${MAX_TEAM_SIZE} employees at a time`),
+})
+
+/**
+ * The team grid's values
+ */
+export interface TeamFormData {
+  members: TeamMember[]
+}
+
+/**
+ * Outcome of registering one team member
+ *
+ * - `invited`: the employee was emailed an invitation: to claim their
+ *   registration and a new account, or, if they already had an account,
+ *   to accept from their dashboard (see note)
+ * - `failed`: nothing was saved (see error)
+ */
+export interface TeamRowResult {
+  /** Position of the row in the submitted grid (0-based) */
+  index: number
+  corporateEmail: string
+  outcome: "invited" | "failed"
+  /** Why the row failed */
+  error?: string
+  /** Something the captain should know about a row that succeeded */
+  note?: string
+}
+
+/**
+ * An invitation to register, sent to a team member who already has an
+ * account
+ *
+ * Matches the structure of the team_invitations table in Supabase, with the
+ * race category joined by TEAM_INVITATION_COLUMNS.
+ */
+export interface TeamInvitation {
+  id: string
+  event_id: string
+  user_id: string
+  /** The captain who sent the invitation */
+  invited_by: string | null
+  category_id: string
+  full_name: string
+  corporate_email: string
+  employee_id: string
+  company_name: string
+  tshirt_size: string
+  emergency_contact: string
+  emergency_phone: string
+  created_at: string
+  category: { name: string } | null
+}
+
+/**
+ * Columns selected for a TeamInvitation
+ */
+export const TEAM_INVITATION_COLUMNS = "*, category:event_categories(name)"
+
+/**
+ * Returns an empty grid row
+ *
+ * @returns {TeamMember} A row with every field blank
+ */
+export function emptyTeamMember(): TeamMember {
+  return {
+    fullName: "",
+    corporateEmail: "",
+    employeeId: "",
+    categoryId: "",
+    tshirtSize: "",
+    emergencyContact: "",
+    emergencyPhone: "",
+  }
+}
+
+/**
+ * Header names accepted for each column (lower-cased, spaces and
+ * underscores removed)
+ */
+const COLUMN_ALIASES: Record<keyof TeamMember, string[]> = {
+  fullName: ["fullname", "name", "employeename"],
+  corporateEmail: ["corporateemail", "email", "workemail", "emailaddress"],
+  employeeId: ["employeeid", "empid", "employeeno", "employeenumber"],
+  categoryId: ["category", "racecategory", "race", "distance"],
+  tshirtSize: ["tshirtsize", "tshirt", "shirtsize", "size"],
+  emergencyContact: ["emergencycontact", "emergencycontactname"],
+  emergencyPhone: ["emergencyphone", "emergencycontactphone", "emergencynumber"],
+}
+
+/**
+ * Normalises a CSV header for matching against COLUMN_ALIASES
+ *
+ * @param {string} header - Header as written in the file
+ * @returns {string} The normalised header
+ */
+function normaliseHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s_#.-]/g, "")
+}
+
+/**
+ * Reads a team CSV into grid rows
+ *
+ * Race categories are matched by name (ignoring case); T-shirt sizes are
+ * upper-cased. Rows are not validated here, so the captain can fix them in
+ * the grid.
+ *
+ * @param {string} text - The CSV file contents
+ * @param {EventCategory[]} categories - The event's race categories
+ * @returns {{ members: TeamMember[]; error?: string }} The rows, or an error if the file itself is unusable
+ *
+ * @example
+ * const { members } = parseTeamCsv(await file.text(), categories)
+ */
+export function parseTeamCsv(text: string, categories: EventCategory[]): { members: TeamMember[]; error?: string } {
+  const [header, ...rows] = parseCsv(text)
+  if (!header) {
+    return { members: [], error: "The file is empty" }
+  }
+
+  const headers = header.map(normaliseHeader)
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as (keyof TeamMember)[]).map((field) => [
+      field,
+      headers.findIndex((h) => COLUMN_ALIASES[field].includes(h)),
+    ])
+  ) as Record<keyof TeamMember, number>
+
+  if (columns.fullName === -1 || columns.corporateEmail === -1) {
+    return { members: [], error: "The file needs a header row with at least \"Full Name\" and \"Email\" columns" }
+  }
+
+  if (rows.length > MAX_TEAM_SIZE) {
+    return { members: [], error: `Please register at most ${MAX_TEAM_SIZE} employees at a time` }
+  }
+
+  const categoryIds = new Map(categories.map((category) => [category.name.trim().toLowerCase(), category.id]))
+  const cell = (row: string[], field: keyof TeamMember) =>
+    columns[field] === -1 ? "" : (row[columns[field]] ?? "").trim()
+
+  const members = rows.map((row) => ({
+    fullName: cell(row, "fullName"),
+    corporateEmail: cell(row, "corporateEmail"),
+    employeeId: cell(row, "employeeId"),
+    categoryId: categoryIds.get(cell(row, "categoryId").toLowerCase()) ?? "",
+    tshirtSize: cell(row, "tshirtSize").toUpperCase(),
+    emergencyContact: cell(row, "emergencyContact"),
+    emergencyPhone: cell(row, "emergencyPhone"),
+  }))
+
+  return { members }
+}
@@ -36,4 +36,26 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+/**
+ * Formats an amount in paise as Indian Rupees for display
+ * 
+ * Amounts are stored in paise (1 INR = 100 paise) throughout the app, matching
+ * how payment providers represent money. Zero is shown as "Free".
+ * 
+ * @param {number} paise - Amount in paise
+ * @returns {string} Formatted amount
+ * 
+ * @example
+ * formatPrice(49900) // Returns: '₹499'
+ * formatPrice(49950) // Returns: '₹499.50'
+ * formatPrice(0)     // Returns: 'Free'
+ */
+export function formatPrice(paise: number) {
+  if (paise === 0) return "Free"
 
+  return new Intl.NumberFormat("en-IN", {
+    style: "currency",
+    currency: "INR",
+    minimumFractionDigits: paise % 100 === 0 ? 0 : 2,
+  }).format(paise / 100)
+}
@@ -1,8 +1,96 @@
+-- Create events table: one row per edition of The Silicon Mile 5K
+-- (e.g. Spring 2025, Fall 2025). Registrations are scoped to an event.
+
+CREATE TABLE IF NOT EXISTS events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  edition TEXT NOT NULL,
+  event_date DATE NOT NULL,
+  start_time TIME,
+  venue TEXT NOT NULL,
+  description TEXT,
+  course_info TEXT,
+  registration_opens_at TIMESTAMPTZ NOT NULL,
+  registration_closes_at TIMESTAMPTZ NOT NULL,
+  capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (registration_closes_at > registration_opens_at)
+);
+
+-- Create index on event_date for listing upcoming/past events
+CREATE INDEX IF NOT EXISTS idx_events_date ON events(event_date DESC);
+
+-- Create event_categories table: the races offered at an event
+-- (e.g. 5K Run, 10K Run, 3K Walk), each with its own distance, start time,
+-- capacity and price. Prices are stored in paise (1 INR = 100 paise).
+
+CREATE TABLE IF NOT EXISTS event_categories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  distance_km NUMERIC(5, 2) NOT NULL CHECK (distance_km > 0),
+  start_time TIME,
+  capacity INTEGER CHECK (capacity IS NULL OR capacity > 0),
+  price_paise INTEGER NOT NULL DEFAULT 0 CHECK (price_paise >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(event_id, name)
+);
+
+-- Create index on event_id for listing an event's categories
+CREATE INDEX IF NOT EXISTS idx_event_categories_event_id ON event_categories(event_id, sort_order);
+
+-- Create pricing_tiers table: time-based prices for a category (e.g. Early
+-- Bird before October 1st, Late after registration's final week). Outside
+-- every tier's window the category's own price_paise is the regular price.
+
+CREATE TABLE IF NOT EXISTS pricing_tiers (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  category_id UUID NOT NULL REFERENCES event_categories(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  price_paise INTEGER NOT NULL CHECK (price_paise >= 0),
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at)
+);
+
+-- Create index on category_id for resolving a category's current tier
+CREATE INDEX IF NOT EXISTS idx_pricing_tiers_category_id ON pricing_tiers(category_id, starts_at);
+
+-- Create promo_codes table: discount codes entered on the registration form.
+-- A code can be limited to one event, a number of redemptions, an expiry
+-- date and the employees of one company. Codes are stored upper-case.
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code) AND code <> ''),
+  description TEXT,
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'flat')),
+  discount_value INTEGER NOT NULL CHECK (discount_value > 0),
+  max_redemptions INTEGER CHECK (max_redemptions IS NULL OR max_redemptions > 0),
+  expires_at TIMESTAMPTZ,
+  company_name TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Percentages are whole numbers; flat discounts are in paise
+  CHECK (discount_type <> 'percent' OR discount_value <= 100)
+);
+
 -- Create registrations table for The Silicon Mile 5K event registrations
 
 CREATE TABLE IF NOT EXISTS registrations (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE RESTRICT,
+  category_id UUID REFERENCES event_categories(id) ON DELETE RESTRICT,
   full_name TEXT NOT NULL,
   corporate_email TEXT NOT NULL,
   employee_id TEXT NOT NULL,
@@ -11,23 +99,114 @@ CREATE TABLE IF NOT EXISTS registrations (
   emergency_contact TEXT NOT NULL,
   emergency_phone TEXT NOT NULL,
   registration_date TIMESTAMPTZ DEFAULT NOW(),
-  status TEXT DEFAULT 'confirmed' CHECK (status IN ('pending', 'confirmed', 'cancelled')),
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'waitlisted', 'cancelled')),
+  -- Price at the time of registration (in paise), set by apply_registration_pricing()
+  price_paise INTEGER CHECK (price_paise IS NULL OR price_paise >= 0),
+  discount_paise INTEGER NOT NULL DEFAULT 0 CHECK (discount_paise >= 0),
+  promo_code_id UUID REFERENCES promo_codes(id) ON DELETE RESTRICT,
+  -- Race bib, assigned automatically from bib_ranges when confirmed
+  bib_number INTEGER CHECK (bib_number IS NULL OR bib_number > 0),
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW(),
-  UNIQUE(user_id)
+  -- A person can register once per event, but for as many events as they like
+  UNIQUE(user_id, event_id),
+  -- No two participants of an event share a bib
+  UNIQUE(event_id, bib_number)
 );
 
 -- Create index on user_id for faster lookups
 CREATE INDEX IF NOT EXISTS idx_registrations_user_id ON registrations(user_id);
 
+-- Create index on event_id for per-event listings
+CREATE INDEX IF NOT EXISTS idx_registrations_event_id ON registrations(event_id);
+
+-- Create index on category_id for per-category capacity checks and filtering
+CREATE INDEX IF NOT EXISTS idx_registrations_category_id ON registrations(category_id);
+
 -- Create index on status for filtering
 CREATE INDEX IF NOT EXISTS idx_registrations_status ON registrations(status);
 
 -- Create index on registration_date for sorting
 CREATE INDEX IF NOT EXISTS idx_registrations_date ON registrations(registration_date DESC);
 
+-- Create index on promo_code_id for counting redemptions
+CREATE INDEX IF NOT EXISTS idx_registrations_promo_code_id ON registrations(promo_code_id);
+
+-- Create function returning the current user's role ('user' if none is set)
+-- Roles live in app metadata, which only the service role and SQL can
+-- change; user metadata is editable by the user and must not be trusted
+CREATE OR REPLACE FUNCTION user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE((auth.jwt() ->> 'app_metadata')::jsonb ->> 'role', 'user');
+$$;
+
+-- Create function to check whether the current user is an admin
+-- Used by RLS policies and triggers so the admin check lives in one place
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT user_role() = 'admin';
+$$;
+
 -- Enable Row Level Security (RLS)
+ALTER TABLE events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_categories ENABLE ROW LEVEL SECURITY;
 ALTER TABLE registrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE pricing_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Everyone (including anonymous visitors) can view events
+CREATE POLICY "Events are viewable by everyone"
+  ON events
+  FOR SELECT
+  USING (true);
+
+-- Create policy: Only admins can create, edit or delete events
+CREATE POLICY "Admins can manage events"
+  ON events
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Create policy: Everyone can view event categories
+CREATE POLICY "Event categories are viewable by everyone"
+  ON event_categories
+  FOR SELECT
+  USING (true);
+
+-- Create policy: Only admins can create, edit or delete event categories
+CREATE POLICY "Admins can manage event categories"
+  ON event_categories
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Create policy: Everyone can view pricing tiers
+CREATE POLICY "Pricing tiers are viewable by everyone"
+  ON pricing_tiers
+  FOR SELECT
+  USING (true);
+
+-- Create policy: Only admins can create, edit or delete pricing tiers
+CREATE POLICY "Admins can manage pricing tiers"
+  ON pricing_tiers
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Create policy: Only admins can view and manage promo codes. Participants
+-- check a code through quote_registration_price(), so the list of codes is
+-- never exposed.
+CREATE POLICY "Admins can manage promo codes"
+  ON promo_codes
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
 
 -- Create policy: Users can view their own registrations OR admins can view all
 CREATE POLICY "Users can view their own registrations or admins can view all"
@@ -35,7 +214,7 @@ CREATE POLICY "Users can view their own registrations or admins can view all"
   FOR SELECT
   USING (
     auth.uid() = user_id OR
-    (auth.jwt() ->> 'user_metadata')::jsonb ->> 'role' = 'admin'
+    is_admin()
   );
 
 -- Create policy: Users can insert their own registrations
@@ -66,3 +245,2664 @@ CREATE TRIGGER update_registrations_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Create function returning the number of seats taken (pending or confirmed
+-- registrations) per event. Waitlisted and cancelled registrations do not
+-- count against capacity. Registrations themselves are protected by RLS, so
+-- this runs as SECURITY DEFINER to let the public events pages show
+-- availability without exposing any participant data.
+CREATE OR REPLACE FUNCTION event_registration_counts()
+RETURNS TABLE (event_id UUID, registered_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.event_id, COUNT(*) AS registered_count
+  FROM registrations r
+  WHERE r.status IN ('pending', 'confirmed')
+  GROUP BY r.event_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION event_registration_counts() TO anon, authenticated;
+
+-- Create function returning the number of seats taken per category of an
+-- event, used to show which categories are sold out
+CREATE OR REPLACE FUNCTION category_registration_counts(p_event_id UUID)
+RETURNS TABLE (category_id UUID, registered_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT r.category_id, COUNT(*) AS registered_count
+  FROM registrations r
+  WHERE r.event_id = p_event_id
+    AND r.category_id IS NOT NULL
+    AND r.status IN ('pending', 'confirmed')
+  GROUP BY r.category_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION category_registration_counts(UUID) TO anon, authenticated;
+
+-- Create trigger to automatically update updated_at on events
+CREATE TRIGGER update_events_updated_at
+  BEFORE UPDATE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create trigger to automatically update updated_at on event categories
+CREATE TRIGGER update_event_categories_updated_at
+  BEFORE UPDATE ON event_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create trigger to automatically update updated_at on pricing tiers
+CREATE TRIGGER update_pricing_tiers_updated_at
+  BEFORE UPDATE ON pricing_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create trigger to automatically update updated_at on promo codes
+CREATE TRIGGER update_promo_codes_updated_at
+  BEFORE UPDATE ON promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Capacity and waitlist
+-- ============================================================================
+
+-- Create notifications table for in-app messages to participants
+-- (e.g. "A spot opened up and you have been moved off the waitlist")
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  link TEXT,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create index for fetching a user's unread notifications
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON notifications(user_id, created_at DESC)
+  WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Users can view their own notifications
+-- (notifications are only created by SECURITY DEFINER functions)
+CREATE POLICY "Users can view their own notifications"
+  ON notifications
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Create policy: Users can mark their own notifications as read
+CREATE POLICY "Users can update their own notifications"
+  ON notifications
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Create function that places new registrations on the waitlist once the
+-- event (or the chosen category) is full. The event row is locked so
+-- concurrent submissions are counted one at a time and capacity can never be
+-- exceeded. Participants can only register while the event's registration
+-- window is open; admins and the server (e.g. team registration, which
+-- checks the window itself) can add registrations at any time.
+CREATE OR REPLACE FUNCTION assign_registration_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event_capacity INTEGER;
+  seats_taken INTEGER;
+  category_record event_categories%ROWTYPE;
+  category_seats_taken INTEGER := 0;
+  event_record events%ROWTYPE;
+BEGIN
+  -- The JWT role is checked because current_user is the function owner here
+  IF auth.jwt() ->> 'role' = 'authenticated' AND NOT is_admin() THEN
+    SELECT * INTO event_record FROM events WHERE id = NEW.event_id;
+
+    IF NOT FOUND OR NOW() NOT BETWEEN event_record.registration_opens_at AND event_record.registration_closes_at THEN
+      RAISE EXCEPTION 'Registration is not open for this event';
+    END IF;
+  END IF;
+
+  IF NEW.category_id IS NOT NULL THEN
+    SELECT * INTO category_record
+    FROM event_categories
+    WHERE id = NEW.category_id;
+
+    IF NOT FOUND OR category_record.event_id <> NEW.event_id THEN
+      RAISE EXCEPTION 'Race category does not belong to this event';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT capacity INTO event_capacity
+  FROM events
+  WHERE id = NEW.event_id
+  FOR UPDATE;
+
+  SELECT COUNT(*) INTO seats_taken
+  FROM registrations
+  WHERE event_id = NEW.event_id
+    AND status IN ('pending', 'confirmed');
+
+  IF NEW.category_id IS NOT NULL THEN
+    SELECT COUNT(*) INTO category_seats_taken
+    FROM registrations
+    WHERE category_id = NEW.category_id
+      AND status IN ('pending', 'confirmed');
+  END IF;
+
+  IF (event_capacity IS NOT NULL AND seats_taken >= event_capacity) OR
+     (category_record.capacity IS NOT NULL AND category_seats_taken >= category_record.capacity) THEN
+    NEW.status := 'waitlisted';
+  ELSIF NEW.status = 'waitlisted' OR (auth.jwt() ->> 'role' = 'authenticated' AND NOT is_admin()) THEN
+    -- Participants' registrations are held as pending (seat reserved) until
+    -- payment is verified; nobody needs to queue while seats are free.
+    -- The JWT role is checked because current_user is the function owner here.
+    NEW.status := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_registration_status_on_insert
+  BEFORE INSERT ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_registration_status();
+
+-- Create function that stops participants from setting protected fields on
+-- their own registration. On insert, fields only the organisers set (bib,
+-- who registered them, the last status change) are cleared, so bibs are
+-- only ever allocated from the event's ranges. On update, participants may
+-- only cancel; everything else (confirming, moving off the waitlist,
+-- switching events) is done by admins or by the SECURITY DEFINER functions
+-- below, which run as the table owner.
+CREATE OR REPLACE FUNCTION protect_registration_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF current_user = 'authenticated' AND NOT is_admin() THEN
+      NEW.bib_number := NULL;
+      NEW.registered_by := NULL;
+      NEW.status_reason := NULL;
+      NEW.status_changed_at := NULL;
+      NEW.status_changed_by := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF current_user = 'authenticated' AND NOT is_admin() THEN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id OR
+       NEW.event_id IS DISTINCT FROM OLD.event_id OR
+       NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+      RAISE EXCEPTION 'Registrations cannot be moved to another user, event or category';
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status AND NEW.status <> 'cancelled' THEN
+      RAISE EXCEPTION 'Participants can only cancel their registration';
+    END IF;
+
+    IF NEW.bib_number IS DISTINCT FROM OLD.bib_number THEN
+      RAISE EXCEPTION 'Bib numbers are assigned by the organisers';
+    END IF;
+
+    IF NEW.price_paise IS DISTINCT FROM OLD.price_paise OR
+       NEW.discount_paise IS DISTINCT FROM OLD.discount_paise OR
+       NEW.promo_code_id IS DISTINCT FROM OLD.promo_code_id THEN
+      RAISE EXCEPTION 'The price of a registration cannot be changed';
+    END IF;
+
+    -- A participant cancelling clears the organisers' last reason; the
+    -- status change record is otherwise kept as the organisers left it
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.status_reason := NULL;
+      NEW.status_changed_at := NOW();
+      NEW.status_changed_by := auth.uid();
+    ELSE
+      NEW.status_reason := OLD.status_reason;
+      NEW.status_changed_at := OLD.status_changed_at;
+      NEW.status_changed_by := OLD.status_changed_by;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_registration_fields_on_update
+  BEFORE UPDATE ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_registration_fields();
+
+-- Fires before set_bib_number_on_write (triggers run in name order), so a
+-- bib sent by a participant is never kept
+CREATE TRIGGER protect_registration_fields_on_insert
+  BEFORE INSERT ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_registration_fields();
+
+-- Create function that fills free seats from the waitlist, oldest first,
+-- and notifies each promoted participant. A waitlisted registration is only
+-- promoted if its category also has a free seat, so someone waiting for a
+-- full 10K is skipped in favour of the next person waiting for the 3K walk.
+CREATE OR REPLACE FUNCTION promote_from_waitlist(p_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event_record events%ROWTYPE;
+  seats_taken INTEGER;
+  promoted_count INTEGER := 0;
+  next_registration registrations%ROWTYPE;
+  next_price INTEGER;
+BEGIN
+  SELECT * INTO event_record
+  FROM events
+  WHERE id = p_event_id
+  FOR UPDATE;
+
+  SELECT COUNT(*) INTO seats_taken
+  FROM registrations
+  WHERE event_id = p_event_id
+    AND status IN ('pending', 'confirmed');
+
+  WHILE event_record.capacity IS NULL OR seats_taken < event_record.capacity LOOP
+    SELECT r.* INTO next_registration
+    FROM registrations r
+    LEFT JOIN event_categories c ON c.id = r.category_id
+    WHERE r.event_id = p_event_id
+      AND r.status = 'waitlisted'
+      AND (
+        c.capacity IS NULL OR
+        (SELECT COUNT(*) FROM registrations taken
+         WHERE taken.category_id = c.id
+           AND taken.status IN ('pending', 'confirmed')) < c.capacity
+      )
+    ORDER BY r.created_at, r.id
+    LIMIT 1
+    FOR UPDATE OF r;
+
+    EXIT WHEN NOT FOUND;
+
+    -- Paid registrations hold the seat as pending until the participant pays;
+    -- free ones are confirmed straight away. The price was fixed (tier and
+    -- promo code) when they joined the waitlist.
+    next_price := COALESCE(
+      next_registration.price_paise,
+      (SELECT c.price_paise FROM event_categories c WHERE c.id = next_registration.category_id),
+      0
+    ) - next_registration.discount_paise;
+
+    UPDATE registrations
+    SET status = CASE WHEN next_price > 0 THEN 'pending' ELSE 'confirmed' END
+    WHERE id = next_registration.id;
+
+    INSERT INTO notifications (user_id, type, title, body, link)
+    VALUES (
+      next_registration.user_id,
+      'waitlist_promoted',
+      'You''re in!',
+      'A spot opened up for ' || event_record.name || ' - ' || event_record.edition ||
+        CASE WHEN next_price > 0
+          THEN '. Complete your payment to confirm your place.'
+          ELSE ' and your registration has been confirmed.'
+        END,
+      '/dashboard?event=' || event_record.slug
+    );
+
+    seats_taken := seats_taken + 1;
+    promoted_count := promoted_count + 1;
+  END LOOP;
+
+  RETURN promoted_count;
+END;
+$$;
+
+-- Create trigger function that promotes from the waitlist whenever a seat is
+-- freed (a pending/confirmed registration is cancelled or deleted)
+CREATE OR REPLACE FUNCTION promote_on_seat_release()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status IN ('pending', 'confirmed') AND
+     (TG_OP = 'DELETE' OR NEW.status NOT IN ('pending', 'confirmed')) THEN
+    PERFORM promote_from_waitlist(OLD.event_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_on_registration_cancel
+  AFTER UPDATE OF status ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_on_seat_release();
+
+CREATE TRIGGER promote_on_registration_delete
+  AFTER DELETE ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_on_seat_release();
+
+-- Create trigger function that promotes from the waitlist when an admin
+-- raises (or removes) an event's capacity
+CREATE OR REPLACE FUNCTION promote_on_capacity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.capacity IS NULL OR (OLD.capacity IS NOT NULL AND NEW.capacity > OLD.capacity) THEN
+    PERFORM promote_from_waitlist(NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_on_event_capacity_change
+  AFTER UPDATE OF capacity ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_on_capacity_change();
+
+-- Create trigger function that promotes from the waitlist when an admin
+-- raises (or removes) a category's capacity
+CREATE OR REPLACE FUNCTION promote_on_category_capacity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.capacity IS NULL OR (OLD.capacity IS NOT NULL AND NEW.capacity > OLD.capacity) THEN
+    PERFORM promote_from_waitlist(NEW.event_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER promote_on_category_capacity_change
+  AFTER UPDATE OF capacity ON event_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION promote_on_category_capacity_change();
+
+-- Create function returning a waitlisted registration's position in the
+-- queue for its category (1 = next in line). Only the registration's owner or an admin can
+-- look it up; returns NULL for registrations that are not waitlisted.
+CREATE OR REPLACE FUNCTION waitlist_position(p_registration_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    SELECT COUNT(*)::INTEGER
+    FROM registrations ahead
+    WHERE ahead.event_id = r.event_id
+      AND ahead.category_id IS NOT DISTINCT FROM r.category_id
+      AND ahead.status = 'waitlisted'
+      AND (ahead.created_at, ahead.id) <= (r.created_at, r.id)
+  )
+  FROM registrations r
+  WHERE r.id = p_registration_id
+    AND r.status = 'waitlisted'
+    AND (r.user_id = auth.uid() OR is_admin());
+$$;
+
+GRANT EXECUTE ON FUNCTION waitlist_position(UUID) TO authenticated;
+
+-- ============================================================================
+-- Pricing tiers and promo codes
+-- ============================================================================
+
+-- Create function returning the current price of each category of an event:
+-- the tier whose window contains now (the latest-starting one if several
+-- overlap), or the category's regular price when no tier applies
+CREATE OR REPLACE FUNCTION category_current_prices(p_event_id UUID)
+RETURNS TABLE (category_id UUID, tier_name TEXT, price_paise INTEGER)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.id AS category_id,
+    COALESCE(tier.name, 'Regular') AS tier_name,
+    COALESCE(tier.price_paise, c.price_paise) AS price_paise
+  FROM event_categories c
+  LEFT JOIN LATERAL (
+    SELECT t.name, t.price_paise
+    FROM pricing_tiers t
+    WHERE t.category_id = c.id
+      AND (t.starts_at IS NULL OR t.starts_at <= NOW())
+      AND (t.ends_at IS NULL OR t.ends_at > NOW())
+    ORDER BY t.starts_at DESC NULLS LAST
+    LIMIT 1
+  ) tier ON true
+  WHERE c.event_id = p_event_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION category_current_prices(UUID) TO anon, authenticated;
+
+-- Create function that prices a registration: the category's current tier
+-- price minus any promo code discount. Returns promo_error (and no discount)
+-- when the code cannot be used. This is the single source of truth for
+-- prices: the registration form's breakdown and the insert trigger below
+-- both call it. It reads promo codes and redemption counts, which are not
+-- visible to participants, so it runs as SECURITY DEFINER. It is deliberately
+-- VOLATILE so redemption counts are re-read after the trigger's row lock.
+CREATE OR REPLACE FUNCTION quote_registration_price(
+  p_category_id UUID,
+  p_promo_code TEXT DEFAULT NULL,
+  p_company_name TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  tier_name TEXT,
+  base_price_paise INTEGER,
+  discount_paise INTEGER,
+  total_paise INTEGER,
+  promo_code_id UUID,
+  promo_error TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  category_event_id UUID;
+  promo_record promo_codes%ROWTYPE;
+  redemptions INTEGER;
+BEGIN
+  SELECT c.event_id INTO category_event_id
+  FROM event_categories c
+  WHERE c.id = p_category_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown race category';
+  END IF;
+
+  SELECT cp.tier_name, cp.price_paise INTO tier_name, base_price_paise
+  FROM category_current_prices(category_event_id) cp
+  WHERE cp.category_id = p_category_id;
+
+  discount_paise := 0;
+
+  IF NULLIF(TRIM(p_promo_code), '') IS NOT NULL THEN
+    SELECT * INTO promo_record
+    FROM promo_codes p
+    WHERE p.code = UPPER(TRIM(p_promo_code));
+
+    IF NOT FOUND OR NOT promo_record.active THEN
+      promo_error := 'This promo code is not valid';
+    ELSIF promo_record.event_id IS NOT NULL AND promo_record.event_id <> category_event_id THEN
+      promo_error := 'This promo code is not valid for this event';
+    ELSIF promo_record.expires_at IS NOT NULL AND promo_record.expires_at <= NOW() THEN
+      promo_error := 'This promo code has expired';
+    ELSIF promo_record.company_name IS NOT NULL AND
+          NOT same_company(promo_record.company_name, p_company_name) THEN
+      promo_error := 'This promo code is only valid for ' || promo_record.company_name || ' employees';
+    ELSE
+      IF promo_record.max_redemptions IS NOT NULL THEN
+        SELECT COUNT(*) INTO redemptions
+        FROM registrations r
+        WHERE r.promo_code_id = promo_record.id
+          AND r.status <> 'cancelled';
+
+        IF redemptions >= promo_record.max_redemptions THEN
+          promo_error := 'This promo code has reached its usage limit';
+        END IF;
+      END IF;
+
+      IF promo_error IS NULL THEN
+        promo_code_id := promo_record.id;
+        discount_paise := LEAST(
+          base_price_paise,
+          CASE WHEN promo_record.discount_type = 'percent'
+            THEN ROUND(base_price_paise * promo_record.discount_value / 100.0)::INTEGER
+            ELSE promo_record.discount_value
+          END
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  total_paise := base_price_paise - discount_paise;
+  RETURN NEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION quote_registration_price(UUID, TEXT, TEXT) TO authenticated;
+
+-- Create function that records the price on every new registration.
+-- Participants always get the price computed here, whatever they send; an
+-- invalid promo code rejects the insert. The promo code row is locked so
+-- concurrent redemptions are counted one at a time and usage limits hold.
+CREATE OR REPLACE FUNCTION apply_registration_pricing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  promo_code_text TEXT;
+  price_quote RECORD;
+BEGIN
+  IF NEW.category_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Admins and the server may set a price explicitly (e.g. complimentary entries)
+  IF NEW.price_paise IS NOT NULL AND
+     NOT (auth.jwt() ->> 'role' = 'authenticated' AND NOT is_admin()) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.promo_code_id IS NOT NULL THEN
+    SELECT code INTO promo_code_text
+    FROM promo_codes
+    WHERE id = NEW.promo_code_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'This promo code is not valid';
+    END IF;
+  END IF;
+
+  SELECT * INTO price_quote
+  FROM quote_registration_price(NEW.category_id, promo_code_text, NEW.company_name);
+
+  IF price_quote.promo_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', price_quote.promo_error;
+  END IF;
+
+  NEW.price_paise := price_quote.base_price_paise;
+  NEW.discount_paise := price_quote.discount_paise;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_registration_pricing_on_insert
+  BEFORE INSERT ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_registration_pricing();
+
+-- ============================================================================
+-- Bib numbers
+-- ============================================================================
+
+-- Create bib_ranges table: the bib numbers available to an event, either for
+-- one category (e.g. 10K Run: 1-999) or for the whole event (category_id
+-- NULL). Category ranges are used first, then event-wide ranges.
+CREATE TABLE IF NOT EXISTS bib_ranges (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES event_categories(id) ON DELETE CASCADE,
+  range_start INTEGER NOT NULL CHECK (range_start > 0),
+  range_end INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (range_end >= range_start)
+);
+
+-- Create index on event_id for resolving an event's ranges
+CREATE INDEX IF NOT EXISTS idx_bib_ranges_event_id ON bib_ranges(event_id, range_start);
+
+ALTER TABLE bib_ranges ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Only admins can view and manage bib ranges
+CREATE POLICY "Admins can manage bib ranges"
+  ON bib_ranges
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Create function that gives a registration the lowest free bib in its
+-- ranges when it becomes confirmed, and releases the bib when it is
+-- cancelled. An explicit bib set by an admin is kept. The event's bib ranges
+-- are locked so concurrent confirmations are numbered one at a time; the
+-- UNIQUE(event_id, bib_number) constraint backs this up. If no range is
+-- configured (or all are used up) the bib stays empty until an admin adds a
+-- range and runs assign_missing_bib_numbers().
+CREATE OR REPLACE FUNCTION set_bib_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  bib_range bib_ranges%ROWTYPE;
+  next_bib INTEGER;
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    NEW.bib_number := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status <> 'confirmed' OR NEW.bib_number IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM bib_ranges WHERE event_id = NEW.event_id FOR UPDATE;
+
+  FOR bib_range IN
+    SELECT * FROM bib_ranges
+    WHERE event_id = NEW.event_id
+      AND (category_id = NEW.category_id OR category_id IS NULL)
+    ORDER BY (category_id IS NULL), range_start
+  LOOP
+    SELECT n INTO next_bib
+    FROM generate_series(bib_range.range_start, bib_range.range_end) AS n
+    WHERE NOT EXISTS (
+      SELECT 1 FROM registrations r
+      WHERE r.event_id = NEW.event_id
+        AND r.bib_number = n
+        AND r.id <> NEW.id
+    )
+    ORDER BY n
+    LIMIT 1;
+
+    IF next_bib IS NOT NULL THEN
+      NEW.bib_number := next_bib;
+      RETURN NEW;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named so it runs after protect_registration_fields_on_update (BEFORE
+-- triggers fire in name order)
+CREATE TRIGGER set_bib_number_on_write
+  BEFORE INSERT OR UPDATE ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_bib_number();
+
+-- Create function that assigns bibs to an event's confirmed registrations
+-- that do not have one yet (e.g. after adding a range), in registration order.
+-- Returns the number of bibs assigned. Admins only.
+CREATE OR REPLACE FUNCTION assign_missing_bib_numbers(p_event_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  registration_id UUID;
+  assigned_count INTEGER := 0;
+  assigned_bib INTEGER;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can assign bib numbers';
+  END IF;
+
+  FOR registration_id IN
+    SELECT r.id FROM registrations r
+    WHERE r.event_id = p_event_id
+      AND r.status = 'confirmed'
+      AND r.bib_number IS NULL
+    ORDER BY r.registration_date, r.id
+  LOOP
+    -- The no-op update fires set_bib_number(), which picks the bib
+    UPDATE registrations r
+    SET bib_number = NULL
+    WHERE r.id = registration_id
+    RETURNING r.bib_number INTO assigned_bib;
+
+    IF assigned_bib IS NOT NULL THEN
+      assigned_count := assigned_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN assigned_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assign_missing_bib_numbers(UUID) TO authenticated;
+
+-- ============================================================================
+-- Payments
+-- ============================================================================
+
+-- Create payments table: one row per payment attempt (order) for a
+-- registration. Rows are written by the server with the service role key;
+-- a registration is confirmed only when a verified webhook marks its
+-- payment as captured.
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  registration_id UUID NOT NULL REFERENCES registrations(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_order_id TEXT NOT NULL,
+  provider_payment_id TEXT,
+  amount_paise INTEGER NOT NULL CHECK (amount_paise > 0),
+  currency TEXT NOT NULL DEFAULT 'INR',
+  status TEXT NOT NULL DEFAULT 'created' CHECK (status IN ('created', 'captured', 'failed', 'refunded')),
+  paid_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(provider, provider_order_id)
+);
+
+-- Create index on registration_id for looking up a registration's payments
+CREATE INDEX IF NOT EXISTS idx_payments_registration_id ON payments(registration_id, created_at DESC);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Users can view payments for their own registrations OR admins can view all
+CREATE POLICY "Users can view their own payments or admins can view all"
+  ON payments
+  FOR SELECT
+  USING (
+    is_admin() OR
+    EXISTS (
+      SELECT 1 FROM registrations r
+      WHERE r.id = payments.registration_id
+        AND r.user_id = auth.uid()
+    )
+  );
+
+-- Create trigger to automatically update updated_at on payments
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON payments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Race-day check-in
+-- ============================================================================
+
+-- Create function to check whether the current user may run check-in:
+-- volunteers (role "volunteer" in app metadata) and admins
+CREATE OR REPLACE FUNCTION is_checkin_staff()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT user_role() IN ('admin', 'volunteer');
+$$;
+
+-- Create checkins table: one row per checked-in registration, recording
+-- when, by which volunteer and on which device. UNIQUE(registration_id)
+-- keeps a single check-in per participant, so repeats can be reported.
+-- Check-ins are written only through record_checkin().
+CREATE TABLE IF NOT EXISTS checkins (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  registration_id UUID NOT NULL UNIQUE REFERENCES registrations(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  checked_in_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  checked_in_by UUID NOT NULL REFERENCES auth.users(id),
+  method TEXT NOT NULL CHECK (method IN ('qr', 'search')),
+  device_id TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create index on event_id for counting an event's check-ins
+CREATE INDEX IF NOT EXISTS idx_checkins_event_id ON checkins(event_id);
+
+ALTER TABLE checkins ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Check-in staff can view check-ins
+CREATE POLICY "Check-in staff can view check-ins"
+  ON checkins
+  FOR SELECT
+  USING (is_checkin_staff());
+
+-- Create policy: Check-in staff can look up registrations (name, T-shirt
+-- size, emergency contact) at the venue
+CREATE POLICY "Check-in staff can view registrations"
+  ON registrations
+  FOR SELECT
+  USING (is_checkin_staff());
+
+-- Create function that records a check-in for a confirmed registration.
+-- Check-ins made offline are synced later with the time they happened on
+-- the device (never later than now), so the same participant can arrive
+-- from two devices. The earliest check-in wins, ties going to the lower
+-- device id; the result says whether this check-in was recorded
+-- ('checked_in'), replaced a later one ('replaced') or lost to an earlier
+-- one ('duplicate'). Re-sending an already recorded check-in returns
+-- 'checked_in' again, so syncing is safe to retry. Check-in staff only.
+CREATE OR REPLACE FUNCTION record_checkin(
+  p_registration_id UUID,
+  p_method TEXT,
+  p_device_id TEXT,
+  p_checked_in_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (checked_in_at TIMESTAMPTZ, checked_in_by UUID, device_id TEXT, outcome TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  reg registrations%ROWTYPE;
+  existing checkins%ROWTYPE;
+  v_checked_in_at TIMESTAMPTZ := LEAST(COALESCE(p_checked_in_at, NOW()), NOW());
+  v_device_id TEXT := COALESCE(p_device_id, '');
+  v_outcome TEXT;
+BEGIN
+  IF NOT is_checkin_staff() THEN
+    RAISE EXCEPTION 'Only check-in staff can check participants in';
+  END IF;
+
+  SELECT * INTO reg FROM registrations r WHERE r.id = p_registration_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration not found';
+  END IF;
+  IF reg.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'This registration is % and cannot be checked in', reg.status;
+  END IF;
+
+  INSERT INTO checkins (registration_id, event_id, checked_in_at, checked_in_by, method, device_id)
+  VALUES (reg.id, reg.event_id, v_checked_in_at, auth.uid(), p_method, v_device_id)
+  ON CONFLICT (registration_id) DO NOTHING;
+
+  IF FOUND THEN
+    v_outcome := 'checked_in';
+  ELSE
+    SELECT * INTO existing FROM checkins c WHERE c.registration_id = reg.id FOR UPDATE;
+
+    IF existing.checked_in_at = v_checked_in_at
+       AND existing.device_id = v_device_id
+       AND existing.checked_in_by = auth.uid() THEN
+      v_outcome := 'checked_in';
+    ELSIF (v_checked_in_at, v_device_id) < (existing.checked_in_at, existing.device_id) THEN
+      UPDATE checkins c
+      SET checked_in_at = v_checked_in_at,
+          checked_in_by = auth.uid(),
+          method = p_method,
+          device_id = v_device_id
+      WHERE c.id = existing.id;
+      v_outcome := 'replaced';
+    ELSE
+      v_outcome := 'duplicate';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.checked_in_at, c.checked_in_by, c.device_id, v_outcome
+  FROM checkins c
+  WHERE c.registration_id = reg.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_checkin(UUID, TEXT, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- Publish check-ins to Supabase Realtime for the live counts on /admin
+ALTER PUBLICATION supabase_realtime ADD TABLE checkins;
+
+-- ============================================================================
+-- Race results
+-- ============================================================================
+
+-- Create race_results table: one timing result per participant, imported
+-- from the timing company's CSV and matched to a registration by bib.
+-- Name, company and category are copied from the registration so the
+-- public results pages never read registrations. Times are in milliseconds;
+-- splits are stored as [{ "label": "Split 5K", "time_ms": 1512000 }, ...].
+CREATE TABLE IF NOT EXISTS race_results (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  registration_id UUID NOT NULL UNIQUE REFERENCES registrations(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES event_categories(id) ON DELETE SET NULL,
+  bib_number INTEGER NOT NULL,
+  full_name TEXT NOT NULL,
+  company_name TEXT,
+  gender TEXT CHECK (gender IN ('M', 'F', 'X')),
+  gun_time_ms INTEGER NOT NULL CHECK (gun_time_ms > 0),
+  chip_time_ms INTEGER CHECK (chip_time_ms IS NULL OR chip_time_ms > 0),
+  splits JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(event_id, bib_number)
+);
+
+-- Create index on event_id and category_id for the results pages
+CREATE INDEX IF NOT EXISTS idx_race_results_event_id ON race_results(event_id, category_id);
+
+ALTER TABLE race_results ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Everyone can view results (they are published publicly)
+CREATE POLICY "Race results are viewable by everyone"
+  ON race_results
+  FOR SELECT
+  USING (true);
+
+-- Create policy: Only admins can manage results
+CREATE POLICY "Admins can manage race results"
+  ON race_results
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Create view ranking results within each race category, overall and by
+-- gender, by net time (chip time, or gun time when there is no chip time)
+CREATE OR REPLACE VIEW race_result_rankings
+WITH (security_invoker = true)
+AS
+SELECT
+  r.*,
+  COALESCE(r.chip_time_ms, r.gun_time_ms) AS net_time_ms,
+  RANK() OVER category_window AS category_rank,
+  COUNT(*) OVER (PARTITION BY r.event_id, r.category_id) AS category_finishers,
+  CASE WHEN r.gender IS NOT NULL THEN RANK() OVER gender_window END AS gender_rank,
+  CASE WHEN r.gender IS NOT NULL THEN COUNT(*) OVER (PARTITION BY r.event_id, r.category_id, r.gender) END AS gender_finishers
+FROM race_results r
+WINDOW
+  category_window AS (PARTITION BY r.event_id, r.category_id ORDER BY COALESCE(r.chip_time_ms, r.gun_time_ms)),
+  gender_window AS (PARTITION BY r.event_id, r.category_id, r.gender ORDER BY COALESCE(r.chip_time_ms, r.gun_time_ms));
+
+GRANT SELECT ON race_result_rankings TO anon, authenticated;
+
+-- Create function that replaces an event's results with an imported set.
+-- p_results is a JSON array of { bib_number, gun_time_ms, chip_time_ms,
+-- gender, splits }; rows are matched to the event's registrations by bib.
+-- Returns the number of results stored and the bibs that matched no
+-- registration. If no row matches, the previous results are kept. Runs in
+-- one transaction, so a failed import also keeps them. Admins only.
+CREATE OR REPLACE FUNCTION import_race_results(p_event_id UUID, p_results JSONB)
+RETURNS TABLE (imported INTEGER, unmatched_bibs INTEGER[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_imported INTEGER;
+  v_unmatched INTEGER[];
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can import results';
+  END IF;
+
+  SELECT COALESCE(array_agg(x.bib_number ORDER BY x.bib_number), '{}')
+  INTO v_unmatched
+  FROM jsonb_to_recordset(p_results) AS x(bib_number INTEGER)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM registrations reg
+    WHERE reg.event_id = p_event_id
+      AND reg.bib_number = x.bib_number
+  );
+
+  IF cardinality(v_unmatched) = jsonb_array_length(p_results) THEN
+    RETURN QUERY SELECT 0, v_unmatched;
+    RETURN;
+  END IF;
+
+  DELETE FROM race_results WHERE event_id = p_event_id;
+
+  INSERT INTO race_results (
+    event_id, registration_id, category_id, bib_number, full_name, company_name,
+    gender, gun_time_ms, chip_time_ms, splits
+  )
+  SELECT
+    p_event_id, reg.id, reg.category_id, reg.bib_number, reg.full_name, reg.company_name,
+    x.gender, x.gun_time_ms, x.chip_time_ms, COALESCE(x.splits, '[]'::jsonb)
+  FROM jsonb_to_recordset(p_results)
+    AS x(bib_number INTEGER, gun_time_ms INTEGER, chip_time_ms INTEGER, gender TEXT, splits JSONB)
+  JOIN registrations reg
+    ON reg.event_id = p_event_id
+   AND reg.bib_number = x.bib_number;
+
+  GET DIAGNOSTICS v_imported = ROW_COUNT;
+  RETURN QUERY SELECT v_imported, v_unmatched;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION import_race_results(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- Company directory
+-- ============================================================================
+
+-- Create function that reduces a company name to the key used to match its
+-- spelling variants: lower case, punctuation removed and legal suffixes
+-- dropped, so "Infosys Ltd.", "INFOSYS" and "Infosys Limited" share the key
+-- "infosys". Returns NULL for a blank name.
+CREATE OR REPLACE FUNCTION company_key(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(btrim(regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(COALESCE(p_name, '')), '[^a-z0-9]+', ' ', 'g'),
+      '\m(the|pvt|private|ltd|limited|inc|incorporated|llc|llp|corp|corporation|co|company|plc|gmbh)\M', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  )), '');
+$$;
+
+-- Create function returning the keys of a list of names (used for aliases)
+CREATE OR REPLACE FUNCTION company_keys(p_names TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT k) FILTER (WHERE k IS NOT NULL), '{}')
+  FROM unnest(p_names) AS n, company_key(n) AS k;
+$$;
+
+-- Create companies table: the canonical company directory. Registrations
+-- are matched to a company by name or alias (compared by company key), and
+-- new names create a company automatically so admins can merge duplicates
+-- later. email_domains (lower case, e.g. "infosys.com") suggest the company
+-- from a participant's corporate email. headcount is optional and used for
+-- the participation rate on the leaderboard.
+CREATE TABLE IF NOT EXISTS companies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  name_key TEXT GENERATED ALWAYS AS (company_key(name)) STORED UNIQUE,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  alias_keys TEXT[] GENERATED ALWAYS AS (company_keys(aliases)) STORED,
+  email_domains TEXT[] NOT NULL DEFAULT '{}',
+  logo_url TEXT,
+  headcount INTEGER CHECK (headcount IS NULL OR headcount > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for matching names to companies by alias and email domain
+CREATE INDEX IF NOT EXISTS idx_companies_alias_keys ON companies USING GIN (alias_keys);
+CREATE INDEX IF NOT EXISTS idx_companies_email_domains ON companies USING GIN (email_domains);
+
+-- Link registrations to their company. company_name keeps the company's
+-- canonical name for display and exports.
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS company_id UUID REFERENCES companies(id) ON DELETE RESTRICT;
+CREATE INDEX IF NOT EXISTS idx_registrations_company_id ON registrations(company_id);
+
+ALTER TABLE companies ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Everyone can view the company directory (used for
+-- autocomplete on the sign-up and registration forms)
+CREATE POLICY "Companies are viewable by everyone"
+  ON companies
+  FOR SELECT
+  USING (true);
+
+-- Create policy: Only admins can create, edit or delete companies
+CREATE POLICY "Admins can manage companies"
+  ON companies
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Create trigger to automatically update updated_at on companies
+CREATE TRIGGER update_companies_updated_at
+  BEFORE UPDATE ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Create function returning the company a name belongs to (by name or
+-- alias), or NULL if there is none
+CREATE OR REPLACE FUNCTION find_company(p_name TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM companies c
+  WHERE c.name_key = company_key(p_name)
+     OR company_key(p_name) = ANY(c.alias_keys)
+  ORDER BY (c.name_key = company_key(p_name)) DESC
+  LIMIT 1;
+$$;
+
+-- Create function returning whether two company names refer to the same
+-- company (e.g. for company-restricted promo codes)
+CREATE OR REPLACE FUNCTION same_company(p_name TEXT, p_other_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    company_key(p_name) = company_key(p_other_name) OR find_company(p_name) = find_company(p_other_name),
+    false
+  );
+$$;
+
+-- Create function returning the company a name belongs to, adding it to
+-- the directory if it is new. Participants cannot write to companies, so
+-- this runs as SECURITY DEFINER.
+CREATE OR REPLACE FUNCTION find_or_create_company(p_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id UUID;
+BEGIN
+  IF company_key(p_name) IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_company_id := find_company(p_name);
+  IF v_company_id IS NULL THEN
+    INSERT INTO companies (name)
+    VALUES (btrim(regexp_replace(p_name, '\s+', ' ', 'g')))
+    ON CONFLICT (name_key) DO NOTHING
+    RETURNING id INTO v_company_id;
+
+    -- Another registration created it at the same moment
+    IF v_company_id IS NULL THEN
+      v_company_id := find_company(p_name);
+    END IF;
+  END IF;
+
+  RETURN v_company_id;
+END;
+$$;
+
+-- Create function that links every registration to its company and
+-- stores the company's canonical name. Participants only type a name; the
+-- company is always looked up from it. Admins and the server may set
+-- company_id directly (e.g. when merging companies).
+CREATE OR REPLACE FUNCTION set_registration_company()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND
+     NEW.company_name IS NOT DISTINCT FROM OLD.company_name AND
+     NEW.company_id IS NOT DISTINCT FROM OLD.company_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.company_id IS NULL OR
+     (TG_OP = 'UPDATE' AND NEW.company_id IS NOT DISTINCT FROM OLD.company_id) OR
+     (current_user = 'authenticated' AND NOT is_admin()) THEN
+    NEW.company_id := find_or_create_company(NEW.company_name);
+  END IF;
+
+  IF NEW.company_id IS NOT NULL THEN
+    SELECT c.name INTO NEW.company_name FROM companies c WHERE c.id = NEW.company_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_registration_company
+  BEFORE INSERT OR UPDATE ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_registration_company();
+
+-- Create function searching the directory for the autocomplete: companies
+-- whose name or an alias contains the query, and the company whose email
+-- domain matches p_email (listed first). Returns at most 8 companies.
+CREATE OR REPLACE FUNCTION search_companies(p_query TEXT, p_email TEXT DEFAULT NULL)
+RETURNS TABLE (id UUID, name TEXT, logo_url TEXT, matched_alias TEXT, domain_match BOOLEAN)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      '%' || replace(replace(replace(btrim(COALESCE(p_query, '')), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+      btrim(COALESCE(p_query, '')) <> '' AS has_query,
+      NULLIF(lower(split_part(COALESCE(p_email, ''), '@', 2)), '') AS domain
+  )
+  SELECT
+    c.id,
+    c.name,
+    c.logo_url,
+    CASE WHEN c.name NOT ILIKE p.pattern THEN
+      (SELECT a FROM unnest(c.aliases) AS a WHERE a ILIKE p.pattern LIMIT 1)
+    END,
+    COALESCE(p.domain = ANY(c.email_domains), false)
+  FROM companies c, params p
+  WHERE (p.has_query AND (c.name ILIKE p.pattern OR EXISTS (
+          SELECT 1 FROM unnest(c.aliases) AS a WHERE a ILIKE p.pattern)))
+     OR p.domain = ANY(c.email_domains)
+  ORDER BY COALESCE(p.domain = ANY(c.email_domains), false) DESC, c.name
+  LIMIT 8;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_companies(TEXT, TEXT) TO anon, authenticated;
+
+-- Create function that merges a duplicate company into another: its name,
+-- aliases and email domains become the target's aliases and domains, its
+-- registrations (and their results), coordinators, employee roster and
+-- leaderboard snapshots move to the target, and it is deleted. Admins only.
+CREATE OR REPLACE FUNCTION merge_companies(p_source_id UUID, p_target_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source companies%ROWTYPE;
+  v_target companies%ROWTYPE;
+  v_moved INTEGER;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge companies';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'A company cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_source FROM companies WHERE id = p_source_id FOR UPDATE;
+  SELECT * INTO v_target FROM companies WHERE id = p_target_id FOR UPDATE;
+  IF v_source.id IS NULL OR v_target.id IS NULL THEN
+    RAISE EXCEPTION 'Company not found';
+  END IF;
+
+  UPDATE registrations
+  SET company_id = v_target.id
+  WHERE company_id = v_source.id;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+
+  UPDATE race_results rr
+  SET company_name = v_target.name
+  FROM registrations r
+  WHERE r.id = rr.registration_id
+    AND r.company_id = v_target.id;
+
+  -- Coordinators, rosters and leaderboard snapshots are deleted with the
+  -- company, so they move to the target too; where both have a row, the
+  -- target's is kept
+  DELETE FROM company_coordinators s
+  USING company_coordinators t
+  WHERE s.company_id = v_source.id
+    AND t.company_id = v_target.id
+    AND t.user_id = s.user_id;
+
+  UPDATE company_coordinators
+  SET company_id = v_target.id
+  WHERE company_id = v_source.id;
+
+  DELETE FROM employee_rosters s
+  USING employee_rosters t
+  WHERE s.company_id = v_source.id
+    AND t.company_id = v_target.id
+    AND t.employee_id = s.employee_id;
+
+  UPDATE employee_rosters
+  SET company_id = v_target.id
+  WHERE company_id = v_source.id;
+
+  DELETE FROM company_leaderboard_snapshots s
+  USING company_leaderboard_snapshots t
+  WHERE s.company_id = v_source.id
+    AND t.company_id = v_target.id
+    AND t.event_id = s.event_id
+    AND t.taken_on = s.taken_on;
+
+  UPDATE company_leaderboard_snapshots
+  SET company_id = v_target.id, company_name = v_target.name
+  WHERE company_id = v_source.id;
+
+  DELETE FROM companies WHERE id = v_source.id;
+
+  UPDATE companies
+  SET
+    aliases = ARRAY(
+      SELECT DISTINCT a FROM unnest(v_target.aliases || v_source.name || v_source.aliases) AS a
+      WHERE company_key(a) IS DISTINCT FROM v_target.name_key
+      ORDER BY a
+    ),
+    email_domains = ARRAY(
+      SELECT DISTINCT d FROM unnest(v_target.email_domains || v_source.email_domains) AS d ORDER BY d
+    ),
+    logo_url = COALESCE(v_target.logo_url, v_source.logo_url),
+    headcount = COALESCE(v_target.headcount, v_source.headcount)
+  WHERE id = v_target.id;
+
+  RETURN v_moved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_companies(UUID, UUID) TO authenticated;
+
+-- Link registrations created before the company directory existed
+UPDATE registrations
+SET company_id = find_or_create_company(company_name)
+WHERE company_id IS NULL;
+
+-- ============================================================================
+-- Company leaderboard
+-- ============================================================================
+
+-- Create company_leaderboard_snapshots table: the leaderboard as it stood
+-- on a given day, taken weekly so movers can be announced. Ranks are by
+-- number of registrants.
+CREATE TABLE IF NOT EXISTS company_leaderboard_snapshots (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  taken_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  company_name TEXT NOT NULL,
+  rank INTEGER NOT NULL,
+  registrants INTEGER NOT NULL,
+  finishers INTEGER NOT NULL,
+  participation_rate NUMERIC(5, 1),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(event_id, taken_on, company_id)
+);
+
+-- Create index for finding an event's latest snapshots
+CREATE INDEX IF NOT EXISTS idx_company_leaderboard_snapshots_event_id
+  ON company_leaderboard_snapshots(event_id, taken_on DESC);
+
+ALTER TABLE company_leaderboard_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Everyone can view leaderboard snapshots (they hold the
+-- same aggregates as the public leaderboard)
+CREATE POLICY "Leaderboard snapshots are viewable by everyone"
+  ON company_leaderboard_snapshots
+  FOR SELECT
+  USING (true);
+
+-- Create function returning the company leaderboard of an event: per
+-- company, the number of registrants (pending or confirmed), finishers,
+-- average finishing time and pace, and participation rate against the
+-- company's headcount when one is set. Optionally limited to one race
+-- category (average times only compare like with like within a category).
+-- Registrations are protected by RLS, so this runs as SECURITY DEFINER and
+-- returns aggregates only.
+CREATE OR REPLACE FUNCTION company_leaderboard(p_event_id UUID, p_category_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  company_id UUID,
+  company_name TEXT,
+  logo_url TEXT,
+  registrants BIGINT,
+  finishers BIGINT,
+  average_time_ms INTEGER,
+  average_pace_ms_per_km INTEGER,
+  headcount INTEGER,
+  participation_rate NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    co.id,
+    co.name,
+    co.logo_url,
+    COUNT(*),
+    COUNT(rr.id),
+    ROUND(AVG(COALESCE(rr.chip_time_ms, rr.gun_time_ms)))::INTEGER,
+    ROUND(AVG(COALESCE(rr.chip_time_ms, rr.gun_time_ms) / c.distance_km))::INTEGER,
+    co.headcount,
+    ROUND(COUNT(*) * 100.0 / co.headcount, 1)
+  FROM registrations r
+  JOIN companies co ON co.id = r.company_id
+  LEFT JOIN race_results rr ON rr.registration_id = r.id
+  LEFT JOIN event_categories c ON c.id = rr.category_id
+  WHERE r.event_id = p_event_id
+    AND r.status IN ('pending', 'confirmed')
+    AND (p_category_id IS NULL OR r.category_id = p_category_id)
+  GROUP BY co.id
+  ORDER BY COUNT(*) DESC, co.name;
+$$;
+
+GRANT EXECUTE ON FUNCTION company_leaderboard(UUID, UUID) TO anon, authenticated;
+
+-- Create function that records today's leaderboard of every event that has
+-- not yet taken place (or took place in the last week). Taking a second
+-- snapshot on the same day replaces the first. Callable by admins from
+-- /admin/leaderboard, and by pg_cron for the weekly snapshot (see
+-- SUPABASE_SETUP.md). Returns the number of rows recorded.
+CREATE OR REPLACE FUNCTION snapshot_company_leaderboards()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can take leaderboard snapshots';
+  END IF;
+
+  DELETE FROM company_leaderboard_snapshots s
+  USING events e
+  WHERE s.event_id = e.id
+    AND s.taken_on = CURRENT_DATE
+    AND e.event_date >= CURRENT_DATE - 7;
+
+  INSERT INTO company_leaderboard_snapshots (
+    event_id, taken_on, company_id, company_name, rank, registrants, finishers, participation_rate
+  )
+  SELECT
+    e.id, CURRENT_DATE, l.company_id, l.company_name,
+    RANK() OVER (PARTITION BY e.id ORDER BY l.registrants DESC),
+    l.registrants, l.finishers, l.participation_rate
+  FROM events e
+  CROSS JOIN LATERAL company_leaderboard(e.id) l
+  WHERE e.event_date >= CURRENT_DATE - 7;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION snapshot_company_leaderboards() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION snapshot_company_leaderboards() TO authenticated;
+
+-- ============================================================================
+-- Corporate email verification
+-- ============================================================================
+
+-- Add column: when the participant proved they own the registration's
+-- corporate email (NULL = not verified)
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS corporate_email_verified_at TIMESTAMPTZ;
+
+-- Add column: when set, registrations for the company must use a
+-- corporate email at one of its email_domains
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS require_email_domain BOOLEAN NOT NULL DEFAULT false;
+
+-- Create corporate_email_verifications table: one-time codes (and link
+-- tokens) sent to a participant's corporate email. Only hashes are stored.
+-- A code expires after 30 minutes or 5 attempts.
+CREATE TABLE IF NOT EXISTS corporate_email_verifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  code_hash TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  verified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create index for finding a participant's codes for an email
+CREATE INDEX IF NOT EXISTS idx_corporate_email_verifications_user_email
+  ON corporate_email_verifications(user_id, email, created_at DESC);
+
+-- RLS without policies: codes are only read and written by the server
+-- (service role), since a code hash is easy to reverse
+ALTER TABLE corporate_email_verifications ENABLE ROW LEVEL SECURITY;
+
+-- Create function returning when a user verified an email, or NULL if they
+-- have not. Participants can only ask about themselves.
+CREATE OR REPLACE FUNCTION corporate_email_verified_at(p_user_id UUID, p_email TEXT)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT MIN(v.verified_at)
+  FROM corporate_email_verifications v
+  WHERE v.user_id = p_user_id
+    AND v.email = lower(btrim(p_email))
+    AND v.verified_at IS NOT NULL
+    AND (auth.uid() IS NULL OR auth.uid() = p_user_id OR is_admin());
+$$;
+
+REVOKE EXECUTE ON FUNCTION corporate_email_verified_at(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION corporate_email_verified_at(UUID, TEXT) TO authenticated;
+
+-- Create function counting an attempt at a code before it is checked:
+-- returns the new number of attempts, or NULL if the code has none left.
+-- A single UPDATE, so concurrent guesses cannot all read
+-- the same count and get past the limit. Server only.
+CREATE OR REPLACE FUNCTION use_email_verification_attempt(p_verification_id UUID, p_max_attempts INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE corporate_email_verifications
+  SET attempts = attempts + 1
+  WHERE id = p_verification_id
+    AND attempts < p_max_attempts
+  RETURNING attempts;
+$$;
+
+REVOKE EXECUTE ON FUNCTION use_email_verification_attempt(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Create function checking a participant's corporate email: it must be
+-- verified, and at one of the company's domains when the company requires
+-- it (checked again when the registration's company changes). Participants cannot set corporate_email_verified_at themselves; it is
+-- copied from their verifications. Admins and the server may set it.
+CREATE OR REPLACE FUNCTION set_registration_email_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_company companies%ROWTYPE;
+BEGIN
+  IF current_user <> 'authenticated' OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.corporate_email IS NOT DISTINCT FROM OLD.corporate_email THEN
+    NEW.corporate_email_verified_at := OLD.corporate_email_verified_at;
+
+    -- The email was checked already; check its domain again only if the
+    -- registration moved to another company
+    IF NEW.company_id IS NOT DISTINCT FROM OLD.company_id AND
+       NEW.company_name IS NOT DISTINCT FROM OLD.company_name THEN
+      RETURN NEW;
+    END IF;
+  ELSE
+    NEW.corporate_email_verified_at := corporate_email_verified_at(NEW.user_id, NEW.corporate_email);
+    IF NEW.corporate_email_verified_at IS NULL THEN
+      RAISE EXCEPTION 'Please verify your corporate email before registering';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = NEW.company_id;
+  IF v_company.require_email_domain AND cardinality(v_company.email_domains) > 0 AND
+     NOT lower(split_part(NEW.corporate_email, '@', 2)) = ANY(v_company.email_domains) THEN
+    RAISE EXCEPTION '% registrations need a corporate email at %',
+      v_company.name, array_to_string(v_company.email_domains, ', ');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fires after set_registration_company (triggers run in name order), so
+-- the company is already resolved
+CREATE TRIGGER set_registration_email_verification
+  BEFORE INSERT OR UPDATE ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION set_registration_email_verification();
+
+-- ============================================================================
+-- Employee rosters
+-- ============================================================================
+
+-- Create company_coordinators table: people who manage a company's entries
+-- on its behalf (e.g. HR), such as uploading its employee roster. Admins
+-- add coordinators.
+CREATE TABLE IF NOT EXISTS company_coordinators (
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (company_id, user_id)
+);
+
+-- Create index for finding a user's companies
+CREATE INDEX IF NOT EXISTS idx_company_coordinators_user_id ON company_coordinators(user_id);
+
+ALTER TABLE company_coordinators ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Coordinators can see their own companies; admins can see all
+CREATE POLICY "Coordinators can view their own companies or admins can view all"
+  ON company_coordinators
+  FOR SELECT
+  USING (user_id = auth.uid() OR is_admin());
+
+-- Create policy: Only admins can add or remove coordinators
+CREATE POLICY "Admins can manage company coordinators"
+  ON company_coordinators
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Create function returning whether the current user coordinates a company.
+-- SECURITY DEFINER so policies on other tables can call it.
+CREATE OR REPLACE FUNCTION is_company_coordinator(p_company_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM company_coordinators
+    WHERE company_id = p_company_id
+      AND user_id = auth.uid()
+  );
+$$;
+
+-- Create employee_rosters table: the employee IDs and emails a company has
+-- uploaded. Registrations for the company are checked against it.
+CREATE TABLE IF NOT EXISTS employee_rosters (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  employee_id TEXT NOT NULL CHECK (btrim(employee_id) <> ''),
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(company_id, employee_id)
+);
+
+-- Create index for matching registrations by email
+CREATE INDEX IF NOT EXISTS idx_employee_rosters_company_email ON employee_rosters(company_id, email);
+
+ALTER TABLE employee_rosters ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Only the company's coordinators and admins can read or
+-- change its roster
+CREATE POLICY "Coordinators and admins can manage employee rosters"
+  ON employee_rosters
+  FOR ALL
+  USING (is_admin() OR is_company_coordinator(company_id))
+  WITH CHECK (is_admin() OR is_company_coordinator(company_id));
+
+-- Add column: result of checking the registration against its company's
+-- roster. NULL when the company has no roster; 'pending_review' holds the
+-- registration as pending until a coordinator or admin approves it.
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS roster_status TEXT
+  CHECK (roster_status IN ('matched', 'pending_review', 'approved', 'rejected'));
+
+-- Create index for the review queue
+CREATE INDEX IF NOT EXISTS idx_registrations_roster_review
+  ON registrations(company_id)
+  WHERE roster_status = 'pending_review';
+
+-- Create function checking an employee ID and email against a company's
+-- roster: NULL if the company has no roster, 'matched' if the roster has
+-- the employee ID with the same email, otherwise 'pending_review'. Employee
+-- IDs are compared ignoring case and surrounding spaces. Outside triggers it
+-- only answers the company's coordinators and admins, so participants
+-- cannot probe the roster.
+CREATE OR REPLACE FUNCTION check_employee_roster(p_company_id UUID, p_employee_id TEXT, p_email TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN NOT (pg_trigger_depth() > 0 OR is_admin() OR is_company_coordinator(p_company_id)) THEN NULL
+    WHEN NOT EXISTS (SELECT 1 FROM employee_rosters WHERE company_id = p_company_id) THEN NULL
+    WHEN EXISTS (
+      SELECT 1 FROM employee_rosters
+      WHERE company_id = p_company_id
+        AND lower(btrim(employee_id)) = lower(btrim(p_employee_id))
+        AND email = lower(btrim(p_email))
+    ) THEN 'matched'
+    ELSE 'pending_review'
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_employee_roster(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION check_employee_roster(UUID, TEXT, TEXT) TO authenticated;
+
+-- Create function that checks registrations against their company's roster
+-- and holds mismatches as pending. Participants cannot set roster_status;
+-- it is recomputed whenever the employee ID, email or company changes.
+-- Admins confirming a held registration approve it; anyone else (e.g. the
+-- payment webhook) leaves it pending until it is reviewed.
+CREATE OR REPLACE FUNCTION hold_registration_for_roster_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_participant BOOLEAN := current_user = 'authenticated' AND NOT is_admin();
+  v_company_id UUID;
+BEGIN
+  IF TG_OP = 'INSERT' OR
+     NEW.employee_id IS DISTINCT FROM OLD.employee_id OR
+     NEW.corporate_email IS DISTINCT FROM OLD.corporate_email OR
+     NEW.company_name IS DISTINCT FROM OLD.company_name OR
+     NEW.company_id IS DISTINCT FROM OLD.company_id THEN
+    IF v_participant OR NEW.roster_status IS NOT DISTINCT FROM
+       (CASE WHEN TG_OP = 'UPDATE' THEN OLD.roster_status END) THEN
+      -- set_registration_company runs after this trigger, so resolve the
+      -- company the same way it will
+      IF NEW.company_id IS NULL OR v_participant OR
+         (TG_OP = 'UPDATE' AND NEW.company_id IS NOT DISTINCT FROM OLD.company_id) THEN
+        v_company_id := find_company(NEW.company_name);
+      ELSE
+        v_company_id := NEW.company_id;
+      END IF;
+      NEW.roster_status := check_employee_roster(v_company_id, NEW.employee_id, NEW.corporate_email);
+    END IF;
+  ELSIF v_participant THEN
+    NEW.roster_status := OLD.roster_status;
+  END IF;
+
+  IF NEW.roster_status = 'pending_review' AND NEW.status = 'confirmed' AND
+     (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'confirmed') THEN
+    IF is_admin() THEN
+      NEW.roster_status := 'approved';
+    ELSE
+      NEW.status := 'pending';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fires after assign_registration_status_on_insert and before
+-- set_bib_number_on_write (triggers run in name order), so a held
+-- registration never gets a bib
+CREATE TRIGGER hold_registration_for_roster_review
+  BEFORE INSERT OR UPDATE ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION hold_registration_for_roster_review();
+
+-- Create function that releases a held registration: records the roster
+-- status and confirms the registration if it is pending with nothing left
+-- to pay (free, or its payment was captured while it was held)
+CREATE OR REPLACE FUNCTION release_roster_hold(p_registration_id UUID, p_roster_status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE registrations r
+  SET roster_status = p_roster_status,
+      status = CASE
+        WHEN r.status = 'pending' AND (
+          COALESCE(r.price_paise, (SELECT c.price_paise FROM event_categories c WHERE c.id = r.category_id), 0)
+            - r.discount_paise <= 0 OR
+          EXISTS (SELECT 1 FROM payments p WHERE p.registration_id = r.id AND p.status = 'captured')
+        ) THEN 'confirmed'
+        ELSE r.status
+      END
+  WHERE r.id = p_registration_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION release_roster_hold(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create function that replaces a company's roster and re-checks its held
+-- registrations, releasing those that now match. Coordinators of the
+-- company and admins only. p_rows is a JSON array of
+-- { employee_id, email } objects.
+CREATE OR REPLACE FUNCTION replace_employee_roster(p_company_id UUID, p_rows JSONB)
+RETURNS TABLE (imported INTEGER, released INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_imported INTEGER;
+  v_released INTEGER := 0;
+  v_registration registrations%ROWTYPE;
+BEGIN
+  IF NOT (is_admin() OR is_company_coordinator(p_company_id)) THEN
+    RAISE EXCEPTION 'Only the company''s coordinators and admins can upload its roster';
+  END IF;
+
+  DELETE FROM employee_rosters WHERE company_id = p_company_id;
+
+  INSERT INTO employee_rosters (company_id, employee_id, email, uploaded_by)
+  SELECT p_company_id, btrim(row ->> 'employee_id'), lower(btrim(row ->> 'email')), auth.uid()
+  FROM jsonb_array_elements(p_rows) AS row;
+
+  GET DIAGNOSTICS v_imported = ROW_COUNT;
+
+  FOR v_registration IN
+    SELECT * FROM registrations
+    WHERE company_id = p_company_id
+      AND roster_status = 'pending_review'
+    FOR UPDATE
+  LOOP
+    IF check_employee_roster(p_company_id, v_registration.employee_id, v_registration.corporate_email) = 'matched' THEN
+      PERFORM release_roster_hold(v_registration.id, 'matched');
+      v_released := v_released + 1;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT v_imported, v_released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION replace_employee_roster(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION replace_employee_roster(UUID, JSONB) TO authenticated;
+
+-- Create function that approves or rejects a registration held for roster
+-- review. Approving releases the hold; rejecting cancels the registration,
+-- freeing its seat. The participant is notified either way. Coordinators of
+-- the registration's company and admins only.
+CREATE OR REPLACE FUNCTION review_roster_mismatch(p_registration_id UUID, p_approve BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_registration registrations%ROWTYPE;
+  v_event events%ROWTYPE;
+BEGIN
+  SELECT * INTO v_registration
+  FROM registrations
+  WHERE id = p_registration_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT (is_admin() OR is_company_coordinator(v_registration.company_id)) THEN
+    RAISE EXCEPTION 'Registration not found';
+  END IF;
+
+  IF v_registration.roster_status IS DISTINCT FROM 'pending_review' THEN
+    RAISE EXCEPTION 'This registration is not waiting for review';
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = v_registration.event_id;
+
+  IF p_approve THEN
+    PERFORM release_roster_hold(p_registration_id, 'approved');
+  ELSE
+    UPDATE registrations
+    SET roster_status = 'rejected', status = 'cancelled'
+    WHERE id = p_registration_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, link)
+  VALUES (
+    v_registration.user_id,
+    CASE WHEN p_approve THEN 'roster_approved' ELSE 'roster_rejected' END,
+    CASE WHEN p_approve THEN 'Employee details approved' ELSE 'Registration not approved' END,
+    CASE WHEN p_approve
+      THEN v_registration.company_name || ' approved your registration for ' ||
+        v_event.name || ' - ' || v_event.edition || '.'
+      ELSE v_registration.company_name || ' could not match your employee ID to its records, so your registration for ' ||
+        v_event.name || ' - ' || v_event.edition || ' was cancelled. Please contact us if this is a mistake.'
+    END,
+    '/dashboard?event=' || v_event.slug
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION review_roster_mismatch(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_roster_mismatch(UUID, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- Company coordinator portal
+-- ============================================================================
+
+-- Create policy: Company coordinators can view their company's
+-- registrations (the /company portal). Combined with the existing SELECT
+-- policies, so participants still see their own and admins see all.
+CREATE POLICY "Company coordinators can view their company's registrations"
+  ON registrations
+  FOR SELECT
+  USING (company_id IS NOT NULL AND is_company_coordinator(company_id));
+
+-- Create function listing a company's coordinators with their account
+-- details. Admins only.
+CREATE OR REPLACE FUNCTION company_coordinator_accounts(p_company_id UUID)
+RETURNS TABLE (user_id UUID, email TEXT, full_name TEXT, added_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view company coordinators';
+  END IF;
+
+  RETURN QUERY
+  SELECT cc.user_id, u.email::TEXT, (u.raw_user_meta_data ->> 'full_name'), cc.created_at
+  FROM company_coordinators cc
+  JOIN auth.users u ON u.id = cc.user_id
+  WHERE cc.company_id = p_company_id
+  ORDER BY cc.created_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION company_coordinator_accounts(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION company_coordinator_accounts(UUID) TO authenticated;
+
+-- Create function making the user with an email a coordinator of a company
+-- and giving them the company_coordinator role (admins keep theirs). The
+-- user must already have an account. Admins only.
+CREATE OR REPLACE FUNCTION add_company_coordinator(p_company_id UUID, p_email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can add company coordinators';
+  END IF;
+
+  SELECT id INTO v_user_id
+  FROM auth.users
+  WHERE lower(email) = lower(btrim(p_email));
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account uses %; ask them to sign up first', btrim(p_email);
+  END IF;
+
+  INSERT INTO company_coordinators (company_id, user_id)
+  VALUES (p_company_id, v_user_id)
+  ON CONFLICT DO NOTHING;
+
+  UPDATE auth.users
+  SET raw_app_meta_data = COALESCE(raw_app_meta_data, '{}'::jsonb) || '{"role": "company_coordinator"}'::jsonb
+  WHERE id = v_user_id
+    AND COALESCE(raw_app_meta_data ->> 'role', 'user') NOT IN ('admin', 'company_coordinator');
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION add_company_coordinator(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION add_company_coordinator(UUID, TEXT) TO authenticated;
+
+-- Create function removing a coordinator from a company. Users left
+-- coordinating no company lose the company_coordinator role. Admins only.
+CREATE OR REPLACE FUNCTION remove_company_coordinator(p_company_id UUID, p_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can remove company coordinators';
+  END IF;
+
+  DELETE FROM company_coordinators
+  WHERE company_id = p_company_id
+    AND user_id = p_user_id;
+
+  UPDATE auth.users
+  SET raw_app_meta_data = raw_app_meta_data - 'role'
+  WHERE id = p_user_id
+    AND raw_app_meta_data ->> 'role' = 'company_coordinator'
+    AND NOT EXISTS (SELECT 1 FROM company_coordinators WHERE user_id = p_user_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION remove_company_coordinator(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION remove_company_coordinator(UUID, UUID) TO authenticated;
+
+-- ============================================================================
+-- Team registration
+-- ============================================================================
+
+-- Add column: the company captain (coordinator) who registered the
+-- participant as part of a team, or NULL if they registered themselves
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS registered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Create function looking up an account by email, for team registration:
+-- employees who already have an account are invited to register under it
+-- instead of being sent a new one. Server only (service role).
+CREATE OR REPLACE FUNCTION find_user_by_email(p_email TEXT)
+RETURNS TABLE (id UUID, confirmed BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id, u.email_confirmed_at IS NOT NULL
+  FROM auth.users u
+  WHERE lower(u.email) = lower(btrim(p_email))
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_user_by_email(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create team_invitations table: team registrations for employees who
+-- already have an account. The registration is only made when the employee
+-- accepts the invitation from their dashboard, so a captain cannot register
+-- someone's account without them. Submitting the employee again replaces
+-- the invitation. Written by the server (service role).
+CREATE TABLE IF NOT EXISTS team_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  category_id UUID NOT NULL REFERENCES event_categories(id) ON DELETE CASCADE,
+  full_name TEXT NOT NULL,
+  corporate_email TEXT NOT NULL,
+  employee_id TEXT NOT NULL,
+  company_name TEXT NOT NULL,
+  tshirt_size TEXT NOT NULL,
+  emergency_contact TEXT NOT NULL,
+  emergency_phone TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(event_id, user_id)
+);
+
+ALTER TABLE team_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Employees can view their own invitations
+CREATE POLICY "Users can view their own team invitations"
+  ON team_invitations
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Create policy: Employees can decline their own invitations
+CREATE POLICY "Users can decline their own team invitations"
+  ON team_invitations
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- Registration status management
+-- ============================================================================
+
+-- Add columns: why and when an admin last changed the registration's status
+-- (shown to the participant), and which admin did it
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS status_reason TEXT;
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+ALTER TABLE registrations ADD COLUMN IF NOT EXISTS status_changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Create policy: Admins can update any registration (e.g. bib numbers).
+-- Status changes go through set_registration_status() below.
+CREATE POLICY "Admins can update registrations"
+  ON registrations
+  FOR UPDATE
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Create function changing the status of one or more registrations. Admins only.
+-- - confirm: pending or waitlisted registrations become confirmed (e.g. paid
+--   at the desk); admins may confirm past capacity
+-- - cancel: any registration that is not cancelled; a reason is required
+-- - reinstate: cancelled registrations take a seat again, as pending if the
+--   entry fee is still unpaid, or join the waitlist if the event or category
+--   is full
+-- Registrations the action does not apply to are skipped. Each participant
+-- whose registration changed is notified, with the reason if one was given.
+-- Returns the changed registrations and their new status.
+CREATE OR REPLACE FUNCTION set_registration_status(p_ids UUID[], p_action TEXT, p_reason TEXT DEFAULT NULL)
+RETURNS TABLE (id UUID, status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reason TEXT := NULLIF(btrim(p_reason), '');
+  v_registration registrations%ROWTYPE;
+  v_event events%ROWTYPE;
+  v_category event_categories%ROWTYPE;
+  v_status TEXT;
+  v_full BOOLEAN;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change registration statuses';
+  END IF;
+
+  IF p_action NOT IN ('confirm', 'cancel', 'reinstate') THEN
+    RAISE EXCEPTION 'Unknown status action %', p_action;
+  END IF;
+
+  IF p_action = 'cancel' AND v_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to cancel a registration';
+  END IF;
+
+  FOR v_registration IN
+    SELECT r.* FROM registrations r
+    WHERE r.id = ANY(p_ids)
+    ORDER BY r.registration_date, r.id
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_event FROM events e WHERE e.id = v_registration.event_id FOR UPDATE;
+
+    IF p_action = 'confirm' THEN
+      CONTINUE WHEN v_registration.status NOT IN ('pending', 'waitlisted');
+      v_status := 'confirmed';
+    ELSIF p_action = 'cancel' THEN
+      CONTINUE WHEN v_registration.status = 'cancelled';
+      v_status := 'cancelled';
+    ELSE
+      CONTINUE WHEN v_registration.status <> 'cancelled';
+
+      SELECT * INTO v_category FROM event_categories c WHERE c.id = v_registration.category_id;
+      v_full :=
+        (v_event.capacity IS NOT NULL AND
+          (SELECT COUNT(*) FROM registrations r
+           WHERE r.event_id = v_event.id AND r.status IN ('pending', 'confirmed')) >= v_event.capacity) OR
+        (v_category.capacity IS NOT NULL AND
+          (SELECT COUNT(*) FROM registrations r
+           WHERE r.category_id = v_category.id AND r.status IN ('pending', 'confirmed')) >= v_category.capacity);
+
+      v_status := CASE
+        WHEN v_full THEN 'waitlisted'
+        WHEN COALESCE(v_registration.price_paise, v_category.price_paise, 0) - v_registration.discount_paise > 0 AND
+             NOT EXISTS (SELECT 1 FROM payments p WHERE p.registration_id = v_registration.id AND p.status = 'captured')
+          THEN 'pending'
+        ELSE 'confirmed'
+      END;
+    END IF;
+
+    -- Triggers may adjust the status (e.g. registrations held for roster
+    -- review stay pending), so report what was stored
+    UPDATE registrations r
+    SET status = v_status,
+        status_reason = v_reason,
+        status_changed_at = NOW(),
+        status_changed_by = auth.uid()
+    WHERE r.id = v_registration.id
+    RETURNING r.status INTO v_status;
+
+    INSERT INTO notifications (user_id, type, title, body, link)
+    VALUES (
+      v_registration.user_id,
+      'status_' || v_status,
+      CASE v_status
+        WHEN 'confirmed' THEN 'Registration confirmed'
+        WHEN 'cancelled' THEN 'Registration cancelled'
+        WHEN 'waitlisted' THEN 'Registration reinstated to the waitlist'
+        ELSE 'Registration reinstated'
+      END,
+      'The organisers ' ||
+        CASE v_status
+          WHEN 'confirmed' THEN 'confirmed'
+          WHEN 'cancelled' THEN 'cancelled'
+          ELSE 'reinstated'
+        END ||
+        ' your registration for ' || v_event.name || ' - ' || v_event.edition ||
+        CASE WHEN v_reason IS NOT NULL THEN ': ' || v_reason ELSE '.' END,
+      '/dashboard?event=' || v_event.slug
+    );
+
+    id := v_registration.id;
+    status := v_status;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_registration_status(UUID[], TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_registration_status(UUID[], TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- Audit log
+-- ============================================================================
+
+-- Create audit_log table: one row per change an admin makes to
+-- registrations, roles, content or settings, with the row before and after.
+-- Rows are written only by the record_audit_log() and record_role_change()
+-- triggers below, so changes made from the browser cannot skip the log.
+-- The table is append-only: nobody (not even the service role) can update
+-- or delete entries.
+CREATE TABLE IF NOT EXISTS audit_log (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  -- NULL when the change was made outside the app (SQL editor, Admin API)
+  actor_id UUID,
+  actor_email TEXT,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  target_table TEXT NOT NULL,
+  target_id TEXT,
+  old_data JSONB,
+  new_data JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for browsing the log newest first, by target and by actor
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_target ON audit_log(target_table, target_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id, created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Only admins can view the audit log. There are no insert,
+-- update or delete policies; the triggers write as the table owner.
+CREATE POLICY "Admins can view the audit log"
+  ON audit_log
+  FOR SELECT
+  USING (is_admin());
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON audit_log FROM PUBLIC, anon, authenticated, service_role;
+
+-- Create function that rejects changes to recorded entries
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_audit_log_update_delete
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+CREATE TRIGGER prevent_audit_log_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_audit_log_changes();
+
+-- Create function returning who is making the current change: the
+-- signed-in user, or the user the server (service role) says it is acting
+-- for. The server names them in the X-Actor-Id request header (see
+-- lib/supabase/admin.ts), or in the app.actor_id setting from SQL. NULL for
+-- the server acting on its own (e.g. payment webhooks) and the SQL editor.
+CREATE OR REPLACE FUNCTION audit_actor_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    auth.uid(),
+    CASE WHEN auth.jwt() ->> 'role' = 'service_role' THEN
+      COALESCE(
+        NULLIF(current_setting('app.actor_id', true), ''),
+        NULLIF(current_setting('request.headers', true), '')::jsonb ->> 'x-actor-id'
+      )::UUID
+    END
+  );
+$$;
+
+-- Create trigger function that records a change to an audited table when it
+-- is made by an admin, by the server on a user's behalf (e.g. a captain
+-- registering their team), or directly in the database (no signed-in user
+-- or service key, e.g. the SQL editor). Changes participants and
+-- coordinators make themselves and the server makes on its own (registering,
+-- paying) are not admin changes and are not recorded. Updates that change
+-- nothing but updated_at are skipped. The first trigger argument names the
+-- column identifying the row (default id).
+CREATE OR REPLACE FUNCTION record_audit_log()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_key TEXT := COALESCE(TG_ARGV[0], 'id');
+  v_actor_id UUID := audit_actor_id();
+BEGIN
+  IF NOT (
+    is_admin() OR
+    auth.jwt() IS NULL OR
+    (auth.jwt() ->> 'role' = 'service_role' AND v_actor_id IS NOT NULL)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (v_old - 'updated_at') = (v_new - 'updated_at') THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (actor_id, actor_email, action, target_table, target_id, old_data, new_data)
+  VALUES (
+    v_actor_id,
+    COALESCE(auth.jwt() ->> 'email', (SELECT email FROM auth.users WHERE id = v_actor_id)),
+    lower(TG_OP),
+    TG_TABLE_NAME,
+    COALESCE(v_new, v_old) ->> v_key,
+    v_old,
+    v_new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Audit admin changes to registrations and to content and settings
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON event_categories
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON pricing_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON promo_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON bib_ranges
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON companies
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON company_coordinators
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log('user_id');
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON race_results
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+CREATE TRIGGER record_audit_log
+  AFTER INSERT OR UPDATE OR DELETE ON employee_rosters
+  FOR EACH ROW
+  EXECUTE FUNCTION record_audit_log();
+
+-- Create trigger function that records every change to a user's role,
+-- whoever makes it (the app, the SQL editor or the Admin API). Only the
+-- email and role are stored, never the rest of the account.
+CREATE OR REPLACE FUNCTION record_role_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO audit_log (actor_id, actor_email, action, target_table, target_id, old_data, new_data)
+  VALUES (
+    audit_actor_id(),
+    COALESCE(auth.jwt() ->> 'email', (SELECT email FROM auth.users WHERE id = audit_actor_id())),
+    'update',
+    'users',
+    NEW.id::TEXT,
+    jsonb_build_object('email', OLD.email, 'role', OLD.raw_app_meta_data ->> 'role'),
+    jsonb_build_object('email', NEW.email, 'role', NEW.raw_app_meta_data ->> 'role')
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_role_change
+  AFTER UPDATE OF raw_app_meta_data ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.raw_app_meta_data ->> 'role' IS DISTINCT FROM NEW.raw_app_meta_data ->> 'role')
+  EXECUTE FUNCTION record_role_change();
+
+-- ============================================================================
+-- Admin registration search
+-- ============================================================================
+
+-- Create function returning an event's registrations matching the admin
+-- table's search and facet filters. NULL (or empty) parameters match
+-- everything. The search looks for the text in the name, email, employee
+-- ID, emergency phone (digits only, ignoring spaces and dashes), company
+-- name or any name or alias of the linked company, and matches the bib
+-- exactly. Returns registrations rows, so PostgREST can embed payments and
+-- companies and sort, paginate and count the result. Runs with the
+-- caller's rights, so RLS decides which registrations are visible.
+CREATE OR REPLACE FUNCTION search_admin_registrations(
+  p_event_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_tshirt_sizes TEXT[] DEFAULT NULL,
+  p_company_ids UUID[] DEFAULT NULL,
+  p_category_ids UUID[] DEFAULT NULL,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL
+)
+RETURNS SETOF registrations
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH params AS (
+    SELECT
+      '%' || replace(replace(replace(btrim(COALESCE(p_query, '')), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern,
+      btrim(COALESCE(p_query, '')) <> '' AS has_query,
+      NULLIF(regexp_replace(COALESCE(p_query, ''), '\D', '', 'g'), '') AS digits
+  )
+  SELECT r.*
+  FROM registrations r
+  CROSS JOIN params p
+  LEFT JOIN companies c ON c.id = r.company_id
+  WHERE r.event_id = p_event_id
+    AND (COALESCE(cardinality(p_statuses), 0) = 0 OR r.status = ANY(p_statuses))
+    AND (COALESCE(cardinality(p_tshirt_sizes), 0) = 0 OR r.tshirt_size = ANY(p_tshirt_sizes))
+    AND (COALESCE(cardinality(p_company_ids), 0) = 0 OR r.company_id = ANY(p_company_ids))
+    AND (COALESCE(cardinality(p_category_ids), 0) = 0 OR r.category_id = ANY(p_category_ids))
+    AND (p_from IS NULL OR r.registration_date >= p_from)
+    AND (p_to IS NULL OR r.registration_date < p_to + 1)
+    AND (
+      NOT p.has_query
+      OR r.full_name ILIKE p.pattern
+      OR r.corporate_email ILIKE p.pattern
+      OR r.employee_id ILIKE p.pattern
+      OR r.company_name ILIKE p.pattern
+      OR c.name ILIKE p.pattern
+      OR EXISTS (SELECT 1 FROM unnest(c.aliases) AS a WHERE a ILIKE p.pattern)
+      OR (p.digits IS NOT NULL AND regexp_replace(r.emergency_phone, '\D', '', 'g') LIKE '%' || p.digits || '%')
+      OR (btrim(p_query) ~ '^\d{1,9}$' AND r.bib_number = btrim(p_query)::INTEGER)
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION search_admin_registrations(UUID, TEXT, TEXT[], TEXT[], UUID[], UUID[], DATE, DATE) TO authenticated;
+
+-- Create function returning the facet counts for the admin table: how many
+-- matching registrations have each status, T-shirt size, company and
+-- category. Each facet is counted with every filter except its own, so
+-- the counts show what ticking another option would add.
+CREATE OR REPLACE FUNCTION admin_registration_facets(
+  p_event_id UUID,
+  p_query TEXT DEFAULT NULL,
+  p_statuses TEXT[] DEFAULT NULL,
+  p_tshirt_sizes TEXT[] DEFAULT NULL,
+  p_company_ids UUID[] DEFAULT NULL,
+  p_category_ids UUID[] DEFAULT NULL,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (facet TEXT, value TEXT, label TEXT, count BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT 'status', r.status, r.status, COUNT(*)
+  FROM search_admin_registrations(p_event_id, p_query, NULL, p_tshirt_sizes, p_company_ids, p_category_ids, p_from, p_to) r
+  GROUP BY r.status
+
+  UNION ALL
+
+  SELECT 'tshirt_size', r.tshirt_size, r.tshirt_size, COUNT(*)
+  FROM search_admin_registrations(p_event_id, p_query, p_statuses, NULL, p_company_ids, p_category_ids, p_from, p_to) r
+  GROUP BY r.tshirt_size
+
+  UNION ALL
+
+  SELECT 'company', r.company_id::TEXT, COALESCE(MIN(c.name), MIN(r.company_name)), COUNT(*)
+  FROM search_admin_registrations(p_event_id, p_query, p_statuses, p_tshirt_sizes, NULL, p_category_ids, p_from, p_to) r
+  LEFT JOIN companies c ON c.id = r.company_id
+  WHERE r.company_id IS NOT NULL
+  GROUP BY r.company_id
+
+  UNION ALL
+
+  SELECT 'category', r.category_id::TEXT, MIN(ec.name), COUNT(*)
+  FROM search_admin_registrations(p_event_id, p_query, p_statuses, p_tshirt_sizes, p_company_ids, NULL, p_from, p_to) r
+  LEFT JOIN event_categories ec ON ec.id = r.category_id
+  WHERE r.category_id IS NOT NULL
+  GROUP BY r.category_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_registration_facets(UUID, TEXT, TEXT[], TEXT[], UUID[], UUID[], DATE, DATE) TO authenticated;
+
+-- ============================================================================
+-- Saved admin views
+-- ============================================================================
+
+-- Create admin_views table: named layouts of the admin registrations table.
+-- `params` holds the table's URL search parameters (search, facet filters,
+-- dates, sort, page size and columns, e.g. "status=confirmed&cols=bib_number,
+-- full_name"), so opening a view is just loading /admin with them. A view is
+-- private to the admin who saved it unless `shared` is set, in which case
+-- every admin can open it; only its owner can change or delete it.
+CREATE TABLE IF NOT EXISTS admin_views (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+  shared BOOLEAN NOT NULL DEFAULT false,
+  params TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(owner_id, name)
+);
+
+-- Create index for listing shared views
+CREATE INDEX IF NOT EXISTS idx_admin_views_shared ON admin_views(shared) WHERE shared;
+
+ALTER TABLE admin_views ENABLE ROW LEVEL SECURITY;
+
+-- Create policy: Admins can view their own views and shared views
+CREATE POLICY "Admins can view their own and shared views"
+  ON admin_views
+  FOR SELECT
+  USING (is_admin() AND (owner_id = auth.uid() OR shared));
+
+-- Create policy: Admins can save views as themselves
+CREATE POLICY "Admins can create their own views"
+  ON admin_views
+  FOR INSERT
+  WITH CHECK (is_admin() AND owner_id = auth.uid());
+
+-- Create policy: Admins can change their own views
+CREATE POLICY "Admins can update their own views"
+  ON admin_views
+  FOR UPDATE
+  USING (is_admin() AND owner_id = auth.uid())
+  WITH CHECK (is_admin() AND owner_id = auth.uid());
+
+-- Create policy: Admins can delete their own views
+CREATE POLICY "Admins can delete their own views"
+  ON admin_views
+  FOR DELETE
+  USING (is_admin() AND owner_id = auth.uid());
+
+CREATE TRIGGER update_admin_views_updated_at
+  BEFORE UPDATE ON admin_views
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- Admin registration import
+-- ============================================================================
+
+-- Create function importing an event's registrations from a spreadsheet
+-- (walk-in and offline entries). p_rows is a JSON array of { line,
+-- user_id, category_id, full_name, corporate_email, employee_id,
+-- company_name, tshirt_size, emergency_contact, emergency_phone }, where
+-- line is the row in the admin's file; the server finds or creates the
+-- accounts beforehand. Each row goes through the registration triggers
+-- (company, pricing, capacity, roster check) as if the admin had entered
+-- it, and free registrations not held for roster review are confirmed.
+-- Runs in one transaction: if any row fails nothing is imported, and the
+-- error names the row ("Row 7: ..."). Returns each row's registration and
+-- status. Admins only.
+CREATE OR REPLACE FUNCTION import_registrations(p_event_id UUID, p_rows JSONB)
+RETURNS TABLE (line INTEGER, id UUID, status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row JSONB;
+  v_registration registrations%ROWTYPE;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can import registrations';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_rows)
+  LOOP
+    BEGIN
+      INSERT INTO registrations (
+        user_id, event_id, category_id, full_name, corporate_email, employee_id, company_name,
+        tshirt_size, emergency_contact, emergency_phone, registered_by, registration_date
+      )
+      VALUES (
+        (v_row ->> 'user_id')::UUID, p_event_id, (v_row ->> 'category_id')::UUID,
+        v_row ->> 'full_name', lower(btrim(v_row ->> 'corporate_email')), v_row ->> 'employee_id',
+        v_row ->> 'company_name', v_row ->> 'tshirt_size', v_row ->> 'emergency_contact',
+        v_row ->> 'emergency_phone', auth.uid(), NOW()
+      )
+      RETURNING * INTO v_registration;
+    EXCEPTION
+      WHEN unique_violation THEN
+        RAISE EXCEPTION 'Row %: already registered for this event', v_row ->> 'line';
+      WHEN OTHERS THEN
+        RAISE EXCEPTION 'Row %: %', v_row ->> 'line', SQLERRM;
+    END;
+
+    -- Free registrations have nothing to pay for, unless held for roster review
+    IF v_registration.status = 'pending' AND
+       COALESCE(v_registration.price_paise, 0) - v_registration.discount_paise <= 0 AND
+       v_registration.roster_status IS DISTINCT FROM 'pending_review' THEN
+      UPDATE registrations r
+      SET status = 'confirmed'
+      WHERE r.id = v_registration.id
+      RETURNING r.status INTO v_registration.status;
+    END IF;
+
+    line := (v_row ->> 'line')::INTEGER;
+    id := v_registration.id;
+    status := v_registration.status;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_registrations(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_registrations(UUID, JSONB) TO authenticated;
+
+-- Seed the current edition so existing deployments keep working.
+-- Add future editions (Spring/Fall) with additional INSERTs.
+INSERT INTO events (slug, name, edition, event_date, start_time, venue, description, course_info, registration_opens_at, registration_closes_at)
+VALUES (
+  'fall-2024',
+  'The Silicon Mile 5K',
+  'Fall Edition',
+  '2024-09-28',
+  '06:30',
+  'Hyderabad Tech Park',
+  'Join Hyderabad''s premier corporate wellness run. Run, network, and celebrate health with the tech community.',
+  'A flat, scenic 5K loop through Hyderabad Tech Park. Please arrive 30 minutes early for warm-up.',
+  '2024-09-01T00:00:00+05:30',
+  '2024-09-26T23:59:59+05:30'
+)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Seed the categories offered at the current edition
+INSERT INTO event_categories (event_id, name, distance_km, start_time, price_paise, sort_order)
+SELECT e.id, c.name, c.distance_km, c.start_time::TIME, c.price_paise, c.sort_order
+FROM events e
+CROSS JOIN (VALUES
+  ('10K Run', 10, '06:00', 79900, 1),
+  ('5K Run', 5, '06:30', 49900, 2),
+  ('3K Walk', 3, '07:00', 29900, 3)
+) AS c(name, distance_km, start_time, price_paise, sort_order)
+WHERE e.slug = 'fall-2024'
+ON CONFLICT (event_id, name) DO NOTHING;
+
+-- Early bird pricing for the current edition: 20% off before October 1st
+INSERT INTO pricing_tiers (category_id, name, price_paise, ends_at)
+SELECT c.id, 'Early Bird', ROUND(c.price_paise * 0.8)::INTEGER, '2024-10-01T00:00:00+05:30'
+FROM event_categories c
+JOIN events e ON e.id = c.event_id
+WHERE e.slug = 'fall-2024'
+  AND NOT EXISTS (SELECT 1 FROM pricing_tiers t WHERE t.category_id = c.id);
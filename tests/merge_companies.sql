@@ -0,0 +1,99 @@
+-- ============================================================================
+-- Tests for merge_companies
+-- ============================================================================
+--
+-- Merges one company into another and checks that the merged company's
+-- coordinators, employee roster and leaderboard snapshots move to the
+-- company kept (keeping the kept company's row where both have one), that
+-- its name becomes an alias, and that it is deleted.
+--
+-- Run against a database with supabase_schema.sql applied:
+--
+--   psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f tests/merge_companies.sql
+--
+-- or paste it into the Supabase SQL editor. Everything runs in one
+-- transaction that is rolled back, so no test data is left behind. A failed
+-- check raises an exception naming it; success prints "merge_companies: ok".
+
+BEGIN;
+
+-- Act as an admin (merge_companies checks is_admin())
+SELECT set_config('request.jwt.claims', '{"role": "authenticated", "app_metadata": {"role": "admin"}}', true);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-4000-8000-000000000001', 'merge-test-both@example.com'),
+  ('00000000-0000-4000-8000-000000000002', 'merge-test-source@example.com');
+
+INSERT INTO events (id, slug, name, edition, event_date, venue, registration_opens_at, registration_closes_at)
+VALUES (
+  '00000000-0000-4000-8000-000000000010', 'merge-test', 'Merge Test Run', 'Test', CURRENT_DATE, 'Nowhere',
+  NOW() - INTERVAL '1 day', NOW() + INTERVAL '1 day'
+);
+
+INSERT INTO companies (id, name, aliases, email_domains) VALUES
+  ('00000000-0000-4000-8000-000000000020', 'Mergetest Source', '{"Mergetest S"}', '{"source.example.com"}'),
+  ('00000000-0000-4000-8000-000000000021', 'Mergetest Target', '{}', '{"target.example.com"}');
+
+-- One coordinator of both companies, one of the source only
+INSERT INTO company_coordinators (company_id, user_id) VALUES
+  ('00000000-0000-4000-8000-000000000020', '00000000-0000-4000-8000-000000000001'),
+  ('00000000-0000-4000-8000-000000000021', '00000000-0000-4000-8000-000000000001'),
+  ('00000000-0000-4000-8000-000000000020', '00000000-0000-4000-8000-000000000002');
+
+-- Employee E1 is on both rosters (with different emails), E2 on the source's only
+INSERT INTO employee_rosters (company_id, employee_id, email) VALUES
+  ('00000000-0000-4000-8000-000000000020', 'E1', 'e1@source.example.com'),
+  ('00000000-0000-4000-8000-000000000021', 'E1', 'e1@target.example.com'),
+  ('00000000-0000-4000-8000-000000000020', 'E2', 'e2@source.example.com');
+
+-- Both companies have a snapshot today, only the source one yesterday
+INSERT INTO company_leaderboard_snapshots (event_id, taken_on, company_id, company_name, rank, registrants, finishers)
+VALUES
+  ('00000000-0000-4000-8000-000000000010', CURRENT_DATE, '00000000-0000-4000-8000-000000000020', 'Mergetest Source', 2, 5, 0),
+  ('00000000-0000-4000-8000-000000000010', CURRENT_DATE, '00000000-0000-4000-8000-000000000021', 'Mergetest Target', 1, 9, 0),
+  ('00000000-0000-4000-8000-000000000010', CURRENT_DATE - 1, '00000000-0000-4000-8000-000000000020', 'Mergetest Source', 1, 4, 0);
+
+SELECT merge_companies('00000000-0000-4000-8000-000000000020', '00000000-0000-4000-8000-000000000021');
+
+DO $$
+DECLARE
+  v_source UUID := '00000000-0000-4000-8000-000000000020';
+  v_target UUID := '00000000-0000-4000-8000-000000000021';
+  v_company companies%ROWTYPE;
+BEGIN
+  IF EXISTS (SELECT 1 FROM companies WHERE id = v_source) THEN
+    RAISE EXCEPTION 'merged company was not deleted';
+  END IF;
+
+  SELECT * INTO v_company FROM companies WHERE id = v_target;
+  IF NOT v_company.aliases @> ARRAY['Mergetest Source', 'Mergetest S'] THEN
+    RAISE EXCEPTION 'merged company name and aliases were not added: %', v_company.aliases;
+  END IF;
+  IF v_company.email_domains <> ARRAY['source.example.com', 'target.example.com'] THEN
+    RAISE EXCEPTION 'email domains were not combined: %', v_company.email_domains;
+  END IF;
+
+  IF (SELECT array_agg(user_id ORDER BY user_id) FROM company_coordinators WHERE company_id = v_target)
+     IS DISTINCT FROM ARRAY['00000000-0000-4000-8000-000000000001', '00000000-0000-4000-8000-000000000002']::UUID[] THEN
+    RAISE EXCEPTION 'coordinators were not moved to the kept company';
+  END IF;
+
+  IF (SELECT array_agg(employee_id || ':' || email ORDER BY employee_id) FROM employee_rosters WHERE company_id = v_target)
+     IS DISTINCT FROM ARRAY['E1:e1@target.example.com', 'E2:e2@source.example.com'] THEN
+    RAISE EXCEPTION 'roster was not moved to the kept company, keeping its own entries';
+  END IF;
+
+  IF (SELECT array_agg(taken_on || ':' || company_name || ':' || registrants ORDER BY taken_on)
+      FROM company_leaderboard_snapshots WHERE company_id = v_target)
+     IS DISTINCT FROM ARRAY[
+       (CURRENT_DATE - 1) || ':Mergetest Target:4',
+       CURRENT_DATE || ':Mergetest Target:9'
+     ] THEN
+    RAISE EXCEPTION 'snapshots were not moved to the kept company, keeping its own';
+  END IF;
+
+  RAISE NOTICE 'merge_companies: ok';
+END;
+$$;
+
+ROLLBACK;
@@ -0,0 +1,57 @@
+/**
+ * Tests for the registration import error report
+ *
+ * Run with `npm test`.
+ */
+
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { parseCsv } from "@/lib/csv"
+import type { EventCategory } from "@/lib/events"
+import {
+  applyColumnMapping,
+  checkImportRows,
+  guessColumnMapping,
+  importErrorReport,
+} from "@/lib/registration-import"
+
+const categories: EventCategory[] = [
+  {
+    id: "00000000-0000-4000-8000-000000000001",
+    event_id: "00000000-0000-4000-8000-000000000010",
+    name: "5K Run",
+    distance_km: 5,
+    start_time: null,
+    capacity: null,
+    price_paise: 0,
+    sort_order: 1,
+  },
+]
+
+/**
+ * Maps and checks a CSV file as the import form does
+ */
+function checkFile(text: string) {
+  const [headers, ...rows] = parseCsv(text)
+  const importRows = applyColumnMapping(rows, guessColumnMapping(headers))
+  return { headers, rows, ...checkImportRows(importRows, categories, []) }
+}
+
+test("a phone starting with + survives the error report and re-import", () => {
+  const file = checkFile(
+    [
+      "Full Name,Corporate Email,Employee ID,Company Name,Race Category,T-shirt Size,Emergency Contact,Emergency Phone",
+      // The T-shirt size is wrong, so the row goes in the error report
+      'Asha Rao,asha@example.com,E1,"Acme, Inc.",5K Run,XXL,Ravi Rao,+91 98450 12345',
+    ].join("\r\n")
+  )
+  assert.equal(file.valid.length, 0)
+
+  const report = importErrorReport(file.headers, file.rows, file.checks)
+  const fixed = report.replace(",XXL,", ",M,")
+  const reimported = checkFile(fixed)
+
+  assert.deepEqual(reimported.checks[0].errors, [])
+  assert.equal(reimported.valid[0].data.emergencyPhone, "+91 98450 12345")
+  assert.equal(reimported.valid[0].data.companyName, "Acme, Inc.")
+})